@@ -0,0 +1,42 @@
+// Ordered tag rules allocating cost to teams, products and cost centers
+import { NextRequest, NextResponse } from 'next/server';
+import { INVALID_ALLOCATION_RULES_MESSAGE, parseAllocationRules } from '@/lib/allocation';
+import { loadAllocationRules, saveAllocationRules } from '@/lib/cost-allocation';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ rules: await loadAllocationRules() });
+  } catch (error) {
+    console.error('Allocation rule listing error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load allocation rules',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: { rules: [{ name?, tagKey, tagValues?, team?, product?, costCenter?, enabled? }] }, in evaluation order.
+// Replaces every rule.
+export async function PUT(request: NextRequest) {
+  try {
+    const rules = parseAllocationRules(await request.json().catch(() => null));
+    if (!rules) {
+      return NextResponse.json({ error: INVALID_ALLOCATION_RULES_MESSAGE }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, rules: await saveAllocationRules(rules) });
+
+  } catch (error) {
+    console.error('Allocation rule update error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save allocation rules',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
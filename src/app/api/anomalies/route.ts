@@ -0,0 +1,57 @@
+// Daily cost anomalies detected against each grouping's day-of-week adjusted baseline
+import { NextRequest, NextResponse } from 'next/server';
+import { getConnector, listConnectors } from '@/lib/connectors/registry';
+import { loadCostAnomalies, runAnomalyDetection } from '@/lib/cost-anomalies';
+import { sendNotification } from '@/lib/notifications/store';
+import { anomaliesEvent } from '@/lib/notifications/events';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = Number(searchParams.get('days') || 30);
+    const provider = searchParams.get('provider');
+    const definition = provider ? getConnector(provider) : undefined;
+
+    if (!Number.isInteger(days) || days < 1) {
+      return NextResponse.json({ error: 'Invalid days. Use a positive whole number' }, { status: 400 });
+    }
+    if (provider && !definition) {
+      return NextResponse.json(
+        { error: `Invalid provider. Use: ${listConnectors().map(c => c.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ anomalies: await loadCostAnomalies(days, definition?.provider) });
+
+  } catch (error) {
+    console.error('Cost anomaly listing error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load cost anomalies',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Run detection now instead of waiting for the daily scheduled scan
+export async function POST() {
+  try {
+    const { anomalies, newAnomalies } = await runAnomalyDetection();
+    // New anomalies are recorded already, so a failed notification is logged rather than failing the run
+    if (newAnomalies.length > 0) await sendNotification(anomaliesEvent(newAnomalies));
+    return NextResponse.json({ success: true, anomalies, newAnomalies: newAnomalies.length });
+
+  } catch (error) {
+    console.error('Cost anomaly detection error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to detect cost anomalies',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+// Update or delete one budget
+import { NextRequest, NextResponse } from 'next/server';
+import { INVALID_BUDGET_MESSAGE, parseBudgetInput } from '@/lib/budgets';
+import { deleteBudget, updateBudget } from '@/lib/budget-tracking';
+
+// Body: the full budget, as for POST /api/budgets
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    const input = parseBudgetInput(await request.json().catch(() => null));
+    if (!input) {
+      return NextResponse.json({ error: INVALID_BUDGET_MESSAGE }, { status: 400 });
+    }
+
+    const budget = await updateBudget(id, input);
+    if (!budget) {
+      return NextResponse.json({ error: `Unknown budget: ${id}` }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, budget });
+
+  } catch (error) {
+    console.error('Budget update error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update budget',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    if (!(await deleteBudget(id))) {
+      return NextResponse.json({ error: `Unknown budget: ${id}` }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Budget deletion error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete budget',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
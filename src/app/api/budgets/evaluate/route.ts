@@ -0,0 +1,25 @@
+// Evaluate budgets now and record newly crossed thresholds, as the scheduler does after each scan
+import { NextResponse } from 'next/server';
+import { evaluateBudgets } from '@/lib/budget-tracking';
+import { sendNotification } from '@/lib/notifications/store';
+import { budgetAlertEvent } from '@/lib/notifications/events';
+
+export async function POST() {
+  try {
+    const { statuses, alerts } = await evaluateBudgets();
+    // Recorded alerts are not raised again, so they are sent now rather than by the next
+    // scheduled run; a failed alert is logged and does not keep the others from being sent
+    for (const alert of alerts) await sendNotification(budgetAlertEvent(alert));
+    return NextResponse.json({ success: true, budgets: statuses, alerts });
+
+  } catch (error) {
+    console.error('Budget evaluation error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to evaluate budgets',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+// Budgets and the spend of their current period
+import { NextRequest, NextResponse } from 'next/server';
+import { INVALID_BUDGET_MESSAGE, parseBudgetInput } from '@/lib/budgets';
+import { createBudget, loadBudgetStatuses } from '@/lib/budget-tracking';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ budgets: await loadBudgetStatuses() });
+  } catch (error) {
+    console.error('Budget listing error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load budgets',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: { name, scope, scopeValue?, tagKey?, period, amount, currency?, thresholds?: [{ percent, basis }] }
+export async function POST(request: NextRequest) {
+  try {
+    const input = parseBudgetInput(await request.json().catch(() => null));
+    if (!input) {
+      return NextResponse.json({ error: INVALID_BUDGET_MESSAGE }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, budget: await createBudget(input) });
+
+  } catch (error) {
+    console.error('Budget creation error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create budget',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
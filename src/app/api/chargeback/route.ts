@@ -0,0 +1,75 @@
+// Monthly chargeback report per cost center, as JSON or CSV
+import { NextRequest, NextResponse } from 'next/server';
+import { getConnector, listConnectors } from '@/lib/connectors/registry';
+import { COST_CATEGORIES, COST_METRICS, defaultCostMetric, parseCostCategories, parseCostMetric } from '@/lib/focus';
+import { parseCurrency, reportingCurrency } from '@/lib/currency';
+import { loadCurrencyConverter } from '@/lib/exchange-rates';
+import { chargebackCsv, parseChargebackMonth } from '@/lib/allocation';
+import { loadChargebackReport } from '@/lib/cost-allocation';
+import { CloudProvider } from '@/types';
+
+const FORMATS = ['json', 'csv'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const month = parseChargebackMonth(searchParams.get('month'));
+    const metric = parseCostMetric(searchParams.get('metric') ?? defaultCostMetric());
+    const currency = parseCurrency(searchParams.get('currency') ?? reportingCurrency());
+    const categories = parseCostCategories(searchParams.getAll('category'));
+    const definitions = searchParams.getAll('provider').map(id => getConnector(id));
+    const format = searchParams.get('format') || 'json';
+
+    if (!month) {
+      return NextResponse.json({ error: 'Invalid month. Use: YYYY-MM' }, { status: 400 });
+    }
+    if (!metric) {
+      return NextResponse.json({ error: `Invalid cost metric. Use: ${COST_METRICS.join(', ')}` }, { status: 400 });
+    }
+    if (!currency) {
+      return NextResponse.json({ error: 'Invalid currency. Use a 3-letter ISO 4217 code' }, { status: 400 });
+    }
+    if (!categories) {
+      return NextResponse.json({ error: `Invalid cost category. Use: ${COST_CATEGORIES.join(', ')}` }, { status: 400 });
+    }
+    if (definitions.some(definition => !definition)) {
+      return NextResponse.json(
+        { error: `Invalid provider. Use: ${listConnectors().map(c => c.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json({ error: `Invalid format. Use: ${FORMATS.join(', ')}` }, { status: 400 });
+    }
+
+    const report = await loadChargebackReport(
+      month,
+      {
+        metric,
+        categories,
+        providers: definitions.map(definition => definition?.provider as CloudProvider),
+      },
+      await loadCurrencyConverter(currency)
+    );
+
+    if (format === 'csv') {
+      return new NextResponse(chargebackCsv(report), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="chargeback-${month}.csv"`,
+        },
+      });
+    }
+    return NextResponse.json(report);
+
+  } catch (error) {
+    console.error('Chargeback report error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to build chargeback report',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+// Scan a single provider with credentials supplied in the request body
+import { NextRequest, NextResponse } from 'next/server';
+import { getConnector, missingCredentials } from '@/lib/connectors/registry';
+import { scanConnector } from '@/lib/connectors/scan';
+import { COST_CATEGORIES, COST_METRICS, defaultCostMetric, parseCostCategories, parseCostMetric, summarizeFocusRecords } from '@/lib/focus';
+import { parseCurrency, reportingCurrency } from '@/lib/currency';
+import { loadCurrencyConverter } from '@/lib/exchange-rates';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider } = await params;
+  const definition = getConnector(provider);
+  const { searchParams } = new URL(request.url);
+  const costMetric = parseCostMetric(searchParams.get('metric') ?? defaultCostMetric());
+  const currency = parseCurrency(searchParams.get('currency') ?? reportingCurrency());
+  const categories = parseCostCategories(searchParams.getAll('category'));
+
+  if (!definition) {
+    return NextResponse.json(
+      { error: `Unknown provider: ${provider}` },
+      { status: 404 }
+    );
+  }
+
+  if (!costMetric) {
+    return NextResponse.json(
+      { error: `Invalid cost metric. Use: ${COST_METRICS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  if (!currency) {
+    return NextResponse.json(
+      { error: 'Invalid currency. Use a 3-letter ISO 4217 code' },
+      { status: 400 }
+    );
+  }
+
+  if (!categories) {
+    return NextResponse.json(
+      { error: `Invalid cost category. Use: ${COST_CATEGORIES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const credentials = await request.json();
+    const missing = missingCredentials(definition, credentials);
+
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Missing required ${definition.provider} credentials: ${missing.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Ad-hoc scans with request credentials are not persisted
+    const result = await scanConnector(definition.create(credentials), { persist: false, costMetric, currency, categories });
+
+    return NextResponse.json({
+      success: true,
+      assets: result.assets,
+      costSummary: {
+        ...summarizeFocusRecords(result.costRecords, costMetric, await loadCurrencyConverter(currency), categories),
+        unattributedCost: result.unattributedCost,
+      },
+      findings: result.findings,
+      pageCounts: result.pageCounts
+    });
+
+  } catch (error) {
+    console.error(`${definition.provider} scan error:`, error);
+    
+    return NextResponse.json(
+      { 
+        error: `Failed to scan ${definition.provider} resources`,
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+// Test a provider connection, with credentials from the request body or, when the
+// body is empty, the server-side configuration
+import { NextRequest, NextResponse } from 'next/server';
+import { getConnector, missingCredentials } from '@/lib/connectors/registry';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider } = await params;
+  const definition = getConnector(provider);
+
+  if (!definition) {
+    return NextResponse.json(
+      { error: `Unknown provider: ${provider}` },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const credentials = await request.json().catch(() => ({}));
+
+    let connector;
+    if (Object.keys(credentials).length > 0) {
+      const missing = missingCredentials(definition, credentials);
+      if (missing.length > 0) {
+        return NextResponse.json(
+          { error: `Missing required ${definition.provider} credentials: ${missing.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      connector = definition.create(credentials);
+    } else {
+      connector = definition.fromEnvironment();
+      if (!connector) {
+        return NextResponse.json(
+          { error: `${definition.provider} credentials not configured` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const result = await connector.testConnection();
+
+    return NextResponse.json({ provider: definition.provider, ...result });
+
+  } catch (error) {
+    console.error(`${definition.provider} connection test error:`, error);
+    return NextResponse.json(
+      {
+        error: `Failed to test ${definition.provider} connection`,
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+// Reserved Instance, Savings Plan and Azure reservation inventory, utilization and coverage
+import { NextRequest, NextResponse } from 'next/server';
+import { configuredConnectors } from '@/lib/connectors/registry';
+import { defaultCommitmentReportOptions, fetchCommitmentReport } from '@/lib/commitments';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const defaults = defaultCommitmentReportOptions();
+    const options = {
+      windowDays: Number(searchParams.get('windowDays')) || defaults.windowDays,
+      expiryDays: Number(searchParams.get('expiryDays')) || defaults.expiryDays,
+      utilizationThreshold: Number(searchParams.get('threshold')) || defaults.utilizationThreshold,
+    };
+
+    if (options.windowDays < 1 || options.windowDays > 365 || options.expiryDays < 1 || options.utilizationThreshold <= 0) {
+      return NextResponse.json(
+        { error: 'windowDays must be between 1 and 365, expiryDays and threshold positive' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await fetchCommitmentReport(configuredConnectors(), options));
+
+  } catch (error) {
+    console.error('Commitment report error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load commitments',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
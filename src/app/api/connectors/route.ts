@@ -0,0 +1,7 @@
+// Lists the registered cloud connectors, their credential fields and capabilities
+import { NextResponse } from 'next/server';
+import { describeConnector, listConnectors } from '@/lib/connectors/registry';
+
+export async function GET() {
+  return NextResponse.json({ connectors: listConnectors().map(describeConnector) });
+}
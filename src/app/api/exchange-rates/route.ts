@@ -0,0 +1,60 @@
+// Locally maintained exchange rate table used to convert costs into the reporting currency
+import { NextRequest, NextResponse } from 'next/server';
+import { ExchangeRate, reportingCurrency } from '@/lib/currency';
+import { loadExchangeRates, saveExchangeRates } from '@/lib/exchange-rates';
+
+export async function GET() {
+  try {
+    return NextResponse.json({
+      reportingCurrency: reportingCurrency(),
+      rates: await loadExchangeRates(),
+    });
+  } catch (error) {
+    console.error('Exchange rate listing error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load exchange rates',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: { rates: [{ baseCurrency, quoteCurrency, rate, effectiveDate }], source? }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const rates: ExchangeRate[] = Array.isArray(body.rates) ? body.rates : [];
+    const invalid = rates.filter(rate =>
+      !/^[A-Za-z]{3}$/.test(String(rate.baseCurrency)) ||
+      !/^[A-Za-z]{3}$/.test(String(rate.quoteCurrency)) ||
+      !(Number(rate.rate) > 0) ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(String(rate.effectiveDate))
+    );
+
+    if (rates.length === 0 || invalid.length > 0) {
+      return NextResponse.json(
+        { error: 'Expected rates with 3-letter baseCurrency and quoteCurrency, a positive rate and an effectiveDate (YYYY-MM-DD)' },
+        { status: 400 }
+      );
+    }
+
+    await saveExchangeRates(
+      rates.map(rate => ({ ...rate, rate: Number(rate.rate) })),
+      typeof body.source === 'string' ? body.source : undefined
+    );
+
+    return NextResponse.json({ success: true, saved: rates.length });
+
+  } catch (error) {
+    console.error('Exchange rate update error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save exchange rates',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
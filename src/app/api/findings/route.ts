@@ -0,0 +1,35 @@
+// Idle and orphaned resources found by the waste rules in each provider's latest scan
+import { NextRequest, NextResponse } from 'next/server';
+import { getConnector, listConnectors } from '@/lib/connectors/registry';
+import { loadWasteFindings } from '@/lib/waste-findings';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const provider = searchParams.get('provider');
+    const definition = provider ? getConnector(provider) : undefined;
+
+    if (provider && !definition) {
+      return NextResponse.json(
+        { error: `Invalid provider. Use: ${listConnectors().map(c => c.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const findings = await loadWasteFindings(definition?.provider);
+    return NextResponse.json({
+      findings,
+      totalMonthlyWaste: findings.reduce((sum, finding) => sum + finding.estimatedMonthlyWaste, 0),
+    });
+
+  } catch (error) {
+    console.error('Waste finding listing error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load waste findings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+// Month-end and quarter-end spend forecast from the stored daily cost history
+import { NextRequest, NextResponse } from 'next/server';
+import { getConnector, listConnectors } from '@/lib/connectors/registry';
+import { COST_CATEGORIES, COST_METRICS, defaultCostMetric, parseCostCategories, parseCostMetric } from '@/lib/focus';
+import { parseCurrency, reportingCurrency } from '@/lib/currency';
+import { loadCurrencyConverter } from '@/lib/exchange-rates';
+import { loadCostForecast } from '@/lib/cost-forecast';
+import { FORECAST_CONFIDENCE_LEVELS, defaultForecastOptions } from '@/lib/forecast';
+import { CloudProvider } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const metric = parseCostMetric(searchParams.get('metric') ?? defaultCostMetric());
+    const currency = parseCurrency(searchParams.get('currency') ?? reportingCurrency());
+    const categories = parseCostCategories(searchParams.getAll('category'));
+    const providerIds = searchParams.getAll('provider');
+    const definitions = providerIds.map(id => getConnector(id));
+    const defaults = defaultForecastOptions();
+    const confidence = Number(searchParams.get('confidence') || defaults.confidence);
+
+    if (!metric) {
+      return NextResponse.json({ error: `Invalid cost metric. Use: ${COST_METRICS.join(', ')}` }, { status: 400 });
+    }
+    if (!currency) {
+      return NextResponse.json({ error: 'Invalid currency. Use a 3-letter ISO 4217 code' }, { status: 400 });
+    }
+    if (!categories) {
+      return NextResponse.json({ error: `Invalid cost category. Use: ${COST_CATEGORIES.join(', ')}` }, { status: 400 });
+    }
+    if (definitions.some(definition => !definition)) {
+      return NextResponse.json(
+        { error: `Invalid provider. Use: ${listConnectors().map(c => c.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!FORECAST_CONFIDENCE_LEVELS.includes(confidence)) {
+      return NextResponse.json({ error: `Invalid confidence. Use: ${FORECAST_CONFIDENCE_LEVELS.join(', ')}` }, { status: 400 });
+    }
+
+    const report = await loadCostForecast(
+      {
+        metric,
+        categories,
+        providers: definitions.map(definition => definition?.provider as CloudProvider),
+      },
+      await loadCurrencyConverter(currency),
+      { ...defaults, confidence }
+    );
+    return NextResponse.json(report);
+
+  } catch (error) {
+    console.error('Spend forecast error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to forecast spend',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+// Offline AWS Cost and Usage Report import
+// Accepts CUR files as a multipart upload ("files") or a JSON body reading AWS_CUR_PATH or a directory inside it
+import { NextRequest, NextResponse } from 'next/server';
+import { CUR_FILE_EXTENSIONS, importAWSCurDirectory, importAWSCurFiles } from '@/lib/importers/aws-cur';
+import { loadUploadedFiles, resolveExportDirectory } from '@/lib/importers/common';
+import { chargePeriodRange, COST_METRICS, defaultCostMetric, parseCostMetric, summarizeFocusRecords } from '@/lib/focus';
+import { loadCurrencyConverter } from '@/lib/exchange-rates';
+import { saveCostLineItems } from '@/lib/connectors/save';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const persist = searchParams.get('persist') !== 'false';
+    const costMetric = parseCostMetric(searchParams.get('metric') ?? defaultCostMetric());
+
+    if (!costMetric) {
+      return NextResponse.json(
+        { error: `Invalid cost metric. Use: ${COST_METRICS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const contentType = request.headers.get('content-type') || '';
+
+    let rows;
+    if (contentType.includes('multipart/form-data')) {
+      const form = await request.formData();
+      const uploads = form.getAll('files').filter((f): f is File => f instanceof File);
+      const files = (await loadUploadedFiles(uploads)).filter(f =>
+        CUR_FILE_EXTENSIONS.some(ext => f.name.toLowerCase().endsWith(ext))
+      );
+
+      if (files.length === 0) {
+        return NextResponse.json(
+          { error: `No CUR files uploaded (expected ${CUR_FILE_EXTENSIONS.join(', ')})` },
+          { status: 400 }
+        );
+      }
+      rows = await importAWSCurFiles(files);
+    } else {
+      const body = await request.json();
+      const resolved = resolveExportDirectory(process.env.AWS_CUR_PATH, body.directory, 'AWS_CUR_PATH');
+
+      if ('error' in resolved) {
+        return NextResponse.json({ error: resolved.error }, { status: 400 });
+      }
+      rows = await importAWSCurDirectory(resolved.directory);
+    }
+
+    if (persist && rows.length > 0) {
+      await saveCostLineItems('AWS', rows, 'cur-import');
+    }
+
+    const converter = await loadCurrencyConverter();
+    const summary = summarizeFocusRecords(rows, costMetric, converter);
+
+    return NextResponse.json({
+      success: true,
+      provider: 'AWS',
+      rowCount: rows.length,
+      costMetric,
+      currency: summary.currency,
+      totalCost: summary.totalCost,
+      costByService: summary.costByService,
+      costByRegion: summary.costByRegion,
+      costByAccount: summary.costByAccount,
+      costByCategory: summary.costByCategory,
+      unconvertedCost: summary.unconvertedCost,
+      period: chargePeriodRange(rows),
+      persisted: persist,
+    });
+
+  } catch (error) {
+    console.error('AWS CUR import error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to import AWS CUR files',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+// Offline Azure Cost Management export import
+// Accepts export CSVs as a multipart upload ("files") or a JSON body reading AZURE_COST_EXPORT_PATH or a directory inside it
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AZURE_EXPORT_FILE_EXTENSIONS,
+  AzureExportType,
+  importAzureCostExportDirectory,
+  importAzureCostExportFiles
+} from '@/lib/importers/azure-export';
+import { loadUploadedFiles, resolveExportDirectory } from '@/lib/importers/common';
+import { chargePeriodRange, costByResource, COST_METRICS, defaultCostMetric, parseCostMetric, summarizeFocusRecords } from '@/lib/focus';
+import { loadCurrencyConverter } from '@/lib/exchange-rates';
+import { saveCostLineItems } from '@/lib/connectors/save';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const persist = searchParams.get('persist') !== 'false';
+    const type = (searchParams.get('type') || 'actual') as AzureExportType;
+    const costMetric = parseCostMetric(searchParams.get('metric') ?? defaultCostMetric());
+
+    if (type !== 'actual' && type !== 'amortized') {
+      return NextResponse.json(
+        { error: 'Invalid export type. Use: actual or amortized' },
+        { status: 400 }
+      );
+    }
+
+    if (!costMetric) {
+      return NextResponse.json(
+        { error: `Invalid cost metric. Use: ${COST_METRICS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const contentType = request.headers.get('content-type') || '';
+
+    let rows;
+    if (contentType.includes('multipart/form-data')) {
+      const form = await request.formData();
+      const uploads = form.getAll('files').filter((f): f is File => f instanceof File);
+      const files = (await loadUploadedFiles(uploads)).filter(f =>
+        AZURE_EXPORT_FILE_EXTENSIONS.some(ext => f.name.toLowerCase().endsWith(ext))
+      );
+
+      if (files.length === 0) {
+        return NextResponse.json(
+          { error: `No export files uploaded (expected ${AZURE_EXPORT_FILE_EXTENSIONS.join(', ')})` },
+          { status: 400 }
+        );
+      }
+      rows = await importAzureCostExportFiles(files, type);
+    } else {
+      const body = await request.json();
+      const resolved = resolveExportDirectory(process.env.AZURE_COST_EXPORT_PATH, body.directory, 'AZURE_COST_EXPORT_PATH');
+
+      if ('error' in resolved) {
+        return NextResponse.json({ error: resolved.error }, { status: 400 });
+      }
+      rows = await importAzureCostExportDirectory(resolved.directory, type);
+    }
+
+    if (persist && rows.length > 0) {
+      await saveCostLineItems('Azure', rows, `azure-export-${type}`);
+    }
+
+    const converter = await loadCurrencyConverter();
+    const summary = summarizeFocusRecords(rows, costMetric, converter);
+
+    return NextResponse.json({
+      success: true,
+      provider: 'Azure',
+      type,
+      rowCount: rows.length,
+      costMetric,
+      currency: summary.currency,
+      totalCost: summary.totalCost,
+      costByService: summary.costByService,
+      costByRegion: summary.costByRegion,
+      costByAccount: summary.costByAccount,
+      costByCategory: summary.costByCategory,
+      unconvertedCost: summary.unconvertedCost,
+      costByResource: costByResource(rows, costMetric, converter),
+      period: chargePeriodRange(rows),
+      persisted: persist,
+    });
+
+  } catch (error) {
+    console.error('Azure cost export import error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to import Azure cost export',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
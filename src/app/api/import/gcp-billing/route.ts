@@ -0,0 +1,92 @@
+// Offline GCP billing export import
+// Accepts BigQuery-schema billing rows (newline-delimited JSON or CSV) as a multipart
+// upload ("files") or a JSON body reading GCP_BILLING_EXPORT_PATH or a directory inside it
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  GCP_EXPORT_FILE_EXTENSIONS,
+  importGCPBillingExportDirectory,
+  importGCPBillingExportFiles
+} from '@/lib/importers/gcp-billing-export';
+import { loadUploadedFiles, resolveExportDirectory } from '@/lib/importers/common';
+import { chargePeriodRange, COST_METRICS, defaultCostMetric, parseCostMetric, recordCost, summarizeFocusRecords } from '@/lib/focus';
+import { loadCurrencyConverter } from '@/lib/exchange-rates';
+import { saveCostLineItems } from '@/lib/connectors/save';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const persist = searchParams.get('persist') !== 'false';
+    const costMetric = parseCostMetric(searchParams.get('metric') ?? defaultCostMetric());
+
+    if (!costMetric) {
+      return NextResponse.json(
+        { error: `Invalid cost metric. Use: ${COST_METRICS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const contentType = request.headers.get('content-type') || '';
+
+    let rows;
+    if (contentType.includes('multipart/form-data')) {
+      const form = await request.formData();
+      const uploads = form.getAll('files').filter((f): f is File => f instanceof File);
+      const files = (await loadUploadedFiles(uploads)).filter(f =>
+        GCP_EXPORT_FILE_EXTENSIONS.some(ext => f.name.toLowerCase().endsWith(ext))
+      );
+
+      if (files.length === 0) {
+        return NextResponse.json(
+          { error: `No billing export files uploaded (expected ${GCP_EXPORT_FILE_EXTENSIONS.join(', ')})` },
+          { status: 400 }
+        );
+      }
+      rows = await importGCPBillingExportFiles(files);
+    } else {
+      const body = await request.json();
+      const resolved = resolveExportDirectory(process.env.GCP_BILLING_EXPORT_PATH, body.directory, 'GCP_BILLING_EXPORT_PATH');
+
+      if ('error' in resolved) {
+        return NextResponse.json({ error: resolved.error }, { status: 400 });
+      }
+      rows = await importGCPBillingExportDirectory(resolved.directory);
+    }
+
+    if (persist && rows.length > 0) {
+      await saveCostLineItems('GCP', rows, 'gcp-billing-export');
+    }
+
+    const converter = await loadCurrencyConverter();
+    const summary = summarizeFocusRecords(rows, costMetric, converter);
+    const totalCredits = rows
+      .filter(row => row.chargeCategory === 'Credit')
+      .reduce((sum, row) => sum + (converter.convert(recordCost(row, costMetric), row.billingCurrency, row.chargePeriodStart) ?? 0), 0);
+
+    return NextResponse.json({
+      success: true,
+      provider: 'GCP',
+      rowCount: rows.length,
+      costMetric,
+      currency: summary.currency,
+      totalCost: summary.totalCost,
+      totalCredits,
+      costByService: summary.costByService,
+      costByRegion: summary.costByRegion,
+      costByAccount: summary.costByAccount,
+      costByCategory: summary.costByCategory,
+      unconvertedCost: summary.unconvertedCost,
+      period: chargePeriodRange(rows),
+      persisted: persist,
+    });
+
+  } catch (error) {
+    console.error('GCP billing export import error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to import GCP billing export',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+// Offline instance utilization import for rightsizing
+// Accepts metrics CSVs as a multipart upload ("files") or a JSON body reading METRICS_CSV_PATH or a directory inside it
+import { NextRequest, NextResponse } from 'next/server';
+import { importMetricsDirectory, importMetricsFiles, METRICS_FILE_EXTENSIONS } from '@/lib/importers/metrics-csv';
+import { loadUploadedFiles, resolveExportDirectory } from '@/lib/importers/common';
+import { defaultUtilizationWindowDays } from '@/lib/utilization';
+import { saveInstanceUtilization } from '@/lib/instance-utilization';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const persist = searchParams.get('persist') !== 'false';
+    const windowDays = Number(searchParams.get('windowDays')) || defaultUtilizationWindowDays();
+
+    if (windowDays < 1 || windowDays > 90) {
+      return NextResponse.json(
+        { error: 'windowDays must be between 1 and 90' },
+        { status: 400 }
+      );
+    }
+
+    const contentType = request.headers.get('content-type') || '';
+
+    let utilization;
+    if (contentType.includes('multipart/form-data')) {
+      const form = await request.formData();
+      const uploads = form.getAll('files').filter((f): f is File => f instanceof File);
+      const files = (await loadUploadedFiles(uploads)).filter(f =>
+        METRICS_FILE_EXTENSIONS.some(ext => f.name.toLowerCase().endsWith(ext))
+      );
+
+      if (files.length === 0) {
+        return NextResponse.json(
+          { error: `No metrics files uploaded (expected ${METRICS_FILE_EXTENSIONS.join(', ')})` },
+          { status: 400 }
+        );
+      }
+      utilization = await importMetricsFiles(files, windowDays);
+    } else {
+      const body = await request.json();
+      const resolved = resolveExportDirectory(process.env.METRICS_CSV_PATH, body.directory, 'METRICS_CSV_PATH');
+
+      if ('error' in resolved) {
+        return NextResponse.json({ error: resolved.error }, { status: 400 });
+      }
+      utilization = await importMetricsDirectory(resolved.directory, windowDays);
+    }
+
+    if (persist && utilization.length > 0) {
+      await saveInstanceUtilization(utilization);
+    }
+
+    return NextResponse.json({
+      success: true,
+      windowDays,
+      instanceCount: utilization.length,
+      utilization,
+      persisted: persist,
+    });
+
+  } catch (error) {
+    console.error('Metrics import error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to import metrics',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+// Update or delete one notification channel
+import { NextRequest, NextResponse } from 'next/server';
+import { INVALID_CHANNEL_MESSAGE, parseChannelInput } from '@/lib/notifications/registry';
+import { deleteChannel, maskChannel, updateChannel } from '@/lib/notifications/store';
+
+// Body: the full channel, as for POST /api/notifications/channels; masked secrets keep their values
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    const input = parseChannelInput(await request.json().catch(() => null));
+    if (!input) {
+      return NextResponse.json({ error: INVALID_CHANNEL_MESSAGE }, { status: 400 });
+    }
+
+    const channel = await updateChannel(id, input);
+    if (!channel) {
+      return NextResponse.json({ error: `Unknown notification channel: ${id}` }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, channel: maskChannel(channel) });
+
+  } catch (error) {
+    console.error('Notification channel update error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update notification channel',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    if (!(await deleteChannel(id))) {
+      return NextResponse.json({ error: `Unknown notification channel: ${id}` }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Notification channel deletion error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete notification channel',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
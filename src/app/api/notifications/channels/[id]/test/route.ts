@@ -0,0 +1,27 @@
+// Send a test notification to one channel, whatever events it is subscribed to
+import { NextRequest, NextResponse } from 'next/server';
+import { loadChannel, notify } from '@/lib/notifications/store';
+import { testEvent } from '@/lib/notifications/events';
+
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    const channel = await loadChannel(id);
+    if (!channel) {
+      return NextResponse.json({ error: `Unknown notification channel: ${id}` }, { status: 404 });
+    }
+
+    const [delivery] = await notify(testEvent(), [channel]);
+    return NextResponse.json({ success: delivery.status === 'delivered', delivery });
+
+  } catch (error) {
+    console.error('Notification test error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to send test notification',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+// Notification channels and the channel types they can use
+import { NextRequest, NextResponse } from 'next/server';
+import { INVALID_CHANNEL_MESSAGE, describeChannelType, listChannelTypes, parseChannelInput } from '@/lib/notifications/registry';
+import { createChannel, loadChannels, maskChannel } from '@/lib/notifications/store';
+
+export async function GET() {
+  try {
+    return NextResponse.json({
+      channelTypes: listChannelTypes().map(describeChannelType),
+      channels: (await loadChannels()).map(maskChannel),
+    });
+  } catch (error) {
+    console.error('Notification channel listing error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load notification channels',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: { name, type, config, events?, minSeverity?, template?: { subject?, body? }, enabled? }
+export async function POST(request: NextRequest) {
+  try {
+    const input = parseChannelInput(await request.json().catch(() => null));
+    if (!input) {
+      return NextResponse.json({ error: INVALID_CHANNEL_MESSAGE }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, channel: maskChannel(await createChannel(input)) });
+
+  } catch (error) {
+    console.error('Notification channel creation error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create notification channel',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
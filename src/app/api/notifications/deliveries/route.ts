@@ -0,0 +1,27 @@
+// Notification delivery log, most recent first
+import { NextRequest, NextResponse } from 'next/server';
+import { loadDeliveries } from '@/lib/notifications/store';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Number(searchParams.get('limit') || 50);
+    const channelId = searchParams.get('channel') || undefined;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+      return NextResponse.json({ error: 'Invalid limit. Use a whole number from 1 to 1000' }, { status: 400 });
+    }
+
+    return NextResponse.json({ deliveries: await loadDeliveries(limit, channelId) });
+
+  } catch (error) {
+    console.error('Notification delivery listing error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load notification deliveries',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+// Rightsizing recommendations for running compute instances
+// Body: { assets?, source? } - assets from a previous scan, otherwise discovered with
+// server-side credentials; source 'monitoring' (default) collects fresh utilization from
+// the providers' monitoring services on top of imported metrics, 'imported' uses only
+// utilization already stored from metrics CSV imports or earlier collections
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudAsset, InstanceUtilization } from '@/types';
+import { configuredConnectors } from '@/lib/connectors/registry';
+import { loadInstanceCatalog } from '@/lib/instance-catalog';
+import { loadInstanceUtilization, saveInstanceUtilization } from '@/lib/instance-utilization';
+import { attachUtilization, defaultRightsizingOptions, recommendRightsizing } from '@/lib/rightsizing';
+import { collectUtilization } from '@/lib/utilization';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const source = body.source || 'monitoring';
+
+    if (source !== 'monitoring' && source !== 'imported') {
+      return NextResponse.json(
+        { error: 'Invalid utilization source. Use: monitoring or imported' },
+        { status: 400 }
+      );
+    }
+
+    const options = defaultRightsizingOptions();
+    const connectors = configuredConnectors();
+    const errors: string[] = [];
+
+    let assets: CloudAsset[] = Array.isArray(body.assets) ? body.assets : [];
+    if (!Array.isArray(body.assets)) {
+      const discovered = await Promise.allSettled(connectors.map(connector => connector.discoverAssets()));
+      discovered.forEach((result, index) => {
+        if (result.status === 'fulfilled') assets.push(...result.value);
+        else errors.push(`${connectors[index].provider}: ${result.reason instanceof Error ? result.reason.message : 'Unknown error'}`);
+      });
+    }
+
+    let utilization: InstanceUtilization[] = [];
+    try {
+      utilization = await loadInstanceUtilization();
+    } catch (error) {
+      console.warn(`Stored utilization unavailable: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (source === 'monitoring') {
+      const collected = await collectUtilization(connectors, assets, options.windowDays);
+      errors.push(...collected.errors);
+      if (collected.utilization.length > 0) {
+        try {
+          await saveInstanceUtilization(collected.utilization);
+        } catch (error) {
+          console.warn(`Collected utilization not saved: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+      utilization = [...utilization, ...collected.utilization];
+    }
+
+    assets = attachUtilization(assets, utilization);
+    const report = recommendRightsizing(assets, await loadInstanceCatalog(), options);
+
+    return NextResponse.json({ ...report, errors: errors.length > 0 ? errors : undefined });
+
+  } catch (error) {
+    console.error('Rightsizing error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to build rightsizing recommendations',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
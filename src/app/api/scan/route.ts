@@ -1,34 +1,49 @@
 // Unified API endpoint for scanning all cloud providers
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchAWSAssetsAndCosts } from "@/lib/connectors/aws";
-import { fetchAzureAssetsAndCosts } from "@/lib/connectors/azure";
-import { fetchGCPAssetsAndCosts } from "@/lib/connectors/gcp";
+import { getConnector, listConnectors } from "@/lib/connectors/registry";
+import { ScanResult, scanProvider, unattributedCost } from "@/lib/connectors/scan";
+import { COST_CATEGORIES, COST_METRICS, defaultCostMetric, filterByAccount, parseCostCategories, parseCostMetric, summarizeFocusRecords } from "@/lib/focus";
+import { parseCurrency, reportingCurrency } from "@/lib/currency";
+import { loadCurrencyConverter } from "@/lib/exchange-rates";
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { providers = ['aws', 'azure', 'gcp'] } = body;
+    const { providers = listConnectors().map(c => c.id), accounts = [] } = body;
+    const costMetric = parseCostMetric(body.costMetric ?? defaultCostMetric());
+    const currency = parseCurrency(body.currency ?? reportingCurrency());
+    const categories = parseCostCategories(Array.isArray(body.categories) ? body.categories : []);
 
-    console.log(`Starting scan for providers: ${providers.join(', ')}`);
-
-    // Build array of promises for requested providers
-    const scanPromises: Promise<any>[] = [];
-    
-    if (providers.includes('aws')) {
-      scanPromises.push(fetchAWSAssetsAndCosts());
+    if (!costMetric) {
+      return NextResponse.json(
+        { error: `Invalid cost metric. Use: ${COST_METRICS.join(', ')}` },
+        { status: 400 }
+      );
     }
-    if (providers.includes('azure')) {
-      scanPromises.push(fetchAzureAssetsAndCosts());
+
+    if (!currency) {
+      return NextResponse.json(
+        { error: "Invalid currency. Use a 3-letter ISO 4217 code" },
+        { status: 400 }
+      );
     }
-    if (providers.includes('gcp')) {
-      scanPromises.push(fetchGCPAssetsAndCosts());
+
+    if (!categories) {
+      return NextResponse.json(
+        { error: `Invalid cost category. Use: ${COST_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      );
     }
 
+    console.log(`Starting scan for providers: ${providers.join(', ')}`);
+
     // Execute all scans in parallel
-    const results = await Promise.allSettled(scanPromises);
+    const results = await Promise.allSettled(
+      (providers as string[]).map(provider => scanProvider(provider, { costMetric, currency, categories }))
+    );
 
     // Process results
-    const successfulScans: any[] = [];
+    const successfulScans: ScanResult[] = [];
     const errors: string[] = [];
 
     results.forEach((result, index) => {
@@ -43,46 +58,29 @@ export async function POST(request: NextRequest) {
       }
     });
 
-    // Combine all assets and costs
-    const allAssets = successfulScans.flatMap(scan => scan.assets);
-    const totalCost = successfulScans.reduce((sum, scan) => sum + (scan.totalCost || 0), 0);
-    
-    // Combine cost breakdowns
-    const costByProvider: Record<string, number> = {};
-    const costByService: Record<string, number> = {};
-    const costByRegion: Record<string, number> = {};
-
-    successfulScans.forEach(scan => {
-      costByProvider[scan.provider] = scan.totalCost || 0;
-      
-      // Merge service costs
-      if (scan.costByService) {
-        Object.entries(scan.costByService).forEach(([service, cost]) => {
-          costByService[service] = (costByService[service] || 0) + (cost as number);
-        });
-      }
-      
-      // Merge region costs
-      if (scan.costByRegion) {
-        Object.entries(scan.costByRegion).forEach(([region, cost]) => {
-          costByRegion[region] = (costByRegion[region] || 0) + (cost as number);
-        });
-      }
-    });
+    // Combine all assets and costs, optionally narrowed to some accounts
+    const accountIds = accounts as string[];
+    const allAssets = successfulScans
+      .flatMap(scan => scan.assets)
+      .filter(asset => accountIds.length === 0 || (asset.accountId !== undefined && accountIds.includes(asset.accountId)));
+    const costSummary = summarizeFocusRecords(
+      filterByAccount(successfulScans.flatMap(scan => scan.costRecords), accountIds),
+      costMetric,
+      await loadCurrencyConverter(currency),
+      categories
+    );
+    costSummary.unattributedCost = unattributedCost(costSummary.totalCost, allAssets);
+    const findings = successfulScans
+      .flatMap(scan => scan.findings)
+      .filter(finding => accountIds.length === 0 || (finding.accountId !== undefined && accountIds.includes(finding.accountId)));
 
     const response = {
       success: errors.length === 0,
       providers: successfulScans.map(scan => scan.provider),
       assets: allAssets,
-      costSummary: {
-        totalCost,
-        costByProvider,
-        costByService,
-        costByRegion,
-        monthlyTrend: [
-          { month: new Date().toISOString().slice(0, 7), cost: totalCost }
-        ]
-      },
+      costSummary,
+      findings,
+      pageCounts: Object.fromEntries(successfulScans.map(scan => [scan.provider, scan.pageCounts])),
       lastScan: new Date().toISOString(),
       errors: errors.length > 0 ? errors : undefined
     };
@@ -106,6 +104,9 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const provider = searchParams.get('provider');
+    const costMetric = parseCostMetric(searchParams.get('metric') ?? defaultCostMetric());
+    const currency = parseCurrency(searchParams.get('currency') ?? reportingCurrency());
+    const categories = parseCostCategories(searchParams.getAll('category'));
 
     if (!provider) {
       return NextResponse.json(
@@ -114,24 +115,36 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    let result;
-    switch (provider.toLowerCase()) {
-      case 'aws':
-        result = await fetchAWSAssetsAndCosts();
-        break;
-      case 'azure':
-        result = await fetchAzureAssetsAndCosts();
-        break;
-      case 'gcp':
-        result = await fetchGCPAssetsAndCosts();
-        break;
-      default:
-        return NextResponse.json(
-          { error: "Invalid provider. Use: aws, azure, or gcp" },
-          { status: 400 }
-        );
+    if (!costMetric) {
+      return NextResponse.json(
+        { error: `Invalid cost metric. Use: ${COST_METRICS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!currency) {
+      return NextResponse.json(
+        { error: "Invalid currency. Use a 3-letter ISO 4217 code" },
+        { status: 400 }
+      );
+    }
+
+    if (!categories) {
+      return NextResponse.json(
+        { error: `Invalid cost category. Use: ${COST_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!getConnector(provider)) {
+      return NextResponse.json(
+        { error: `Invalid provider. Use: ${listConnectors().map(c => c.id).join(', ')}` },
+        { status: 400 }
+      );
     }
 
+    const result = await scanProvider(provider, { costMetric, currency, categories });
+
     return NextResponse.json(result);
 
   } catch (error) {
@@ -1,5 +1,18 @@
 import { prisma } from "@/lib/db";
 import { createClient } from "redis";
+import { COST_CATEGORIES, COST_METRICS, defaultCostMetric, parseCostCategories, parseCostMetric } from "@/lib/focus";
+import { parseCurrency, reportingCurrency } from "@/lib/currency";
+import { loadCurrencyConverter } from "@/lib/exchange-rates";
+import { COST_CATEGORY_COLUMN, COST_METRIC_COLUMNS } from "@/lib/daily-costs";
+import { loadMonthlyProjections } from "@/lib/cost-forecast";
+import { CloudProvider } from "@/types";
+
+interface DailyCostRow {
+  provider: string;
+  day: Date;
+  currency: string;
+  total_cost: number;
+}
 
 const redis = createClient({ url: process.env.REDIS_URL });
 redis.connect().catch(() => console.warn("⚠️ Redis cache not connected"));
@@ -10,39 +23,112 @@ export async function GET(req: Request) {
     const providers = url.searchParams.getAll("provider"); // multi-select
     const region = url.searchParams.get("region");
     const service = url.searchParams.get("service");
+    const accounts = url.searchParams.getAll("account"); // AWS account, Azure subscription or GCP project IDs
     const months = Number(url.searchParams.get("months") || 6);
+    const metric = parseCostMetric(url.searchParams.get("metric") ?? defaultCostMetric());
+    const currency = parseCurrency(url.searchParams.get("currency") ?? reportingCurrency());
+    const categories = parseCostCategories(url.searchParams.getAll("category")); // categories to include, all by default
 
-    const cacheKey = `trends:${providers.join(",")}:${region || "all"}:${service || "all"}:${months}`;
+    if (!metric) {
+      return new Response(JSON.stringify({ error: `Invalid cost metric. Use: ${COST_METRICS.join(", ")}` }), { status: 400 });
+    }
+    if (!currency) {
+      return new Response(JSON.stringify({ error: "Invalid currency. Use a 3-letter ISO 4217 code" }), { status: 400 });
+    }
+    if (!categories) {
+      return new Response(JSON.stringify({ error: `Invalid cost category. Use: ${COST_CATEGORIES.join(", ")}` }), { status: 400 });
+    }
+
+    const cacheKey = `trends:${metric}:${currency}:${providers.join(",")}:${region || "all"}:${service || "all"}:${accounts.join(",") || "all"}:${categories.join(",")}:${months}`;
     const cached = await redis.get(cacheKey);
     if (cached) return new Response(cached, { headers: { "Content-Type": "application/json" } });
 
-    const where: any = {};
-    if (providers.length) where.provider = { in: providers };
-    if (region) where.region = region;
-    if (service) where.service = service;
-    where.scannedAt = { gte: new Date(new Date().setMonth(new Date().getMonth() - months)) };
-
-    const monthlyTrends = await prisma.$queryRawUnsafe(`
-      SELECT provider,
-             DATE_TRUNC('month', scanned_at) AS month,
-             SUM(cost_this_month) AS total_cost
-      FROM cloud_scan
-      WHERE scanned_at >= NOW() - INTERVAL '${months} month'
-        ${providers.length ? `AND provider IN (${providers.map((p) => `'${p}'`).join(",")})` : ""}
-        ${region ? `AND region = '${region}'` : ""}
-        ${service ? `AND service = '${service}'` : ""}
-      GROUP BY provider, month
-      ORDER BY month;
-    `);
+    // Trends come from the FOCUS cost line items, using the selected cost metric.
+    // Costs are summed per day and billing currency so each day converts at its own rate.
+    const params: unknown[] = [months];
+    const filters: string[] = [];
+    if (providers.length) {
+      params.push(providers);
+      filters.push(`AND provider_name = ANY($${params.length})`);
+    }
+    if (region) {
+      params.push(region);
+      filters.push(`AND region_id = $${params.length}`);
+    }
+    if (service) {
+      params.push(service);
+      filters.push(`AND service_name = $${params.length}`);
+    }
+    if (accounts.length) {
+      params.push(accounts);
+      filters.push(`AND sub_account_id = ANY($${params.length})`);
+    }
+    if (categories.length < COST_CATEGORIES.length) {
+      params.push(categories);
+      filters.push(`AND ${COST_CATEGORY_COLUMN} = ANY($${params.length})`);
+    }
+
+    const dailyCosts: DailyCostRow[] = await prisma.$queryRawUnsafe(`
+      SELECT provider_name AS provider,
+             DATE_TRUNC('day', charge_period_start) AS day,
+             billing_currency AS currency,
+             SUM(${COST_METRIC_COLUMNS[metric]})::float AS total_cost
+      FROM cost_line_item
+      WHERE charge_period_start >= DATE_TRUNC('month', NOW()) - make_interval(months => $1::int)
+        ${filters.join("\n        ")}
+      GROUP BY provider_name, day, billing_currency
+      ORDER BY day;
+    `, ...params);
+
+    // Convert into the reporting currency and roll up by month; amounts without a rate are left out
+    const converter = await loadCurrencyConverter(currency);
+    const monthly = new Map<string, { provider: string; month: string; total_cost: number }>();
+    const unconvertedCost: Record<string, number> = {};
+    for (const row of dailyCosts) {
+      const day = new Date(row.day).toISOString();
+      const cost = converter.convert(row.total_cost, row.currency, day);
+      if (cost === undefined) {
+        unconvertedCost[row.currency] = (unconvertedCost[row.currency] || 0) + row.total_cost;
+        continue;
+      }
+      const month = `${day.slice(0, 7)}-01T00:00:00.000Z`;
+      const key = `${row.provider}|${month}`;
+      const entry = monthly.get(key) || { provider: row.provider, month, total_cost: 0 };
+      entry.total_cost += cost;
+      monthly.set(key, entry);
+    }
+    const monthlyTrends = Array.from(monthly.values()).sort((a, b) => a.month.localeCompare(b.month));
 
     // Calculate month-over-month percentage change
-    const result = (monthlyTrends as any[]).map((r: any, i: number, arr: any[]) => {
-      const prev = arr[i - 1]?.total_cost || r.total_cost;
+    const previousByProvider: Record<string, number> = {};
+    const result = monthlyTrends.map((r) => {
+      const prev = previousByProvider[r.provider] || r.total_cost;
+      previousByProvider[r.provider] = r.total_cost;
       const change = ((r.total_cost - prev) / prev) * 100;
       return { ...r, percent_change: change.toFixed(2) };
     });
 
-    const json = JSON.stringify({ trends: result });
+    // Projected totals for the current month (which is still partial) and the rest of the quarter
+    const projections = await loadMonthlyProjections(
+      {
+        metric,
+        categories,
+        providers: providers as CloudProvider[],
+        region: region || undefined,
+        service: service || undefined,
+        accounts,
+      },
+      converter
+    );
+
+    const json = JSON.stringify({
+      metric,
+      currency: converter.currency,
+      categories,
+      trends: result,
+      projections,
+      unconvertedCost: Object.keys(unconvertedCost).length > 0 ? unconvertedCost : undefined,
+    });
     await redis.setEx(cacheKey, 3600, json); // cache for 1 hour
     return new Response(json, { headers: { "Content-Type": "application/json" }, status: 200 });
   } catch (e: any) {
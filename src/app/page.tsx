@@ -8,15 +8,28 @@ import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import ReactFlow, { MiniMap, Controls, Background, Node, Edge } from 'reactflow';
 import 'reactflow/dist/style.css';
-import { CloudAsset, NewAsset, CostSummary } from '@/types';
+import { CloudAsset, NewAsset, CostSummary, ConnectorInfo, CostMetric, CostCategory, WasteFinding } from '@/types';
+import { COST_CATEGORIES, COST_METRICS } from '@/lib/focus';
+import { formatCurrency } from '@/lib/currency';
 import CostTrendChart from '@/components/CostTrendChart';
+import CommitmentsCard from '@/components/CommitmentsCard';
+import RightsizingCard from '@/components/RightsizingCard';
+import FindingsPanel from '@/components/FindingsPanel';
+import AnomaliesCard from '@/components/AnomaliesCard';
+import ForecastCard from '@/components/ForecastCard';
+import BudgetsCard from '@/components/BudgetsCard';
+import ChargebackCard from '@/components/ChargebackCard';
 
 export default function CloudAssetTracker() {
   const [assets, setAssets] = useState<CloudAsset[]>([]);
   const [costSummary, setCostSummary] = useState<CostSummary | null>(null);
+  const [findings, setFindings] = useState<WasteFinding[]>([]);
+  const [costMetric, setCostMetric] = useState<CostMetric>('amortized');
+  const [costCategories, setCostCategories] = useState<CostCategory[]>(COST_CATEGORIES);
   const [isScanning, setIsScanning] = useState(false);
   const [showCredentialsModal, setShowCredentialsModal] = useState(false);
-  const [selectedProvider, setSelectedProvider] = useState<'AWS' | 'Azure' | 'GCP' | null>(null);
+  const [connectors, setConnectors] = useState<ConnectorInfo[]>([]);
+  const [selectedConnector, setSelectedConnector] = useState<ConnectorInfo | null>(null);
   const [error, setError] = useState('');
   const [showTopology, setShowTopology] = useState(false);
   const [providerFilters, setProviderFilters] = useState({
@@ -26,21 +39,7 @@ export default function CloudAssetTracker() {
     Manual: true
   });
   const [lastScan, setLastScan] = useState<string | null>(null);
-  const [credentials, setCredentials] = useState({
-    // AWS
-    accessKeyId: '',
-    secretAccessKey: '',
-    region: 'us-east-1',
-    // Azure
-    clientId: '',
-    clientSecret: '',
-    tenantId: '',
-    subscriptionId: '',
-    // GCP
-    projectId: '',
-    keyFilename: '',
-    credentialsJson: '',
-  });
+  const [credentials, setCredentials] = useState<Record<string, string>>({});
   const [newAsset, setNewAsset] = useState<NewAsset>({
     provider: '',
     assetName: '',
@@ -58,6 +57,22 @@ export default function CloudAssetTracker() {
     }
   }, []);
 
+  // Load the registered cloud connectors
+  useEffect(() => {
+    fetch('/api/connectors')
+      .then(res => res.json())
+      .then(data => setConnectors(data.connectors || []))
+      .catch(err => console.error('Failed to load connectors:', err));
+  }, []);
+
+  // Load the waste findings of the latest persisted scans
+  useEffect(() => {
+    fetch('/api/findings')
+      .then(res => res.json())
+      .then(data => setFindings(data.findings || []))
+      .catch(err => console.error('Failed to load waste findings:', err));
+  }, []);
+
   // Save assets to localStorage whenever they change
   useEffect(() => {
     localStorage.setItem('cloudAssets', JSON.stringify(assets));
@@ -91,9 +106,16 @@ export default function CloudAssetTracker() {
     setNewAsset({ ...newAsset, [key]: value });
   };
 
+  // Categories left out apply to the next scan's totals; at least one stays included
+  const toggleCostCategory = (category: CostCategory) => {
+    setCostCategories(prev =>
+      !prev.includes(category) ? [...prev, category] : prev.length > 1 ? prev.filter(c => c !== category) : prev
+    );
+  };
+
   const handleExportCSV = () => {
     const csv = [
-      ['ID', 'Provider', 'Asset Name', 'Service', 'Region', 'Criticality', 'Tags', 'Cost This Month', 'Status', 'Connections'],
+      ['ID', 'Provider', 'Asset Name', 'Service', 'Region', 'Criticality', 'Tags', 'Cost This Month', 'Cost Currency', 'Status', 'Connections'],
       ...assets.map(a => [
         a.id, 
         a.provider, 
@@ -103,6 +125,7 @@ export default function CloudAssetTracker() {
         a.criticality, 
         a.tags.join(';'), 
         a.costThisMonth ? a.costThisMonth.toString() : '',
+        a.costThisMonth ? a.costCurrency || costSummary?.currency || '' : '',
         a.status || '',
         a.connectedAssets ? a.connectedAssets.join(';') : ''
       ])
@@ -116,48 +139,33 @@ export default function CloudAssetTracker() {
     a.click();
   };
 
-  const handleScanCloud = (provider: 'AWS' | 'Azure' | 'GCP') => {
-    setSelectedProvider(provider);
+  // A scan's findings replace the earlier findings of the providers it scanned
+  const replaceFindings = (providers: string[], scanFindings: WasteFinding[]) => {
+    setFindings(prevFindings => [
+      ...prevFindings.filter(finding => !providers.includes(finding.provider)),
+      ...scanFindings,
+    ].sort((a, b) => b.estimatedMonthlyWaste - a.estimatedMonthlyWaste));
+  };
+
+  const handleScanCloud = (connector: ConnectorInfo) => {
+    setSelectedConnector(connector);
     setShowCredentialsModal(true);
   };
 
   const executeCloudScan = async () => {
-    if (!selectedProvider) return;
+    if (!selectedConnector) return;
+    const selectedProvider = selectedConnector.provider;
     
     setIsScanning(true);
     setShowCredentialsModal(false);
     
     try {
-      let endpoint = '';
-      let requestBody = {};
-
-      switch (selectedProvider) {
-        case 'AWS':
-          endpoint = '/api/cloud/aws/scan';
-          requestBody = {
-            accessKeyId: credentials.accessKeyId,
-            secretAccessKey: credentials.secretAccessKey,
-            region: credentials.region
-          };
-          break;
-        case 'Azure':
-          endpoint = '/api/cloud/azure/scan';
-          requestBody = {
-            clientId: credentials.clientId,
-            clientSecret: credentials.clientSecret,
-            tenantId: credentials.tenantId,
-            subscriptionId: credentials.subscriptionId
-          };
-          break;
-        case 'GCP':
-          endpoint = '/api/cloud/gcp/scan';
-          requestBody = {
-            projectId: credentials.projectId,
-            keyFilename: credentials.keyFilename,
-            credentials: credentials.credentialsJson
-          };
-          break;
-      }
+      const params = new URLSearchParams({ metric: costMetric });
+      costCategories.forEach(category => params.append('category', category));
+      const endpoint = `/api/cloud/${selectedConnector.id}/scan?${params.toString()}`;
+      const requestBody = Object.fromEntries(
+        selectedConnector.credentialFields.map(field => [field.key, credentials[field.key] || ''])
+      );
 
       const response = await fetch(endpoint, {
         method: 'POST',
@@ -186,6 +194,7 @@ export default function CloudAssetTracker() {
       }));
 
       setAssets(prevAssets => [...prevAssets, ...assetsWithCost]);
+      replaceFindings([selectedProvider], data.findings || []);
       
       // Update cost summary if available
       if (data.costSummary) {
@@ -241,7 +250,7 @@ export default function CloudAssetTracker() {
       alert(`Could not connect to ${selectedProvider} API. Displaying fallback mock data for demonstration.`);
     } finally {
       setIsScanning(false);
-      setSelectedProvider(null);
+      setSelectedConnector(null);
     }
   };
 
@@ -376,6 +385,8 @@ export default function CloudAssetTracker() {
     ];
     
     const demoCostSummary = {
+      costMetric: 'amortized' as const,
+      currency: 'USD',
       totalCost: 286.67,
       costByProvider: { 
         AWS: 156.47,
@@ -399,6 +410,18 @@ export default function CloudAssetTracker() {
         'us-central1': 42.90,
         'asia-southeast1': 10.10,
       },
+      costByAccount: {
+        '111111111111': 134.80,
+        '222222222222': 21.67,
+      },
+      costByCategory: {
+        'Usage': 301.57,
+        'Credit': -25.00,
+        'Tax': 8.10,
+        'Support': 2.00,
+      },
+      includedCategories: COST_CATEGORIES,
+      unattributedCost: 0.10,
       monthlyTrend: [
         { month: '2024-10', cost: 265.23 },
         { month: '2024-11', cost: 286.67 },
@@ -489,7 +512,7 @@ export default function CloudAssetTracker() {
                   {asset.region}
                 </div>
                 <div style={{ fontSize: '10px', color: '#059669', fontWeight: 'bold' }}>
-                  ${asset.costThisMonth?.toFixed(2) || '0.00'}
+                  {formatCurrency(asset.costThisMonth || 0, asset.costCurrency)}
                 </div>
               </div>
             )
@@ -545,7 +568,9 @@ export default function CloudAssetTracker() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          providers: ['aws', 'azure', 'gcp']
+          providers: connectors.filter(c => c.configured).map(c => c.id),
+          costMetric,
+          categories: costCategories
         }),
       });
 
@@ -561,30 +586,18 @@ export default function CloudAssetTracker() {
         setError(`Partial success: ${data.errors?.join(', ') || 'Some providers failed'}`);
       }
 
-      // Transform assets to our CloudAsset format
-      const cloudAssets = data.assets.map((asset: any) => ({
-        id: asset.id,
-        provider: asset.provider,
-        assetName: asset.service + '-' + (asset.resourceId || asset.id.split('/').pop()),
-        service: asset.service,
-        region: asset.region,
-        criticality: 'Medium' as const, // Default criticality
-        tags: asset.tags || [],
-        owner: 'system',
-        notes: `Auto-discovered via ${asset.provider} scan`,
-        resourceId: asset.resourceId || asset.id,
-        assetType: asset.resourceType || asset.service,
-        status: 'running' as const,
-        costThisMonth: 0, // Cost is handled at summary level
-        lastUpdated: new Date().toISOString(),
+      const cloudAssets = data.assets.map((asset: CloudAsset) => ({
+        ...asset,
         usageMetrics: {
+          ...asset.usageMetrics,
           discoveredAt: data.lastScan,
           source: 'api-scan'
         },
-        connectedAssets: []
+        connectedAssets: asset.connectedAssets || []
       }));
 
       setAssets(prevAssets => [...prevAssets, ...cloudAssets]);
+      replaceFindings(data.providers || [], data.findings || []);
       setCostSummary(data.costSummary);
 
     } catch (error) {
@@ -620,27 +633,16 @@ export default function CloudAssetTracker() {
             <p className="text-gray-500 text-xs mt-1">
               Last scan: {lastScan ? new Date(lastScan).toLocaleString() : "Never"}
             </p>
-            <Button 
-              onClick={() => handleScanCloud('AWS')} 
-              disabled={isScanning}
-              className="bg-orange-500 hover:bg-orange-600"
-            >
-              {isScanning ? 'Scanning...' : 'Scan AWS'}
-            </Button>
-            <Button 
-              onClick={() => handleScanCloud('Azure')} 
-              disabled={isScanning}
-              variant="outline"
-            >
-              {isScanning ? 'Scanning...' : 'Scan Azure'}
-            </Button>
-            <Button 
-              onClick={() => handleScanCloud('GCP')} 
-              disabled={isScanning}
-              variant="outline"
-            >
-              {isScanning ? 'Scanning...' : 'Scan GCP'}
-            </Button>
+            {connectors.map(connector => (
+              <Button 
+                key={connector.id}
+                onClick={() => handleScanCloud(connector)} 
+                disabled={isScanning}
+                variant="outline"
+              >
+                {isScanning ? 'Scanning...' : `Scan ${connector.provider}`}
+              </Button>
+            ))}
             <Button 
               onClick={loadDemoData} 
               disabled={isScanning}
@@ -651,9 +653,44 @@ export default function CloudAssetTracker() {
           </div>
           <div className="flex items-center gap-4 mb-4">
             <p className="text-gray-700 text-sm">Total Assets: {assets.length}</p>
+            <div className="w-40">
+              <Select onValueChange={(val) => setCostMetric(val as CostMetric)} value={costMetric}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Cost basis" />
+                </SelectTrigger>
+                <SelectContent>
+                  {COST_METRICS.map(metric => (
+                    <SelectItem key={metric} value={metric}>{metric.charAt(0).toUpperCase() + metric.slice(1)} cost</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-1">
+              {COST_CATEGORIES.map(category => (
+                <Button
+                  key={category}
+                  size="sm"
+                  variant={costCategories.includes(category) ? 'default' : 'outline'}
+                  onClick={() => toggleCostCategory(category)}
+                  title={`${costCategories.includes(category) ? 'Exclude' : 'Include'} ${category.toLowerCase()} in the totals`}
+                >
+                  {category}
+                </Button>
+              ))}
+            </div>
             {costSummary && (
               <p className="text-gray-700 text-sm font-medium">
-                Total Cost: ${costSummary.totalCost.toFixed(2)}
+                Total Cost ({costSummary.costMetric}): {formatCurrency(costSummary.totalCost, costSummary.currency)}
+              </p>
+            )}
+            {costSummary?.unconvertedCost && (
+              <p className="text-amber-600 text-sm" title="Billed in a currency with no exchange rate; not included in the totals">
+                Unconverted: {Object.entries(costSummary.unconvertedCost).map(([currency, cost]) => formatCurrency(cost, currency)).join(', ')}
+              </p>
+            )}
+            {costSummary?.unattributedCost !== undefined && (
+              <p className="text-gray-500 text-sm" title="Cost that could not be tied to a discovered resource">
+                Unattributed: {formatCurrency(costSummary.unattributedCost, costSummary.currency)}
               </p>
             )}
             {assets.length > 0 && (
@@ -683,7 +720,7 @@ export default function CloudAssetTracker() {
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="service" />
                   <YAxis />
-                  <Tooltip formatter={(value) => [`$${value}`, 'Cost']} />
+                  <Tooltip formatter={(value) => [formatCurrency(Number(value), costSummary.currency), 'Cost']} />
                   <Bar dataKey="cost" fill="#8884d8" />
                 </BarChart>
               </ResponsiveContainer>
@@ -711,17 +748,92 @@ export default function CloudAssetTracker() {
                       <Cell key={`cell-${index}`} fill={['#0088FE', '#00C49F', '#FFBB28', '#FF8042'][index % 4]} />
                     ))}
                   </Pie>
-                  <Tooltip formatter={(value) => [`$${value}`, 'Cost']} />
+                  <Tooltip formatter={(value) => [formatCurrency(Number(value), costSummary.currency), 'Cost']} />
                 </PieChart>
               </ResponsiveContainer>
             </CardContent>
           </Card>
+
+          <CommitmentsCard />
+
+          {Object.keys(costSummary.costByCategory || {}).length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Cost by Category</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {COST_CATEGORIES.filter(category => costSummary.costByCategory[category] !== undefined).map(category => (
+                      <tr key={category} className={costSummary.includedCategories.includes(category) ? '' : 'text-gray-400'}>
+                        <td className="py-1">
+                          {category}
+                          {!costSummary.includedCategories.includes(category) && ' (excluded)'}
+                        </td>
+                        <td className="py-1 text-right">{formatCurrency(costSummary.costByCategory[category], costSummary.currency)}</td>
+                      </tr>
+                    ))}
+                    <tr className="border-t font-medium" title="Every category except credits and refunds">
+                      <td className="py-1">Without credits</td>
+                      <td className="py-1 text-right">
+                        {formatCurrency(
+                          Object.entries(costSummary.costByCategory)
+                            .filter(([category]) => category !== 'Credit' && category !== 'Refund')
+                            .reduce((sum, [, cost]) => sum + cost, 0),
+                          costSummary.currency
+                        )}
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          )}
+
+          {Object.keys(costSummary.costByAccount || {}).length > 0 && (
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle>Cost by Account</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={200}>
+                  <BarChart data={Object.entries(costSummary.costByAccount).map(([accountId, cost]) => ({
+                    account: assets.find(a => a.accountId === accountId)?.accountAlias || accountId,
+                    cost: parseFloat(cost.toFixed(2)),
+                  }))}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="account" />
+                    <YAxis />
+                    <Tooltip formatter={(value) => [formatCurrency(Number(value), costSummary.currency), 'Cost']} />
+                    <Bar dataKey="cost" fill="#82ca9d" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          )}
+
+          <RightsizingCard assets={assets} />
         </div>
       )}
 
+      {/* Month-end and quarter-end forecast */}
+      <ForecastCard />
+
+      {/* Budget versus actual */}
+      <BudgetsCard />
+
+      {/* Cost per cost center under the tag allocation rules */}
+      <ChargebackCard />
+
       {/* Cost Trend Chart */}
       <CostTrendChart />
 
+      {/* Unusual daily cost increases */}
+      <AnomaliesCard />
+
+      {/* Idle and orphaned resources */}
+      <FindingsPanel findings={findings} />
+
       {/* Network Topology Visualization */}
       {showTopology && assets.length > 0 && (
         <Card className="mb-6">
@@ -861,7 +973,7 @@ export default function CloudAssetTracker() {
           </thead>
           <tbody>
             {assets.map(asset => (
-              <tr key={asset.id} className="border-t">
+              <tr key={asset.id} id={`asset-${asset.id}`} className="border-t">
                 <td className="px-4 py-2">
                   <span className={`px-2 py-1 rounded text-xs font-medium ${
                     asset.provider === 'AWS' ? 'bg-orange-100 text-orange-800' :
@@ -899,7 +1011,7 @@ export default function CloudAssetTracker() {
                   </div>
                 </td>
                 <td className="px-4 py-2">
-                  {asset.costThisMonth ? `$${asset.costThisMonth.toFixed(2)}` : '-'}
+                  {asset.costThisMonth ? formatCurrency(asset.costThisMonth, asset.costCurrency) : '-'}
                 </td>
                 <td className="px-4 py-2">
                   {asset.status && (
@@ -954,109 +1066,30 @@ export default function CloudAssetTracker() {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
             <CardHeader>
-              <CardTitle>Enter {selectedProvider} Credentials</CardTitle>
+              <CardTitle>Enter {selectedConnector?.displayName} Credentials</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              {selectedProvider === 'AWS' && (
-                <>
-                  <div>
-                    <label className="block text-sm font-medium mb-1">Access Key ID</label>
-                    <Input
-                      type="password"
-                      value={credentials.accessKeyId}
-                      onChange={(e) => setCredentials({...credentials, accessKeyId: e.target.value})}
-                      placeholder="Enter AWS Access Key ID"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium mb-1">Secret Access Key</label>
-                    <Input
-                      type="password"
-                      value={credentials.secretAccessKey}
-                      onChange={(e) => setCredentials({...credentials, secretAccessKey: e.target.value})}
-                      placeholder="Enter AWS Secret Access Key"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium mb-1">Region</label>
-                    <Input
-                      value={credentials.region}
-                      onChange={(e) => setCredentials({...credentials, region: e.target.value})}
-                      placeholder="us-east-1"
-                    />
-                  </div>
-                </>
-              )}
-              
-              {selectedProvider === 'Azure' && (
-                <>
-                  <div>
-                    <label className="block text-sm font-medium mb-1">Client ID</label>
-                    <Input
-                      type="password"
-                      value={credentials.clientId}
-                      onChange={(e) => setCredentials({...credentials, clientId: e.target.value})}
-                      placeholder="Enter Azure Application Client ID"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium mb-1">Client Secret</label>
-                    <Input
-                      type="password"
-                      value={credentials.clientSecret}
-                      onChange={(e) => setCredentials({...credentials, clientSecret: e.target.value})}
-                      placeholder="Enter Azure Client Secret"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium mb-1">Tenant ID</label>
-                    <Input
-                      value={credentials.tenantId}
-                      onChange={(e) => setCredentials({...credentials, tenantId: e.target.value})}
-                      placeholder="Enter Azure Tenant ID"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium mb-1">Subscription ID</label>
-                    <Input
-                      value={credentials.subscriptionId}
-                      onChange={(e) => setCredentials({...credentials, subscriptionId: e.target.value})}
-                      placeholder="Enter Azure Subscription ID"
-                    />
-                  </div>
-                </>
-              )}
-              
-              {selectedProvider === 'GCP' && (
-                <>
-                  <div>
-                    <label className="block text-sm font-medium mb-1">Project ID</label>
-                    <Input
-                      value={credentials.projectId}
-                      onChange={(e) => setCredentials({...credentials, projectId: e.target.value})}
-                      placeholder="Enter GCP Project ID"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium mb-1">Service Account Key (JSON)</label>
+              {selectedConnector?.credentialFields.map(field => (
+                <div key={field.key}>
+                  <label className="block text-sm font-medium mb-1">{field.label}</label>
+                  {field.type === 'textarea' ? (
                     <textarea
                       className="w-full p-2 border rounded-md text-sm font-mono"
                       rows={6}
-                      value={credentials.credentialsJson}
-                      onChange={(e) => setCredentials({...credentials, credentialsJson: e.target.value})}
-                      placeholder='{"type": "service_account", "project_id": "..."}'
+                      value={credentials[field.key] || ''}
+                      onChange={(e) => setCredentials({...credentials, [field.key]: e.target.value})}
+                      placeholder={field.placeholder}
                     />
-                  </div>
-                  <div className="text-xs text-gray-600">
-                    <p>Or provide key file path:</p>
+                  ) : (
                     <Input
-                      value={credentials.keyFilename}
-                      onChange={(e) => setCredentials({...credentials, keyFilename: e.target.value})}
-                      placeholder="./gcp-key.json"
+                      type={field.type === 'password' ? 'password' : 'text'}
+                      value={credentials[field.key] || ''}
+                      onChange={(e) => setCredentials({...credentials, [field.key]: e.target.value})}
+                      placeholder={field.placeholder}
                     />
-                  </div>
-                </>
-              )}
+                  )}
+                </div>
+              ))}
               
               <div className="flex gap-2 justify-end">
                 <Button variant="outline" onClick={() => setShowCredentialsModal(false)}>
@@ -1064,13 +1097,9 @@ export default function CloudAssetTracker() {
                 </Button>
                 <Button 
                   onClick={executeCloudScan}
-                  disabled={
-                    (selectedProvider === 'AWS' && (!credentials.accessKeyId || !credentials.secretAccessKey)) ||
-                    (selectedProvider === 'Azure' && (!credentials.clientId || !credentials.clientSecret || !credentials.tenantId || !credentials.subscriptionId)) ||
-                    (selectedProvider === 'GCP' && (!credentials.projectId))
-                  }
+                  disabled={selectedConnector?.credentialFields.some(field => field.required && !credentials[field.key])}
                 >
-                  Scan {selectedProvider}
+                  Scan {selectedConnector?.provider}
                 </Button>
               </div>
             </CardContent>
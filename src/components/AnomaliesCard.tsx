@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { AnomalySeverity, CostAnomaly } from "@/types";
+import { formatCurrency } from "@/lib/currency";
+
+const SEVERITY_CLASSES: Record<AnomalySeverity, string> = {
+  high: "bg-red-100 text-red-700",
+  medium: "bg-orange-100 text-orange-700",
+  low: "bg-yellow-100 text-yellow-700",
+};
+
+// Days of the last month whose cost rose well above the usual level of a provider,
+// service, account or tag value, with the services and accounts behind the increase
+export default function AnomaliesCard() {
+  const [anomalies, setAnomalies] = useState<CostAnomaly[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/anomalies?days=30")
+      .then((res) => res.json())
+      .then((data) => setAnomalies(data.anomalies || []))
+      .catch((err) => console.error("Failed to load cost anomalies:", err));
+  }, []);
+
+  const detect = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/anomalies", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || `HTTP ${res.status}`);
+      // Detection only re-evaluates the last few days, so reload the whole month
+      const listing = await fetch("/api/anomalies?days=30").then((r) => r.json());
+      setAnomalies(listing.anomalies || []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Cost Anomalies</CardTitle>
+      </CardHeader>
+      <CardContent className="text-sm space-y-3">
+        <Button onClick={detect} disabled={isLoading}>
+          {isLoading ? "Detecting..." : "Detect anomalies now"}
+        </Button>
+        {error && <p className="text-red-500">Failed to detect anomalies: {error}</p>}
+        {anomalies.length === 0 ? (
+          <p className="text-gray-500">No cost anomalies in the last 30 days</p>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1">Date</th>
+                <th className="py-1">Severity</th>
+                <th className="py-1">Scope</th>
+                <th className="py-1 text-right">Expected</th>
+                <th className="py-1 text-right">Actual</th>
+                <th className="py-1">Root causes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {anomalies.map((a) => (
+                <tr key={a.id}>
+                  <td className="py-1">{a.date}</td>
+                  <td className="py-1">
+                    <span className={`px-2 py-0.5 rounded text-xs ${SEVERITY_CLASSES[a.severity]}`} title={`Score ${a.score.toFixed(1)}`}>
+                      {a.severity}
+                    </span>
+                  </td>
+                  <td className="py-1">
+                    {a.provider} {a.dimension === "tag" ? `${a.tagKey}=${a.value}` : `${a.dimension} ${a.value}`}
+                  </td>
+                  <td className="py-1 text-right">{formatCurrency(a.expectedCost, a.currency)}</td>
+                  <td className="py-1 text-right">{formatCurrency(a.actualCost, a.currency)}</td>
+                  <td className="py-1">
+                    {a.rootCauses.map((c) => (
+                      <div key={`${c.service}|${c.accountId || ""}`}>
+                        {c.service}
+                        {c.accountId && <span className="text-gray-500"> ({c.accountId})</span>}:{" "}
+                        {formatCurrency(c.expectedCost, a.currency)} → {formatCurrency(c.actualCost, a.currency)}
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { BudgetPeriod, BudgetScope, BudgetStatus, BudgetThreshold } from "@/types";
+import { formatCurrency } from "@/lib/currency";
+
+const SCOPES: BudgetScope[] = ["all", "provider", "account", "service", "tag", "team"];
+
+const EMPTY_FORM = {
+  name: "",
+  scope: "all" as BudgetScope,
+  scopeValue: "",
+  tagKey: "",
+  period: "monthly" as BudgetPeriod,
+  amount: "",
+  actualThresholds: "50,80,100",
+  forecastThresholds: "100",
+};
+
+const parsePercents = (value: string, basis: BudgetThreshold["basis"]): BudgetThreshold[] =>
+  value
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => ({ percent: Number(p), basis }));
+
+// Budget versus actual and forecast spend for the current period, with the form to add budgets
+export default function BudgetsCard() {
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBudgets = () =>
+    fetch("/api/budgets")
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.details || data.error || `HTTP ${res.status}`);
+        setBudgets(data.budgets || []);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : "Unknown error"));
+
+  useEffect(() => {
+    fetch("/api/budgets")
+      .then((res) => res.json())
+      .then((data) => setBudgets(data.budgets || []))
+      .catch((err) => console.error("Failed to load budgets:", err));
+  }, []);
+
+  const send = async (url: string, init: RequestInit) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || `HTTP ${res.status}`);
+      await loadBudgets();
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Unknown error");
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const addBudget = async () => {
+    const created = await send("/api/budgets", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: form.name,
+        scope: form.scope,
+        scopeValue: form.scope === "all" ? undefined : form.scopeValue,
+        tagKey: form.scope === "tag" ? form.tagKey : undefined,
+        period: form.period,
+        amount: Number(form.amount),
+        thresholds: [
+          ...parsePercents(form.actualThresholds, "actual"),
+          ...parsePercents(form.forecastThresholds, "forecast"),
+        ],
+      }),
+    });
+    if (created) setForm(EMPTY_FORM);
+  };
+
+  const describeScope = (s: BudgetStatus) => {
+    const { scope, scopeValue, tagKey } = s.budget;
+    if (scope === "all") return "All spend";
+    return scope === "tag" ? `${tagKey}=${scopeValue}` : `${scope} ${scopeValue}`;
+  };
+
+  const barColor = (s: BudgetStatus) =>
+    s.percentUsed >= 100 ? "bg-red-500" : s.percentForecast >= 100 ? "bg-orange-400" : "bg-green-500";
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Budgets</CardTitle>
+      </CardHeader>
+      <CardContent className="text-sm space-y-3">
+        {error && <p className="text-red-500">Budget request failed: {error}</p>}
+        {budgets.length === 0 ? (
+          <p className="text-gray-500">No budgets yet</p>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1">Budget</th>
+                <th className="py-1">Scope</th>
+                <th className="py-1 text-right">Amount</th>
+                <th className="py-1 text-right">Actual</th>
+                <th className="py-1 w-40">Used</th>
+                <th className="py-1 text-right">Forecast</th>
+                <th className="py-1 text-right">Burn rate / day</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {budgets.map((s) => (
+                <tr key={s.budget.id} title={`${s.periodStart} to ${s.periodEnd}`}>
+                  <td className="py-1">
+                    {s.budget.name} <span className="text-gray-500">({s.budget.period})</span>
+                  </td>
+                  <td className="py-1">{describeScope(s)}</td>
+                  <td className="py-1 text-right">{formatCurrency(s.budget.amount, s.budget.currency)}</td>
+                  <td className="py-1 text-right">{formatCurrency(s.actualCost, s.budget.currency)}</td>
+                  <td className="py-1">
+                    <div className="h-2 bg-gray-200 rounded">
+                      <div className={`h-2 rounded ${barColor(s)}`} style={{ width: `${Math.min(100, s.percentUsed)}%` }} />
+                    </div>
+                    <span className="text-xs text-gray-500">
+                      {s.percentUsed.toFixed(0)}% used, {s.percentForecast.toFixed(0)}% forecast
+                    </span>
+                  </td>
+                  <td className="py-1 text-right">{formatCurrency(s.forecastCost, s.budget.currency)}</td>
+                  <td className="py-1 text-right" title={`${formatCurrency(s.remainingDailyBudget, s.budget.currency)} per day left`}>
+                    {formatCurrency(s.burnRate, s.budget.currency)}
+                  </td>
+                  <td className="py-1 text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isLoading}
+                      onClick={() => send(`/api/budgets/${encodeURIComponent(s.budget.id)}`, { method: "DELETE" })}
+                    >
+                      Delete
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          <Input placeholder="Budget name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          <select
+            className="border rounded px-2 py-1 text-sm"
+            value={form.scope}
+            onChange={(e) => setForm({ ...form, scope: e.target.value as BudgetScope })}
+          >
+            {SCOPES.map((s) => (
+              <option key={s} value={s}>
+                {s === "all" ? "All spend" : s.charAt(0).toUpperCase() + s.slice(1)}
+              </option>
+            ))}
+          </select>
+          {form.scope === "tag" && (
+            <Input placeholder="Tag key" value={form.tagKey} onChange={(e) => setForm({ ...form, tagKey: e.target.value })} />
+          )}
+          {form.scope !== "all" && (
+            <Input
+              placeholder={form.scope === "provider" ? "AWS, Azure or GCP" : `${form.scope} value`}
+              value={form.scopeValue}
+              onChange={(e) => setForm({ ...form, scopeValue: e.target.value })}
+            />
+          )}
+          <select
+            className="border rounded px-2 py-1 text-sm"
+            value={form.period}
+            onChange={(e) => setForm({ ...form, period: e.target.value as BudgetPeriod })}
+          >
+            <option value="monthly">Monthly</option>
+            <option value="annual">Annual</option>
+          </select>
+          <Input placeholder="Amount" type="number" value={form.amount} onChange={(e) => setForm({ ...form, amount: e.target.value })} />
+          <Input
+            placeholder="Actual thresholds (%)"
+            title="Percentages of the budget reached by actual spend"
+            value={form.actualThresholds}
+            onChange={(e) => setForm({ ...form, actualThresholds: e.target.value })}
+          />
+          <Input
+            placeholder="Forecast thresholds (%)"
+            title="Percentages of the budget reached by the forecast"
+            value={form.forecastThresholds}
+            onChange={(e) => setForm({ ...form, forecastThresholds: e.target.value })}
+          />
+          <Button onClick={addBudget} disabled={isLoading || !form.name || !form.amount}>
+            Add Budget
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { AllocationRule, ChargebackReport } from "@/types";
+import { formatCurrency } from "@/lib/currency";
+
+const EMPTY_RULE = { tagKey: "", tagValues: "", team: "", product: "", costCenter: "" };
+
+const lastMonth = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString().slice(0, 7);
+};
+
+// Monthly cost per cost center under the ordered tag rules, with exports and the rule list
+export default function ChargebackCard() {
+  const [month, setMonth] = useState(lastMonth);
+  const [report, setReport] = useState<ChargebackReport | null>(null);
+  const [rules, setRules] = useState<AllocationRule[]>([]);
+  const [form, setForm] = useState(EMPTY_RULE);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/chargeback?month=${month}`)
+      .then((res) => res.json())
+      .then((data) => setReport(data.costCenters ? data : null))
+      .catch((err) => console.error("Failed to load chargeback report:", err));
+  }, [month, rules]);
+
+  useEffect(() => {
+    fetch("/api/allocation/rules")
+      .then((res) => res.json())
+      .then((data) => setRules(data.rules || []))
+      .catch((err) => console.error("Failed to load allocation rules:", err));
+  }, []);
+
+  const saveRules = async (next: Array<Omit<AllocationRule, "id">>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/allocation/rules", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rules: next }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || `HTTP ${res.status}`);
+      setRules(data.rules || []);
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Unknown error");
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const addRule = async () => {
+    const rule = {
+      name: form.tagKey,
+      tagKey: form.tagKey,
+      tagValues: form.tagValues.split(",").map((v) => v.trim()).filter(Boolean),
+      team: form.team || undefined,
+      product: form.product || undefined,
+      costCenter: form.costCenter || undefined,
+      enabled: true,
+    };
+    if (await saveRules([...rules, rule])) setForm(EMPTY_RULE);
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    saveRules(next);
+  };
+
+  const describeMatch = (rule: AllocationRule) =>
+    rule.tagValues.length > 0 ? `${rule.tagKey} = ${rule.tagValues.join(" | ")}` : `${rule.tagKey} (any value)`;
+
+  const describeAssignments = (rule: AllocationRule) =>
+    [
+      rule.team && `team ${rule.team}`,
+      rule.product && `product ${rule.product}`,
+      rule.costCenter && `cost center ${rule.costCenter}`,
+    ]
+      .filter(Boolean)
+      .join(", ");
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Chargeback</CardTitle>
+      </CardHeader>
+      <CardContent className="text-sm space-y-3">
+        {error && <p className="text-red-500">Allocation rule update failed: {error}</p>}
+        <div className="flex flex-wrap items-center gap-2">
+          <Input type="month" className="w-40" value={month} onChange={(e) => e.target.value && setMonth(e.target.value)} />
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/chargeback?month=${month}&format=csv`} download>
+              Export CSV
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/chargeback?month=${month}`} download={`chargeback-${month}.json`}>
+              Export JSON
+            </a>
+          </Button>
+          {report && (
+            <span className="text-gray-500">
+              {formatCurrency(report.totalCost, report.currency)} total,{" "}
+              {formatCurrency(report.unallocatedCost, report.currency)} unallocated
+            </span>
+          )}
+        </div>
+
+        {!report || report.costCenters.length === 0 ? (
+          <p className="text-gray-500">No cost for this month</p>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1">Cost center</th>
+                <th className="py-1">Largest team and product</th>
+                <th className="py-1 text-right">Cost</th>
+                <th className="py-1 text-right">Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.costCenters.map((charge) => (
+                <tr key={charge.costCenter}>
+                  <td className={`py-1 ${charge.costCenter === "unallocated" ? "text-orange-600" : ""}`}>{charge.costCenter}</td>
+                  <td className="py-1 text-gray-500">
+                    {charge.lines[0] && `${charge.lines[0].team} / ${charge.lines[0].product}`}
+                  </td>
+                  <td className="py-1 text-right">{formatCurrency(charge.cost, report.currency)}</td>
+                  <td className="py-1 text-right">{charge.share.toFixed(1)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div>
+          <p className="font-medium mb-1">Allocation rules (first match wins per dimension)</p>
+          {rules.length === 0 ? (
+            <p className="text-gray-500">No rules yet, so all cost is unallocated</p>
+          ) : (
+            <ol className="space-y-1">
+              {rules.map((rule, index) => (
+                <li key={rule.id} className="flex items-center gap-2">
+                  <span className="text-gray-500 w-6">{index + 1}.</span>
+                  <span className="flex-1">
+                    {describeMatch(rule)} → {describeAssignments(rule)}
+                    {report?.costByRule[rule.id] !== undefined && (
+                      <span className="text-gray-500"> ({formatCurrency(report.costByRule[rule.id], report.currency)})</span>
+                    )}
+                  </span>
+                  <Button variant="outline" size="sm" disabled={isLoading || index === 0} onClick={() => moveRule(index, -1)}>
+                    ↑
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isLoading || index === rules.length - 1}
+                    onClick={() => moveRule(index, 1)}
+                  >
+                    ↓
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isLoading}
+                    onClick={() => saveRules(rules.filter((r) => r.id !== rule.id))}
+                  >
+                    Delete
+                  </Button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+          <Input placeholder="Tag key" value={form.tagKey} onChange={(e) => setForm({ ...form, tagKey: e.target.value })} />
+          <Input
+            placeholder="Values (any if empty)"
+            title="Comma-separated tag values the rule matches"
+            value={form.tagValues}
+            onChange={(e) => setForm({ ...form, tagValues: e.target.value })}
+          />
+          <Input
+            placeholder="Team"
+            title="{{value}} is replaced with the tag value"
+            value={form.team}
+            onChange={(e) => setForm({ ...form, team: e.target.value })}
+          />
+          <Input
+            placeholder="Product"
+            title="{{value}} is replaced with the tag value"
+            value={form.product}
+            onChange={(e) => setForm({ ...form, product: e.target.value })}
+          />
+          <Input
+            placeholder="Cost center"
+            title="{{value}} is replaced with the tag value"
+            value={form.costCenter}
+            onChange={(e) => setForm({ ...form, costCenter: e.target.value })}
+          />
+          <Button
+            onClick={addRule}
+            disabled={isLoading || !form.tagKey || !(form.team || form.product || form.costCenter)}
+          >
+            Add Rule
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Commitment, CommitmentReport } from "@/types";
+
+// Reserved Instance, Savings Plan and reservation coverage, with commitments that
+// expire soon or are under-used
+export default function CommitmentsCard() {
+  const [report, setReport] = useState<CommitmentReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/commitments")
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.details || data.error || `HTTP ${res.status}`);
+        setReport(data);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : "Unknown error"));
+  }, []);
+
+  const describe = (c: Commitment) => `${c.provider} ${c.name} (${c.description})`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Commitments</CardTitle>
+      </CardHeader>
+      <CardContent className="text-sm space-y-3">
+        {error && <p className="text-red-500">Failed to load commitments: {error}</p>}
+        {!report && !error && <p className="text-gray-500">Loading commitments...</p>}
+        {report && (
+          <>
+            <div>
+              <p className="font-medium">Coverage (last {report.windowDays} days)</p>
+              {report.coverage.length === 0 && <p className="text-gray-500">No providers with commitment data configured</p>}
+              {report.coverage.map((c) => (
+                <p key={`${c.provider}-${c.label}`}>
+                  {c.provider} {c.label}:{" "}
+                  {c.coveragePercent !== undefined ? `${c.coveragePercent.toFixed(1)}%` : "no eligible usage"}
+                </p>
+              ))}
+            </div>
+
+            <div>
+              <p className="font-medium">Expiring within {report.expiryDays} days ({report.expiring.length})</p>
+              {report.expiring.map((c) => (
+                <p key={c.id}>
+                  {describe(c)}: {c.endDate ? new Date(c.endDate).toLocaleDateString() : "-"}
+                </p>
+              ))}
+            </div>
+
+            <div>
+              <p className="font-medium">Under {report.utilizationThreshold}% utilized ({report.underused.length})</p>
+              {report.underused.map((c) => (
+                <p key={c.id} className="text-amber-700">
+                  {describe(c)}: {c.utilizationPercent?.toFixed(1)}%
+                </p>
+              ))}
+            </div>
+
+            <p className="text-gray-500">{report.commitments.length} commitments in total</p>
+            {report.errors?.map((e) => (
+              <p key={e} className="text-red-500">{e}</p>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,15 +2,35 @@
 
 import { useEffect, useState } from "react";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
-import { LineChart, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { LineChart, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, ReferenceDot } from "recharts";
+import { CostAnomaly, MonthlyProjection } from "@/types";
+import { COST_CATEGORIES, COST_METRICS } from "@/lib/focus";
+import { formatCurrency } from "@/lib/currency";
+
+interface TrendPoint {
+  month: string;
+  provider: string;
+  total_cost?: number;
+  percent_change?: number;
+  forecast_cost?: number;
+  anomalies: number;
+}
+
+function monthLabel(month: string) {
+  return new Date(month).toLocaleDateString("en-US", { month: "short", year: "numeric" });
+}
 
 export default function CostTrendChart() {
   const [trendData, setTrendData] = useState<any[]>([]);
+  const [currency, setCurrency] = useState("USD");
   const [loading, setLoading] = useState(false);
   const [filters, setFilters] = useState({
     providers: ["AWS", "Azure", "GCP"],
     region: "",
     service: "",
+    account: "",
+    metric: "amortized",
+    categories: COST_CATEGORIES as string[],
     months: 6,
   });
 
@@ -20,19 +40,45 @@ export default function CostTrendChart() {
     filters.providers.forEach((p) => params.append("provider", p));
     if (filters.region) params.set("region", filters.region);
     if (filters.service) params.set("service", filters.service);
+    filters.account
+      .split(",")
+      .map((a) => a.trim())
+      .filter(Boolean)
+      .forEach((a) => params.append("account", a));
     params.set("months", String(filters.months));
+    params.set("metric", filters.metric);
+    filters.categories.forEach((c) => params.append("category", c));
 
-    const res = await fetch(`/api/scans/trends?${params.toString()}`);
+    const [res, anomalyRes] = await Promise.all([
+      fetch(`/api/scans/trends?${params.toString()}`),
+      fetch(`/api/anomalies?days=${filters.months * 31}`),
+    ]);
     const data = await res.json();
+    const anomalyData = anomalyRes.ok ? await anomalyRes.json() : { anomalies: [] };
+
+    // Anomaly days per month and provider, labelled like the trend months
+    const anomalyCounts = new Map<string, number>();
+    ((anomalyData.anomalies || []) as CostAnomaly[]).forEach((a) => {
+      const key = `${monthLabel(`${a.date.slice(0, 7)}-01T00:00:00.000Z`)}|${a.provider}`;
+      anomalyCounts.set(key, (anomalyCounts.get(key) || 0) + 1);
+    });
+
+    const points: TrendPoint[] = data.trends.map((t: any) => ({
+      month: monthLabel(t.month),
+      provider: t.provider,
+      total_cost: Number(t.total_cost),
+      percent_change: parseFloat(t.percent_change),
+      anomalies: anomalyCounts.get(`${monthLabel(t.month)}|${t.provider}`) || 0,
+    }));
+    // The current month's projection joins its partial point; later months get points of their own
+    ((data.projections || []) as MonthlyProjection[]).forEach((p) => {
+      const point = points.find((t) => t.month === monthLabel(p.month) && t.provider === p.provider);
+      if (point) point.forecast_cost = p.forecastCost;
+      else points.push({ month: monthLabel(p.month), provider: p.provider, forecast_cost: p.forecastCost, anomalies: 0 });
+    });
 
-    setTrendData(
-      data.trends.map((t: any) => ({
-        month: new Date(t.month).toLocaleDateString("en-US", { month: "short", year: "numeric" }),
-        provider: t.provider,
-        total_cost: Number(t.total_cost),
-        percent_change: parseFloat(t.percent_change),
-      }))
-    );
+    setCurrency(data.currency || "USD");
+    setTrendData(points);
     setLoading(false);
   };
 
@@ -49,6 +95,15 @@ export default function CostTrendChart() {
     }));
   };
 
+  const toggleCategory = (c: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      categories: prev.categories.includes(c)
+        ? prev.categories.length > 1 ? prev.categories.filter((x) => x !== c) : prev.categories
+        : [...prev.categories, c],
+    }));
+  };
+
   return (
     <Card className="mb-6">
       <CardHeader>
@@ -81,6 +136,40 @@ export default function CostTrendChart() {
             <option value={6}>Last 6 months</option>
             <option value={12}>Last 12 months</option>
           </select>
+
+          <select
+            className="border rounded px-2 py-1 text-sm"
+            value={filters.metric}
+            onChange={(e) =>
+              setFilters((prev) => ({ ...prev, metric: e.target.value }))
+            }
+          >
+            {COST_METRICS.map((m) => (
+              <option key={m} value={m}>
+                {m.charAt(0).toUpperCase() + m.slice(1)} cost
+              </option>
+            ))}
+          </select>
+
+          {COST_CATEGORIES.map((c) => (
+            <label key={c} className="flex items-center gap-1 text-sm">
+              <input
+                type="checkbox"
+                checked={filters.categories.includes(c)}
+                onChange={() => toggleCategory(c)}
+              />
+              {c}
+            </label>
+          ))}
+
+          <input
+            className="border rounded px-2 py-1 text-sm"
+            placeholder="Account IDs (comma-separated)"
+            defaultValue={filters.account}
+            onBlur={(e) =>
+              setFilters((prev) => ({ ...prev, account: e.target.value }))
+            }
+          />
         </div>
 
         <div className="h-80">
@@ -94,11 +183,24 @@ export default function CostTrendChart() {
                 <Tooltip formatter={(value, name) =>
                   name === "percent_change"
                     ? `${value}%`
-                    : `$${Number(value).toFixed(2)}`
+                    : formatCurrency(Number(value), currency)
                 } />
                 <Legend />
-                <Line type="monotone" dataKey="total_cost" stroke="#3b82f6" name="Total Cost ($)" />
+                <Line type="monotone" dataKey="total_cost" stroke="#3b82f6" name={`Total Cost (${currency})`} />
                 <Line type="monotone" dataKey="percent_change" stroke="#ef4444" name="% Change" />
+                <Line type="monotone" dataKey="forecast_cost" stroke="#3b82f6" strokeDasharray="5 5" name={`Forecast (${currency})`} />
+                {/* Months in which a provider had cost anomalies */}
+                {trendData.filter((t) => t.anomalies > 0).map((t) => (
+                  <ReferenceDot
+                    key={`${t.month}|${t.provider}`}
+                    x={t.month}
+                    y={t.total_cost}
+                    r={6}
+                    fill="#f97316"
+                    stroke="none"
+                    label={{ value: `${t.provider}: ${t.anomalies} anomalies`, position: "top", fontSize: 11 }}
+                  />
+                ))}
               </LineChart>
             </ResponsiveContainer>
           )}
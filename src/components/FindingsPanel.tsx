@@ -0,0 +1,65 @@
+"use client";
+
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { WasteFinding } from "@/types";
+import { formatCurrency } from "@/lib/currency";
+
+const BASIS_LABELS: Record<WasteFinding["estimateBasis"], string> = {
+  "cost-data": "Projected from this month's cost",
+  "list-price": "Estimated from list prices",
+  unknown: "No cost data or list price",
+};
+
+// Idle and orphaned resources flagged by the waste rules, linked to their rows in the
+// asset table
+export default function FindingsPanel({ findings }: { findings: WasteFinding[] }) {
+  const currency = findings[0]?.currency || "USD";
+  const totalMonthlyWaste = findings.reduce((sum, finding) => sum + finding.estimatedMonthlyWaste, 0);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Waste Findings</CardTitle>
+      </CardHeader>
+      <CardContent className="text-sm space-y-3">
+        {findings.length === 0 ? (
+          <p className="text-gray-500">No idle or orphaned resources found in the latest scans</p>
+        ) : (
+          <>
+            <p>
+              {findings.length} idle or orphaned resources, an estimated{" "}
+              <span className="font-medium">{formatCurrency(totalMonthlyWaste, currency)}</span> per month
+            </p>
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1">Finding</th>
+                  <th className="py-1">Resource</th>
+                  <th className="py-1">Details</th>
+                  <th className="py-1 text-right">Monthly waste</th>
+                </tr>
+              </thead>
+              <tbody>
+                {findings.map((f) => (
+                  <tr key={f.id}>
+                    <td className="py-1">{f.title}</td>
+                    <td className="py-1">
+                      <a href={`#asset-${encodeURIComponent(f.assetId)}`} className="text-blue-600 hover:underline">
+                        {f.provider} {f.assetName}
+                      </a>{" "}
+                      <span className="text-gray-500">({f.service}, {f.region})</span>
+                    </td>
+                    <td className="py-1">{f.detail}</td>
+                    <td className="py-1 text-right" title={BASIS_LABELS[f.estimateBasis]}>
+                      {f.estimateBasis === "unknown" ? "-" : formatCurrency(f.estimatedMonthlyWaste, f.currency)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
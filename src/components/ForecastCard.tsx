@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { ForecastReport, SpendForecast, SpendProjection } from "@/types";
+import { formatCurrency } from "@/lib/currency";
+
+const TOP_SERVICES = 5;
+
+// Month-end and quarter-end spend projected from the daily cost history, compared with
+// last month's total
+export default function ForecastCard() {
+  const [report, setReport] = useState<ForecastReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/forecast")
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.details || data.error || `HTTP ${res.status}`);
+        setReport(data);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : "Unknown error"));
+  }, []);
+
+  const money = (amount: number) => formatCurrency(amount, report?.currency);
+  const range = (p: SpendProjection) => `${money(p.lowerBound)} – ${money(p.upperBound)}`;
+  const change = (f: SpendForecast) =>
+    f.lastMonthCost > 0 ? `${(((f.month.forecastCost - f.lastMonthCost) / f.lastMonthCost) * 100).toFixed(1)}%` : "-";
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Spend Forecast</CardTitle>
+      </CardHeader>
+      <CardContent className="text-sm space-y-3">
+        {error && <p className="text-red-500">Failed to load forecast: {error}</p>}
+        {!report && !error && <p className="text-gray-500">Loading forecast...</p>}
+        {report && (
+          <>
+            <p>
+              Month end ({report.total.month.periodEnd}):{" "}
+              <span className="font-medium">{money(report.total.month.forecastCost)}</span>{" "}
+              <span className="text-gray-500">({range(report.total.month)}, {report.confidence}% interval)</span>, last month{" "}
+              {money(report.total.lastMonthCost)} ({change(report.total)})
+            </p>
+            <p>
+              Quarter end ({report.total.quarter.periodEnd}):{" "}
+              <span className="font-medium">{money(report.total.quarter.forecastCost)}</span>{" "}
+              <span className="text-gray-500">({range(report.total.quarter)})</span>
+            </p>
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1">Provider / service</th>
+                  <th className="py-1 text-right">Last month</th>
+                  <th className="py-1 text-right">Month to date</th>
+                  <th className="py-1 text-right">Month-end forecast</th>
+                  <th className="py-1 text-right">Change</th>
+                  <th className="py-1 text-right">Quarter-end forecast</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...report.byProvider, ...report.byService.slice(0, TOP_SERVICES)].map((f) => (
+                  <tr key={`${f.provider}|${f.service || ""}`} className={f.service ? "text-gray-600" : "font-medium"}>
+                    <td className="py-1">{f.service ? `${f.provider} ${f.service}` : f.provider}</td>
+                    <td className="py-1 text-right">{money(f.lastMonthCost)}</td>
+                    <td className="py-1 text-right">{money(f.month.actualCost)}</td>
+                    <td className="py-1 text-right" title={range(f.month)}>{money(f.month.forecastCost)}</td>
+                    <td className="py-1 text-right">{change(f)}</td>
+                    <td className="py-1 text-right" title={range(f.quarter)}>{money(f.quarter.forecastCost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-gray-500">
+              Based on complete days up to {report.asOf}; costs billed late raise the actuals once they arrive
+            </p>
+            {report.periodCost && (
+              <p className="text-amber-600">
+                Not forecast, as it is not billed per day:{" "}
+                {Object.entries(report.periodCost).map(([provider, cost]) => `${provider} ${money(cost)}`).join(", ")}.
+                Import a billing export for daily costs.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { CloudAsset, RightsizingReport } from "@/types";
+import { formatCurrency } from "@/lib/currency";
+
+// Smaller instance sizes for running instances, from 95th percentile CPU and memory
+// utilization over the collection window
+export default function RightsizingCard({ assets }: { assets: CloudAsset[] }) {
+  const [report, setReport] = useState<RightsizingReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const analyze = async (source: "monitoring" | "imported") => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/rightsizing", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        // Without scanned assets the server discovers them itself
+        body: JSON.stringify(assets.length > 0 ? { assets, source } : { source }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || `HTTP ${res.status}`);
+      setReport(data);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle>Rightsizing</CardTitle>
+      </CardHeader>
+      <CardContent className="text-sm space-y-3">
+        <div className="flex gap-2">
+          <Button onClick={() => analyze("monitoring")} disabled={isLoading}>
+            {isLoading ? "Analyzing..." : "Analyze utilization"}
+          </Button>
+          <Button variant="outline" onClick={() => analyze("imported")} disabled={isLoading}>
+            Use imported metrics only
+          </Button>
+        </div>
+        {error && <p className="text-red-500">Failed to build recommendations: {error}</p>}
+        {report && (
+          <>
+            <p>
+              {report.recommendations.length} of {report.analyzedInstances} analyzed instances can be downsized, saving an
+              estimated <span className="font-medium">{formatCurrency(report.totalMonthlySavings, report.currency)}</span> per
+              month (last {report.windowDays} days of utilization)
+            </p>
+            {report.recommendations.length > 0 && (
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1">Instance</th>
+                    <th className="py-1">Current</th>
+                    <th className="py-1">Recommended</th>
+                    <th className="py-1 text-right">CPU p95</th>
+                    <th className="py-1 text-right">Memory p95</th>
+                    <th className="py-1 text-right">Monthly savings</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.recommendations.map((r) => (
+                    <tr key={r.assetId} title={r.reason}>
+                      <td className="py-1">{r.provider} {r.assetName} ({r.region})</td>
+                      <td className="py-1">{r.currentType}</td>
+                      <td className="py-1">{r.recommendedType}</td>
+                      <td className="py-1 text-right">{r.cpuP95 !== undefined ? `${r.cpuP95.toFixed(1)}%` : "-"}</td>
+                      <td className="py-1 text-right">{r.memoryP95 !== undefined ? `${r.memoryP95.toFixed(1)}%` : "-"}</td>
+                      <td className="py-1 text-right">{formatCurrency(r.estimatedMonthlySavings, report.currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {report.withoutMetrics.length > 0 && (
+              <p className="text-gray-500">{report.withoutMetrics.length} running instances without enough utilization data</p>
+            )}
+            {report.unknownTypes.length > 0 && (
+              <p className="text-gray-500">Not in the instance catalog: {report.unknownTypes.join(", ")}</p>
+            )}
+            {report.errors?.map((e) => (
+              <p key={e} className="text-red-500">{e}</p>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { AllocationRule } from "@/types";
+import { allocate, AllocatableCost, buildChargebackReport, UNALLOCATED } from "./allocation";
+
+const rule = (id: string, tagKey: string, fields: Partial<AllocationRule>): AllocationRule => ({
+  id,
+  name: id,
+  tagKey,
+  tagValues: [],
+  enabled: true,
+  ...fields,
+});
+
+const RULES = [
+  rule("payments", "team", { tagValues: ["payments"], team: "Payments", costCenter: "CC-100" }),
+  rule("any-team", "team", { team: "{{ value }}" }),
+  rule("product", "app", { product: "{{value}}", costCenter: "CC-{{value}}" }),
+  rule("disabled", "env", { team: "Platform", product: "Platform", costCenter: "CC-999", enabled: false }),
+];
+
+describe("allocate", () => {
+  it("gives each dimension the assignment of the first matching rule that sets it", () => {
+    expect(allocate({ team: "payments", app: "checkout" }, RULES)).toEqual({
+      team: "Payments",
+      product: "checkout",
+      costCenter: "CC-100",
+      ruleIds: ["payments", "product"],
+    });
+  });
+
+  it("matches any value when a rule lists none, substituting the tag value", () => {
+    expect(allocate({ team: "search" }, RULES)).toEqual({
+      team: "search",
+      product: UNALLOCATED,
+      costCenter: UNALLOCATED,
+      ruleIds: ["any-team"],
+    });
+  });
+
+  it("skips disabled rules and leaves unmatched costs unallocated", () => {
+    expect(allocate({ env: "prod" }, RULES)).toEqual({
+      team: UNALLOCATED,
+      product: UNALLOCATED,
+      costCenter: UNALLOCATED,
+      ruleIds: [],
+    });
+  });
+});
+
+describe("buildChargebackReport", () => {
+  const cost = (tags: Record<string, string>, amount: number, service = "Compute"): AllocatableCost => ({
+    provider: "AWS",
+    service,
+    tags,
+    cost: amount,
+  });
+
+  it("reports what no rule allocates as the unallocated remainder", () => {
+    const report = buildChargebackReport(
+      [
+        cost({ team: "payments", app: "checkout" }, 60),
+        cost({ team: "payments", app: "checkout" }, 15, "Storage"),
+        cost({ env: "prod" }, 25),
+      ],
+      RULES,
+      { month: "2026-10", currency: "USD", costMetric: "amortized" },
+      new Date("2026-10-19T08:00:00.000Z")
+    );
+
+    expect(report.totalCost).toBe(100);
+    expect(report.unallocatedCost).toBe(25);
+    expect(report.costCenters.map(charge => [charge.costCenter, charge.cost, charge.share])).toEqual([
+      ["CC-100", 75, 75],
+      [UNALLOCATED, 25, 25],
+    ]);
+    expect(report.costByTeam).toEqual({ Payments: 75, [UNALLOCATED]: 25 });
+    expect(report.costByRule).toEqual({ payments: 75, product: 75 });
+    expect(report.generatedAt).toBe("2026-10-19T08:00:00.000Z");
+  });
+});
@@ -0,0 +1,223 @@
+// Showback and chargeback allocation
+// Each cost is mapped to a team, product and cost center by ordered tag rules: every
+// dimension takes the assignment of the first enabled rule that matches the cost's tags
+// and sets it, and falls into the 'unallocated' bucket when none does. Billing tags are
+// merged over the tags of the scanned resource the cost belongs to, which are stored as
+// flat "key:value" strings.
+
+import {
+  AllocationDimension,
+  AllocationRule,
+  ChargebackLine,
+  ChargebackReport,
+  CloudProvider,
+  CostCenterCharge,
+  CostMetric,
+} from '@/types';
+
+export const UNALLOCATED = 'unallocated';
+
+export const ALLOCATION_DIMENSIONS: AllocationDimension[] = ['team', 'product', 'costCenter'];
+
+// Cost of one provider and service with one set of tags
+export interface AllocatableCost {
+  provider: CloudProvider;
+  service: string;
+  tags: Record<string, string>;
+  cost: number;  // In the report currency
+}
+
+export interface Allocation {
+  team: string;
+  product: string;
+  costCenter: string;
+  ruleIds: string[];  // Rules that assigned at least one dimension
+}
+
+export type AllocationRuleInput = Omit<AllocationRule, 'id'>;
+
+export const INVALID_ALLOCATION_RULES_MESSAGE =
+  'Expected rules: an array in evaluation order, each with a tagKey, optional tagValues (strings; any value when empty), ' +
+  'at least one of team, product and costCenter ({{value}} is replaced with the tag value), an optional name and enabled';
+
+// Ordered rules from a request body, or undefined when a rule is missing or invalid
+export function parseAllocationRules(body: unknown): AllocationRuleInput[] | undefined {
+  if (!body || typeof body !== 'object') return undefined;
+  const rules = (body as Record<string, unknown>).rules;
+  if (!Array.isArray(rules)) return undefined;
+
+  const parsed: AllocationRuleInput[] = [];
+  for (const rule of rules) {
+    if (!rule || typeof rule !== 'object') return undefined;
+    const value = rule as Record<string, unknown>;
+    const tagKey = text(value.tagKey);
+    const tagValues = value.tagValues === undefined ? [] : value.tagValues;
+    if (!tagKey || !Array.isArray(tagValues) || !tagValues.every(item => typeof item === 'string')) return undefined;
+
+    const assignments = { team: text(value.team), product: text(value.product), costCenter: text(value.costCenter) };
+    if (ALLOCATION_DIMENSIONS.every(dimension => !assignments[dimension])) return undefined;
+    if (value.enabled !== undefined && typeof value.enabled !== 'boolean') return undefined;
+
+    parsed.push({
+      name: text(value.name) || tagKey,
+      tagKey,
+      tagValues: tagValues.map(item => item.trim()).filter(Boolean),
+      ...assignments,
+      enabled: value.enabled !== false,
+    });
+  }
+  return parsed;
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// Tags of a scanned asset as a map; entries without a colon are plain labels and skipped
+export function parseAssetTags(tags: unknown): Record<string, string> {
+  const parsed: Record<string, string> = {};
+  if (!Array.isArray(tags)) return parsed;
+  for (const tag of tags) {
+    if (typeof tag !== 'string') continue;
+    const separator = tag.indexOf(':');
+    if (separator > 0) parsed[tag.slice(0, separator).trim()] = tag.slice(separator + 1).trim();
+  }
+  return parsed;
+}
+
+// Team, product and cost center of a cost with these tags
+export function allocate(tags: Record<string, string>, rules: AllocationRule[]): Allocation {
+  const assigned: Partial<Record<AllocationDimension, string>> = {};
+  const ruleIds: string[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const tagValue = tags[rule.tagKey];
+    if (tagValue === undefined || (rule.tagValues.length > 0 && !rule.tagValues.includes(tagValue))) continue;
+
+    let used = false;
+    for (const dimension of ALLOCATION_DIMENSIONS) {
+      const assignment = rule[dimension]?.replace(/\{\{\s*value\s*\}\}/g, tagValue).trim();
+      if (assigned[dimension] || !assignment) continue;
+      assigned[dimension] = assignment;
+      used = true;
+    }
+    if (used) ruleIds.push(rule.id);
+    if (ALLOCATION_DIMENSIONS.every(dimension => assigned[dimension])) break;
+  }
+
+  return {
+    team: assigned.team || UNALLOCATED,
+    product: assigned.product || UNALLOCATED,
+    costCenter: assigned.costCenter || UNALLOCATED,
+    ruleIds,
+  };
+}
+
+// The month's costs per cost center, team and product
+export function buildChargebackReport(
+  costs: AllocatableCost[],
+  rules: AllocationRule[],
+  context: { month: string; currency: string; costMetric: CostMetric },
+  now: Date = new Date()
+): ChargebackReport {
+  const costCenters = new Map<string, Map<string, ChargebackLine>>();
+  const costByTeam: Record<string, number> = {};
+  const costByProduct: Record<string, number> = {};
+  const costByRule: Record<string, number> = {};
+  let totalCost = 0;
+
+  for (const item of costs) {
+    const allocation = allocate(item.tags, rules);
+    const lines = costCenters.get(allocation.costCenter) || new Map<string, ChargebackLine>();
+    const key = [allocation.team, allocation.product, item.provider, item.service].join('|');
+    const line = lines.get(key) || {
+      team: allocation.team,
+      product: allocation.product,
+      provider: item.provider,
+      service: item.service,
+      cost: 0,
+    };
+    line.cost += item.cost;
+    lines.set(key, line);
+    costCenters.set(allocation.costCenter, lines);
+
+    costByTeam[allocation.team] = (costByTeam[allocation.team] || 0) + item.cost;
+    costByProduct[allocation.product] = (costByProduct[allocation.product] || 0) + item.cost;
+    for (const ruleId of allocation.ruleIds) costByRule[ruleId] = (costByRule[ruleId] || 0) + item.cost;
+    totalCost += item.cost;
+  }
+
+  const charges: CostCenterCharge[] = Array.from(costCenters, ([costCenter, lines]) => {
+    const cost = sum(Array.from(lines.values()).map(line => line.cost));
+    return {
+      costCenter,
+      cost,
+      share: totalCost !== 0 ? cost / totalCost * 100 : 0,
+      lines: Array.from(lines.values()).sort((a, b) => b.cost - a.cost),
+    };
+  });
+
+  return {
+    month: context.month,
+    currency: context.currency,
+    costMetric: context.costMetric,
+    totalCost,
+    unallocatedCost: charges.find(charge => charge.costCenter === UNALLOCATED)?.cost ?? 0,
+    costCenters: charges.sort((a, b) => b.cost - a.cost),
+    costByTeam,
+    costByProduct,
+    costByRule,
+    generatedAt: now.toISOString(),
+  };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+const CSV_COLUMNS = ['Month', 'Cost Center', 'Team', 'Product', 'Provider', 'Service', 'Cost', 'Currency'];
+
+// One row per cost center, team, product, provider and service, for finance spreadsheets
+export function chargebackCsv(report: ChargebackReport): string {
+  const rows = [CSV_COLUMNS];
+  for (const charge of report.costCenters) {
+    for (const line of charge.lines) {
+      rows.push([
+        report.month,
+        charge.costCenter,
+        line.team,
+        line.product,
+        line.provider,
+        line.service,
+        line.cost.toFixed(2),
+        report.currency,
+      ]);
+    }
+  }
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Quote fields that need it; a leading formula character is escaped so spreadsheets show tag values as text
+function csvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) && !/^-?\d/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// The month to report: YYYY-MM as given, or the last complete month
+export function parseChargebackMonth(value: string | null, now: Date = new Date()): string | undefined {
+  if (value === null) {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString().slice(0, 7);
+  }
+  const match = /^(\d{4})-(\d{2})$/.exec(value);
+  return match && Number(match[2]) >= 1 && Number(match[2]) <= 12 ? value : undefined;
+}
+
+// First day of the month and of the month after it, as ISO dates
+export function monthRange(month: string): { start: string; end: string } {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return {
+    start: new Date(Date.UTC(year, monthIndex - 1, 1)).toISOString().slice(0, 10),
+    end: new Date(Date.UTC(year, monthIndex, 1)).toISOString().slice(0, 10),
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { AnomalyOptions, detectAnomalies } from "./anomalies";
+import { DailyCost } from "./daily-costs";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A Tuesday, so the evaluated days are Monday 2026-10-19 and Sunday 2026-10-18
+const NOW = new Date("2026-10-20T08:00:00.000Z");
+const CONTEXT = { currency: "USD", costMetric: "amortized" as const };
+const OPTIONS: AnomalyOptions = {
+  baselineDays: 56,
+  minHistoryDays: 14,
+  evaluationDays: 2,
+  threshold: 3.5,
+  minCostImpact: 10,
+  tagKeys: [],
+};
+
+const isoDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Weekdays cost about 100 and weekends about 20, with day-to-day noise of up to `noise`
+function history(days: number, noise = 2, lastDay = "2026-10-17"): DailyCost[] {
+  const last = Date.parse(lastDay);
+  return Array.from({ length: days }, (_, index) => {
+    const day = isoDay(last - index * DAY_MS);
+    const weekend = [0, 6].includes(new Date(day).getUTCDay());
+    const variation = noise * ((index % 5) - 2) / 2;
+    return { day, provider: "AWS", service: "Amazon EC2", accountId: "123456789012", cost: (weekend ? 20 : 100) + variation };
+  });
+}
+
+const day = (date: string, cost: number, service = "Amazon EC2"): DailyCost =>
+  ({ day: date, provider: "AWS", service, accountId: "123456789012", cost });
+
+describe("detectAnomalies", () => {
+  it("compares each day with the median for its day of the week", () => {
+    // A weekday level of spend is normal on Monday but anomalous on Sunday
+    const costs = [...history(56), day("2026-10-18", 100), day("2026-10-19", 100)];
+
+    const anomalies = detectAnomalies(costs, new Map(), CONTEXT, OPTIONS, NOW);
+
+    expect(anomalies.map(anomaly => [anomaly.date, anomaly.dimension, anomaly.value])).toEqual([
+      ["2026-10-18", "provider", "AWS"],
+      ["2026-10-18", "service", "Amazon EC2"],
+      ["2026-10-18", "account", "123456789012"],
+    ]);
+    // The Sunday median, not the overall one
+    expect(Math.abs(anomalies[0].expectedCost - 20)).toBeLessThanOrEqual(1);
+    expect(anomalies[0].actualCost).toBe(100);
+    expect(anomalies[0].severity).toBe("high");
+    expect(anomalies[0].rootCauses).toEqual([
+      { service: "Amazon EC2", accountId: "123456789012", expectedCost: anomalies[0].expectedCost, actualCost: 100 },
+    ]);
+  });
+
+  it("scores increases against the spread of the baseline", () => {
+    // The scaled MAD of this history is below 5% of the median, so the spread is that 5%
+    const costs = [...history(56), day("2026-10-18", 20), day("2026-10-19", 125)];
+
+    const [anomaly] = detectAnomalies(costs, new Map(), CONTEXT, OPTIONS, NOW);
+
+    expect(anomaly.date).toBe("2026-10-19");
+    expect(anomaly.expectedCost).toBeCloseTo(100);
+    // 25 above the expected cost with a spread of about 5
+    expect(anomaly.score).toBeCloseTo(5, 0);
+    expect(anomaly.severity).toBe("low");
+  });
+
+  it("widens the spread to the median absolute deviation of noisy history", () => {
+    // Costs vary by up to 20 a day, so 150 on a Monday is within the usual spread
+    const noisy = (monday: number) => [...history(56, 20), day("2026-10-18", 20), day("2026-10-19", monday)];
+
+    expect(detectAnomalies(noisy(150), new Map(), CONTEXT, OPTIONS, NOW)).toEqual([]);
+    expect(detectAnomalies(noisy(200), new Map(), CONTEXT, OPTIONS, NOW).map(anomaly => anomaly.date)).toEqual([
+      "2026-10-19",
+      "2026-10-19",
+      "2026-10-19",
+    ]);
+  });
+
+  it("ignores increases below the minimum cost impact and groupings without enough history", () => {
+    const smallIncrease = [...history(56), day("2026-10-18", 28), day("2026-10-19", 100)];
+    const shortHistory = [...history(10), day("2026-10-18", 500)];
+
+    expect(detectAnomalies(smallIncrease, new Map(), CONTEXT, OPTIONS, NOW)).toEqual([]);
+    expect(detectAnomalies(shortHistory, new Map(), CONTEXT, OPTIONS, NOW)).toEqual([]);
+  });
+
+  it("evaluates tag values from the tag costs", () => {
+    const tagged = [...history(56), day("2026-10-18", 100)].map(cost => ({ ...cost, tagValue: "payments" }));
+
+    const anomalies = detectAnomalies([], new Map([["team", tagged]]), CONTEXT, OPTIONS, NOW);
+
+    expect(anomalies.map(anomaly => [anomaly.date, anomaly.dimension, anomaly.tagKey, anomaly.value])).toEqual([
+      ["2026-10-18", "tag", "team", "payments"],
+    ]);
+  });
+});
@@ -0,0 +1,186 @@
+// Cost anomaly detection
+// Every day's cost per provider, service, account and tag value is compared with a
+// baseline from the weeks before it: the rolling median adjusted for the day of the
+// week, with the median absolute deviation (MAD) as the spread. A day is anomalous when
+// it sits far above that baseline in MAD units (a robust z-score) and the increase is
+// large enough to matter. Only increases are reported: billing data arrives late, so
+// the most recent days regularly look like drops.
+
+import { AnomalyDimension, AnomalyRootCause, AnomalySeverity, CloudProvider, CostAnomaly, CostMetric } from '@/types';
+import { parseList } from './connectors/options';
+import { DailyCost } from './daily-costs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Scales a MAD to a standard deviation for normally distributed costs
+const MAD_SCALE = 1.4826;
+const ROOT_CAUSE_LIMIT = 3;
+
+export interface AnomalyOptions {
+  baselineDays: number;  // Days of history before each evaluated day
+  minHistoryDays: number;  // History a grouping needs before it is evaluated
+  evaluationDays: number;  // Complete days before today to evaluate; billing data is revised for a few days
+  threshold: number;  // Robust z-score above which a day is anomalous
+  minCostImpact: number;  // Smallest increase over the expected cost, in the reporting currency
+  tagKeys: string[];  // Tag keys whose values are checked
+}
+
+export function defaultAnomalyOptions(): AnomalyOptions {
+  const tagKeys = parseList(process.env.ANOMALY_TAG_KEYS);
+  return {
+    baselineDays: Number(process.env.ANOMALY_BASELINE_DAYS) || 56,
+    minHistoryDays: 14,
+    evaluationDays: Number(process.env.ANOMALY_EVALUATION_DAYS) || 3,
+    threshold: Number(process.env.ANOMALY_THRESHOLD) || 3.5,
+    minCostImpact: Number(process.env.ANOMALY_MIN_COST_IMPACT) || 10,
+    tagKeys: tagKeys.length > 0 ? tagKeys : ['team', 'environment', 'project'],
+  };
+}
+
+interface Baseline {
+  expected: number;
+  spread: number;  // Scaled MAD, never zero
+}
+
+// One grouping's daily costs, plus its service and account breakdown for root causes
+interface CostSeries {
+  provider: CloudProvider;
+  dimension: AnomalyDimension;
+  tagKey?: string;
+  value: string;
+  costs: Map<string, number>;
+  breakdown: Map<string, { service: string; accountId?: string; costs: Map<string, number> }>;
+}
+
+// Evaluate the last complete days of every grouping in the daily costs. Tag costs are
+// keyed by tag key and hold the costs of line items carrying that key.
+export function detectAnomalies(
+  costs: DailyCost[],
+  tagCosts: Map<string, DailyCost[]>,
+  context: { currency: string; costMetric: CostMetric },
+  options: AnomalyOptions = defaultAnomalyOptions(),
+  now: Date = new Date()
+): CostAnomaly[] {
+  const series = new Map<string, CostSeries>();
+  for (const cost of costs) {
+    addCost(series, cost, 'provider', cost.provider);
+    addCost(series, cost, 'service', cost.service);
+    if (cost.accountId) addCost(series, cost, 'account', cost.accountId);
+  }
+  for (const [tagKey, taggedCosts] of tagCosts) {
+    for (const cost of taggedCosts) {
+      if (cost.tagValue) addCost(series, cost, 'tag', cost.tagValue, tagKey);
+    }
+  }
+
+  const today = Date.parse(now.toISOString().slice(0, 10));
+  const days = Array.from({ length: options.evaluationDays }, (_, index) => isoDay(today - (index + 1) * DAY_MS));
+  const anomalies: CostAnomaly[] = [];
+
+  for (const item of series.values()) {
+    for (const day of days) {
+      const actual = item.costs.get(day) || 0;
+      const baseline = computeBaseline(item.costs, day, options);
+      if (!baseline) continue;
+
+      const increase = actual - baseline.expected;
+      const score = increase / baseline.spread;
+      if (score < options.threshold || increase < options.minCostImpact) continue;
+
+      anomalies.push({
+        id: [day, item.dimension, item.provider, item.tagKey || '', item.value].join('|'),
+        date: day,
+        provider: item.provider,
+        dimension: item.dimension,
+        tagKey: item.tagKey,
+        value: item.value,
+        expectedCost: baseline.expected,
+        actualCost: actual,
+        score,
+        severity: severity(score, actual, baseline.expected),
+        rootCauses: rootCauses(item, day, options),
+        currency: context.currency,
+        costMetric: context.costMetric,
+        detectedAt: now.toISOString(),
+      });
+    }
+  }
+
+  return anomalies.sort((a, b) => b.date.localeCompare(a.date) || (b.actualCost - b.expectedCost) - (a.actualCost - a.expectedCost));
+}
+
+function addCost(series: Map<string, CostSeries>, cost: DailyCost, dimension: AnomalyDimension, value: string, tagKey?: string): void {
+  const key = [dimension, cost.provider, tagKey || '', value].join('|');
+  const item = series.get(key) || { provider: cost.provider, dimension, tagKey, value, costs: new Map(), breakdown: new Map() };
+  item.costs.set(cost.day, (item.costs.get(cost.day) || 0) + cost.cost);
+
+  const breakdownKey = `${cost.service}|${cost.accountId || ''}`;
+  const part = item.breakdown.get(breakdownKey) || { service: cost.service, accountId: cost.accountId, costs: new Map() };
+  part.costs.set(cost.day, (part.costs.get(cost.day) || 0) + cost.cost);
+  item.breakdown.set(breakdownKey, part);
+  series.set(key, item);
+}
+
+// Day-of-week adjusted median and MAD of the days before `day`. Days without cost
+// count as zero from the grouping's first cost on; a grouping without enough history
+// has no baseline.
+function computeBaseline(costs: Map<string, number>, day: string, options: AnomalyOptions): Baseline | undefined {
+  const firstDay = Array.from(costs.keys()).sort()[0];
+  const target = Date.parse(day);
+  const history: Array<{ weekday: number; cost: number }> = [];
+  for (let offset = 1; offset <= options.baselineDays; offset++) {
+    const date = isoDay(target - offset * DAY_MS);
+    if (!firstDay || date < firstDay) break;
+    history.push({ weekday: new Date(date).getUTCDay(), cost: costs.get(date) || 0 });
+  }
+  if (history.length < options.minHistoryDays) return undefined;
+
+  // Each weekday's typical distance from the overall median, e.g. lower weekend cost
+  const overall = median(history.map(point => point.cost));
+  const offsets = new Map<number, number>();
+  for (let weekday = 0; weekday < 7; weekday++) {
+    const sameDay = history.filter(point => point.weekday === weekday).map(point => point.cost);
+    offsets.set(weekday, sameDay.length >= 2 ? median(sameDay) - overall : 0);
+  }
+
+  const adjusted = history.map(point => point.cost - (offsets.get(point.weekday) || 0));
+  const center = median(adjusted);
+  const mad = median(adjusted.map(cost => Math.abs(cost - center)));
+  const expected = Math.max(0, center + (offsets.get(new Date(target).getUTCDay()) || 0));
+
+  // A perfectly flat history would make any change infinitely anomalous
+  return { expected, spread: Math.max(MAD_SCALE * mad, 0.05 * Math.abs(center), 0.01) };
+}
+
+// Service and account combinations whose own increase over their baselines was largest
+function rootCauses(item: CostSeries, day: string, options: AnomalyOptions): AnomalyRootCause[] {
+  const causes: AnomalyRootCause[] = [];
+  for (const part of item.breakdown.values()) {
+    const actualCost = part.costs.get(day) || 0;
+    const expectedCost = computeBaseline(part.costs, day, options)?.expected ?? 0;
+    if (actualCost > expectedCost) {
+      causes.push({ service: part.service, accountId: part.accountId, expectedCost, actualCost });
+    }
+  }
+  return causes
+    .sort((a, b) => (b.actualCost - b.expectedCost) - (a.actualCost - a.expectedCost))
+    .slice(0, ROOT_CAUSE_LIMIT);
+}
+
+// High when far outside the usual spread or at least double the expected cost
+function severity(score: number, actual: number, expected: number): AnomalySeverity {
+  const increase = expected > 0 ? (actual - expected) / expected : Infinity;
+  if (score >= 10 || increase >= 1) return 'high';
+  if (score >= 6 || increase >= 0.5) return 'medium';
+  return 'low';
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function isoDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
@@ -0,0 +1,149 @@
+// Budget persistence and evaluation runs
+import { prisma } from '@/lib/db';
+import { Budget, BudgetAlert, BudgetPeriod, BudgetScope, BudgetStatus, BudgetThreshold } from '@/types';
+import { CurrencyConverter } from '@/lib/currency';
+import { defaultCostMetric } from '@/lib/focus';
+import { loadCurrencyConverter } from '@/lib/exchange-rates';
+import { BudgetInput, budgetCostQuery, evaluateBudget } from './budgets';
+import { loadDailyCosts, loadPeriodCosts } from './daily-costs';
+import { defaultForecastOptions } from './forecast';
+
+interface BudgetRow {
+  id: string;
+  name: string;
+  scope: string;
+  scopeValue: string | null;
+  tagKey: string | null;
+  period: string;
+  amount: number;
+  currency: string;
+  thresholds: BudgetThreshold[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface BudgetAlertRow {
+  budgetId: string;
+  periodStart: Date;
+  basis: string;
+  percent: number;
+}
+
+export async function loadBudgets(): Promise<Budget[]> {
+  const rows: BudgetRow[] = await prisma.budget.findMany({ orderBy: { name: 'asc' } });
+  return rows.map(toBudget);
+}
+
+export async function createBudget(input: BudgetInput): Promise<Budget> {
+  return toBudget(await prisma.budget.create({ data: toData(input) }));
+}
+
+// The updated budget, or undefined when there is none with that ID
+export async function updateBudget(id: string, input: BudgetInput): Promise<Budget | undefined> {
+  const { count } = await prisma.budget.updateMany({ where: { id }, data: toData(input) });
+  return count > 0 ? toBudget(await prisma.budget.findUnique({ where: { id } })) : undefined;
+}
+
+// Whether a budget was deleted; its alerts go with it
+export async function deleteBudget(id: string): Promise<boolean> {
+  const { count } = await prisma.budget.deleteMany({ where: { id } });
+  return count > 0;
+}
+
+// Every budget's current period, without recording alerts
+export async function loadBudgetStatuses(): Promise<BudgetStatus[]> {
+  const budgets = await loadBudgets();
+  const converters = new Map<string, CurrencyConverter>();
+  const metric = defaultCostMetric();
+  const options = defaultForecastOptions();
+  const now = new Date();
+
+  const statuses: BudgetStatus[] = [];
+  for (const budget of budgets) {
+    const converter = converters.get(budget.currency) || await loadCurrencyConverter(budget.currency);
+    converters.set(budget.currency, converter);
+    const query = budgetCostQuery(budget, { metric }, options, now);
+    const [daily, period] = await Promise.all([loadDailyCosts(query, converter), loadPeriodCosts(query, converter)]);
+    statuses.push(evaluateBudget(budget, daily.costs, period.costs, options, now));
+  }
+  return statuses;
+}
+
+// Evaluate every budget and record the thresholds crossed for the first time this period
+export async function evaluateBudgets(): Promise<{ statuses: BudgetStatus[]; alerts: BudgetAlert[] }> {
+  const statuses = await loadBudgetStatuses();
+  if (statuses.length === 0) return { statuses, alerts: [] };
+
+  const raised: BudgetAlertRow[] = await prisma.budgetAlert.findMany({
+    where: { OR: statuses.map(status => ({ budgetId: status.budget.id, periodStart: new Date(status.periodStart) })) },
+  });
+  const raisedKeys = new Set(raised.map(row => alertKey(row.budgetId, row.periodStart.toISOString(), row.basis, row.percent)));
+
+  const alerts: BudgetAlert[] = [];
+  for (const status of statuses) {
+    for (const threshold of status.crossedThresholds) {
+      const key = alertKey(status.budget.id, new Date(status.periodStart).toISOString(), threshold.basis, threshold.percent);
+      if (raisedKeys.has(key)) continue;
+      alerts.push({
+        budgetId: status.budget.id,
+        budgetName: status.budget.name,
+        periodStart: status.periodStart,
+        threshold,
+        cost: threshold.basis === 'actual' ? status.actualCost : status.forecastCost,
+        amount: status.budget.amount,
+        currency: status.budget.currency,
+        crossedAt: status.evaluatedAt,
+      });
+    }
+  }
+
+  if (alerts.length > 0) {
+    await prisma.budgetAlert.createMany({
+      data: alerts.map(alert => ({
+        budgetId: alert.budgetId,
+        periodStart: new Date(alert.periodStart),
+        basis: alert.threshold.basis,
+        percent: alert.threshold.percent,
+        cost: alert.cost,
+        amount: alert.amount,
+        currency: alert.currency,
+        crossedAt: new Date(alert.crossedAt),
+      })),
+      skipDuplicates: true,
+    });
+  }
+  return { statuses, alerts };
+}
+
+function alertKey(budgetId: string, periodStart: string, basis: string, percent: number): string {
+  return [budgetId, periodStart, basis, percent].join('|');
+}
+
+function toData(input: BudgetInput) {
+  return {
+    name: input.name,
+    scope: input.scope,
+    scopeValue: input.scopeValue ?? null,
+    tagKey: input.tagKey ?? null,
+    period: input.period,
+    amount: input.amount,
+    currency: input.currency,
+    thresholds: input.thresholds,
+  };
+}
+
+function toBudget(row: BudgetRow): Budget {
+  return {
+    id: row.id,
+    name: row.name,
+    scope: row.scope as BudgetScope,
+    scopeValue: row.scopeValue ?? undefined,
+    tagKey: row.tagKey ?? undefined,
+    period: row.period as BudgetPeriod,
+    amount: row.amount,
+    currency: row.currency,
+    thresholds: row.thresholds,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
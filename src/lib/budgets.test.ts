@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { Budget } from "@/types";
+import { DailyCost, PeriodCost } from "./daily-costs";
+import { evaluateBudget } from "./budgets";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2026-10-19T08:00:00.000Z");
+const OPTIONS = { historyDays: 90, confidence: 80 };
+
+const budget: Budget = {
+  id: "budget-1",
+  name: "Cloud",
+  scope: "all",
+  period: "monthly",
+  amount: 1000,
+  currency: "USD",
+  thresholds: [
+    { percent: 50, basis: "actual" },
+    { percent: 100, basis: "forecast" },
+  ],
+  createdAt: "2026-09-01T00:00:00.000Z",
+  updatedAt: "2026-09-01T00:00:00.000Z",
+};
+
+// A month-to-date total as stored by a live GCP scan: 20 a day since the 1st
+const monthToDate: PeriodCost = {
+  periodStart: "2026-10-01T00:00:00.000Z",
+  periodEnd: "2026-10-19T07:00:00.000Z",
+  provider: "GCP",
+  service: "Compute Engine",
+  accountId: "my-project",
+  cost: 20 * (18 + 7 / 24),
+};
+
+const dailyCosts = (cost: number, days: number): DailyCost[] =>
+  Array.from({ length: days }, (_, i) => ({
+    day: new Date(Date.UTC(2026, 9, 18) - i * DAY_MS).toISOString().slice(0, 10),
+    provider: "AWS",
+    service: "Amazon Elastic Compute Cloud - Compute",
+    cost,
+  }));
+
+describe("evaluateBudget", () => {
+  it("projects a month-to-date total at its daily rate", () => {
+    const status = evaluateBudget(budget, [], [monthToDate], OPTIONS, NOW);
+
+    expect(status.actualCost).toBeCloseTo(365.83);
+    expect(status.forecastCost).toBeCloseTo(620);
+    expect(status.crossedThresholds).toEqual([]);
+  });
+
+  it("adds month-to-date totals to the daily forecast", () => {
+    const status = evaluateBudget(budget, dailyCosts(15, 60), [monthToDate], OPTIONS, NOW);
+
+    expect(status.actualCost).toBeCloseTo(15 * 18 + 365.83);
+    expect(status.forecastCost).toBeCloseTo(15 * 31 + 620);
+    expect(status.crossedThresholds).toEqual([
+      { percent: 50, basis: "actual" },
+      { percent: 100, basis: "forecast" },
+    ]);
+  });
+
+  it("counts closed period totals without projecting them", () => {
+    const lastScan = { ...monthToDate, periodEnd: "2026-10-10T07:00:00.000Z", cost: 20 * (9 + 7 / 24) };
+
+    const status = evaluateBudget(budget, [], [lastScan], OPTIONS, NOW);
+
+    expect(status.actualCost).toBeCloseTo(185.83);
+    expect(status.forecastCost).toBeCloseTo(185.83);
+  });
+});
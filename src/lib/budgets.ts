@@ -0,0 +1,179 @@
+// Budgets
+// A budget caps the spend of one scope per calendar month or year. Its thresholds are
+// percentages of the amount reached by the actual spend of the complete days so far or
+// by the spend forecast for the whole period. Line items charged for more than a day,
+// such as month-to-date totals, count in full and run on at their daily rate.
+
+import { Budget, BudgetPeriod, BudgetScope, BudgetStatus, BudgetThreshold, CloudProvider } from '@/types';
+import { parseCurrency, reportingCurrency } from './currency';
+import { getConnector } from './connectors/registry';
+import { DailyCost, DailyCostQuery, PeriodCost } from './daily-costs';
+import { ForecastOptions, defaultForecastOptions, projectPeriodSpend } from './forecast';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const BUDGET_SCOPES: BudgetScope[] = ['all', 'provider', 'account', 'service', 'tag', 'team'];
+export const BUDGET_PERIODS: BudgetPeriod[] = ['monthly', 'annual'];
+
+export const DEFAULT_BUDGET_THRESHOLDS: BudgetThreshold[] = [
+  { percent: 50, basis: 'actual' },
+  { percent: 80, basis: 'actual' },
+  { percent: 100, basis: 'actual' },
+  { percent: 100, basis: 'forecast' },
+];
+
+// Tag key holding the team a resource belongs to, for team budgets
+export function teamTagKey(): string {
+  return process.env.BUDGET_TEAM_TAG_KEY || 'team';
+}
+
+export type BudgetInput = Omit<Budget, 'id' | 'createdAt' | 'updatedAt'>;
+
+export const INVALID_BUDGET_MESSAGE =
+  `Expected a name, scope (${BUDGET_SCOPES.join(', ')}) with a scopeValue unless 'all' and a tagKey for 'tag', ` +
+  `period (${BUDGET_PERIODS.join(', ')}), a positive amount, an optional 3-letter currency and ` +
+  `optional thresholds with a positive percent and a basis of 'actual' or 'forecast'`;
+
+// A budget from a request body, or undefined when a field is missing or invalid.
+// Provider scope values may be a connector id ('aws') or provider name ('AWS').
+export function parseBudgetInput(body: unknown): BudgetInput | undefined {
+  if (!body || typeof body !== 'object') return undefined;
+  const value = body as Record<string, unknown>;
+
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  const scope = BUDGET_SCOPES.find(item => item === value.scope);
+  const period = BUDGET_PERIODS.find(item => item === value.period);
+  const amount = Number(value.amount);
+  const currency = value.currency === undefined ? reportingCurrency() : parseCurrency(value.currency);
+  const scopeValue = typeof value.scopeValue === 'string' && value.scopeValue.trim() ? value.scopeValue.trim() : undefined;
+  const tagKey = typeof value.tagKey === 'string' && value.tagKey.trim() ? value.tagKey.trim() : undefined;
+  const thresholds = value.thresholds === undefined ? DEFAULT_BUDGET_THRESHOLDS : parseThresholds(value.thresholds);
+
+  if (!name || !scope || !period || !(amount > 0) || !currency || !thresholds) return undefined;
+  if (scope !== 'all' && !scopeValue) return undefined;
+  if (scope === 'tag' && !tagKey) return undefined;
+  const provider = scope === 'provider' ? getConnector(scopeValue as string)?.provider : undefined;
+  if (scope === 'provider' && !provider) return undefined;
+
+  return {
+    name,
+    scope,
+    scopeValue: scope === 'all' ? undefined : provider || scopeValue,
+    tagKey: scope === 'tag' ? tagKey : undefined,
+    period,
+    amount,
+    currency,
+    thresholds,
+  };
+}
+
+function parseThresholds(value: unknown): BudgetThreshold[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const thresholds = value.map(item => ({ percent: Number(item?.percent), basis: item?.basis }));
+  const valid = thresholds.every(item => item.percent > 0 && (item.basis === 'actual' || item.basis === 'forecast'));
+  return valid ? thresholds.sort((a, b) => a.percent - b.percent) : undefined;
+}
+
+// First and last day of the calendar month or year containing `now`
+export function budgetPeriod(period: BudgetPeriod, now: Date = new Date()): { start: string; end: string } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const [start, end] = period === 'monthly'
+    ? [Date.UTC(year, month, 1), Date.UTC(year, month + 1, 0)]
+    : [Date.UTC(year, 0, 1), Date.UTC(year, 11, 31)];
+  return { start: isoDay(start), end: isoDay(end) };
+}
+
+// Daily cost filters for the budget's scope; `days` covers its period and the forecast history
+export function budgetCostQuery(
+  budget: Budget,
+  query: Pick<DailyCostQuery, 'metric'>,
+  options: ForecastOptions = defaultForecastOptions(),
+  now: Date = new Date()
+): DailyCostQuery {
+  const periodDays = Math.ceil((now.getTime() - Date.parse(budgetPeriod(budget.period, now).start)) / DAY_MS);
+  const base: DailyCostQuery = { ...query, days: Math.max(periodDays, options.historyDays) };
+
+  switch (budget.scope) {
+    case 'provider':
+      return { ...base, providers: [budget.scopeValue as CloudProvider] };
+    case 'account':
+      return { ...base, accounts: [budget.scopeValue as string] };
+    case 'service':
+      return { ...base, service: budget.scopeValue };
+    case 'tag':
+      return { ...base, tagKey: budget.tagKey, tagValue: budget.scopeValue };
+    case 'team':
+      return { ...base, tagKey: teamTagKey(), tagValue: budget.scopeValue };
+    default:
+      return base;
+  }
+}
+
+// Spend, burn rate and crossed thresholds of the budget's current period, from its
+// scope's daily and period costs in the budget currency
+export function evaluateBudget(
+  budget: Budget,
+  costs: DailyCost[],
+  periodCosts: PeriodCost[],
+  options: ForecastOptions = defaultForecastOptions(),
+  now: Date = new Date()
+): BudgetStatus {
+  const { start, end } = budgetPeriod(budget.period, now);
+  const projection = projectPeriodSpend(costs, start, end, options, now);
+  const extended = extendPeriodCosts(periodCosts, start, end, now);
+  const actualCost = projection.actualCost + extended.actualCost;
+  const forecastCost = projection.forecastCost + extended.actualCost + extended.projectedCost;
+  const today = Date.parse(isoDay(now.getTime()));
+  const elapsedDays = Math.max(0, (today - Date.parse(start)) / DAY_MS);
+  const remainingDays = (Date.parse(end) - today) / DAY_MS + 1;
+
+  const percentUsed = actualCost / budget.amount * 100;
+  const percentForecast = forecastCost / budget.amount * 100;
+
+  return {
+    budget,
+    periodStart: start,
+    periodEnd: end,
+    actualCost,
+    forecastCost,
+    percentUsed,
+    percentForecast,
+    burnRate: elapsedDays > 0 ? actualCost / elapsedDays : 0,
+    remainingDailyBudget: Math.max(0, budget.amount - actualCost) / remainingDays,
+    crossedThresholds: budget.thresholds.filter(threshold =>
+      (threshold.basis === 'actual' ? percentUsed : percentForecast) >= threshold.percent
+    ),
+    evaluatedAt: now.toISOString(),
+  };
+}
+
+// Cost of the line items charged for more than a day that start in the budget period,
+// and the rest of the period projected at the daily rate of each series' latest item
+// when it runs up to the last day, as a month-to-date total does
+function extendPeriodCosts(costs: PeriodCost[], start: string, end: string, now: Date): { actualCost: number; projectedCost: number } {
+  const startTime = Date.parse(start);
+  const endTime = Date.parse(end) + DAY_MS;
+  const inPeriod = costs.filter(cost => Date.parse(cost.periodStart) >= startTime && Date.parse(cost.periodStart) < endTime);
+
+  const latest = new Map<string, PeriodCost>();
+  for (const cost of inPeriod) {
+    const key = [cost.provider, cost.service, cost.accountId, cost.tagValue].join('|');
+    const current = latest.get(key);
+    if (!current || cost.periodEnd > current.periodEnd) latest.set(key, cost);
+  }
+
+  let projectedCost = 0;
+  for (const cost of latest.values()) {
+    const periodStart = Date.parse(cost.periodStart);
+    const periodEnd = Date.parse(cost.periodEnd);
+    if (periodEnd < now.getTime() - DAY_MS || periodEnd >= endTime) continue;
+    projectedCost += cost.cost / (periodEnd - periodStart) * (endTime - periodEnd);
+  }
+
+  return { actualCost: inPeriod.reduce((sum, cost) => sum + cost.cost, 0), projectedCost };
+}
+
+function isoDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
@@ -0,0 +1,77 @@
+// Reservation and savings plan reporting
+// Gathers commitment inventory, utilization and coverage from every connector that
+// supports it, and flags commitments that expire soon or are under-used.
+
+import { Commitment, CommitmentData, CommitmentReport } from '@/types';
+import { CloudConnector } from '@/lib/connectors/types';
+
+export interface CommitmentReportOptions {
+  windowDays: number;  // Days of utilization and coverage history
+  expiryDays: number;  // Commitments ending within this many days are expiring
+  utilizationThreshold: number;  // Commitments used less than this percentage are under-used
+}
+
+export function defaultCommitmentReportOptions(): CommitmentReportOptions {
+  return {
+    windowDays: Number(process.env.COMMITMENT_WINDOW_DAYS) || 30,
+    expiryDays: Number(process.env.COMMITMENT_EXPIRY_DAYS) || 60,
+    utilizationThreshold: Number(process.env.COMMITMENT_UTILIZATION_THRESHOLD) || 80,
+  };
+}
+
+// Fetch from every connector with commitment support; a failing provider is reported
+// in errors rather than failing the whole report
+export async function fetchCommitmentReport(
+  connectors: CloudConnector[],
+  options: CommitmentReportOptions = defaultCommitmentReportOptions()
+): Promise<CommitmentReport> {
+  const supported = connectors.filter(connector => connector.capabilities.commitments && connector.fetchCommitments);
+  const results = await Promise.allSettled(
+    supported.map(connector => connector.fetchCommitments!(options.windowDays))
+  );
+
+  const data: CommitmentData[] = [];
+  const errors: string[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      data.push(result.value);
+    } else {
+      const error = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+      errors.push(`${supported[index].provider}: ${error}`);
+    }
+  });
+
+  return { ...buildCommitmentReport(data, options), errors: errors.length > 0 ? errors : undefined };
+}
+
+export function buildCommitmentReport(
+  data: CommitmentData[],
+  options: CommitmentReportOptions,
+  now: Date = new Date()
+): CommitmentReport {
+  const commitments = data.flatMap(item => item.commitments);
+  const expiryCutoff = now.getTime() + options.expiryDays * 24 * 60 * 60 * 1000;
+
+  return {
+    commitments,
+    coverage: data.flatMap(item => item.coverage),
+    windowDays: options.windowDays,
+    expiring: commitments
+      .filter(commitment => {
+        const end = endTime(commitment);
+        return end !== undefined && end >= now.getTime() && end <= expiryCutoff;
+      })
+      .sort((a, b) => (endTime(a) || 0) - (endTime(b) || 0)),
+    expiryDays: options.expiryDays,
+    underused: commitments
+      .filter(commitment => commitment.utilizationPercent !== undefined && commitment.utilizationPercent < options.utilizationThreshold)
+      .sort((a, b) => (a.utilizationPercent || 0) - (b.utilizationPercent || 0)),
+    utilizationThreshold: options.utilizationThreshold,
+  };
+}
+
+function endTime(commitment: Commitment): number | undefined {
+  if (!commitment.endDate) return undefined;
+  const time = new Date(commitment.endDate).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
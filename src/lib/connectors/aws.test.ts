@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { CloudWatchClient } from "@aws-sdk/client-cloudwatch";
+import { CostExplorerClient, GetCostAndUsageCommand } from "@aws-sdk/client-cost-explorer";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DescribeRegionsCommand, DescribeSnapshotsCommand, EC2Client } from "@aws-sdk/client-ec2";
+import { EKSClient } from "@aws-sdk/client-eks";
+import { ElasticLoadBalancingClient } from "@aws-sdk/client-elastic-load-balancing";
+import { ElasticLoadBalancingV2Client } from "@aws-sdk/client-elastic-load-balancing-v2";
+import { IAMClient } from "@aws-sdk/client-iam";
+import { LambdaClient } from "@aws-sdk/client-lambda";
+import { RDSClient } from "@aws-sdk/client-rds";
+import { ResourceGroupsTaggingAPIClient } from "@aws-sdk/client-resource-groups-tagging-api";
+import { S3Client } from "@aws-sdk/client-s3";
+import { STSClient } from "@aws-sdk/client-sts";
+import { AWSConnector } from "./aws";
+
+// The caller's identity, with every other service answering with an empty response
+function mockCaller(arn: string) {
+  vi.spyOn(STSClient.prototype, "send").mockImplementation(async () => ({ Account: "123456789012", Arn: arn }));
+  vi.spyOn(IAMClient.prototype, "send").mockImplementation(async () => ({ AccountAliases: [] }));
+  for (const client of [
+    CloudWatchClient, DynamoDBClient, EC2Client, EKSClient, ElasticLoadBalancingClient, ElasticLoadBalancingV2Client,
+    LambdaClient, RDSClient, ResourceGroupsTaggingAPIClient, S3Client,
+  ]) {
+    vi.spyOn(client.prototype, "send").mockImplementation(async () => ({}));
+  }
+}
+
+describe("AWS resource ARNs", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("use the caller's partition", async () => {
+    mockCaller("arn:aws-us-gov:iam::123456789012:user/scanner");
+    vi.spyOn(EC2Client.prototype, "send").mockImplementation(async (command: unknown) => {
+      if (command instanceof DescribeRegionsCommand) return { Regions: [{ RegionName: "us-gov-west-1" }] };
+      if (command instanceof DescribeSnapshotsCommand) {
+        return { Snapshots: [{ SnapshotId: "snap-0abc", State: "completed", VolumeId: "vol-0abc" }] };
+      }
+      return {};
+    });
+    const connector = new AWSConnector({ accessKeyId: "AKIA", secretAccessKey: "secret", region: "us-gov-west-1" });
+
+    const assets = await connector.discoverAssets();
+
+    expect(assets.map(asset => asset.resourceId)).toEqual(["arn:aws-us-gov:ec2:us-gov-west-1:123456789012:snapshot/snap-0abc"]);
+  });
+});
+
+describe("AWS account costs", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("are queried per day and stored with the day's charge period", async () => {
+    mockCaller("arn:aws:iam::123456789012:user/scanner");
+    const amount = (value: string) => ({ Amount: value, Unit: "USD" });
+    const group = (service: string, region: string, cost: string) => ({
+      Keys: [service, region],
+      Metrics: { UnblendedCost: amount(cost), AmortizedCost: amount(cost), BlendedCost: amount(cost), NetAmortizedCost: amount(cost) },
+    });
+    const send = vi.spyOn(CostExplorerClient.prototype, "send").mockImplementation(async (command: unknown) => {
+      const filter = JSON.stringify((command as GetCostAndUsageCommand).input.Filter);
+      if (filter.includes('"Not"')) {
+        return {
+          ResultsByTime: [
+            { TimePeriod: { Start: "2026-10-01", End: "2026-10-02" }, Groups: [group("Amazon Elastic Compute Cloud - Compute", "us-east-1", "4.5")] },
+            { TimePeriod: { Start: "2026-10-02", End: "2026-10-03" }, Groups: [group("Amazon Elastic Compute Cloud - Compute", "us-east-1", "5")] },
+          ],
+        };
+      }
+      return { ResultsByTime: [] };
+    });
+    const connector = new AWSConnector({ accessKeyId: "AKIA", secretAccessKey: "secret", region: "us-east-1" });
+
+    const records = await connector.fetchCosts();
+
+    expect((send.mock.calls[0][0] as GetCostAndUsageCommand).input.Granularity).toBe("DAILY");
+    expect(records.map(record => [record.chargePeriodStart, record.chargePeriodEnd, record.billedCost])).toEqual([
+      ["2026-10-01T00:00:00.000Z", "2026-10-02T00:00:00.000Z", 4.5],
+      ["2026-10-02T00:00:00.000Z", "2026-10-03T00:00:00.000Z", 5],
+    ]);
+  });
+});
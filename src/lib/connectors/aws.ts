@@ -1,115 +1,1788 @@
-// AWS connector for fetching all assets and cost data
-import { CostExplorerClient, GetCostAndUsageCommand } from "@aws-sdk/client-cost-explorer";
-import { ResourceGroupsTaggingAPIClient, GetResourcesCommand } from "@aws-sdk/client-resource-groups-tagging-api";
-import { saveScanResults } from "./save";
+// AWS connector for asset inventory and cost data
+// Uses AWS SDK v3 to describe EC2 instances, EBS volumes and snapshots, NAT gateways,
+// Elastic IPs, RDS, Lambda, load balancers, EKS and DynamoDB, and to list other tagged
+// resources, in every enabled region; S3 buckets; cost data from Cost Explorer or
+// Cost and Usage Report exports; and instance utilization and S3 request activity
+// from CloudWatch.
+// With an organization role configured, every active member account of the
+// organization is scanned by assuming that role from the management account.
 
-export async function fetchAWSAssetsAndCosts() {
-  const region = process.env.AWS_REGION || "us-east-1";
-  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
-  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+import {
+  EC2Client,
+  DescribeInstancesCommand,
+  DescribeRegionsCommand,
+  DescribeVolumesCommand,
+  DescribeSnapshotsCommand,
+  DescribeNatGatewaysCommand,
+  DescribeAddressesCommand,
+  Instance,
+} from '@aws-sdk/client-ec2';
+import { S3Client, ListBucketsCommand, GetBucketLocationCommand, GetBucketTaggingCommand } from '@aws-sdk/client-s3';
+import {
+  CostExplorerClient,
+  Expression,
+  GetCostAndUsageCommand,
+  GetCostAndUsageWithResourcesCommand,
+  GetReservationCoverageCommand,
+  GetReservationUtilizationCommand,
+  GetSavingsPlansCoverageCommand,
+  GetSavingsPlansUtilizationDetailsCommand,
+  Group,
+} from '@aws-sdk/client-cost-explorer';
+import { ResourceGroupsTaggingAPIClient, GetResourcesCommand } from '@aws-sdk/client-resource-groups-tagging-api';
+import { OrganizationsClient, ListAccountsCommand } from '@aws-sdk/client-organizations';
+import { STSClient, AssumeRoleCommand, GetCallerIdentityCommand } from '@aws-sdk/client-sts';
+import { IAMClient, ListAccountAliasesCommand } from '@aws-sdk/client-iam';
+import { RDSClient, DescribeDBInstancesCommand, DescribeDBClustersCommand } from '@aws-sdk/client-rds';
+import { LambdaClient, ListFunctionsCommand } from '@aws-sdk/client-lambda';
+import { ElasticLoadBalancingClient, DescribeLoadBalancersCommand as DescribeClassicLoadBalancersCommand } from '@aws-sdk/client-elastic-load-balancing';
+import {
+  ElasticLoadBalancingV2Client,
+  DescribeLoadBalancersCommand,
+  DescribeTargetGroupsCommand,
+  DescribeTargetHealthCommand,
+} from '@aws-sdk/client-elastic-load-balancing-v2';
+import { EKSClient, ListClustersCommand, DescribeClusterCommand, ListNodegroupsCommand, DescribeNodegroupCommand } from '@aws-sdk/client-eks';
+import { DynamoDBClient, ListTablesCommand, DescribeTableCommand } from '@aws-sdk/client-dynamodb';
+import { CloudWatchClient, Dimension, GetMetricDataCommand, ListMetricsCommand, MetricDataQuery } from '@aws-sdk/client-cloudwatch';
+import {
+  CloudAsset,
+  Commitment,
+  CommitmentData,
+  ConnectionTestResult,
+  ConnectorCapabilities,
+  CostCategory,
+  FocusCostRecord,
+  InstanceUtilization,
+} from '@/types';
+import { dayChargePeriod, filterByMonth, liveCostRecord } from '@/lib/focus';
+import { isComputeInstance, summarizeUtilization } from '@/lib/utilization';
+import { BUCKET_ACTIVITY_WINDOW_DAYS } from '@/lib/waste';
+import { importAWSCurDirectory } from '@/lib/importers/aws-cur';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { collectPages, PageCounter } from '@/lib/pagination';
+import { parseList } from './options';
+import { CloudConnector, ConnectorDefinition } from './types';
 
-  if (!accessKeyId || !secretAccessKey) {
-    throw new Error("AWS credentials not configured");
+interface AWSCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region?: string;  // Home region for global API calls
+  regions?: string[];  // Allow list; defaults to every enabled region
+  excludedRegions?: string[];  // Deny list applied after the allow list
+  regionConcurrency?: number;  // Regions scanned in parallel
+  curPath?: string;  // Directory of Cost and Usage Report exports used instead of Cost Explorer
+  resourceLevelCosts?: boolean;  // Cost Explorer resource-level data is enabled for the payer account
+  organizationRoleName?: string;  // Role assumed in each member account; enables organization scanning
+  externalId?: string;  // External ID required by the organization role's trust policy
+  accountIds?: string[];  // Member account allow list; defaults to every active account
+  accountConcurrency?: number;  // Accounts scanned in parallel
+}
+
+interface AWSClientConfig {
+  region: string;
+  credentials: { accessKeyId: string; secretAccessKey: string; sessionToken?: string };
+}
+
+// An account being scanned and the credentials that reach it
+interface AWSAccount {
+  accountId: string;
+  accountAlias: string;
+  partition: string;  // 'aws', 'aws-us-gov' or 'aws-cn', for building ARNs
+  clientConfig: AWSClientConfig;
+}
+
+type AWSTag = { Key: string; Value: string };
+type AssetStatus = NonNullable<CloudAsset['status']>;
+
+// Resource types only listed through the tagging API; everything else is described
+// in detail by its own service
+const TAGGED_RESOURCE_TYPES = [
+  'ecs:cluster',
+  'ecs:service',
+  'cloudfront:distribution',
+  'route53:hostedzone',
+];
+
+// Described resources whose list APIs do not return tags; their tags are looked up
+// through the tagging API by ARN
+const TAG_LOOKUP_RESOURCE_TYPES = [
+  'lambda:function',
+  'elasticloadbalancing:loadbalancer',
+  'dynamodb:table',
+];
+
+const DEFAULT_REGION_CONCURRENCY = 4;
+const DEFAULT_ACCOUNT_CONCURRENCY = 2;
+const ROLE_SESSION_NAME = 'cloud-asset-tracker-scan';
+// Cost Explorer keeps resource-level data for the last 14 days only
+const RESOURCE_COST_WINDOW_DAYS = 14;
+// GetMetricData accepts at most 500 queries per request
+const METRIC_QUERIES_PER_REQUEST = 500;
+
+export class AWSConnector implements CloudConnector {
+  readonly provider = 'AWS' as const;
+  private costExplorerClient: CostExplorerClient;
+  private organizationsClient: OrganizationsClient;
+  private stsClient: STSClient;
+  private clientConfig: AWSClientConfig;
+  private region: string;
+  private allowedRegions: string[];
+  private excludedRegions: string[];
+  private regionConcurrency: number;
+  private curPath?: string;
+  private resourceLevelCosts: boolean;
+  private organizationRoleName?: string;
+  private externalId?: string;
+  private allowedAccounts: string[];
+  private accountConcurrency: number;
+  private accounts?: Promise<AWSAccount[]>;
+  private pageCounter = new PageCounter();
+
+  constructor(credentials: AWSCredentials) {
+    this.region = credentials.region || 'us-east-1';
+    this.allowedRegions = credentials.regions || [];
+    this.excludedRegions = credentials.excludedRegions || [];
+    this.regionConcurrency = credentials.regionConcurrency || DEFAULT_REGION_CONCURRENCY;
+    this.curPath = credentials.curPath;
+    this.resourceLevelCosts = credentials.resourceLevelCosts || false;
+    this.organizationRoleName = credentials.organizationRoleName;
+    this.externalId = credentials.externalId;
+    this.allowedAccounts = credentials.accountIds || [];
+    this.accountConcurrency = credentials.accountConcurrency || DEFAULT_ACCOUNT_CONCURRENCY;
+    
+    this.clientConfig = {
+      region: this.region,
+      credentials: {
+        accessKeyId: credentials.accessKeyId,
+        secretAccessKey: credentials.secretAccessKey,
+      }
+    };
+
+    this.costExplorerClient = new CostExplorerClient({ ...this.clientConfig, region: 'us-east-1' }); // Cost Explorer is us-east-1 only
+    this.organizationsClient = new OrganizationsClient({ ...this.clientConfig, region: 'us-east-1' });
+    this.stsClient = new STSClient(this.clientConfig);
   }
 
-  const clientConfig = {
-    region,
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
+  get capabilities(): ConnectorCapabilities {
+    return { ...awsConnector.capabilities, resourceLevelCosts: Boolean(this.curPath) || this.resourceLevelCosts };
+  }
+
+  getPageCounts(): Record<string, number> {
+    return this.pageCounter.snapshot();
+  }
+
+  async discoverAssets(): Promise<CloudAsset[]> {
+    try {
+      const accounts = await this.resolveAccounts();
+      const accountAssets = await mapWithConcurrency(accounts, this.accountConcurrency, account =>
+        this.discoverAccountAssets(account)
+      );
+      return accountAssets.flat();
+    } catch (error) {
+      console.error('AWS asset scan failed:', error);
+      throw new Error(`AWS scan failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-  };
-
-  const taggingClient = new ResourceGroupsTaggingAPIClient(clientConfig);
-  const costClient = new CostExplorerClient({ ...clientConfig, region: 'us-east-1' }); // Cost Explorer is us-east-1 only
-
-  try {
-    // Fetch all tagged resources
-    const tagRes = await taggingClient.send(new GetResourcesCommand({
-      ResourceTypeFilters: [
-        "ec2:instance",
-        "s3:bucket",
-        "rds:db",
-        "lambda:function",
-        "ecs:cluster",
-        "ecs:service",
-        "eks:cluster",
-        "elasticloadbalancing:loadbalancer",
-        "cloudfront:distribution",
-        "route53:hostedzone"
-      ]
-    }));
+  }
+
+  async fetchCosts(): Promise<FocusCostRecord[]> {
+    try {
+      if (this.curPath) {
+        const records = await importAWSCurDirectory(this.curPath);
+        return filterByMonth(records, new Date().toISOString().slice(0, 7));
+      }
+
+      // Cost Explorer allows two group-by dimensions, so service and region are
+      // queried per scanned account
+      const accounts = await this.resolveAccounts();
+      const accountCosts = await mapWithConcurrency(accounts, this.accountConcurrency, account =>
+        this.fetchAccountCosts(account)
+      );
+      return accountCosts.flat();
+    } catch (error) {
+      console.error('AWS cost data fetch failed:', error);
+      throw new Error(`AWS cost query failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Cost per resource ID from Cost Explorer's resource-level data, which has to be
+  // enabled in Cost Explorer preferences. Only the last 14 days are available, so
+  // earlier days of the month stay unattributed, as does usage without a resource ID.
+  async fetchResourceCosts(): Promise<FocusCostRecord[]> {
+    if (!this.resourceLevelCosts || this.curPath) return [];
+
+    const accounts = await this.resolveAccounts();
+    const accountCosts = await mapWithConcurrency(accounts, this.accountConcurrency, account =>
+      this.fetchAccountResourceCosts(account)
+    );
+    return accountCosts.flat();
+  }
 
-    const assets = tagRes.ResourceTagMappingList?.map((r) => {
-      const arnParts = r.ResourceARN?.split(":") || [];
+  // Reserved Instances and Savings Plans with their utilization, and how much of the
+  // eligible usage they cover, from Cost Explorer. Commitments are reported by the
+  // payer account for the whole organization, so this is queried once rather than
+  // per member account.
+  async fetchCommitments(windowDays: number): Promise<CommitmentData> {
+    const now = new Date();
+    const timePeriod = {
+      Start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - windowDays)).toISOString().split('T')[0],
+      End: now.toISOString().split('T')[0],
+    };
+
+    const [reservations, savingsPlans, reservationCoverage, savingsPlansCoverage] = await Promise.all([
+      collectPages(
+        'ce:GetReservationUtilization',
+        this.pageCounter,
+        token => this.costExplorerClient.send(new GetReservationUtilizationCommand({
+          TimePeriod: timePeriod,
+          GroupBy: [{ Type: 'DIMENSION', Key: 'SUBSCRIPTION_ID' }],
+          NextPageToken: token,
+        })),
+        page => page.UtilizationsByTime?.flatMap(period => period.Groups || []),
+        page => page.NextPageToken
+      ),
+      collectPages(
+        'ce:GetSavingsPlansUtilizationDetails',
+        this.pageCounter,
+        token => this.costExplorerClient.send(new GetSavingsPlansUtilizationDetailsCommand({
+          TimePeriod: timePeriod,
+          NextToken: token,
+        })),
+        page => page.SavingsPlansUtilizationDetails,
+        page => page.NextToken
+      ),
+      collectPages(
+        'ce:GetReservationCoverage',
+        this.pageCounter,
+        token => this.costExplorerClient.send(new GetReservationCoverageCommand({
+          TimePeriod: timePeriod,
+          NextPageToken: token,
+        })),
+        page => page.Total ? [page.Total] : [],
+        page => page.NextPageToken
+      ),
+      collectPages(
+        'ce:GetSavingsPlansCoverage',
+        this.pageCounter,
+        token => this.costExplorerClient.send(new GetSavingsPlansCoverageCommand({
+          TimePeriod: timePeriod,
+          Granularity: 'MONTHLY',
+          NextToken: token,
+        })),
+        page => page.SavingsPlansCoverages,
+        page => page.NextToken
+      ),
+    ]);
+
+    const commitments: Commitment[] = [
+      ...reservations.map(group => {
+        const attribute = (key: string) => this.commitmentAttribute(group.Attributes, key);
+        const instances = attribute('numberOfInstances');
+        const instanceType = attribute('instanceType') || 'Reserved Instance';
+        return {
+          id: group.Value || attribute('subscriptionId') || attribute('leaseId') || 'unknown',
+          provider: 'AWS' as const,
+          commitmentType: 'ReservedInstance' as const,
+          name: attribute('leaseId') || group.Value || 'Reserved Instance',
+          description: instances ? `${instanceType} x ${instances}` : instanceType,
+          accountId: attribute('accountId'),
+          region: attribute('region'),
+          startDate: attribute('startDateTime'),
+          endDate: attribute('endDateTime'),
+          utilizationPercent: this.parseOptionalAmount(group.Utilization?.UtilizationPercentage),
+          unusedCost: this.parseOptionalAmount(group.Utilization?.RICostForUnusedHours),
+          status: attribute('subscriptionStatus'),
+        };
+      }),
+      ...savingsPlans.map(detail => {
+        const attribute = (key: string) => this.commitmentAttribute(detail.Attributes, key);
+        const planType = attribute('savingsPlansType') || attribute('savingsPlanType') || 'Savings Plan';
+        const hourly = attribute('hourlyCommitment') || attribute('recurringHourlyFee');
+        return {
+          id: detail.SavingsPlanArn || 'unknown',
+          provider: 'AWS' as const,
+          commitmentType: 'SavingsPlan' as const,
+          name: detail.SavingsPlanArn?.split('/').pop() || 'Savings Plan',
+          description: hourly ? `${planType} (${hourly}/hour)` : planType,
+          accountId: attribute('accountId'),
+          region: attribute('region'),
+          startDate: attribute('startDateTime') || attribute('startDate'),
+          endDate: attribute('endDateTime') || attribute('endDate'),
+          utilizationPercent: this.parseOptionalAmount(detail.Utilization?.UtilizationPercentage),
+          unusedCost: this.parseOptionalAmount(detail.Utilization?.UnusedCommitment),
+        };
+      }),
+    ];
+
+    const savingsPlansCovered = savingsPlansCoverage.reduce((sum, item) => sum + (this.parseOptionalAmount(item.Coverage?.SpendCoveredBySavingsPlans) || 0), 0);
+    const savingsPlansOnDemand = savingsPlansCoverage.reduce((sum, item) => sum + (this.parseOptionalAmount(item.Coverage?.OnDemandCost) || 0), 0);
+    const reservationTotal = reservationCoverage[0];
+
+    return {
+      commitments,
+      coverage: [
+        {
+          provider: 'AWS',
+          label: 'Savings Plans (eligible compute spend)',
+          coveredCost: savingsPlansCovered,
+          onDemandCost: savingsPlansOnDemand,
+          coveragePercent: savingsPlansCovered + savingsPlansOnDemand > 0
+            ? savingsPlansCovered / (savingsPlansCovered + savingsPlansOnDemand) * 100
+            : undefined,
+        },
+        {
+          provider: 'AWS',
+          label: 'Reserved Instances (running hours)',
+          onDemandCost: this.parseOptionalAmount(reservationTotal?.CoverageCost?.OnDemandCost),
+          coveragePercent: this.parseOptionalAmount(reservationTotal?.CoverageHours?.CoverageHoursPercentage),
+        },
+      ],
+    };
+  }
+
+  // Hourly average CPU utilization from CloudWatch, and memory where the CloudWatch
+  // agent publishes mem_used_percent, for EC2 instances grouped by account and region
+  async fetchUtilization(instances: CloudAsset[], windowDays: number): Promise<InstanceUtilization[]> {
+    const accounts = await this.resolveAccounts();
+    const groups = new Map<string, { account: AWSAccount; region: string; instanceIds: string[] }>();
+
+    for (const instance of instances) {
+      const account = accounts.find(item => item.accountId === instance.accountId) || accounts[0];
+      if (!account || !instance.resourceId) continue;
+      const key = `${account.accountId}|${instance.region}`;
+      const group = groups.get(key) || { account, region: instance.region, instanceIds: [] };
+      group.instanceIds.push(instance.resourceId);
+      groups.set(key, group);
+    }
+
+    const regionalUtilization = await mapWithConcurrency(Array.from(groups.values()), this.regionConcurrency, group =>
+      this.fetchRegionUtilization(group.account, group.region, group.instanceIds, windowDays)
+    );
+    return regionalUtilization.flat();
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      const accounts = await this.resolveAccounts();
+      if (accounts.length === 0) {
+        return { ok: false, message: `Could not assume ${this.organizationRoleName} in any member account` };
+      }
+
+      const regions = await this.resolveRegions(accounts[0]);
+      const accountList = accounts.map(account => account.accountAlias).join(', ');
       return {
-        id: r.ResourceARN,
-        service: arnParts[2] || "unknown",
-        region: arnParts[3] || "unknown",
-        resourceId: arnParts[5] || arnParts[6] || "unknown",
-        tags: r.Tags?.map((t) => `${t.Key}:${t.Value}`) || [],
-        provider: "AWS"
+        ok: true,
+        message: `Connected, scanning ${accounts.length} accounts (${accountList}) in ${regions.length} regions: ${regions.join(', ')}`,
       };
-    }) || [];
+    } catch (error) {
+      return { ok: false, message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
 
-    // Fetch cost data for current month
+  // Accounts to scan: the caller's own account, or with an organization role every
+  // active member account. Accounts whose role cannot be assumed are skipped so one
+  // misconfigured account does not fail the whole scan. Resolved once per connector
+  // since asset discovery and cost queries run side by side.
+  private resolveAccounts(): Promise<AWSAccount[]> {
+    if (!this.accounts) {
+      this.accounts = this.listAccounts();
+      this.accounts.catch(() => { this.accounts = undefined; });
+    }
+    return this.accounts;
+  }
+
+  private async listAccounts(): Promise<AWSAccount[]> {
+    const caller = await this.stsClient.send(new GetCallerIdentityCommand({}));
+    const callerAccountId = caller.Account || 'unknown';
+    // Member accounts are always in the management account's partition
+    const partition = caller.Arn?.split(':')[1] || 'aws';
+
+    if (!this.organizationRoleName) {
+      const alias = await this.getAccountAlias(this.clientConfig);
+      return [{ accountId: callerAccountId, accountAlias: alias || callerAccountId, partition, clientConfig: this.clientConfig }];
+    }
+
+    const roleName = this.organizationRoleName;
+    const members = (await collectPages(
+      'organizations:ListAccounts',
+      this.pageCounter,
+      token => this.organizationsClient.send(new ListAccountsCommand({ NextToken: token })),
+      page => page.Accounts,
+      page => page.NextToken
+    ))
+      .filter(account => account.Id && (account.State || account.Status) === 'ACTIVE')
+      .filter(account => this.allowedAccounts.length === 0 || this.allowedAccounts.includes(account.Id as string));
+
+    const accounts = await mapWithConcurrency(members, this.accountConcurrency, async member => {
+      const accountId = member.Id as string;
+      try {
+        // The management account is reached with the connector's own credentials
+        const clientConfig = accountId === callerAccountId
+          ? this.clientConfig
+          : await this.assumeAccountRole(`arn:${partition}:iam::${accountId}:role/${roleName}`);
+        const alias = await this.getAccountAlias(clientConfig);
+        return { accountId, accountAlias: alias || member.Name || accountId, partition, clientConfig };
+      } catch (error) {
+        console.error(`Failed to assume ${roleName} in AWS account ${accountId}:`, error);
+        return null;
+      }
+    });
+
+    return accounts.filter((account): account is AWSAccount => account !== null);
+  }
+
+  private async assumeAccountRole(roleArn: string): Promise<AWSClientConfig> {
+    const response = await this.stsClient.send(new AssumeRoleCommand({
+      RoleArn: roleArn,
+      RoleSessionName: ROLE_SESSION_NAME,
+      ExternalId: this.externalId,
+    }));
+
+    const credentials = response.Credentials;
+    if (!credentials?.AccessKeyId || !credentials.SecretAccessKey) {
+      throw new Error(`AssumeRole returned no credentials for ${roleArn}`);
+    }
+
+    return {
+      region: this.region,
+      credentials: {
+        accessKeyId: credentials.AccessKeyId,
+        secretAccessKey: credentials.SecretAccessKey,
+        sessionToken: credentials.SessionToken,
+      },
+    };
+  }
+
+  // IAM account alias, if one is set and the credentials may read it
+  private async getAccountAlias(clientConfig: AWSClientConfig): Promise<string | null> {
+    try {
+      const iamClient = new IAMClient({ ...clientConfig, region: 'us-east-1' });
+      const response = await iamClient.send(new ListAccountAliasesCommand({}));
+      return response.AccountAliases?.[0] || null;
+    } catch (error) {
+      console.error('Failed to get AWS account alias:', error);
+      return null;
+    }
+  }
+
+  private async discoverAccountAssets(account: AWSAccount): Promise<CloudAsset[]> {
+    const assets: CloudAsset[] = [];
+
+    // Describe regional resources region by region
+    const regions = await this.resolveRegions(account);
+    const regionalAssets = await mapWithConcurrency(regions, this.regionConcurrency, async region => {
+      const tagsByArn = await this.fetchTagsByArn(account, region);
+      return [
+        ...await this.fetchEC2Instances(account, region),
+        ...await this.fetchEBSVolumes(account, region),
+        ...await this.fetchEBSSnapshots(account, region),
+        ...await this.fetchNatGateways(account, region),
+        ...await this.fetchElasticIPs(account, region),
+        ...await this.fetchRDSInstances(account, region),
+        ...await this.fetchRDSClusters(account, region),
+        ...await this.fetchLambdaFunctions(account, region, tagsByArn),
+        ...await this.fetchLoadBalancers(account, region, tagsByArn),
+        ...await this.fetchEKSClusters(account, region),
+        ...await this.fetchDynamoDBTables(account, region, tagsByArn),
+        ...await this.fetchTaggedResources(account, region),
+      ];
+    });
+    assets.push(...regionalAssets.flat());
+
+    // Fetch S3 buckets (global listing, located per bucket)
+    const buckets = await this.fetchS3Buckets(account);
+    assets.push(...buckets);
+
+    // Add connections between related resources
+    this.addConnections(assets);
+
+    return assets.map(asset => ({ ...asset, accountId: account.accountId, accountAlias: account.accountAlias }));
+  }
+
+  // Unblended cost is what is billed, amortized cost spreads reservation and
+  // savings plan fees over usage. Queried with the connector's own credentials,
+  // which for organization scans see every linked account.
+  // Credits, refunds and marketplace charges are queried apart from usage, grouped by
+  // record type instead of region, so they are not netted into the service totals.
+  private async fetchAccountCosts(account: AWSAccount): Promise<FocusCostRecord[]> {
+    const accountFilter: Expression = { Dimensions: { Key: 'LINKED_ACCOUNT', Values: [account.accountId] } };
+    const separateFilter: Expression = {
+      Or: [
+        { Dimensions: { Key: 'RECORD_TYPE', Values: ['Credit', 'Refund'] } },
+        { Dimensions: { Key: 'BILLING_ENTITY', Values: ['AWS Marketplace'] } },
+      ]
+    };
+
+    const [usageGroups, separateGroups] = await Promise.all([
+      this.queryAccountCosts({ And: [accountFilter, { Not: separateFilter }] }, 'REGION'),
+      this.queryAccountCosts({ And: [accountFilter, separateFilter] }, 'RECORD_TYPE'),
+    ]);
+
+    const toRecord = ({ group, day }: { group: Group; day?: string }, regionId: string, costCategory: CostCategory) => liveCostRecord(
+      'AWS',
+      group.Keys?.[0] || 'unknown',
+      regionId,
+      parseFloat(group.Metrics?.UnblendedCost?.Amount || '0') || 0,
+      parseFloat(group.Metrics?.AmortizedCost?.Amount || '0') || 0,
+      {
+        billingCurrency: group.Metrics?.UnblendedCost?.Unit || 'USD',
+        blendedCost: parseFloat(group.Metrics?.BlendedCost?.Amount || '0') || 0,
+        netCost: parseFloat(group.Metrics?.NetAmortizedCost?.Amount || '0') || 0,
+        chargeCategory: costCategory === 'Tax' ? 'Tax' : costCategory === 'Credit' || costCategory === 'Refund' ? 'Credit' : 'Usage',
+        costCategory,
+        subAccountId: account.accountId,
+        subAccountName: account.accountAlias,
+        ...(day ? dayChargePeriod(day) : {}),
+      }
+    );
+
+    return [
+      ...usageGroups.map(result => {
+        const service = result.group.Keys?.[0] || '';
+        return toRecord(result, result.group.Keys?.[1] || 'unknown', service === 'Tax' ? 'Tax' : /^AWS Support/.test(service) ? 'Support' : 'Usage');
+      }),
+      ...separateGroups.map(result => {
+        const recordType = result.group.Keys?.[1];
+        return toRecord(result, 'global', recordType === 'Credit' || recordType === 'Refund' ? recordType : 'Marketplace');
+      }),
+    ];
+  }
+
+  // Month-to-date daily cost groups by service and a second dimension, with the usage
+  // day each group was billed for
+  private async queryAccountCosts(filter: Expression, secondGrouping: 'REGION' | 'RECORD_TYPE'): Promise<Array<{ group: Group; day?: string }>> {
+    const now = new Date();
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const tomorrow = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+    const resultsByTime = await collectPages(
+      'ce:GetCostAndUsage',
+      this.pageCounter,
+      token => this.costExplorerClient.send(new GetCostAndUsageCommand({
+        TimePeriod: {
+          Start: monthStart.toISOString().split('T')[0],
+          End: tomorrow.toISOString().split('T')[0],
+        },
+        Granularity: 'DAILY',
+        Metrics: ['UnblendedCost', 'AmortizedCost', 'BlendedCost', 'NetAmortizedCost'],
+        Filter: filter,
+        GroupBy: [
+          { Type: 'DIMENSION', Key: 'SERVICE' },
+          { Type: 'DIMENSION', Key: secondGrouping }
+        ],
+        NextPageToken: token
+      })),
+      page => page.ResultsByTime,
+      page => page.NextPageToken
+    );
+
+    // Grouped results are split across pages, each carrying part of a day's groups
+    return resultsByTime.flatMap(result => (result.Groups || []).map(group => ({ group, day: result.TimePeriod?.Start })));
+  }
+
+  private async fetchAccountResourceCosts(account: AWSAccount): Promise<FocusCostRecord[]> {
     const now = new Date();
-    const start = new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split("T")[0];
-    const end = new Date(now.getFullYear(), now.getMonth() + 1, 0).toISOString().split("T")[0];
-
-    const costRes = await costClient.send(
-      new GetCostAndUsageCommand({
-        TimePeriod: { Start: start, End: end },
-        Granularity: "MONTHLY",
-        Metrics: ["BlendedCost"],
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const windowStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - RESOURCE_COST_WINDOW_DAYS + 1));
+    const tomorrow = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+    const start = windowStart > monthStart ? windowStart : monthStart;
+
+    const resultsByTime = await collectPages(
+      'ce:GetCostAndUsageWithResources',
+      this.pageCounter,
+      token => this.costExplorerClient.send(new GetCostAndUsageWithResourcesCommand({
+        TimePeriod: {
+          Start: start.toISOString().split('T')[0],
+          End: tomorrow.toISOString().split('T')[0],
+        },
+        Granularity: 'DAILY',
+        Metrics: ['UnblendedCost', 'AmortizedCost', 'BlendedCost', 'NetAmortizedCost'],
+        Filter: { Dimensions: { Key: 'LINKED_ACCOUNT', Values: [account.accountId] } },
         GroupBy: [
-          { Type: "DIMENSION", Key: "SERVICE" },
-          { Type: "DIMENSION", Key: "REGION" }
-        ]
-      })
+          { Type: 'DIMENSION', Key: 'SERVICE' },
+          { Type: 'DIMENSION', Key: 'RESOURCE_ID' }
+        ],
+        NextPageToken: token
+      })),
+      page => page.ResultsByTime,
+      page => page.NextPageToken
     );
 
-    const totalCost = parseFloat(costRes.ResultsByTime?.[0]?.Total?.BlendedCost?.Amount || "0");
+    return resultsByTime.flatMap(result => (result.Groups || []).map(group => {
+      const resourceId = group.Keys?.[1];
+      return liveCostRecord(
+        'AWS',
+        group.Keys?.[0] || 'unknown',
+        'unknown',
+        parseFloat(group.Metrics?.UnblendedCost?.Amount || '0') || 0,
+        parseFloat(group.Metrics?.AmortizedCost?.Amount || '0') || 0,
+        {
+          billingCurrency: group.Metrics?.UnblendedCost?.Unit || 'USD',
+          blendedCost: parseFloat(group.Metrics?.BlendedCost?.Amount || '0') || 0,
+          netCost: parseFloat(group.Metrics?.NetAmortizedCost?.Amount || '0') || 0,
+          subAccountId: account.accountId,
+          subAccountName: account.accountAlias,
+          // Usage that is not tied to a resource is grouped under NoResourceId
+          resourceId: resourceId && resourceId !== 'NoResourceId' ? resourceId : undefined,
+          ...(result.TimePeriod?.Start ? dayChargePeriod(result.TimePeriod.Start) : {})
+        }
+      );
+    }));
+  }
+
+  // Regions enabled for the account (opted in or not requiring opt-in), narrowed by
+  // the allow and deny lists
+  private async resolveRegions(account: AWSAccount): Promise<string[]> {
+    const ec2Client = new EC2Client(account.clientConfig);
+    const response = await ec2Client.send(new DescribeRegionsCommand({ AllRegions: false }));
+    const enabled = (response.Regions || [])
+      .map(region => region.RegionName)
+      .filter((name): name is string => Boolean(name));
+
+    return enabled
+      .filter(name => this.allowedRegions.length === 0 || this.allowedRegions.includes(name))
+      .filter(name => !this.excludedRegions.includes(name))
+      .sort();
+  }
+
+  private async fetchRegionUtilization(
+    account: AWSAccount,
+    region: string,
+    instanceIds: string[],
+    windowDays: number
+  ): Promise<InstanceUtilization[]> {
+    try {
+      const cloudWatchClient = new CloudWatchClient({ ...account.clientConfig, region });
+      const endTime = new Date();
+      const startTime = new Date(endTime.getTime() - windowDays * 24 * 60 * 60 * 1000);
+
+      // The agent's dimensions depend on its configuration (InstanceId alone, or with
+      // ImageId and InstanceType), so each instance's memory metric is looked up
+      const memoryMetrics = await collectPages(
+        'cloudwatch:ListMetrics',
+        this.pageCounter,
+        token => cloudWatchClient.send(new ListMetricsCommand({ Namespace: 'CWAgent', MetricName: 'mem_used_percent', NextToken: token })),
+        page => page.Metrics,
+        page => page.NextToken
+      );
+      const memoryDimensions = new Map<string, Dimension[]>();
+      for (const metric of memoryMetrics) {
+        const instanceId = metric.Dimensions?.find(dimension => dimension.Name === 'InstanceId')?.Value;
+        if (instanceId && !memoryDimensions.has(instanceId)) memoryDimensions.set(instanceId, metric.Dimensions || []);
+      }
+
+      const queries: MetricDataQuery[] = instanceIds.flatMap((instanceId, index) => {
+        const instanceQueries: MetricDataQuery[] = [{
+          Id: `cpu${index}`,
+          MetricStat: {
+            Metric: { Namespace: 'AWS/EC2', MetricName: 'CPUUtilization', Dimensions: [{ Name: 'InstanceId', Value: instanceId }] },
+            Period: 3600,
+            Stat: 'Average',
+          },
+        }];
+        const dimensions = memoryDimensions.get(instanceId);
+        if (dimensions) {
+          instanceQueries.push({
+            Id: `memory${index}`,
+            MetricStat: {
+              Metric: { Namespace: 'CWAgent', MetricName: 'mem_used_percent', Dimensions: dimensions },
+              Period: 3600,
+              Stat: 'Average',
+            },
+          });
+        }
+        return instanceQueries;
+      });
+
+      const samples = new Map<string, number[]>();
+      for (let start = 0; start < queries.length; start += METRIC_QUERIES_PER_REQUEST) {
+        const results = await collectPages(
+          'cloudwatch:GetMetricData',
+          this.pageCounter,
+          token => cloudWatchClient.send(new GetMetricDataCommand({
+            MetricDataQueries: queries.slice(start, start + METRIC_QUERIES_PER_REQUEST),
+            StartTime: startTime,
+            EndTime: endTime,
+            NextToken: token,
+          })),
+          page => page.MetricDataResults,
+          page => page.NextToken
+        );
+        // Long series continue on the next page under the same query ID
+        for (const result of results) {
+          if (!result.Id) continue;
+          const values = samples.get(result.Id) || [];
+          values.push(...(result.Values || []));
+          samples.set(result.Id, values);
+        }
+      }
+
+      return instanceIds
+        .map((instanceId, index) => summarizeUtilization(
+          'AWS',
+          instanceId,
+          'cloudwatch',
+          windowDays,
+          samples.get(`cpu${index}`) || [],
+          samples.get(`memory${index}`) || []
+        ))
+        .filter(utilization => utilization.sampleCount > 0);
+    } catch (error) {
+      console.error(`Failed to fetch AWS CloudWatch metrics in ${account.accountId}/${region}:`, error);
+      return [];
+    }
+  }
+
+  private async fetchEC2Instances(account: AWSAccount, region: string): Promise<CloudAsset[]> {
+    const instances: CloudAsset[] = [];
     
-    // Process cost breakdown by service and region
-    const costByService: Record<string, number> = {};
-    const costByRegion: Record<string, number> = {};
-    const assetCountByService: Record<string, number> = {};
-
-    costRes.ResultsByTime?.[0]?.Groups?.forEach(group => {
-      const service = group.Keys?.[0] || "unknown";
-      const region = group.Keys?.[1] || "unknown";
-      const amount = parseFloat(group.Metrics?.BlendedCost?.Amount || "0");
+    try {
+      const ec2Client = new EC2Client({ ...account.clientConfig, region });
+      const reservations = await collectPages(
+        'ec2:DescribeInstances',
+        this.pageCounter,
+        token => ec2Client.send(new DescribeInstancesCommand({ MaxResults: 1000, NextToken: token })),
+        page => page.Reservations,
+        page => page.NextToken
+      );
       
-      costByService[service] = (costByService[service] || 0) + amount;
-      costByRegion[region] = (costByRegion[region] || 0) + amount;
-    });
+      for (const reservation of reservations) {
+        for (const instance of reservation.Instances || []) {
+          if (!instance.InstanceId) continue;
+          instances.push(this.mapEC2Instance(instance, region));
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to fetch AWS EC2 instances in ${account.accountId}/${region}:`, error);
+    }
+    
+    return instances;
+  }
+
+  private mapEC2Instance(instance: Instance, region: string): CloudAsset {
+    const instanceId = instance.InstanceId as string;
+    const tags = this.toTagList(instance.Tags);
+
+    // Extract information
+    const instanceType = instance.InstanceType || 'unknown';
+    const state = instance.State?.Name || 'unknown';
+    const launchTime = instance.LaunchTime;
+
+    return {
+      id: instanceId,
+      provider: 'AWS',
+      assetName: this.extractNameFromTags(tags) || instanceId,
+      service: 'EC2',
+      region,
+      criticality: this.determineCriticality(tags),
+      tags: tags.map(tag => `${tag.Key}:${tag.Value}`),
+      owner: this.extractOwnerFromTags(tags),
+      notes: `Type: ${instanceType}, State: ${state}`,
+      resourceId: instanceId,
+      assetType: instanceType,
+      status: this.mapAWSStatus(state),
+      lastUpdated: new Date().toISOString(),
+      usageMetrics: {
+        instanceType,
+        state,
+        launchTime: launchTime?.toISOString(),
+        availabilityZone: instance.Placement?.AvailabilityZone,
+        privateIpAddress: instance.PrivateIpAddress,
+        publicIpAddress: instance.PublicIpAddress
+      },
+      connectedAssets: []
+    };
+  }
+
+  private async fetchEBSVolumes(account: AWSAccount, region: string): Promise<CloudAsset[]> {
+    const volumes: CloudAsset[] = [];
+
+    try {
+      const ec2Client = new EC2Client({ ...account.clientConfig, region });
+      const volumeList = await collectPages(
+        'ec2:DescribeVolumes',
+        this.pageCounter,
+        token => ec2Client.send(new DescribeVolumesCommand({ MaxResults: 500, NextToken: token })),
+        page => page.Volumes,
+        page => page.NextToken
+      );
+
+      for (const volume of volumeList) {
+        if (!volume.VolumeId) continue;
+        const tags = this.toTagList(volume.Tags);
+        const attachedInstances = (volume.Attachments || [])
+          .map(attachment => attachment.InstanceId)
+          .filter((id): id is string => Boolean(id));
+        const state = volume.State || 'unknown';
+
+        volumes.push(this.createAsset({
+          id: volume.VolumeId,
+          assetName: volume.VolumeId,
+          service: 'EBS',
+          region,
+          notes: `Type: ${volume.VolumeType}, Size: ${volume.Size} GiB, State: ${state}`,
+          resourceId: volume.VolumeId,
+          assetType: volume.VolumeType || 'unknown',
+          // An available volume is not attached to any instance
+          status: state === 'available' ? 'stopped' : this.mapAWSStatus(state),
+          usageMetrics: {
+            state,
+            sizeGiB: volume.Size,
+            iops: volume.Iops,
+            throughput: volume.Throughput,
+            encrypted: volume.Encrypted,
+            attachedInstances,
+            snapshotId: volume.SnapshotId,
+            createTime: volume.CreateTime?.toISOString(),
+            availabilityZone: volume.AvailabilityZone
+          },
+          connectedAssets: attachedInstances
+        }, tags));
+      }
+    } catch (error) {
+      console.error(`Failed to fetch AWS EBS volumes in ${account.accountId}/${region}:`, error);
+    }
+
+    return volumes;
+  }
+
+  private async fetchEBSSnapshots(account: AWSAccount, region: string): Promise<CloudAsset[]> {
+    const snapshots: CloudAsset[] = [];
+
+    try {
+      const ec2Client = new EC2Client({ ...account.clientConfig, region });
+      const snapshotList = await collectPages(
+        'ec2:DescribeSnapshots',
+        this.pageCounter,
+        token => ec2Client.send(new DescribeSnapshotsCommand({ OwnerIds: ['self'], MaxResults: 1000, NextToken: token })),
+        page => page.Snapshots,
+        page => page.NextToken
+      );
+
+      for (const snapshot of snapshotList) {
+        if (!snapshot.SnapshotId) continue;
+        const tags = this.toTagList(snapshot.Tags);
+        const state = snapshot.State || 'unknown';
+
+        snapshots.push(this.createAsset({
+          id: snapshot.SnapshotId,
+          assetName: snapshot.SnapshotId,
+          service: 'EBS',
+          region,
+          notes: snapshot.Description || `Snapshot of ${snapshot.VolumeId}`,
+          resourceId: `arn:${account.partition}:ec2:${region}:${account.accountId}:snapshot/${snapshot.SnapshotId}`,
+          assetType: `Snapshot (${snapshot.StorageTier || 'standard'})`,
+          status: this.mapAWSStatus(state),
+          usageMetrics: {
+            state,
+            volumeId: snapshot.VolumeId,
+            volumeSizeGiB: snapshot.VolumeSize,
+            fullSnapshotSizeBytes: snapshot.FullSnapshotSizeInBytes,
+            storageTier: snapshot.StorageTier,
+            startTime: snapshot.StartTime?.toISOString(),
+            encrypted: snapshot.Encrypted
+          },
+          connectedAssets: snapshot.VolumeId ? [snapshot.VolumeId] : []
+        }, tags));
+      }
+    } catch (error) {
+      console.error(`Failed to fetch AWS EBS snapshots in ${account.accountId}/${region}:`, error);
+    }
+
+    return snapshots;
+  }
+
+  private async fetchNatGateways(account: AWSAccount, region: string): Promise<CloudAsset[]> {
+    const gateways: CloudAsset[] = [];
 
-    // Count assets per service for cost distribution
-    assets.forEach(asset => {
-      assetCountByService[asset.service] = (assetCountByService[asset.service] || 0) + 1;
+    try {
+      const ec2Client = new EC2Client({ ...account.clientConfig, region });
+      const gatewayList = await collectPages(
+        'ec2:DescribeNatGateways',
+        this.pageCounter,
+        token => ec2Client.send(new DescribeNatGatewaysCommand({ MaxResults: 1000, NextToken: token })),
+        page => page.NatGateways,
+        page => page.NextToken
+      );
+
+      for (const gateway of gatewayList) {
+        // Deleted gateways stay listed for about an hour
+        if (!gateway.NatGatewayId || gateway.State === 'deleted') continue;
+        const tags = this.toTagList(gateway.Tags);
+        const state = gateway.State || 'unknown';
+
+        gateways.push(this.createAsset({
+          id: gateway.NatGatewayId,
+          assetName: gateway.NatGatewayId,
+          service: 'VPC',
+          region,
+          notes: `NAT gateway in ${gateway.SubnetId}, State: ${state}`,
+          resourceId: `arn:${account.partition}:ec2:${region}:${account.accountId}:natgateway/${gateway.NatGatewayId}`,
+          assetType: `NAT Gateway (${gateway.ConnectivityType || 'public'})`,
+          status: this.mapAWSStatus(state),
+          usageMetrics: {
+            state,
+            vpcId: gateway.VpcId,
+            subnetId: gateway.SubnetId,
+            connectivityType: gateway.ConnectivityType,
+            publicIps: (gateway.NatGatewayAddresses || []).map(address => address.PublicIp).filter(Boolean),
+            createTime: gateway.CreateTime?.toISOString()
+          },
+          connectedAssets: []
+        }, tags));
+      }
+    } catch (error) {
+      console.error(`Failed to fetch AWS NAT gateways in ${account.accountId}/${region}:`, error);
+    }
+
+    return gateways;
+  }
+
+  // DescribeAddresses is not paginated
+  private async fetchElasticIPs(account: AWSAccount, region: string): Promise<CloudAsset[]> {
+    const addresses: CloudAsset[] = [];
+
+    try {
+      const ec2Client = new EC2Client({ ...account.clientConfig, region });
+      const response = await ec2Client.send(new DescribeAddressesCommand({}));
+      this.pageCounter.record('ec2:DescribeAddresses');
+
+      for (const address of response.Addresses || []) {
+        if (!address.AllocationId && !address.PublicIp) continue;
+        const id = address.AllocationId || address.PublicIp as string;
+        const tags = this.toTagList(address.Tags);
+        const associated = Boolean(address.AssociationId);
+
+        addresses.push(this.createAsset({
+          id,
+          assetName: address.PublicIp || id,
+          service: 'EC2',
+          region,
+          notes: associated
+            ? `Associated with ${address.InstanceId || address.NetworkInterfaceId}`
+            : 'Not associated',
+          resourceId: id,
+          assetType: 'Elastic IP',
+          // Unassociated addresses are idle but still billed
+          status: associated ? 'running' : 'stopped',
+          usageMetrics: {
+            publicIp: address.PublicIp,
+            allocationId: address.AllocationId,
+            associationId: address.AssociationId,
+            instanceId: address.InstanceId,
+            networkInterfaceId: address.NetworkInterfaceId,
+            domain: address.Domain
+          },
+          connectedAssets: address.InstanceId ? [address.InstanceId] : []
+        }, tags));
+      }
+    } catch (error) {
+      console.error(`Failed to fetch AWS Elastic IPs in ${account.accountId}/${region}:`, error);
+    }
+
+    return addresses;
+  }
+
+  private async fetchRDSInstances(account: AWSAccount, region: string): Promise<CloudAsset[]> {
+    const databases: CloudAsset[] = [];
+
+    try {
+      const rdsClient = new RDSClient({ ...account.clientConfig, region });
+      const instanceList = await collectPages(
+        'rds:DescribeDBInstances',
+        this.pageCounter,
+        marker => rdsClient.send(new DescribeDBInstancesCommand({ MaxRecords: 100, Marker: marker })),
+        page => page.DBInstances,
+        page => page.Marker
+      );
+
+      for (const instance of instanceList) {
+        if (!instance.DBInstanceIdentifier || !instance.DBInstanceArn) continue;
+        const tags = this.toTagList(instance.TagList);
+        const state = instance.DBInstanceStatus || 'unknown';
+
+        databases.push(this.createAsset({
+          id: instance.DBInstanceArn,
+          assetName: instance.DBInstanceIdentifier,
+          service: 'RDS',
+          region,
+          notes: `Engine: ${instance.Engine} ${instance.EngineVersion}, Class: ${instance.DBInstanceClass}, Status: ${state}`,
+          resourceId: instance.DBInstanceArn,
+          assetType: instance.DBInstanceClass || 'unknown',
+          status: this.mapAWSStatus(state),
+          usageMetrics: {
+            status: state,
+            engine: instance.Engine,
+            engineVersion: instance.EngineVersion,
+            instanceClass: instance.DBInstanceClass,
+            allocatedStorageGiB: instance.AllocatedStorage,
+            storageType: instance.StorageType,
+            multiAZ: instance.MultiAZ,
+            clusterIdentifier: instance.DBClusterIdentifier,
+            createTime: instance.InstanceCreateTime?.toISOString()
+          },
+          connectedAssets: []
+        }, tags));
+      }
+    } catch (error) {
+      console.error(`Failed to fetch AWS RDS instances in ${account.accountId}/${region}:`, error);
+    }
+
+    return databases;
+  }
+
+  private async fetchRDSClusters(account: AWSAccount, region: string): Promise<CloudAsset[]> {
+    const clusters: CloudAsset[] = [];
+
+    try {
+      const rdsClient = new RDSClient({ ...account.clientConfig, region });
+      const clusterList = await collectPages(
+        'rds:DescribeDBClusters',
+        this.pageCounter,
+        marker => rdsClient.send(new DescribeDBClustersCommand({ MaxRecords: 100, Marker: marker })),
+        page => page.DBClusters,
+        page => page.Marker
+      );
+
+      for (const cluster of clusterList) {
+        if (!cluster.DBClusterIdentifier || !cluster.DBClusterArn) continue;
+        const tags = this.toTagList(cluster.TagList);
+        const state = cluster.Status || 'unknown';
+        const serverless = cluster.ServerlessV2ScalingConfiguration || cluster.EngineMode === 'serverless';
+
+        clusters.push(this.createAsset({
+          id: cluster.DBClusterArn,
+          assetName: cluster.DBClusterIdentifier,
+          service: 'RDS',
+          region,
+          notes: `Engine: ${cluster.Engine} ${cluster.EngineVersion}, Members: ${(cluster.DBClusterMembers || []).length}, Status: ${state}`,
+          resourceId: cluster.DBClusterArn,
+          assetType: cluster.DBClusterInstanceClass || (serverless ? 'Serverless cluster' : 'Cluster'),
+          status: this.mapAWSStatus(state),
+          usageMetrics: {
+            status: state,
+            engine: cluster.Engine,
+            engineVersion: cluster.EngineVersion,
+            engineMode: cluster.EngineMode,
+            allocatedStorageGiB: cluster.AllocatedStorage,
+            serverlessMinCapacity: cluster.ServerlessV2ScalingConfiguration?.MinCapacity,
+            serverlessMaxCapacity: cluster.ServerlessV2ScalingConfiguration?.MaxCapacity,
+            multiAZ: cluster.MultiAZ
+          },
+          // Member instances are listed separately by DescribeDBInstances
+          connectedAssets: (cluster.DBClusterMembers || [])
+            .map(member => member.DBInstanceIdentifier)
+            .filter((id): id is string => Boolean(id))
+            .map(id => `arn:${account.partition}:rds:${region}:${account.accountId}:db:${id}`)
+        }, tags));
+      }
+    } catch (error) {
+      console.error(`Failed to fetch AWS RDS clusters in ${account.accountId}/${region}:`, error);
+    }
+
+    return clusters;
+  }
+
+  private async fetchLambdaFunctions(account: AWSAccount, region: string, tagsByArn: Map<string, AWSTag[]>): Promise<CloudAsset[]> {
+    const functions: CloudAsset[] = [];
+
+    try {
+      const lambdaClient = new LambdaClient({ ...account.clientConfig, region });
+      const functionList = await collectPages(
+        'lambda:ListFunctions',
+        this.pageCounter,
+        marker => lambdaClient.send(new ListFunctionsCommand({ MaxItems: 50, Marker: marker })),
+        page => page.Functions,
+        page => page.NextMarker
+      );
+
+      for (const fn of functionList) {
+        if (!fn.FunctionName || !fn.FunctionArn) continue;
+        const tags = tagsByArn.get(fn.FunctionArn) || [];
+        const runtime = fn.Runtime || (fn.PackageType === 'Image' ? 'container image' : 'unknown');
+
+        functions.push(this.createAsset({
+          id: fn.FunctionArn,
+          assetName: fn.FunctionName,
+          service: 'Lambda',
+          region,
+          notes: `Runtime: ${runtime}, Memory: ${fn.MemorySize} MB`,
+          resourceId: fn.FunctionArn,
+          assetType: `${runtime} (${fn.MemorySize} MB)`,
+          // ListFunctions omits State; a listed function is deployed unless it reports otherwise
+          status: fn.State ? this.mapAWSStatus(fn.State) : 'running',
+          usageMetrics: {
+            runtime,
+            memorySizeMB: fn.MemorySize,
+            timeoutSeconds: fn.Timeout,
+            architectures: fn.Architectures,
+            codeSizeBytes: fn.CodeSize,
+            ephemeralStorageMB: fn.EphemeralStorage?.Size,
+            packageType: fn.PackageType,
+            lastModified: fn.LastModified
+          },
+          connectedAssets: []
+        }, tags));
+      }
+    } catch (error) {
+      console.error(`Failed to fetch AWS Lambda functions in ${account.accountId}/${region}:`, error);
+    }
+
+    return functions;
+  }
+
+  // Application, network and gateway load balancers, plus classic load balancers
+  private async fetchLoadBalancers(account: AWSAccount, region: string, tagsByArn: Map<string, AWSTag[]>): Promise<CloudAsset[]> {
+    const loadBalancers: CloudAsset[] = [];
+
+    try {
+      const elbClient = new ElasticLoadBalancingV2Client({ ...account.clientConfig, region });
+      const loadBalancerList = await collectPages(
+        'elbv2:DescribeLoadBalancers',
+        this.pageCounter,
+        marker => elbClient.send(new DescribeLoadBalancersCommand({ PageSize: 400, Marker: marker })),
+        page => page.LoadBalancers,
+        page => page.NextMarker
+      );
+
+      const targetCounts = loadBalancerList.length > 0 ? await this.countRegisteredTargets(elbClient) : undefined;
+
+      for (const lb of loadBalancerList) {
+        if (!lb.LoadBalancerArn || !lb.LoadBalancerName) continue;
+        const tags = tagsByArn.get(lb.LoadBalancerArn) || [];
+        const state = lb.State?.Code || 'unknown';
+        // A load balancer in no target group has no targets
+        const targetCount = targetCounts ? targetCounts.get(lb.LoadBalancerArn) || 0 : undefined;
+
+        loadBalancers.push(this.createAsset({
+          id: lb.LoadBalancerArn,
+          assetName: lb.LoadBalancerName,
+          service: 'ELB',
+          region,
+          notes: `Type: ${lb.Type}, Scheme: ${lb.Scheme}, State: ${state}${targetCount !== undefined ? `, Targets: ${targetCount}` : ''}`,
+          resourceId: lb.LoadBalancerArn,
+          assetType: lb.Type || 'unknown',
+          status: this.mapAWSStatus(state),
+          usageMetrics: {
+            state,
+            scheme: lb.Scheme,
+            dnsName: lb.DNSName,
+            vpcId: lb.VpcId,
+            ipAddressType: lb.IpAddressType,
+            availabilityZones: (lb.AvailabilityZones || []).map(zone => zone.ZoneName),
+            targetCount,
+            createdTime: lb.CreatedTime?.toISOString()
+          },
+          connectedAssets: []
+        }, tags));
+      }
+    } catch (error) {
+      console.error(`Failed to fetch AWS load balancers in ${account.accountId}/${region}:`, error);
+    }
+
+    try {
+      const classicClient = new ElasticLoadBalancingClient({ ...account.clientConfig, region });
+      const classicList = await collectPages(
+        'elb:DescribeLoadBalancers',
+        this.pageCounter,
+        marker => classicClient.send(new DescribeClassicLoadBalancersCommand({ PageSize: 400, Marker: marker })),
+        page => page.LoadBalancerDescriptions,
+        page => page.NextMarker
+      );
+
+      for (const lb of classicList) {
+        if (!lb.LoadBalancerName) continue;
+        const arn = `arn:${account.partition}:elasticloadbalancing:${region}:${account.accountId}:loadbalancer/${lb.LoadBalancerName}`;
+        const instances = (lb.Instances || [])
+          .map(instance => instance.InstanceId)
+          .filter((id): id is string => Boolean(id));
+
+        loadBalancers.push(this.createAsset({
+          id: arn,
+          assetName: lb.LoadBalancerName,
+          service: 'ELB',
+          region,
+          notes: `Type: classic, Scheme: ${lb.Scheme}, Instances: ${instances.length}`,
+          resourceId: arn,
+          assetType: 'classic',
+          // Classic load balancers have no state; one without instances serves nothing
+          status: instances.length > 0 ? 'running' : 'stopped',
+          usageMetrics: {
+            scheme: lb.Scheme,
+            dnsName: lb.DNSName,
+            vpcId: lb.VPCId,
+            instanceCount: instances.length,
+            availabilityZones: lb.AvailabilityZones,
+            createdTime: lb.CreatedTime?.toISOString()
+          },
+          connectedAssets: instances
+        }, tagsByArn.get(arn) || []));
+      }
+    } catch (error) {
+      console.error(`Failed to fetch AWS classic load balancers in ${account.accountId}/${region}:`, error);
+    }
+
+    return loadBalancers;
+  }
+
+  // Targets registered in each load balancer's target groups, keyed by load balancer
+  // ARN; undefined when the target groups cannot be read
+  private async countRegisteredTargets(elbClient: ElasticLoadBalancingV2Client): Promise<Map<string, number> | undefined> {
+    try {
+      const targetGroups = await collectPages(
+        'elbv2:DescribeTargetGroups',
+        this.pageCounter,
+        marker => elbClient.send(new DescribeTargetGroupsCommand({ PageSize: 400, Marker: marker })),
+        page => page.TargetGroups,
+        page => page.NextMarker
+      );
+
+      const counts = new Map<string, number>();
+      for (const group of targetGroups) {
+        if (!group.TargetGroupArn || !group.LoadBalancerArns?.length) continue;
+        // DescribeTargetHealth is not paginated
+        const { TargetHealthDescriptions } = await elbClient.send(new DescribeTargetHealthCommand({ TargetGroupArn: group.TargetGroupArn }));
+        this.pageCounter.record('elbv2:DescribeTargetHealth');
+
+        for (const loadBalancerArn of group.LoadBalancerArns) {
+          counts.set(loadBalancerArn, (counts.get(loadBalancerArn) || 0) + (TargetHealthDescriptions || []).length);
+        }
+      }
+      return counts;
+    } catch (error) {
+      console.error('Failed to fetch AWS target groups:', error);
+      return undefined;
+    }
+  }
+
+  // EKS clusters and their managed node groups
+  private async fetchEKSClusters(account: AWSAccount, region: string): Promise<CloudAsset[]> {
+    const assets: CloudAsset[] = [];
+
+    try {
+      const eksClient = new EKSClient({ ...account.clientConfig, region });
+      const clusterNames = await collectPages(
+        'eks:ListClusters',
+        this.pageCounter,
+        token => eksClient.send(new ListClustersCommand({ maxResults: 100, nextToken: token })),
+        page => page.clusters,
+        page => page.nextToken
+      );
+
+      for (const clusterName of clusterNames) {
+        const { cluster } = await eksClient.send(new DescribeClusterCommand({ name: clusterName }));
+        if (!cluster?.arn) continue;
+        const state = cluster.status || 'unknown';
+
+        const nodegroupNames = await collectPages(
+          'eks:ListNodegroups',
+          this.pageCounter,
+          token => eksClient.send(new ListNodegroupsCommand({ clusterName, maxResults: 100, nextToken: token })),
+          page => page.nodegroups,
+          page => page.nextToken
+        );
+
+        const nodegroups: CloudAsset[] = [];
+        for (const nodegroupName of nodegroupNames) {
+          const { nodegroup } = await eksClient.send(new DescribeNodegroupCommand({ clusterName, nodegroupName }));
+          if (!nodegroup?.nodegroupArn) continue;
+          const nodegroupState = nodegroup.status || 'unknown';
+          const instanceTypes = nodegroup.instanceTypes || [];
+
+          nodegroups.push(this.createAsset({
+            id: nodegroup.nodegroupArn,
+            assetName: `${clusterName}/${nodegroupName}`,
+            service: 'EKS',
+            region,
+            notes: `Node group of ${clusterName}, ${nodegroup.scalingConfig?.desiredSize} x ${instanceTypes.join(', ')}`,
+            resourceId: nodegroup.nodegroupArn,
+            assetType: instanceTypes.join(', ') || 'unknown',
+            status: this.mapAWSStatus(nodegroupState),
+            usageMetrics: {
+              status: nodegroupState,
+              instanceTypes,
+              capacityType: nodegroup.capacityType,
+              amiType: nodegroup.amiType,
+              diskSizeGiB: nodegroup.diskSize,
+              minSize: nodegroup.scalingConfig?.minSize,
+              maxSize: nodegroup.scalingConfig?.maxSize,
+              desiredSize: nodegroup.scalingConfig?.desiredSize,
+              kubernetesVersion: nodegroup.version
+            },
+            connectedAssets: [cluster.arn]
+          }, this.tagsFromRecord(nodegroup.tags)));
+        }
+
+        assets.push(this.createAsset({
+          id: cluster.arn,
+          assetName: clusterName,
+          service: 'EKS',
+          region,
+          notes: `Kubernetes ${cluster.version}, Status: ${state}, Node groups: ${nodegroups.length}`,
+          resourceId: cluster.arn,
+          assetType: `Kubernetes ${cluster.version || 'unknown'}`,
+          status: this.mapAWSStatus(state),
+          usageMetrics: {
+            status: state,
+            kubernetesVersion: cluster.version,
+            platformVersion: cluster.platformVersion,
+            endpoint: cluster.endpoint,
+            vpcId: cluster.resourcesVpcConfig?.vpcId,
+            nodegroupCount: nodegroups.length,
+            createdAt: cluster.createdAt?.toISOString()
+          },
+          connectedAssets: nodegroups.map(nodegroup => nodegroup.id)
+        }, this.tagsFromRecord(cluster.tags)), ...nodegroups);
+      }
+    } catch (error) {
+      console.error(`Failed to fetch AWS EKS clusters in ${account.accountId}/${region}:`, error);
+    }
+
+    return assets;
+  }
+
+  private async fetchDynamoDBTables(account: AWSAccount, region: string, tagsByArn: Map<string, AWSTag[]>): Promise<CloudAsset[]> {
+    const tables: CloudAsset[] = [];
+
+    try {
+      const dynamoClient = new DynamoDBClient({ ...account.clientConfig, region });
+      const tableNames = await collectPages(
+        'dynamodb:ListTables',
+        this.pageCounter,
+        startName => dynamoClient.send(new ListTablesCommand({ Limit: 100, ExclusiveStartTableName: startName })),
+        page => page.TableNames,
+        page => page.LastEvaluatedTableName
+      );
+
+      for (const tableName of tableNames) {
+        const { Table: table } = await dynamoClient.send(new DescribeTableCommand({ TableName: tableName }));
+        if (!table?.TableArn) continue;
+        const state = table.TableStatus || 'unknown';
+        const billingMode = table.BillingModeSummary?.BillingMode || 'PROVISIONED';
+
+        tables.push(this.createAsset({
+          id: table.TableArn,
+          assetName: tableName,
+          service: 'DynamoDB',
+          region,
+          notes: `Billing: ${billingMode}, Items: ${table.ItemCount}, Status: ${state}`,
+          resourceId: table.TableArn,
+          assetType: billingMode === 'PAY_PER_REQUEST' ? 'On-demand' : 'Provisioned',
+          status: this.mapAWSStatus(state),
+          usageMetrics: {
+            status: state,
+            billingMode,
+            itemCount: table.ItemCount,
+            tableSizeBytes: table.TableSizeBytes,
+            readCapacityUnits: table.ProvisionedThroughput?.ReadCapacityUnits,
+            writeCapacityUnits: table.ProvisionedThroughput?.WriteCapacityUnits,
+            tableClass: table.TableClassSummary?.TableClass,
+            globalSecondaryIndexes: (table.GlobalSecondaryIndexes || []).length,
+            createdAt: table.CreationDateTime?.toISOString()
+          },
+          connectedAssets: []
+        }, tagsByArn.get(table.TableArn) || []));
+      }
+    } catch (error) {
+      console.error(`Failed to fetch AWS DynamoDB tables in ${account.accountId}/${region}:`, error);
+    }
+
+    return tables;
+  }
+
+  private async fetchS3Buckets(account: AWSAccount): Promise<CloudAsset[]> {
+    let buckets: CloudAsset[] = [];
+    
+    try {
+      const s3Client = new S3Client({ ...account.clientConfig, followRegionRedirects: true });
+
+      // MaxBuckets makes ListBuckets paginate and include each bucket's region
+      const bucketList = (await collectPages(
+        's3:ListBuckets',
+        this.pageCounter,
+        token => s3Client.send(new ListBucketsCommand({ MaxBuckets: 10000, ContinuationToken: token })),
+        page => page.Buckets,
+        page => page.ContinuationToken
+      )).filter(bucket => bucket.Name);
+
+      buckets = await mapWithConcurrency(bucketList, this.regionConcurrency, async bucket => {
+        const name = bucket.Name as string;
+        const region = bucket.BucketRegion || await this.getBucketRegion(s3Client, name);
+        const tags = await this.getBucketTags(account, s3Client, name, region);
+        
+        return {
+          id: name,
+          provider: 'AWS' as const,
+          assetName: name,
+          service: 'S3',
+          region,
+          criticality: this.determineCriticality(tags),
+          tags: tags.map(tag => `${tag.Key}:${tag.Value}`),
+          owner: this.extractOwnerFromTags(tags),
+          notes: `Created: ${bucket.CreationDate?.toISOString()}`,
+          resourceId: name,
+          assetType: 'Bucket',
+          status: 'running' as const,
+          lastUpdated: new Date().toISOString(),
+          usageMetrics: {
+            creationDate: bucket.CreationDate?.toISOString()
+          },
+          connectedAssets: []
+        };
+      });
+    } catch (error) {
+      console.error(`Failed to fetch AWS S3 buckets in ${account.accountId}:`, error);
+    }
+    
+    return this.addBucketActivity(account, buckets);
+  }
+
+  // Date of each bucket's last request within the activity window, from S3 request
+  // metrics. Only buckets with a whole-bucket request metrics configuration (the
+  // console's 'EntireBucket' filter) report them; the others get no activity data
+  // rather than being reported idle.
+  private async addBucketActivity(account: AWSAccount, buckets: CloudAsset[]): Promise<CloudAsset[]> {
+    const lastRequests = new Map<string, string | undefined>();
+    const regions = Array.from(new Set(buckets.map(bucket => bucket.region)));
+
+    await mapWithConcurrency(regions, this.regionConcurrency, async region => {
+      try {
+        const cloudWatchClient = new CloudWatchClient({ ...account.clientConfig, region });
+        const endTime = new Date();
+        const startTime = new Date(endTime.getTime() - BUCKET_ACTIVITY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+        const metrics = await collectPages(
+          'cloudwatch:ListMetrics',
+          this.pageCounter,
+          token => cloudWatchClient.send(new ListMetricsCommand({
+            Namespace: 'AWS/S3',
+            MetricName: 'AllRequests',
+            Dimensions: [{ Name: 'FilterId', Value: 'EntireBucket' }],
+            NextToken: token,
+          })),
+          page => page.Metrics,
+          page => page.NextToken
+        );
+        const bucketNames = metrics
+          .map(metric => metric.Dimensions?.find(dimension => dimension.Name === 'BucketName')?.Value)
+          .filter((name): name is string => Boolean(name));
+
+        const queries: MetricDataQuery[] = bucketNames.map((bucketName, index) => ({
+          Id: `requests${index}`,
+          MetricStat: {
+            Metric: {
+              Namespace: 'AWS/S3',
+              MetricName: 'AllRequests',
+              Dimensions: [{ Name: 'BucketName', Value: bucketName }, { Name: 'FilterId', Value: 'EntireBucket' }],
+            },
+            Period: 86400,
+            Stat: 'Sum',
+          },
+        }));
+
+        for (let start = 0; start < queries.length; start += METRIC_QUERIES_PER_REQUEST) {
+          const results = await collectPages(
+            'cloudwatch:GetMetricData',
+            this.pageCounter,
+            token => cloudWatchClient.send(new GetMetricDataCommand({
+              MetricDataQueries: queries.slice(start, start + METRIC_QUERIES_PER_REQUEST),
+              StartTime: startTime,
+              EndTime: endTime,
+              NextToken: token,
+            })),
+            page => page.MetricDataResults,
+            page => page.NextToken
+          );
+          for (const result of results) {
+            const bucketName = bucketNames[Number(result.Id?.replace('requests', ''))];
+            if (!bucketName) continue;
+            const activeDays = (result.Timestamps || [])
+              .filter((_, index) => (result.Values?.[index] || 0) > 0)
+              .map(timestamp => timestamp.toISOString());
+            const lastRequest = [lastRequests.get(bucketName), ...activeDays].filter(Boolean).sort().pop();
+            lastRequests.set(bucketName, lastRequest);
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to fetch AWS S3 request metrics in ${account.accountId}/${region}:`, error);
+      }
     });
 
-    // Assign cost per asset based on service cost divided by asset count
-    const assetsWithCost = assets.map(asset => ({
-      ...asset,
-      costThisMonth: costByService[asset.service] ? costByService[asset.service] / assetCountByService[asset.service] : 0,
-    }));
+    return buckets.map(bucket => lastRequests.has(bucket.assetName)
+      ? {
+        ...bucket,
+        usageMetrics: {
+          ...bucket.usageMetrics,
+          requestWindowDays: BUCKET_ACTIVITY_WINDOW_DAYS,
+          lastRequestTime: lastRequests.get(bucket.assetName),
+        },
+      }
+      : bucket);
+  }
+
+  // Tags of described resources whose list APIs omit them, keyed by ARN
+  private async fetchTagsByArn(account: AWSAccount, region: string): Promise<Map<string, AWSTag[]>> {
+    const tagsByArn = new Map<string, AWSTag[]>();
+
+    try {
+      const taggingClient = new ResourceGroupsTaggingAPIClient({ ...account.clientConfig, region });
+      const mappings = await collectPages(
+        'tagging:GetResources',
+        this.pageCounter,
+        token => taggingClient.send(new GetResourcesCommand({
+          ResourceTypeFilters: TAG_LOOKUP_RESOURCE_TYPES,
+          ResourcesPerPage: 100,
+          PaginationToken: token
+        })),
+        page => page.ResourceTagMappingList,
+        page => page.PaginationToken
+      );
+
+      for (const mapping of mappings) {
+        if (mapping.ResourceARN) tagsByArn.set(mapping.ResourceARN, this.toTagList(mapping.Tags));
+      }
+    } catch (error) {
+      console.error(`Failed to fetch AWS resource tags in ${account.accountId}/${region}:`, error);
+    }
+
+    return tagsByArn;
+  }
+
+  private async fetchTaggedResources(account: AWSAccount, region: string): Promise<CloudAsset[]> {
+    const resources: CloudAsset[] = [];
+
+    try {
+      const taggingClient = new ResourceGroupsTaggingAPIClient({ ...account.clientConfig, region });
+      const mappings = await collectPages(
+        'tagging:GetResources',
+        this.pageCounter,
+        token => taggingClient.send(new GetResourcesCommand({
+          ResourceTypeFilters: TAGGED_RESOURCE_TYPES,
+          ResourcesPerPage: 100,
+          PaginationToken: token
+        })),
+        page => page.ResourceTagMappingList,
+        page => page.PaginationToken
+      );
+
+      for (const mapping of mappings) {
+        if (!mapping.ResourceARN) continue;
+
+        // arn:partition:service:region:account:resource
+        const arnParts = mapping.ResourceARN.split(':');
+        const resourceId = arnParts.slice(5).join(':');
+        const tags = this.toTagList(mapping.Tags);
+
+        resources.push({
+          id: mapping.ResourceARN,
+          provider: 'AWS',
+          assetName: this.extractNameFromTags(tags) || resourceId.split('/').pop() || resourceId,
+          service: arnParts[2] || 'unknown',
+          region: arnParts[3] || region,
+          criticality: this.determineCriticality(tags),
+          tags: tags.map(tag => `${tag.Key}:${tag.Value}`),
+          owner: this.extractOwnerFromTags(tags),
+          resourceId,
+          assetType: resourceId.split('/')[0],
+          status: 'unknown',
+          lastUpdated: new Date().toISOString(),
+          usageMetrics: {
+            arn: mapping.ResourceARN
+          },
+          connectedAssets: []
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to fetch AWS tagged resources in ${account.accountId}/${region}:`, error);
+    }
+
+    return resources;
+  }
+
+  // Fallback for listings without BucketRegion. An empty constraint means us-east-1
+  // and the legacy "EU" constraint means eu-west-1.
+  private async getBucketRegion(s3Client: S3Client, bucketName: string): Promise<string> {
+    try {
+      const response = await s3Client.send(new GetBucketLocationCommand({ Bucket: bucketName }));
+      const constraint = response.LocationConstraint as string | undefined;
+      if (!constraint) return 'us-east-1';
+      return constraint === 'EU' ? 'eu-west-1' : constraint;
+    } catch (error) {
+      console.error(`Failed to get location for bucket ${bucketName}:`, error);
+      return 'unknown';
+    }
+  }
+
+  private async getBucketTags(
+    account: AWSAccount,
+    defaultClient: S3Client,
+    bucketName: string,
+    region: string
+  ): Promise<AWSTag[]> {
+    try {
+      const s3Client = region === 'unknown' ? defaultClient : new S3Client({ ...account.clientConfig, region });
+      const response = await s3Client.send(new GetBucketTaggingCommand({ Bucket: bucketName }));
+      return (response.TagSet || []).map(tag => ({
+        Key: tag.Key || '',
+        Value: tag.Value || ''
+      }));
+    } catch (error) {
+      // Buckets without tags answer NoSuchTagSet
+      if (error instanceof Error && error.name === 'NoSuchTagSet') return [];
+      console.error(`Failed to get tags for bucket ${bucketName}:`, error);
+      return [];
+    }
+  }
 
-    // Save scan results to database
-    await saveScanResults("AWS", assetsWithCost, "manual");
+  private addConnections(assets: CloudAsset[]): void {
+    // Simple connection logic: connect EC2 instances to S3 buckets
+    // Elastic IPs keep the instance they are associated with
+    const instances = assets.filter(isComputeInstance);
+    const buckets = assets.filter(a => a.service === 'S3');
+    
+    instances.forEach(instance => {
+      // Connect to buckets that might be used by this instance
+      // In a real implementation, this would be based on actual usage patterns
+      const compatibleBuckets = buckets.slice(0, 2); // Simplified logic
+      instance.connectedAssets = compatibleBuckets.map(bucket => bucket.id);
+    });
+  }
 
-    return { 
-      provider: "AWS", 
-      assets: assetsWithCost, 
-      totalCost,
-      costByService,
-      costByRegion,
-      lastScan: new Date().toISOString()
+  // Fill the fields every AWS asset derives from its tags
+  private createAsset(
+    fields: Omit<CloudAsset, 'provider' | 'criticality' | 'tags' | 'owner' | 'lastUpdated'>,
+    tags: AWSTag[]
+  ): CloudAsset {
+    return {
+      ...fields,
+      provider: 'AWS',
+      assetName: this.extractNameFromTags(tags) || fields.assetName,
+      criticality: this.determineCriticality(tags),
+      tags: tags.map(tag => `${tag.Key}:${tag.Value}`),
+      owner: this.extractOwnerFromTags(tags),
+      lastUpdated: new Date().toISOString(),
     };
+  }
+
+  private toTagList(tags: Array<{ Key?: string; Value?: string }> | undefined): AWSTag[] {
+    return (tags || []).map(tag => ({ Key: tag.Key || '', Value: tag.Value || '' }));
+  }
+
+  private tagsFromRecord(tags: Record<string, string> | undefined): AWSTag[] {
+    return Object.entries(tags || {}).map(([Key, Value]) => ({ Key, Value }));
+  }
+
+  // Lifecycle states across EC2, RDS, ELB, EKS, DynamoDB, NAT gateways and snapshots
+  // Cost Explorer commitment attributes vary in casing between APIs ('endDateTime',
+  // 'EndDateTime'), so look them up case-insensitively
+  private commitmentAttribute(attributes: Record<string, string> | undefined, key: string): string | undefined {
+    const match = Object.keys(attributes || {}).find(name => name.toLowerCase() === key.toLowerCase());
+    return match ? attributes?.[match] || undefined : undefined;
+  }
+
+  private parseOptionalAmount(value: string | undefined): number | undefined {
+    const amount = parseFloat(value || '');
+    return Number.isFinite(amount) ? amount : undefined;
+  }
+
+  private mapAWSStatus(state: string): AssetStatus {
+    switch (state.toLowerCase()) {
+      case 'running':
+      case 'available':
+      case 'active':
+      case 'in-use':
+      case 'completed':
+      case 'degraded':
+        return 'running';
+      case 'stopped':
+      case 'inactive':
+      case 'archived':
+        return 'stopped';
+      case 'terminated':
+      case 'shutting-down':
+      case 'deleting':
+      case 'deleted':
+        return 'terminated';
+      default:
+        return 'unknown';
+    }
+  }
+
+  private determineCriticality(tags: AWSTag[]): 'Low' | 'Medium' | 'High' {
+    const tagString = tags.map(tag => `${tag.Key}:${tag.Value}`).join(' ').toLowerCase();
+    if (tagString.includes('production') || tagString.includes('critical')) return 'High';
+    if (tagString.includes('staging') || tagString.includes('testing')) return 'Medium';
+    return 'Low';
+  }
+
+  private extractNameFromTags(tags: AWSTag[]): string | null {
+    const nameTag = tags.find(tag => tag.Key.toLowerCase() === 'name');
+    return nameTag?.Value || null;
+  }
 
-  } catch (error) {
-    console.error("AWS fetch error:", error);
-    throw new Error(`AWS fetch failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+  private extractOwnerFromTags(tags: AWSTag[]): string {
+    for (const tag of tags) {
+      if (tag.Key.toLowerCase().includes('owner') || tag.Key.toLowerCase().includes('team')) {
+        return tag.Value;
+      }
+    }
+    return '';
   }
 }
+
+export const awsConnector: ConnectorDefinition = {
+  id: 'aws',
+  provider: 'AWS',
+  displayName: 'Amazon Web Services',
+  credentialFields: [
+    { key: 'accessKeyId', label: 'Access Key ID', type: 'password', placeholder: 'Enter AWS Access Key ID', required: true },
+    { key: 'secretAccessKey', label: 'Secret Access Key', type: 'password', placeholder: 'Enter AWS Secret Access Key', required: true },
+    { key: 'region', label: 'Home Region', placeholder: 'us-east-1' },
+    { key: 'regions', label: 'Regions to scan (comma-separated, blank for all enabled)', placeholder: 'us-east-1, eu-west-1' },
+    { key: 'excludedRegions', label: 'Regions to skip (comma-separated)', placeholder: 'ap-east-1' },
+    { key: 'organizationRoleName', label: 'Organization role (blank to scan this account only)', placeholder: 'OrganizationAccountAccessRole' },
+    { key: 'externalId', label: 'Role external ID', type: 'password' },
+    { key: 'accountIds', label: 'Member accounts to scan (comma-separated, blank for all)', placeholder: '111111111111, 222222222222' },
+  ],
+  capabilities: {
+    assetDiscovery: true,
+    costData: true,
+    resourceLevelCosts: false,
+    billingExports: true,
+    commitments: true,
+    utilizationMetrics: true,
+  },
+
+  create: credentials => new AWSConnector({
+    accessKeyId: credentials.accessKeyId,
+    secretAccessKey: credentials.secretAccessKey,
+    region: credentials.region,
+    regions: parseList(credentials.regions),
+    excludedRegions: parseList(credentials.excludedRegions),
+    regionConcurrency: Number(process.env.AWS_REGION_CONCURRENCY) || undefined,
+    organizationRoleName: credentials.organizationRoleName || undefined,
+    externalId: credentials.externalId || undefined,
+    accountIds: parseList(credentials.accountIds),
+    accountConcurrency: Number(process.env.AWS_ACCOUNT_CONCURRENCY) || undefined,
+  }),
+
+  fromEnvironment: () => {
+    const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+    if (!accessKeyId || !secretAccessKey) return null;
+
+    return new AWSConnector({
+      accessKeyId,
+      secretAccessKey,
+      region: process.env.AWS_REGION,
+      regions: parseList(process.env.AWS_REGIONS),
+      excludedRegions: parseList(process.env.AWS_EXCLUDED_REGIONS),
+      regionConcurrency: Number(process.env.AWS_REGION_CONCURRENCY) || undefined,
+      curPath: process.env.AWS_CUR_PATH,
+      resourceLevelCosts: process.env.AWS_RESOURCE_LEVEL_COSTS === 'true',
+      organizationRoleName: process.env.AWS_ORGANIZATION_ROLE_NAME,
+      externalId: process.env.AWS_ORGANIZATION_EXTERNAL_ID,
+      accountIds: parseList(process.env.AWS_ACCOUNT_IDS),
+      accountConcurrency: Number(process.env.AWS_ACCOUNT_CONCURRENCY) || undefined,
+    });
+  },
+};
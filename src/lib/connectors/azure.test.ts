@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { QueryDefinition } from "@azure/arm-costmanagement";
+import { ClientSecretCredential } from "@azure/identity";
+import { AzureConnector } from "./azure";
+
+const { usage } = vi.hoisted(() => ({ usage: vi.fn() }));
+
+vi.mock("@azure/arm-costmanagement", () => ({
+  CostManagementClient: class {
+    query = { usage };
+  },
+}));
+
+vi.mock("@azure/arm-resourcegraph", () => ({
+  ResourceGraphClient: class {
+    resources = async () => ({ data: [{ subscriptionId: "SUB-1", name: "Production", state: "Enabled" }] });
+  },
+}));
+
+const COLUMNS = [{ name: "Cost" }, { name: "ResourceType" }, { name: "ResourceId" }, { name: "Currency" }];
+const NEXT_LINK = "https://management.azure.com/subscriptions/sub-1/providers/Microsoft.CostManagement/query?$skiptoken=page2";
+
+const row = (resourceId: string, cost: number) => [cost, "microsoft.compute/virtualmachines", resourceId, "USD"];
+
+// The cost query of one cost type and publisher type, grouped by resource type (Azure usage)
+// or charge type
+function isCostQuery(query: QueryDefinition, type: string, publisherType: string, grouping = "ResourceType"): boolean {
+  return query.type === type &&
+    query.dataset?.grouping?.[0].name === grouping &&
+    JSON.stringify(query.dataset?.filter).includes(`"values":["${publisherType}"]`);
+}
+
+describe("Azure cost queries", () => {
+  beforeEach(() => {
+    vi.spyOn(ClientSecretCredential.prototype, "getToken").mockResolvedValue({ token: "management-token", expiresOnTimestamp: 0 });
+  });
+
+  afterEach(() => {
+    usage.mockReset();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("follow nextLink until every page is read", async () => {
+    usage.mockImplementation(async (_scope: string, query: QueryDefinition) => isCostQuery(query, "ActualCost", "Azure")
+      ? { columns: COLUMNS, rows: [row("/subscriptions/sub-1/vm-a", 10)], nextLink: NEXT_LINK }
+      : { columns: COLUMNS, rows: [] });
+    const fetchPage = vi.fn().mockImplementation(async () => new Response(JSON.stringify({
+      properties: { columns: COLUMNS, rows: [row("/subscriptions/sub-1/vm-b", 5), row("/subscriptions/sub-1/vm-c", 2)] },
+    })));
+    vi.stubGlobal("fetch", fetchPage);
+    const connector = new AzureConnector({ clientId: "client", clientSecret: "secret", tenantId: "tenant" });
+
+    const records = await connector.fetchResourceCosts();
+
+    expect(records.map(record => [record.subAccountId, record.subAccountName, record.resourceId, record.billedCost])).toEqual([
+      ["sub-1", "Production", "/subscriptions/sub-1/vm-a", 10],
+      ["sub-1", "Production", "/subscriptions/sub-1/vm-b", 5],
+      ["sub-1", "Production", "/subscriptions/sub-1/vm-c", 2],
+    ]);
+    const actualQuery = usage.mock.calls.find(([, query]) => isCostQuery(query, "ActualCost", "Azure"));
+    expect(actualQuery?.[0]).toBe("/subscriptions/sub-1");
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchPage.mock.calls[0];
+    expect(url).toBe(NEXT_LINK);
+    expect(init.method).toBe("POST");
+    expect(init.headers.Authorization).toBe("Bearer management-token");
+    expect(JSON.parse(init.body)).toEqual(JSON.parse(JSON.stringify(actualQuery?.[1])));
+    expect(connector.getPageCounts()["costmanagement:query"]).toBe(usage.mock.calls.length + 1);
+  });
+
+  it("keep charge and publisher types apart", async () => {
+    const columns = (grouping: string) => [{ name: "Cost" }, { name: grouping }, { name: "ResourceLocation" }, { name: "UsageDate" }, { name: "Currency" }];
+    usage.mockImplementation(async (_scope: string, query: QueryDefinition) => {
+      const actual = query.type === "ActualCost";
+      if (isCostQuery(query, query.type, "Azure")) {
+        return { columns: columns("ResourceType"), rows: [[40, "microsoft.compute/virtualmachines", "westeurope", 20261001, "EUR"]] };
+      }
+      if (isCostQuery(query, query.type, "Azure", "ChargeType")) {
+        return {
+          columns: columns("ChargeType"),
+          rows: [
+            [40, "Usage", "westeurope", 20261001, "EUR"],
+            [-3, "Refund", "westeurope", 20261001, "EUR"],
+            [2, "Tax", "westeurope", 20261001, "EUR"],
+            ...actual ? [[100, "Purchase", "global", 20261001, "EUR"]] : [],
+          ],
+        };
+      }
+      return { columns: columns("ChargeType"), rows: [[7, "Usage", "westeurope", 20261001, "EUR"]] };
+    });
+    const connector = new AzureConnector({ clientId: "client", clientSecret: "secret", tenantId: "tenant" });
+
+    const records = await connector.fetchCosts();
+
+    expect(records.map(record => [record.chargeCategory, record.costCategory, record.billedCost, record.effectiveCost])).toEqual([
+      ["Usage", "Usage", 40, 40],
+      ["Credit", "Refund", -3, -3],
+      ["Tax", "Tax", 2, 2],
+      ["Purchase", "Usage", 100, 0],
+      ["Usage", "Marketplace", 7, 7],
+    ]);
+    expect(records.every(record => record.subAccountId === "sub-1" && record.chargePeriodStart === "2026-10-01T00:00:00.000Z")).toBe(true);
+    // Queries allow two groupings
+    expect(usage.mock.calls.every(([, query]) => query.dataset.grouping.length === 2)).toBe(true);
+  });
+});
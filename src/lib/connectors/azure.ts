@@ -1,115 +1,1129 @@
-// Azure connector for fetching all assets and cost data
-import { DefaultAzureCredential, ClientSecretCredential } from "@azure/identity";
-import { CostManagementClient } from "@azure/arm-costmanagement";
-import { ResourceGraphClient } from "@azure/arm-resourcegraph";
-import { saveScanResults } from "./save";
-
-export async function fetchAzureAssetsAndCosts() {
-  const clientId = process.env.AZURE_CLIENT_ID;
-  const clientSecret = process.env.AZURE_CLIENT_SECRET;
-  const tenantId = process.env.AZURE_TENANT_ID;
-  const subscriptionId = process.env.AZURE_SUBSCRIPTION_ID;
-
-  if (!clientId || !clientSecret || !tenantId || !subscriptionId) {
-    throw new Error("Azure credentials not configured");
-  }
-
-  try {
-    // Use client secret credential for service principal authentication
-    const credential = new ClientSecretCredential(tenantId, clientId, clientSecret);
-    const costClient = new CostManagementClient(credential);
-    const resourceClient = new ResourceGraphClient(credential);
-
-    // Fetch all resources using Resource Graph
-    const query = {
-      query: `Resources | project name, type, location, tags, id | order by name`,
-      subscriptions: [subscriptionId],
-    };
+// Azure connector for asset inventory and cost data
+// Uses Azure SDK to fetch virtual machines and storage accounts, managed disks and
+// snapshots, SQL databases and elastic pools, AKS clusters, App Service plans, public
+// IPs, load balancers, Cosmos DB accounts and other resources via Resource Graph, cost
+// data from Cost Management queries or exports, and VM utilization and storage account
+// activity from Azure Monitor. Scans every subscription the service principal can see,
+// an explicit list, or all subscriptions below a management group.
+
+import { ComputeManagementClient } from '@azure/arm-compute';
+import { StorageManagementClient } from '@azure/arm-storage';
+import { CostManagementClient, QueryDefinition } from '@azure/arm-costmanagement';
+import { ResourceManagementClient } from '@azure/arm-resources';
+import { ResourceGraphClient } from '@azure/arm-resourcegraph';
+import { MonitorClient } from '@azure/arm-monitor';
+import { ClientSecretCredential } from '@azure/identity';
+import {
+  CloudAsset,
+  CommitmentData,
+  CommitmentCoverage,
+  ConnectionTestResult,
+  ConnectorCapabilities,
+  FocusCostRecord,
+  InstanceUtilization,
+} from '@/types';
+import { dayChargePeriod, filterByMonth, liveCostRecord } from '@/lib/focus';
+import { summarizeUtilization } from '@/lib/utilization';
+import { BUCKET_ACTIVITY_WINDOW_DAYS } from '@/lib/waste';
+import {
+  azureChargeCategory,
+  azureCostCategory,
+  AzureExportType,
+  importAzureCostExportDirectory,
+} from '@/lib/importers/azure-export';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { collectPages, PageCounter } from '@/lib/pagination';
+import { parseList } from './options';
+import { CloudConnector, ConnectorDefinition } from './types';
+
+interface AzureCredentials {
+  clientId: string;
+  clientSecret: string;
+  tenantId: string;
+  subscriptionIds?: string[];  // Allow list; defaults to every visible subscription
+  managementGroupId?: string;  // Scan the subscriptions below this management group
+  subscriptionConcurrency?: number;  // Subscriptions scanned in parallel
+  costExportPath?: string;  // Directory of Cost Management export CSVs used instead of the query API
+  costExportType?: AzureExportType;
+}
+
+interface AzureSubscription {
+  subscriptionId: string;
+  displayName: string;
+}
+
+// One filtered cost query. Queries allow two groupings, so charge and publisher types are
+// told apart by filtering: Azure usage keeps its resource type breakdown, while other
+// Azure charges (purchases, refunds, tax, adjustments) and marketplace charges are
+// grouped by charge type instead.
+interface CostQueryPart {
+  publisherType: 'Azure' | 'Marketplace';
+  grouping: 'ResourceType' | 'ChargeType';
+  usageOnly?: boolean;  // Only Usage charges
+  skipUsage?: boolean;  // Usage rows are read by the resource type query
+}
+
+const COST_QUERY_PARTS: CostQueryPart[] = [
+  { publisherType: 'Azure', grouping: 'ResourceType', usageOnly: true },
+  { publisherType: 'Azure', grouping: 'ChargeType', skipUsage: true },
+  { publisherType: 'Marketplace', grouping: 'ChargeType' },
+];
+
+// Row shape of the subscription query in listSubscriptions
+interface GraphSubscription {
+  subscriptionId: string;
+  name: string;
+  state?: string;
+}
+
+// Row shape of the Resource Graph query in fetchGraphResources
+interface GraphResource {
+  id: string;
+  name: string;
+  type: string;
+  subscriptionId: string;
+  resourceGroup: string;
+  location?: string;
+  kind?: string;
+  managedBy?: string;
+  tags?: { [key: string]: string };
+  sku?: { name?: string; tier?: string; capacity?: number };
+  properties?: Record<string, unknown>;
+}
+
+// Reservation returned by the Microsoft.Capacity reservations list
+interface CapacityReservation {
+  id: string;
+  name: string;
+  location?: string;
+  sku?: { name?: string };
+  properties?: {
+    displayName?: string;
+    reservedResourceType?: string;
+    skuDescription?: string;
+    quantity?: number;
+    effectiveDateTime?: string;
+    expiryDateTime?: string;
+    expiryDate?: string;
+    displayProvisioningState?: string;
+    provisioningState?: string;
+    appliedScopes?: string[];
+    utilization?: { aggregates?: Array<{ grain?: number; grainUnit?: string; value?: number }> };
+  };
+}
+
+// One page of a Cost Management query; later pages come back in the REST shape, with
+// the fields under properties
+interface CostQueryPage {
+  columns?: Array<{ name?: string }>;
+  rows?: unknown[][];
+  nextLink?: string;
+}
+
+type AssetStatus = NonNullable<CloudAsset['status']>;
+
+// Service-specific fields for the Resource Graph types described in detail
+interface GraphResourceDetails {
+  service: string;
+  assetType: string;
+  status: AssetStatus;
+  notes?: string;
+  usageMetrics: Record<string, unknown>;
+  connectedAssets?: string[];
+}
+
+const DEFAULT_SUBSCRIPTION_CONCURRENCY = 4;
+const RESERVATIONS_URL = 'https://management.azure.com/providers/Microsoft.Capacity/reservations?api-version=2022-11-01';
+
+export class AzureConnector implements CloudConnector {
+  readonly provider = 'Azure' as const;
+  private credentials: ClientSecretCredential;
+  private allowedSubscriptions: string[];
+  private managementGroupId?: string;
+  private subscriptionConcurrency: number;
+  private subscriptions?: Promise<AzureSubscription[]>;
+  private costExportPath?: string;
+  private costExportType: AzureExportType;
+  private pageCounter = new PageCounter();
+
+  constructor(credentials: AzureCredentials) {
+    this.credentials = new ClientSecretCredential(
+      credentials.tenantId,
+      credentials.clientId,
+      credentials.clientSecret
+    );
+    this.allowedSubscriptions = (credentials.subscriptionIds || []).map(id => id.toLowerCase());
+    this.managementGroupId = credentials.managementGroupId;
+    this.subscriptionConcurrency = credentials.subscriptionConcurrency || DEFAULT_SUBSCRIPTION_CONCURRENCY;
+    this.costExportPath = credentials.costExportPath;
+    this.costExportType = credentials.costExportType || 'actual';
+  }
 
-    const resources = await resourceClient.resources(query);
+  get capabilities(): ConnectorCapabilities {
+    return azureConnector.capabilities;
+  }
+
+  getPageCounts(): Record<string, number> {
+    return this.pageCounter.snapshot();
+  }
+
+  async discoverAssets(): Promise<CloudAsset[]> {
+    const assets: CloudAsset[] = [];
     
-    const assets = resources.data.map((r: any) => ({
-      id: r.id,
-      service: r.type.split('/')[0] || "unknown",
-      resourceType: r.type,
-      region: r.location || "unknown",
-      tags: Object.entries(r.tags || {}).map(([key, value]) => `${key}:${value}`),
-      provider: "Azure"
-    }));
-
-    // Fetch cost data for current month
+    try {
+      const subscriptions = await this.resolveSubscriptions();
+
+      // Fetch Virtual Machines and Storage Accounts subscription by subscription
+      const subscriptionAssets = await mapWithConcurrency(subscriptions, this.subscriptionConcurrency, async subscription => {
+        const computeClient = new ComputeManagementClient(this.credentials, subscription.subscriptionId);
+        const storageClient = new StorageManagementClient(this.credentials, subscription.subscriptionId);
+        const storageAccounts = await this.fetchStorageAccounts(storageClient);
+        return [
+          ...await this.fetchVirtualMachines(computeClient),
+          ...await this.addStorageActivity(subscription.subscriptionId, storageAccounts),
+        ];
+      });
+      assets.push(...subscriptionAssets.flat());
+
+      // Fetch all other resources from Resource Graph in one query across subscriptions
+      const graphClient = new ResourceGraphClient(this.credentials);
+      const otherResources = await this.fetchGraphResources(graphClient, subscriptions);
+      assets.push(...otherResources);
+
+      // Add connections between related resources
+      this.addConnections(assets);
+
+      const names = new Map(subscriptions.map(subscription => [subscription.subscriptionId, subscription.displayName]));
+      return assets.map(asset => ({ ...asset, accountAlias: names.get(asset.accountId || '') || asset.accountId }));
+    } catch (error) {
+      console.error('Azure asset scan failed:', error);
+      throw new Error(`Azure scan failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async fetchCosts(): Promise<FocusCostRecord[]> {
+    try {
+      if (this.costExportPath) {
+        const records = await importAzureCostExportDirectory(this.costExportPath, this.costExportType);
+        return filterByMonth(records, new Date().toISOString().slice(0, 7));
+      }
+
+      const subscriptions = await this.resolveSubscriptions();
+      const costClient = new CostManagementClient(this.credentials);
+
+      // One query for the whole management group where the billing offer allows
+      // management group scope (not for MCA or CSP subscriptions); otherwise one query
+      // per subscription. Queries allow two groupings, so the management group query
+      // trades the region breakdown for the subscription.
+      if (this.managementGroupId) {
+        try {
+          const scope = `/providers/Microsoft.Management/managementGroups/${this.managementGroupId}`;
+          const records = await this.queryCosts(costClient, scope, 'SubscriptionId');
+          const visible = new Set(subscriptions.map(subscription => subscription.subscriptionId));
+          return this.nameSubscriptions(records.filter(record => visible.has(record.subAccountId || '')), subscriptions);
+        } catch (error) {
+          console.warn(`Azure management group cost query failed, querying per subscription: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+
+      const subscriptionCosts = await mapWithConcurrency(subscriptions, this.subscriptionConcurrency, async subscription => {
+        const records = await this.queryCosts(costClient, `/subscriptions/${subscription.subscriptionId}`, 'ResourceLocation');
+        return records.map(record => ({ ...record, subAccountId: subscription.subscriptionId }));
+      });
+      return this.nameSubscriptions(subscriptionCosts.flat(), subscriptions);
+    } catch (error) {
+      console.error('Azure cost data fetch failed:', error);
+      throw new Error(`Azure cost query failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Month to date cost per resource ID, one query per subscription. Rows without a
+  // resource ID (marketplace, support, reservation purchases) stay unattributed.
+  async fetchResourceCosts(): Promise<FocusCostRecord[]> {
+    if (this.costExportPath) return [];
+
+    const subscriptions = await this.resolveSubscriptions();
+    const costClient = new CostManagementClient(this.credentials);
+    const subscriptionCosts = await mapWithConcurrency(subscriptions, this.subscriptionConcurrency, async subscription => {
+      const records = await this.queryCosts(costClient, `/subscriptions/${subscription.subscriptionId}`, 'ResourceId', 'None');
+      return records.map(record => ({ ...record, subAccountId: subscription.subscriptionId }));
+    });
+    return this.nameSubscriptions(subscriptionCosts.flat(), subscriptions);
+  }
+
+  // Reservations with the utilization Azure reports for them, and the share of virtual
+  // machine spend covered by reservations or savings plans. Reservations are listed for
+  // the whole tenant, so the principal needs reader access on the reservation orders.
+  async fetchCommitments(windowDays: number): Promise<CommitmentData> {
+    const [reservations, coverage] = await Promise.all([
+      this.listReservations(),
+      this.queryCommitmentCoverage(windowDays),
+    ]);
+
+    return {
+      commitments: reservations.map(reservation => {
+        const properties = reservation.properties || {};
+        // Utilization aggregates come per 1, 7 and 30 day grain; use the longest
+        const aggregate = [...(properties.utilization?.aggregates || [])]
+          .sort((a, b) => (b.grain || 0) - (a.grain || 0))[0];
+        const sku = properties.skuDescription || reservation.sku?.name || properties.reservedResourceType || 'Reservation';
+        return {
+          id: reservation.id,
+          provider: 'Azure' as const,
+          commitmentType: 'Reservation' as const,
+          name: properties.displayName || reservation.name,
+          description: properties.quantity ? `${sku} x ${properties.quantity}` : sku,
+          accountId: properties.appliedScopes?.[0]?.split('/')[2]?.toLowerCase(),
+          region: reservation.location ? this.mapAzureRegion(reservation.location) : undefined,
+          startDate: properties.effectiveDateTime,
+          endDate: properties.expiryDateTime || properties.expiryDate,
+          utilizationPercent: aggregate?.value,
+          status: properties.displayProvisioningState || properties.provisioningState,
+        };
+      }),
+      coverage: [coverage],
+    };
+  }
+
+  // The reservations API has no client in the installed SDKs, so it is called with a
+  // management token directly
+  private async listReservations(): Promise<CapacityReservation[]> {
+    const token = await this.credentials.getToken('https://management.azure.com/.default');
+    return collectPages(
+      'capacity:reservations',
+      this.pageCounter,
+      async (nextLink): Promise<{ value?: CapacityReservation[]; nextLink?: string }> => {
+        const response = await fetch(nextLink || RESERVATIONS_URL, {
+          headers: { Authorization: `Bearer ${token.token}` },
+        });
+        if (!response.ok) {
+          throw new Error(`Reservation list failed: HTTP ${response.status} ${await response.text()}`);
+        }
+        return response.json();
+      },
+      page => page.value,
+      page => page.nextLink
+    );
+  }
+
+  // Amortized virtual machine cost by pricing model over the window, summed across
+  // subscriptions. Spot usage cannot be covered, so it is left out.
+  private async queryCommitmentCoverage(windowDays: number): Promise<CommitmentCoverage> {
+    const subscriptions = await this.resolveSubscriptions();
+    const costClient = new CostManagementClient(this.credentials);
     const now = new Date();
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
-    const endOfMonth = now.toISOString();
+    const from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - windowDays));
+
+    const costsByModel = await mapWithConcurrency(subscriptions, this.subscriptionConcurrency, async subscription => {
+      const result = await this.queryUsage(costClient, `/subscriptions/${subscription.subscriptionId}`, {
+        type: 'AmortizedCost',
+        timeframe: 'Custom',
+        timePeriod: { from, to: now },
+        dataset: {
+          aggregation: { totalCost: { name: 'Cost', function: 'Sum' } },
+          grouping: [{ type: 'Dimension', name: 'PricingModel' }],
+          filter: { dimensions: { name: 'MeterCategory', operator: 'In', values: ['Virtual Machines'] } },
+        },
+      });
+      const columns = result.columns;
+      return result.rows.map(row => ({
+        pricingModel: String(row[columns.indexOf('PricingModel')] || ''),
+        cost: parseFloat(String(row[columns.indexOf('Cost')])) || 0,
+      }));
+    });
+
+    let coveredCost = 0;
+    let onDemandCost = 0;
+    for (const { pricingModel, cost } of costsByModel.flat()) {
+      if (pricingModel === 'Reservation' || pricingModel === 'SavingsPlan') coveredCost += cost;
+      else if (pricingModel !== 'Spot') onDemandCost += cost;
+    }
+
+    return {
+      provider: 'Azure',
+      label: 'Reservations and savings plans (virtual machine spend)',
+      coveredCost,
+      onDemandCost,
+      coveragePercent: coveredCost + onDemandCost > 0 ? coveredCost / (coveredCost + onDemandCost) * 100 : undefined,
+    };
+  }
+
+  // Hourly average CPU and available memory from Azure Monitor platform metrics, which
+  // every VM reports without an agent
+  async fetchUtilization(instances: CloudAsset[], windowDays: number): Promise<InstanceUtilization[]> {
+    const end = new Date();
+    const start = new Date(end.getTime() - windowDays * 24 * 60 * 60 * 1000);
+    const monitorClients = new Map<string, MonitorClient>();
+
+    const utilization = await mapWithConcurrency(instances, this.subscriptionConcurrency, async instance => {
+      const resourceId = instance.resourceId as string;
+      const subscriptionId = resourceId.split('/')[2];
+      const monitorClient = monitorClients.get(subscriptionId) || new MonitorClient(this.credentials, subscriptionId);
+      monitorClients.set(subscriptionId, monitorClient);
+
+      try {
+        const response = await monitorClient.metrics.list(resourceId, {
+          timespan: `${start.toISOString()}/${end.toISOString()}`,
+          interval: 'PT1H',
+          metricnames: 'Percentage CPU,Available Memory Percentage',
+          aggregation: 'Average',
+        });
+        const samples = (metricName: string) => response.value
+          .find(metric => metric.name.value === metricName)?.timeseries
+          ?.flatMap(series => series.data || [])
+          .flatMap(point => point.average !== undefined ? [point.average] : []) || [];
+
+        return summarizeUtilization(
+          'Azure',
+          resourceId,
+          'azure-monitor',
+          windowDays,
+          samples('Percentage CPU'),
+          samples('Available Memory Percentage').map(available => 100 - available)
+        );
+      } catch (error) {
+        console.error(`Failed to fetch Azure Monitor metrics for ${resourceId}:`, error);
+        return null;
+      }
+    });
+
+    return utilization.filter((item): item is InstanceUtilization => item !== null && item.sampleCount > 0);
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      const subscriptions = await this.resolveSubscriptions();
+      if (subscriptions.length === 0) {
+        return { ok: false, message: 'No enabled subscriptions are visible to the service principal' };
+      }
+
+      const resourceClient = new ResourceManagementClient(this.credentials, subscriptions[0].subscriptionId);
+      let resourceGroups = 0;
+      for await (const page of resourceClient.resourceGroups.list().byPage({ maxPageSize: 100 })) {
+        resourceGroups = page.length;
+        break;
+      }
+      const names = subscriptions.map(subscription => subscription.displayName).join(', ');
+      return {
+        ok: true,
+        message: `Connected, scanning ${subscriptions.length} subscriptions: ${names} (${resourceGroups} resource groups visible in ${subscriptions[0].displayName})`,
+      };
+    } catch (error) {
+      return { ok: false, message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Enabled subscriptions to scan, from Resource Graph so that management group scope
+  // and "everything visible" resolve the same way. Resolved once per connector since
+  // asset discovery and cost queries run side by side.
+  private resolveSubscriptions(): Promise<AzureSubscription[]> {
+    if (!this.subscriptions) {
+      this.subscriptions = this.listSubscriptions();
+      this.subscriptions.catch(() => { this.subscriptions = undefined; });
+    }
+    return this.subscriptions;
+  }
+
+  private async listSubscriptions(): Promise<AzureSubscription[]> {
+    const graphClient = new ResourceGraphClient(this.credentials);
+    const rows = await collectPages(
+      'resourcegraph:subscriptions',
+      this.pageCounter,
+      skipToken => graphClient.resources({
+        query: `ResourceContainers
+          | where type =~ 'microsoft.resources/subscriptions'
+          | project subscriptionId, name, state = tostring(properties.state)
+          | order by name`,
+        ...(this.managementGroupId ? { managementGroups: [this.managementGroupId] } : {}),
+        options: { top: 1000, skipToken, resultFormat: 'objectArray' },
+      }),
+      page => page.data as GraphSubscription[],
+      page => page.skipToken
+    );
 
-    const costs = await (costClient as any).queryUsage({
-      scope: `/subscriptions/${subscriptionId}`,
-      timeFrame: "MonthToDate",
-      type: "ActualCost",
+    return rows
+      .filter(row => !row.state || row.state === 'Enabled')
+      .filter(row => this.allowedSubscriptions.length === 0 || this.allowedSubscriptions.includes(row.subscriptionId.toLowerCase()))
+      .map(row => ({ subscriptionId: row.subscriptionId.toLowerCase(), displayName: row.name || row.subscriptionId }));
+  }
+
+  // Month-to-date daily cost for a scope, grouped by resource type (charge type for
+  // charges other than Azure usage) and a second dimension (ResourceLocation,
+  // SubscriptionId or ResourceId)
+  // Actual cost is what is invoiced; amortized cost spreads reservation and savings
+  // plan purchases over the usage they cover. Both are queried and matched on their
+  // groupings, so purchases have no amortized cost and covered usage no actual cost.
+  private async queryCosts(
+    costClient: CostManagementClient,
+    scope: string,
+    secondGrouping: 'ResourceLocation' | 'SubscriptionId' | 'ResourceId',
+    granularity: 'Daily' | 'None' = 'Daily'
+  ): Promise<FocusCostRecord[]> {
+    const queryType = async (type: 'ActualCost' | 'AmortizedCost') => {
+      const parts = await Promise.all(COST_QUERY_PARTS.map(part =>
+        this.queryCostRows(costClient, scope, type, part, secondGrouping, granularity)
+      ));
+      return parts.flatMap(part => Array.from(part));
+    };
+    const [actual, amortized] = await Promise.all([queryType('ActualCost'), queryType('AmortizedCost')]);
+
+    const records = new Map<string, FocusCostRecord>();
+    for (const [key, record] of actual) {
+      records.set(key, { ...record, effectiveCost: 0 });
+    }
+    for (const [key, record] of amortized) {
+      const existing = records.get(key);
+      if (existing) {
+        existing.effectiveCost = record.effectiveCost;
+      } else {
+        records.set(key, { ...record, billedCost: 0 });
+      }
+    }
+
+    return Array.from(records.values());
+  }
+
+  // Rows of one cost query keyed by their grouping values and usage day, categorized
+  // by charge and publisher type as the export importer does
+  private async queryCostRows(
+    costClient: CostManagementClient,
+    scope: string,
+    type: 'ActualCost' | 'AmortizedCost',
+    part: CostQueryPart,
+    secondGrouping: string,
+    granularity: string
+  ): Promise<Map<string, FocusCostRecord>> {
+    const publisherFilter = { dimensions: { name: 'PublisherType', operator: 'In', values: [part.publisherType] } };
+    const result = await this.queryUsage(costClient, scope, {
+      type,
+      timeframe: 'MonthToDate',
       dataset: {
-        granularity: "Daily",
+        granularity,
         aggregation: {
           totalCost: {
-            name: "Cost",
-            function: "Sum"
+            name: 'Cost',
+            function: 'Sum'
           }
         },
         grouping: [
-          {
-            type: "Dimension", 
-            name: "ResourceType"
-          },
-          {
-            type: "Dimension", 
-            name: "ResourceLocation"
-          }
-        ]
+          { type: 'Dimension', name: part.grouping },
+          { type: 'Dimension', name: secondGrouping }
+        ],
+        filter: part.usageOnly
+          ? { and: [publisherFilter, { dimensions: { name: 'ChargeType', operator: 'In', values: ['Usage'] } }] }
+          : publisherFilter
       }
     });
 
-    // Process cost data
-    let totalCost = 0;
-    const costByService: Record<string, number> = {};
-    const costByRegion: Record<string, number> = {};
-    const assetCountByService: Record<string, number> = {};
-
-    if (costs.rows) {
-      for (const row of costs.rows) {
-        const serviceType = row[0] as string;
-        const region = row[1] as string || "unknown";
-        const cost = parseFloat(row[2] as string) || 0;
-        
-        totalCost += cost;
-        costByService[serviceType] = (costByService[serviceType] || 0) + cost;
-        costByRegion[region] = (costByRegion[region] || 0) + cost;
+    // Column order depends on the query, so resolve columns by name
+    const columns = result.columns;
+    const column = (row: unknown[], name: string) => columns.includes(name) ? row[columns.indexOf(name)] : undefined;
+    const records = new Map<string, FocusCostRecord>();
+
+    for (const row of result.rows) {
+      const chargeType = part.grouping === 'ChargeType' ? String(column(row, 'ChargeType') || 'Usage') : 'Usage';
+      if (part.skipUsage && chargeType === 'Usage') continue;
+
+      const usageDate = String(column(row, 'UsageDate') || '');
+      const subscriptionId = column(row, 'SubscriptionId');
+      const resourceId = column(row, 'ResourceId');
+      const serviceName = String(column(row, 'ResourceType') || 'unknown');
+      const cost = parseFloat(String(column(row, 'Cost'))) || 0;
+      const key = [
+        part.publisherType,
+        part.grouping,
+        column(row, part.grouping),
+        column(row, secondGrouping),
+        usageDate,
+        column(row, 'Currency'),
+      ].join('|');
+
+      records.set(key, liveCostRecord(
+        'Azure',
+        serviceName,
+        String(column(row, 'ResourceLocation') || 'unknown'),
+        cost,
+        cost,
+        {
+          billingCurrency: String(column(row, 'Currency') || 'USD'),
+          chargeCategory: azureChargeCategory(chargeType),
+          costCategory: azureCostCategory(chargeType, serviceName, part.publisherType),
+          subAccountId: subscriptionId ? String(subscriptionId).toLowerCase() : undefined,
+          // Resource IDs differ in casing between Cost Management and Resource Graph
+          resourceId: resourceId ? String(resourceId).toLowerCase() : undefined,
+          // Daily rows carry the usage day as a YYYYMMDD number
+          ...(/^\d{8}$/.test(usageDate)
+            ? dayChargePeriod(`${usageDate.slice(0, 4)}-${usageDate.slice(4, 6)}-${usageDate.slice(6, 8)}`)
+            : {})
+        }
+      ));
+    }
+
+    return records;
+  }
+
+  // Every row of a Cost Management query. The SDK returns the first page only and cannot
+  // follow nextLink, so later pages are fetched with a management token directly by
+  // posting the same query to the link.
+  private async queryUsage(
+    costClient: CostManagementClient,
+    scope: string,
+    query: QueryDefinition
+  ): Promise<{ columns: string[]; rows: unknown[][] }> {
+    let columns: string[] = [];
+    const rows = await collectPages(
+      'costmanagement:query',
+      this.pageCounter,
+      async (nextLink): Promise<CostQueryPage> => {
+        if (!nextLink) return costClient.query.usage(scope, query);
+
+        const token = await this.credentials.getToken('https://management.azure.com/.default');
+        const response = await fetch(nextLink, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${token.token}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify(query),
+        });
+        if (!response.ok) {
+          throw new Error(`Cost query page failed: HTTP ${response.status} ${await response.text()}`);
+        }
+        return (await response.json()).properties || {};
+      },
+      page => {
+        if (page.columns?.length) columns = page.columns.map(column => column.name || '');
+        return page.rows;
+      },
+      page => page.nextLink
+    );
+    return { columns, rows };
+  }
+
+  private nameSubscriptions(records: FocusCostRecord[], subscriptions: AzureSubscription[]): FocusCostRecord[] {
+    const names = new Map(subscriptions.map(subscription => [subscription.subscriptionId, subscription.displayName]));
+    return records.map(record => ({ ...record, subAccountName: names.get(record.subAccountId || '') }));
+  }
+
+  private async fetchVirtualMachines(computeClient: ComputeManagementClient): Promise<CloudAsset[]> {
+    const vms: CloudAsset[] = [];
+    
+    try {
+      const vmList = computeClient.virtualMachines.listAll();
+      
+      for await (const vm of vmList) {
+        if (vm.id && vm.name && vm.location) {
+          const resourceGroup = vm.id.split('/')[4];
+          
+          // Get VM status and size
+          const instanceView = await computeClient.virtualMachines.instanceView(resourceGroup, vm.name);
+          const status = instanceView.statuses?.find(s => s.code?.startsWith('PowerState/'))?.displayStatus || 'unknown';
+          const vmSize = vm.hardwareProfile?.vmSize || 'unknown';
+          
+          // Get tags
+          const tags = Object.entries(vm.tags || {}).map(([key, value]) => `${key}:${value}`);
+
+          vms.push({
+            id: vm.id,
+            provider: 'Azure',
+            assetName: vm.name,
+            service: 'Virtual Machine',
+            region: this.mapAzureRegion(vm.location),
+            criticality: this.determineCriticality(tags),
+            tags,
+            owner: this.extractOwnerFromTags(vm.tags),
+            notes: `Size: ${vmSize}, Status: ${status}`,
+            resourceId: vm.id,
+            accountId: vm.id.split('/')[2].toLowerCase(),
+            resourceGroup,
+            assetType: vmSize,
+            status: this.mapAzureStatus(status),
+            lastUpdated: new Date().toISOString(),
+            usageMetrics: {
+              size: vmSize,
+              status: status,
+              resourceGroup: resourceGroup
+            },
+            connectedAssets: []
+          });
+        }
       }
+    } catch (error) {
+      console.error('Failed to fetch Azure VMs:', error);
     }
+    
+    return vms;
+  }
+
+  private async fetchStorageAccounts(storageClient: StorageManagementClient): Promise<CloudAsset[]> {
+    const storageAccounts: CloudAsset[] = [];
+    
+    try {
+      const storageList = storageClient.storageAccounts.list();
+      
+      for await (const storage of storageList) {
+        if (storage.id && storage.name && storage.location) {
+          const resourceGroup = storage.id.split('/')[4];
+          
+          // Get tags
+          const tags = Object.entries(storage.tags || {}).map(([key, value]) => `${key}:${value}`);
+
+          storageAccounts.push({
+            id: storage.id,
+            provider: 'Azure',
+            assetName: storage.name,
+            service: 'Storage Account',
+            region: this.mapAzureRegion(storage.location),
+            criticality: this.determineCriticality(tags),
+            tags,
+            owner: this.extractOwnerFromTags(storage.tags),
+            notes: `SKU: ${storage.sku?.name || 'Standard'}, Tier: ${storage.accessTier || 'Hot'}`,
+            resourceId: storage.id,
+            accountId: storage.id.split('/')[2].toLowerCase(),
+            resourceGroup,
+            assetType: storage.sku?.name || 'Standard',
+            status: 'running',
+            lastUpdated: new Date().toISOString(),
+            usageMetrics: {
+              sku: storage.sku?.name,
+              accessTier: storage.accessTier,
+              resourceGroup: resourceGroup
+            },
+            connectedAssets: []
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Failed to fetch Azure Storage Accounts:', error);
+    }
+    
+    return storageAccounts;
+  }
 
-    // Count assets per service for cost distribution
-    assets.forEach((asset: any) => {
-      assetCountByService[asset.service] = (assetCountByService[asset.service] || 0) + 1;
+  // Date of each storage account's last transaction within the activity window, from
+  // the Azure Monitor Transactions platform metric. Accounts whose metrics cannot be
+  // read are left without activity data rather than reported idle.
+  private async addStorageActivity(subscriptionId: string, storageAccounts: CloudAsset[]): Promise<CloudAsset[]> {
+    const end = new Date();
+    const start = new Date(end.getTime() - BUCKET_ACTIVITY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const monitorClient = new MonitorClient(this.credentials, subscriptionId);
+
+    return mapWithConcurrency(storageAccounts, this.subscriptionConcurrency, async account => {
+      try {
+        const response = await monitorClient.metrics.list(account.resourceId as string, {
+          timespan: `${start.toISOString()}/${end.toISOString()}`,
+          interval: 'P1D',
+          metricnames: 'Transactions',
+          aggregation: 'Total',
+        });
+        const activeDays = response.value
+          .flatMap(metric => metric.timeseries || [])
+          .flatMap(series => series.data || [])
+          .filter(point => (point.total || 0) > 0)
+          .map(point => point.timeStamp.toISOString());
+        const lastRequestTime = activeDays.sort().pop();
+
+        return {
+          ...account,
+          usageMetrics: { ...account.usageMetrics, requestWindowDays: BUCKET_ACTIVITY_WINDOW_DAYS, lastRequestTime },
+        };
+      } catch (error) {
+        console.error(`Failed to fetch Azure Monitor transactions for ${account.assetName}:`, error);
+        return account;
+      }
     });
+  }
 
-    // Assign cost per asset based on service cost divided by asset count
-    const assetsWithCost = assets.map((asset: any) => ({
-      ...asset,
-      costThisMonth: costByService[asset.resourceType] ? costByService[asset.resourceType] / assetCountByService[asset.service] : 0,
-    }));
+  private async fetchGraphResources(graphClient: ResourceGraphClient, subscriptions: AzureSubscription[]): Promise<CloudAsset[]> {
+    const resources: CloudAsset[] = [];
 
-    // Save scan results to database
-    await saveScanResults("Azure", assetsWithCost, "manual");
+    try {
+      const graphResources = await collectPages(
+        'resourcegraph:resources',
+        this.pageCounter,
+        skipToken => graphClient.resources({
+          query: `Resources
+            | where type !~ 'microsoft.compute/virtualmachines' and type !~ 'microsoft.storage/storageaccounts'
+            // The master database of every SQL server is a free system database
+            | where not(type =~ 'microsoft.sql/servers/databases' and name =~ 'master')
+            | project id, name, type, subscriptionId, resourceGroup, location, kind, managedBy, tags, sku, properties
+            | order by name`,
+          subscriptions: subscriptions.map(subscription => subscription.subscriptionId),
+          options: { top: 1000, skipToken, resultFormat: 'objectArray' },
+        }),
+        page => page.data as GraphResource[],
+        page => page.skipToken
+      );
 
-    return {
-      provider: "Azure",
-      assets: assetsWithCost,
-      totalCost,
-      costByService,
-      costByRegion,
-      lastScan: new Date().toISOString()
+      for (const resource of graphResources) {
+        const tags = Object.entries(resource.tags || {}).map(([key, value]) => `${key}:${value}`);
+        const details = this.describeGraphResource(resource);
+
+        resources.push({
+          id: resource.id,
+          provider: 'Azure',
+          assetName: resource.name,
+          service: details?.service || resource.type.split('/')[0] || 'unknown',
+          region: this.mapAzureRegion(resource.location || 'global'),
+          criticality: this.determineCriticality(tags),
+          tags,
+          owner: this.extractOwnerFromTags(resource.tags),
+          notes: details?.notes,
+          resourceId: resource.id,
+          accountId: resource.subscriptionId.toLowerCase(),
+          resourceGroup: resource.resourceGroup,
+          assetType: details?.assetType || resource.sku?.name || resource.type,
+          status: details?.status || 'unknown',
+          lastUpdated: new Date().toISOString(),
+          usageMetrics: {
+            resourceType: resource.type,
+            resourceGroup: resource.resourceGroup,
+            ...details?.usageMetrics
+          },
+          connectedAssets: details?.connectedAssets || []
+        });
+      }
+    } catch (error) {
+      console.error('Failed to fetch Azure resources from Resource Graph:', error);
+    }
+
+    return resources;
+  }
+
+  // Service, SKU, state and usage for the resource types we describe in detail;
+  // null for types only listed generically
+  private describeGraphResource(resource: GraphResource): GraphResourceDetails | null {
+    const property = (path: string) => this.graphProperty(resource, path);
+    const provisioningState = String(property('provisioningState') || 'unknown');
+
+    switch (resource.type.toLowerCase()) {
+      case 'microsoft.compute/disks': {
+        const diskState = String(property('diskState') || 'unknown');
+        return {
+          service: 'Managed Disk',
+          assetType: resource.sku?.name || 'unknown',
+          status: this.mapAzureState(diskState),
+          notes: `Size: ${property('diskSizeGB')} GiB, State: ${diskState}`,
+          usageMetrics: {
+            diskState,
+            diskSizeGB: property('diskSizeGB'),
+            diskIOPSReadWrite: property('diskIOPSReadWrite'),
+            diskMBpsReadWrite: property('diskMBpsReadWrite'),
+            attachedTo: resource.managedBy || undefined,
+            timeCreated: property('timeCreated')
+          },
+          connectedAssets: resource.managedBy ? [resource.managedBy] : []
+        };
+      }
+
+      case 'microsoft.compute/snapshots': {
+        const sku = resource.sku?.name || 'Standard_LRS';
+        return {
+          service: 'Managed Disk',
+          assetType: `Snapshot (${sku})`,
+          status: this.mapAzureState(provisioningState),
+          notes: `Snapshot of ${String(property('creationData.sourceResourceId') || 'unknown').split('/').pop()}, Size: ${property('diskSizeGB')} GiB`,
+          usageMetrics: {
+            provisioningState,
+            diskSizeGB: property('diskSizeGB'),
+            incremental: property('incremental'),
+            sourceResourceId: property('creationData.sourceResourceId'),
+            timeCreated: property('timeCreated')
+          },
+          connectedAssets: []
+        };
+      }
+
+      case 'microsoft.sql/servers/databases': {
+        const status = String(property('status') || provisioningState);
+        const elasticPoolId = property('elasticPoolId') as string | undefined;
+        return {
+          service: 'SQL Database',
+          assetType: resource.sku?.name || String(property('currentServiceObjectiveName') || 'unknown'),
+          status: this.mapAzureState(status),
+          notes: `Server: ${resource.id.split('/')[8]}, Tier: ${resource.sku?.tier}, Status: ${status}`,
+          usageMetrics: {
+            status,
+            server: resource.id.split('/')[8],
+            tier: resource.sku?.tier,
+            capacity: resource.sku?.capacity,
+            maxSizeBytes: property('maxSizeBytes'),
+            elasticPoolId,
+            zoneRedundant: property('zoneRedundant'),
+            autoPauseDelayMinutes: property('autoPauseDelay')
+          },
+          connectedAssets: elasticPoolId ? [elasticPoolId] : []
+        };
+      }
+
+      case 'microsoft.sql/servers/elasticpools': {
+        const state = String(property('state') || provisioningState);
+        return {
+          service: 'SQL Elastic Pool',
+          assetType: resource.sku?.name || 'unknown',
+          status: this.mapAzureState(state),
+          notes: `Server: ${resource.id.split('/')[8]}, Tier: ${resource.sku?.tier}, State: ${state}`,
+          usageMetrics: {
+            state,
+            server: resource.id.split('/')[8],
+            tier: resource.sku?.tier,
+            capacity: resource.sku?.capacity,
+            maxSizeBytes: property('maxSizeBytes'),
+            zoneRedundant: property('zoneRedundant')
+          }
+        };
+      }
+
+      case 'microsoft.containerservice/managedclusters': {
+        const powerState = String(property('powerState.code') || provisioningState);
+        const agentPools = this.graphArray(property('agentPoolProfiles')).map(pool => ({
+          name: pool.name,
+          vmSize: pool.vmSize,
+          count: pool.count,
+          mode: pool.mode,
+        }));
+        const nodeCount = agentPools.reduce((sum, pool) => sum + (Number(pool.count) || 0), 0);
+        return {
+          service: 'AKS',
+          assetType: resource.sku?.tier || resource.sku?.name || 'unknown',
+          status: provisioningState === 'Deleting' ? 'terminated' : this.mapAzureState(powerState),
+          notes: `Kubernetes ${property('kubernetesVersion')}, Nodes: ${nodeCount}, Power state: ${powerState}`,
+          usageMetrics: {
+            powerState,
+            provisioningState,
+            kubernetesVersion: property('kubernetesVersion'),
+            nodeCount,
+            agentPools,
+            nodeResourceGroup: property('nodeResourceGroup')
+          }
+        };
+      }
+
+      case 'microsoft.web/serverfarms': {
+        const status = String(property('status') || provisioningState);
+        const numberOfSites = Number(property('numberOfSites')) || 0;
+        return {
+          service: 'App Service Plan',
+          assetType: resource.sku?.name || 'unknown',
+          status: this.mapAzureState(status),
+          notes: `Tier: ${resource.sku?.tier}, Instances: ${resource.sku?.capacity}, Apps: ${numberOfSites}`,
+          usageMetrics: {
+            status,
+            tier: resource.sku?.tier,
+            instances: resource.sku?.capacity,
+            numberOfSites,
+            kind: resource.kind,
+            zoneRedundant: property('zoneRedundant')
+          }
+        };
+      }
+
+      case 'microsoft.network/publicipaddresses': {
+        // ipConfiguration points at the NIC or load balancer frontend using the address
+        const ipConfiguration = property('ipConfiguration.id') as string | undefined;
+        const attachedTo = ipConfiguration?.split(/\/(?:ipConfigurations|frontendIPConfigurations)\//i)[0];
+        return {
+          service: 'Public IP',
+          assetType: resource.sku?.name || 'Basic',
+          // An address not associated with anything is idle but still billed
+          status: ipConfiguration ? 'running' : 'stopped',
+          notes: attachedTo ? `Associated with ${attachedTo.split('/').pop()}` : 'Not associated',
+          usageMetrics: {
+            ipAddress: property('ipAddress'),
+            allocationMethod: property('publicIPAllocationMethod'),
+            ipVersion: property('publicIPAddressVersion'),
+            attachedTo
+          },
+          connectedAssets: attachedTo ? [attachedTo] : []
+        };
+      }
+
+      case 'microsoft.network/loadbalancers': {
+        const backendPools = this.graphArray(property('backendAddressPools'));
+        // Pools reference NIC IP configurations, or IP addresses for IP-based pools
+        const backendAddressCount = backendPools.reduce((sum, pool) => {
+          const poolProperties = (pool.properties || {}) as Record<string, unknown>;
+          return sum + this.graphArray(poolProperties.backendIPConfigurations).length +
+            this.graphArray(poolProperties.loadBalancerBackendAddresses).length;
+        }, 0);
+        return {
+          service: 'Load Balancer',
+          assetType: resource.sku?.name || 'Basic',
+          status: this.mapAzureState(provisioningState),
+          notes: `Frontends: ${this.graphArray(property('frontendIPConfigurations')).length}, Backend pools: ${backendPools.length}, Backends: ${backendAddressCount}`,
+          usageMetrics: {
+            provisioningState,
+            frontendIpCount: this.graphArray(property('frontendIPConfigurations')).length,
+            backendPoolCount: backendPools.length,
+            backendAddressCount,
+            ruleCount: this.graphArray(property('loadBalancingRules')).length
+          }
+        };
+      }
+
+      case 'microsoft.documentdb/databaseaccounts': {
+        const serverless = this.graphArray(property('capabilities')).some(capability => capability.name === 'EnableServerless');
+        const offerType = String(property('databaseAccountOfferType') || 'Standard');
+        return {
+          service: 'Cosmos DB',
+          assetType: `${offerType}${serverless ? ' (serverless)' : ''}`,
+          status: this.mapAzureState(provisioningState),
+          notes: `API: ${resource.kind}, Locations: ${this.graphArray(property('locations')).length}`,
+          usageMetrics: {
+            provisioningState,
+            kind: resource.kind,
+            offerType,
+            serverless,
+            consistencyLevel: property('consistencyPolicy.defaultConsistencyLevel'),
+            locations: this.graphArray(property('locations')).map(location => location.locationName),
+            enableFreeTier: property('enableFreeTier')
+          }
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  // Read a nested property of a Resource Graph row, e.g. 'powerState.code'
+  private graphProperty(resource: GraphResource, path: string): unknown {
+    let value: unknown = resource.properties;
+    for (const part of path.split('.')) {
+      if (value === null || typeof value !== 'object') return undefined;
+      value = (value as Record<string, unknown>)[part];
+    }
+    return value;
+  }
+
+  private graphArray(value: unknown): Record<string, unknown>[] {
+    return Array.isArray(value) ? value as Record<string, unknown>[] : [];
+  }
+
+  private addConnections(assets: CloudAsset[]): void {
+    // Simple connection logic: connect VMs to storage accounts in the same resource group
+    const vms = assets.filter(a => a.service === 'Virtual Machine');
+    const storageAccounts = assets.filter(a => a.service === 'Storage Account');
+    
+    vms.forEach(vm => {
+      const compatibleStorage = storageAccounts.filter(sa => 
+        sa.accountId === vm.accountId && sa.resourceGroup?.toLowerCase() === vm.resourceGroup?.toLowerCase()
+      );
+      
+      vm.connectedAssets = compatibleStorage.map(sa => sa.id);
+    });
+  }
+
+  private mapAzureRegion(azureRegion: string): string {
+    const regionMap: Record<string, string> = {
+      'eastus': 'East US',
+      'westus': 'West US',
+      'centralus': 'Central US',
+      'eastus2': 'East US 2',
+      'westus2': 'West US 2',
+      'westeurope': 'West Europe',
+      'northeurope': 'North Europe',
+      'southeastasia': 'Southeast Asia',
+      'eastasia': 'East Asia'
     };
+    return regionMap[azureRegion.toLowerCase()] || azureRegion;
+  }
+
+  private mapAzureStatus(status: string): AssetStatus {
+    if (status.includes('running')) return 'running';
+    if (status.includes('stopped') || status.includes('deallocated')) return 'stopped';
+    if (status.includes('terminated')) return 'terminated';
+    return 'unknown';
+  }
+
+  // Power, disk, database and provisioning states of Resource Graph resources
+  private mapAzureState(state: string): AssetStatus {
+    switch (state.toLowerCase()) {
+      case 'running':
+      case 'online':
+      case 'ready':
+      case 'succeeded':
+      case 'attached':
+      case 'activesas':
+        return 'running';
+      case 'stopped':
+      case 'paused':
+      case 'unattached':
+      case 'reserved':
+      case 'disabled':
+      case 'offline':
+        return 'stopped';
+      case 'deleting':
+      case 'dropping':
+        return 'terminated';
+      default:
+        return 'unknown';
+    }
+  }
 
-  } catch (error) {
-    console.error("Azure fetch error:", error);
-    throw new Error(`Azure fetch failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+  private determineCriticality(tags: string[]): 'Low' | 'Medium' | 'High' {
+    const tagString = tags.join(' ').toLowerCase();
+    if (tagString.includes('production') || tagString.includes('critical')) return 'High';
+    if (tagString.includes('staging') || tagString.includes('testing')) return 'Medium';
+    return 'Low';
+  }
+
+  private extractOwnerFromTags(tags: { [key: string]: string } | undefined): string {
+    if (!tags) return '';
+    
+    // Look for common owner tag patterns
+    for (const [key, value] of Object.entries(tags)) {
+      if (key.toLowerCase().includes('owner') || key.toLowerCase().includes('team')) {
+        return value;
+      }
+    }
+    
+    return '';
   }
 }
+
+export const azureConnector: ConnectorDefinition = {
+  id: 'azure',
+  provider: 'Azure',
+  displayName: 'Microsoft Azure',
+  credentialFields: [
+    { key: 'clientId', label: 'Client ID', type: 'password', placeholder: 'Enter Azure Application Client ID', required: true },
+    { key: 'clientSecret', label: 'Client Secret', type: 'password', placeholder: 'Enter Azure Client Secret', required: true },
+    { key: 'tenantId', label: 'Tenant ID', placeholder: 'Enter Azure Tenant ID', required: true },
+    { key: 'subscriptionIds', label: 'Subscription IDs (comma-separated, blank for all visible)', placeholder: 'Enter Azure Subscription IDs' },
+    { key: 'managementGroupId', label: 'Management Group ID (scan every subscription below it)', placeholder: 'Enter Azure Management Group ID' },
+  ],
+  capabilities: {
+    assetDiscovery: true,
+    costData: true,
+    resourceLevelCosts: true,
+    billingExports: true,
+    commitments: true,
+    utilizationMetrics: true,
+  },
+
+  create: credentials => new AzureConnector({
+    clientId: credentials.clientId,
+    clientSecret: credentials.clientSecret,
+    tenantId: credentials.tenantId,
+    subscriptionIds: parseList(credentials.subscriptionIds),
+    managementGroupId: credentials.managementGroupId || undefined,
+    subscriptionConcurrency: Number(process.env.AZURE_SUBSCRIPTION_CONCURRENCY) || undefined,
+  }),
+
+  fromEnvironment: () => {
+    const clientId = process.env.AZURE_CLIENT_ID;
+    const clientSecret = process.env.AZURE_CLIENT_SECRET;
+    const tenantId = process.env.AZURE_TENANT_ID;
+    if (!clientId || !clientSecret || !tenantId) return null;
+
+    return new AzureConnector({
+      clientId,
+      clientSecret,
+      tenantId,
+      // AZURE_SUBSCRIPTION_ID keeps single-subscription setups scanning just that one
+      subscriptionIds: parseList(process.env.AZURE_SUBSCRIPTION_IDS || process.env.AZURE_SUBSCRIPTION_ID),
+      managementGroupId: process.env.AZURE_MANAGEMENT_GROUP_ID,
+      subscriptionConcurrency: Number(process.env.AZURE_SUBSCRIPTION_CONCURRENCY) || undefined,
+      costExportPath: process.env.AZURE_COST_EXPORT_PATH,
+      costExportType: process.env.AZURE_COST_EXPORT_TYPE as AzureExportType | undefined,
+    });
+  },
+};
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BigQuery } from "@google-cloud/bigquery";
+import { v1 as Billing } from "@google-cloud/billing";
+import { GCPConnector } from "./gcp";
+
+const credentials = { client_email: "scanner@my-project.iam.gserviceaccount.com", private_key: "key" };
+
+describe("GCP costs", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("are left empty with a warning when no billing export is configured", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const connector = new GCPConnector({ projectId: "my-project", credentials });
+
+    await expect(connector.fetchCosts()).resolves.toEqual([]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("no billing export configured"));
+  });
+
+  it("are read per day from the BigQuery billing export table", async () => {
+    vi.spyOn(Billing.CloudBillingClient.prototype, "getProjectBillingInfo").mockImplementation(
+      (async () => [{ billingEnabled: true, billingAccountName: "billingAccounts/0000-AAAA" }]) as never
+    );
+    const query = vi.spyOn(BigQuery.prototype, "query").mockImplementation((async () => [[
+      { usage_date: "2026-10-01", service: "Compute Engine", region: "us-central1", project_id: "my-project", currency: "USD", cost_type: "regular", marketplace: false, cost: 12.5, credits: -2 },
+      { usage_date: "2026-10-02", service: "Compute Engine", region: "us-central1", project_id: "my-project", currency: "USD", cost_type: "regular", marketplace: false, cost: 13, credits: 0 },
+      { usage_date: "2026-10-02", service: "Invoice", region: "global", project_id: "my-project", currency: "USD", cost_type: "tax", marketplace: false, cost: 1.3, credits: 0 },
+    ]]) as never);
+    const connector = new GCPConnector({ projectId: "my-project", credentials, billingExportTable: "my-project.billing.gcp_billing_export_v1_0000" });
+
+    const records = await connector.fetchCosts();
+
+    const [request] = query.mock.calls[0] as unknown as [{ query: string; params: Record<string, unknown> }];
+    expect(request.query).toContain("FROM `my-project.billing.gcp_billing_export_v1_0000`");
+    expect(request.params.projects).toEqual(["my-project"]);
+    expect(records.map(record => [record.chargePeriodStart.slice(0, 10), record.serviceName, record.costCategory, record.billedCost])).toEqual([
+      ["2026-10-01", "Compute Engine", "Usage", 12.5],
+      ["2026-10-01", "Compute Engine", "Credit", -2],
+      ["2026-10-02", "Compute Engine", "Usage", 13],
+      ["2026-10-02", "Invoice", "Tax", 1.3],
+    ]);
+    expect(records.every(record => record.subAccountId === "my-project")).toBe(true);
+  });
+
+  it("reject an export table name that is not a table reference", async () => {
+    const connector = new GCPConnector({ projectId: "my-project", credentials, billingExportTable: "x` WHERE 1=1 --" });
+
+    await expect(connector.fetchCosts()).rejects.toThrow("invalid billing export table");
+  });
+});
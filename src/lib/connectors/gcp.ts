@@ -1,115 +1,1207 @@
-// GCP connector for fetching all assets and cost data
-import { CloudBillingClient } from "@google-cloud/billing";
-import { AssetServiceClient } from "@google-cloud/asset";
-import { saveScanResults } from "./save";
+// Google Cloud Platform connector for asset inventory and cost data
+// Uses Google Cloud SDK to fetch compute instances, storage buckets, other resources
+// via Cloud Asset Inventory, billing data from the BigQuery billing export or export
+// dumps, and instance utilization and bucket request counts from Cloud Monitoring.
+// Cloud SQL, GKE, disks, snapshots, functions, Cloud Run, static IPs and BigQuery
+// datasets are described from their Asset Inventory resource data.
+// With an organization or folder scope, every resource below it is found with a
+// single Asset Inventory search and attributed to its project, folders and billing
+// account.
 
-export async function fetchGCPAssetsAndCosts() {
-  const projectId = process.env.GCP_PROJECT_ID;
-  const keyFilename = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+import compute from '@google-cloud/compute';
+import { Storage } from '@google-cloud/storage';
+import resourceManager from '@google-cloud/resource-manager';
+import { v1 as Billing } from '@google-cloud/billing';
+import { BigQuery } from '@google-cloud/bigquery';
+import { AssetServiceClient, protos } from '@google-cloud/asset';
+import { MetricServiceClient, protos as monitoringProtos } from '@google-cloud/monitoring';
+import { CloudAsset, ConnectionTestResult, ConnectorCapabilities, FocusCostRecord, InstanceUtilization } from '@/types';
+import { importGCPBillingExportDirectory } from '@/lib/importers/gcp-billing-export';
+import { dayChargePeriod, filterByMonth, liveCostRecord } from '@/lib/focus';
+import { isComputeInstance, summarizeUtilization } from '@/lib/utilization';
+import { BUCKET_ACTIVITY_WINDOW_DAYS } from '@/lib/waste';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { collectPages, PageCounter } from '@/lib/pagination';
+import { CloudConnector, ConnectorDefinition } from './types';
 
-  if (!projectId) {
-    throw new Error("GCP project ID not configured");
+interface GCPCredentials {
+  projectId?: string;  // Project scanned when no scope is given
+  scope?: string;  // 'organizations/123' or 'folders/456' to scan every project below it
+  keyFilename?: string;
+  credentials?: {
+    client_email: string;
+    private_key: string;
+  };
+  billingExportTable?: string;  // BigQuery billing export table, 'project.dataset.gcp_billing_export_v1_XXXXXX'
+  billingExportPath?: string;  // Directory of billing export dumps (JSON/CSV) used instead of the export table
+}
+
+// A day's cost per service, region, project and cost type from the billing export table
+interface BillingExportCostRow {
+  usage_date: string;  // YYYY-MM-DD
+  service: string;
+  region: string;
+  project_id: string | null;
+  currency: string;
+  cost_type: string;
+  marketplace: boolean;
+  cost: number;
+  credits: number;
+}
+
+type AssetStatus = NonNullable<CloudAsset['status']>;
+
+// A project being scanned, with its place in the resource hierarchy
+interface GCPProject {
+  projectId: string;
+  projectNumber?: string;
+  displayName: string;
+  ancestry: string[];  // Organization and folder resource names, outermost first
+  folderPath: string;  // Folder display names, e.g. 'Engineering/Platform'
+  billingAccountId?: string;
+}
+
+// Asset types described in detail separately and skipped in the Asset Inventory listing
+const DETAILED_ASSET_TYPES = ['compute.googleapis.com/Instance', 'storage.googleapis.com/Bucket'];
+
+// Asset types described from their Asset Inventory resource data. Search results
+// carry too little detail, so in scope mode these are listed rather than searched.
+const DESCRIBED_ASSET_TYPES = [
+  'sqladmin.googleapis.com/Instance',
+  'container.googleapis.com/Cluster',
+  'container.googleapis.com/NodePool',
+  'compute.googleapis.com/Disk',
+  'compute.googleapis.com/Snapshot',
+  'compute.googleapis.com/Address',
+  'compute.googleapis.com/GlobalAddress',
+  'cloudfunctions.googleapis.com/CloudFunction',
+  'cloudfunctions.googleapis.com/Function',
+  'run.googleapis.com/Service',
+  'bigquery.googleapis.com/Dataset',
+];
+
+interface InventoryResourceDetails {
+  service: string;
+  assetType: string;
+  status: AssetStatus;
+  notes?: string;
+  usageMetrics: Record<string, unknown>;
+  connectedAssets?: string[];
+}
+
+const PROJECT_ASSET_TYPE = 'cloudresourcemanager.googleapis.com/Project';
+const FOLDER_ASSET_TYPE = 'cloudresourcemanager.googleapis.com/Folder';
+const ORGANIZATION_ASSET_TYPE = 'cloudresourcemanager.googleapis.com/Organization';
+const RESOURCE_MANAGER_PREFIX = '//cloudresourcemanager.googleapis.com/';
+
+// Service names for search results, matching the detailed project-mode listings so
+// that costs are attributed to the same services either way
+const SEARCH_SERVICE_NAMES: Record<string, string> = {
+  'compute.googleapis.com/Instance': 'Compute Engine',
+  'storage.googleapis.com/Bucket': 'Cloud Storage',
+};
+
+const PROJECT_CONCURRENCY = 8;
+// Cloud Monitoring keeps Cloud Storage metrics for six weeks
+const MONITORING_RETENTION_DAYS = 42;
+
+export class GCPConnector implements CloudConnector {
+  readonly provider = 'GCP' as const;
+  private compute: any; // compute.InstancesClient
+  private storage: Storage;
+  private resourceManager: any; // resourceManager.ProjectsClient
+  private billing: Billing.CloudBillingClient;
+  private bigquery: BigQuery;
+  private assetClient: AssetServiceClient;
+  private monitoring: MetricServiceClient;
+  private projectId: string;
+  private scope?: string;
+  private projects?: Promise<GCPProject[]>;
+  private billingExportTable?: string;
+  private billingExportPath?: string;
+  private pageCounter = new PageCounter();
+
+  constructor(credentials: GCPCredentials) {
+    if (!credentials.projectId && !credentials.scope) {
+      throw new Error('GCP connector needs a project ID or an organization/folder scope');
+    }
+    this.projectId = credentials.projectId || '';
+    this.scope = credentials.scope;
+    this.billingExportTable = credentials.billingExportTable;
+    this.billingExportPath = credentials.billingExportPath;
+    
+    const clientConfig = credentials.keyFilename 
+      ? { keyFilename: credentials.keyFilename }
+      : { credentials: credentials.credentials };
+
+    this.compute = new compute.InstancesClient(clientConfig);
+    this.storage = new Storage(clientConfig);
+    this.resourceManager = new resourceManager.ProjectsClient(clientConfig);
+    this.billing = new Billing.CloudBillingClient(clientConfig);
+    // Query jobs run in the scanned project, or the export table's for scope scans
+    this.bigquery = new BigQuery({ ...clientConfig, projectId: this.projectId || credentials.billingExportTable?.split('.')[0] });
+    this.assetClient = new AssetServiceClient(clientConfig);
+    this.monitoring = new MetricServiceClient(clientConfig);
+  }
+
+  get capabilities(): ConnectorCapabilities {
+    return { ...gcpConnector.capabilities, resourceLevelCosts: Boolean(this.billingExportPath) };
+  }
+
+  getPageCounts(): Record<string, number> {
+    return this.pageCounter.snapshot();
+  }
+
+  async discoverAssets(): Promise<CloudAsset[]> {
+    const assets: CloudAsset[] = [];
+    
+    try {
+      if (this.scope) {
+        const projects = await this.resolveProjects();
+        const resources = await this.searchScopeResources(projects);
+        resources.push(...await this.fetchInventoryAssets(this.scope, DESCRIBED_ASSET_TYPES, projects));
+        this.addConnections(resources);
+        return resources;
+      }
+
+      // Fetch Compute Engine instances
+      const instances = await this.fetchComputeInstances();
+      assets.push(...instances);
+
+      // Fetch Cloud Storage buckets
+      const buckets = await this.fetchStorageBuckets();
+      assets.push(...buckets);
+
+      // Fetch all other resources from Cloud Asset Inventory
+      const projects = await this.resolveProjects();
+      const otherResources = await this.fetchInventoryAssets(`projects/${this.projectId}`, [], projects);
+      assets.push(...otherResources);
+
+      // Add connections between related resources
+      this.addConnections(assets);
+
+      return assets.map(asset => this.attributeToProject(asset, projects[0]));
+    } catch (error) {
+      console.error('GCP asset scan failed:', error);
+      throw new Error(`GCP scan failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async fetchCosts(): Promise<FocusCostRecord[]> {
+    if (this.billingExportPath) {
+      return this.fetchCostsFromExport(this.billingExportPath);
+    }
+    if (!this.billingExportTable) {
+      console.warn('GCP cost data skipped: no billing export configured (GCP_BILLING_EXPORT_TABLE or GCP_BILLING_EXPORT_PATH)');
+      return [];
+    }
+    if (!/^[\w.:-]+$/.test(this.billingExportTable)) {
+      throw new Error(`GCP cost query failed: invalid billing export table '${this.billingExportTable}'`);
+    }
+
+    try {
+      const projects = await this.resolveProjects();
+      const now = new Date();
+      const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+      const tomorrow = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+
+      // Month-to-date daily costs of the scanned projects. Credits are summed apart so
+      // they can be kept as their own line items; marketplace SKUs are sold by their
+      // publisher rather than Google.
+      const [rows] = await this.bigquery.query({
+        query: `
+          SELECT FORMAT_DATE('%F', DATE(usage_start_time)) AS usage_date,
+                 service.description AS service,
+                 COALESCE(location.region, location.location, 'global') AS region,
+                 project.id AS project_id,
+                 currency,
+                 cost_type,
+                 IFNULL(seller_name, 'Google') NOT LIKE 'Google%' AS marketplace,
+                 SUM(cost) AS cost,
+                 SUM(IFNULL((SELECT SUM(credit.amount) FROM UNNEST(credits) AS credit), 0)) AS credits
+          FROM \`${this.billingExportTable}\`
+          WHERE usage_start_time >= @start AND usage_start_time < @end
+            AND project.id IN UNNEST(@projects)
+          GROUP BY usage_date, service, region, project_id, currency, cost_type, marketplace
+        `,
+        params: {
+          start: monthStart.toISOString(),
+          end: tomorrow.toISOString(),
+          projects: projects.map(project => project.projectId),
+        },
+        types: { start: 'TIMESTAMP', end: 'TIMESTAMP', projects: ['STRING'] },
+      });
+
+      return this.toCostRecords(rows as BillingExportCostRow[], projects);
+    } catch (error) {
+      console.error('GCP cost data fetch failed:', error);
+      throw new Error(`GCP cost query failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
-  const clientConfig = keyFilename ? { keyFilename } : {};
+  // Hourly mean CPU utilization from Cloud Monitoring, and memory where the Ops Agent
+  // reports it, queried project by project. Instances are matched by numeric ID, or by
+  // name for scope scans whose resource names carry the instance name.
+  async fetchUtilization(instances: CloudAsset[], windowDays: number): Promise<InstanceUtilization[]> {
+    const end = Math.floor(Date.now() / 1000);
+    const start = end - windowDays * 24 * 60 * 60;
+    const byProject = new Map<string, Array<{ resourceId: string; zone: string; instance: string }>>();
 
-  try {
-    const billing = new CloudBillingClient(clientConfig);
-    const assetClient = new AssetServiceClient(clientConfig);
+    for (const asset of instances) {
+      const match = (asset.resourceId || '').match(/projects\/([^/]+)\/zones\/([^/]+)\/instances\/([^/]+)$/);
+      if (!match) continue;
+      const projectInstances = byProject.get(match[1]) || [];
+      projectInstances.push({ resourceId: asset.resourceId as string, zone: match[2], instance: match[3] });
+      byProject.set(match[1], projectInstances);
+    }
+
+    const projectUtilization = await mapWithConcurrency(Array.from(byProject.entries()), PROJECT_CONCURRENCY, async ([project, projectInstances]) => {
+      try {
+        const [cpuSeries, memorySeries] = await Promise.all([
+          this.listTimeSeries(project, 'compute.googleapis.com/instance/cpu/utilization', start, end),
+          this.listTimeSeries(project, 'agent.googleapis.com/memory/percent_used', start, end, 'metric.labels.state = "used"'),
+        ]);
+
+        // CPU utilization is reported as a fraction, agent memory as a percentage
+        const cpuSamples = this.seriesSamples(cpuSeries, 100);
+        const memorySamples = this.seriesSamples(memorySeries, 1);
+        const instanceIds = new Map<string, string>();
+        for (const series of cpuSeries) {
+          const name = series.metric?.labels?.instance_name;
+          const id = series.resource?.labels?.instance_id;
+          if (name && id) instanceIds.set(`${series.resource?.labels?.zone}/${name}`, id);
+        }
 
-    // Fetch all assets using Asset Inventory
-    const assetsResponse = await assetClient.listAssets({
-      parent: `projects/${projectId}`,
-      contentType: "RESOURCE",
+        return projectInstances.map(({ resourceId, zone, instance }) => {
+          const id = /^\d+$/.test(instance) ? instance : instanceIds.get(`${zone}/${instance}`);
+          return summarizeUtilization(
+            'GCP',
+            resourceId,
+            'cloud-monitoring',
+            windowDays,
+            cpuSamples.get(`${zone}/${id}`) || [],
+            memorySamples.get(`${zone}/${id}`) || []
+          );
+        });
+      } catch (error) {
+        console.error(`Failed to fetch GCP Cloud Monitoring metrics for ${project}:`, error);
+        return [];
+      }
     });
 
-    const assets = assetsResponse[0];
+    return projectUtilization.flat().filter(utilization => utilization.sampleCount > 0);
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      if (this.scope) {
+        const projects = await this.resolveProjects();
+        const billed = projects.filter(project => project.billingAccountId).length;
+        return {
+          ok: true,
+          message: `Connected to ${this.scope} (${projects.length} projects, ${billed} with billing enabled)`
+        };
+      }
 
-    const assetList = assets.map((a: any) => {
-      const resourceData = a.resource?.data || {};
-      const labels = (resourceData as any).labels || {};
-      
+      const [billingInfo] = await this.billing.getProjectBillingInfo({
+        name: `projects/${this.projectId}`
+      });
       return {
-        id: a.name,
-        service: a.assetType?.split('.')?.pop() || "unknown",
-        resourceType: a.assetType || "unknown",
-        region: (resourceData as any).location?.split('/')?.pop() || "global",
-        tags: Object.entries(labels).map(([key, value]) => `${key}:${value}`),
-        provider: "GCP"
+        ok: true,
+        message: billingInfo.billingEnabled
+          ? `Connected to project ${this.projectId} (billing account ${billingInfo.billingAccountName})`
+          : `Connected to project ${this.projectId} (billing disabled)`
       };
-    });
+    } catch (error) {
+      return { ok: false, message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
 
-    // Get billing account for cost queries
-    const billingInfoResponse = await billing.getProjectBillingInfo({ 
-      name: `projects/${projectId}` 
-    });
+  // Current month costs from billing export dumps, limited to the scanned projects
+  private async fetchCostsFromExport(exportPath: string): Promise<FocusCostRecord[]> {
+    try {
+      const month = new Date().toISOString().slice(0, 7);
+      const projects = new Map((await this.resolveProjects()).map(project => [project.projectId, project]));
+      const records = filterByMonth(await importGCPBillingExportDirectory(exportPath), month)
+        .filter(record => !record.subAccountId || projects.has(record.subAccountId))
+        .map(record => ({
+          ...record,
+          subAccountName: record.subAccountId ? projects.get(record.subAccountId)?.displayName : undefined,
+        }));
 
-    const billingInfo = billingInfoResponse[0];
+      return records;
+    } catch (error) {
+      console.error('GCP billing export import failed:', error);
+      throw new Error(`GCP billing export import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async fetchComputeInstances(): Promise<CloudAsset[]> {
+    const instances: CloudAsset[] = [];
+    
+    try {
+      // Instances across all zones; the async iterator follows page tokens
+      for await (const [scope, zoneData] of this.compute.aggregatedListAsync({ project: this.projectId, maxResults: 500 })) {
+        if (!zoneData.instances) continue;
+        const zone = String(scope).replace(/^zones\//, '');
+        
+        for (const instance of zoneData.instances) {
+          if (!instance.id || !instance.name) continue;
+          
+          // Get machine type
+          const machineType = instance.machineType?.split('/').pop() || 'unknown';
+          
+          // Get status
+          const status = instance.status || 'unknown';
+          
+          // Get labels as tags
+          const labels = instance.labels || {};
+          const tags = Object.entries(labels).map(([key, value]) => `${key}:${value || ''}`);
+          
+          instances.push({
+            id: `projects/${this.projectId}/zones/${zone}/instances/${instance.name}`,
+            provider: 'GCP',
+            assetName: instance.name,
+            service: 'Compute Engine',
+            region: this.mapGCPRegion(zone),
+            criticality: this.determineCriticality(tags),
+            tags,
+            owner: this.extractOwnerFromLabels(labels),
+            notes: `Machine Type: ${machineType}, Zone: ${zone}`,
+            // Global name as in resource-level billing exports, which use the numeric instance ID
+            resourceId: `//compute.googleapis.com/projects/${this.projectId}/zones/${zone}/instances/${instance.id}`,
+            assetType: machineType,
+            status: this.mapGCPStatus(status),
+            lastUpdated: new Date().toISOString(),
+            usageMetrics: {
+              machineType,
+              zone: zone,
+              creationTimestamp: instance.creationTimestamp
+            },
+            connectedAssets: []
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Failed to fetch GCP Compute Instances:', error);
+    }
+    
+    return instances;
+  }
 
-    if (!billingInfo.billingAccountName) {
-      throw new Error("No billing account associated with this project");
+  private async fetchStorageBuckets(): Promise<CloudAsset[]> {
+    const buckets: CloudAsset[] = [];
+    
+    try {
+      const [bucketList] = await this.storage.getBuckets();
+      
+      for (const bucket of bucketList) {
+        if (!bucket.name || !bucket.metadata) continue;
+        
+        const metadata = bucket.metadata;
+        const labels = metadata.labels || {};
+        const tags = Object.entries(labels).map(([key, value]) => `${key}:${value || ''}`);
+        
+        // Get storage class
+        const storageClass = metadata.storageClass || 'STANDARD';
+        
+        // Get location
+        const location = metadata.location || 'unknown';
+        
+        buckets.push({
+          id: `projects/${this.projectId}/buckets/${bucket.name}`,
+          provider: 'GCP',
+          assetName: bucket.name,
+          service: 'Cloud Storage',
+          region: this.mapGCPLocation(location),
+          criticality: this.determineCriticality(tags),
+          tags,
+          owner: this.extractOwnerFromLabels(labels as { [key: string]: string }),
+          notes: `Storage Class: ${storageClass}, Location: ${location}`,
+          resourceId: bucket.name,
+          assetType: storageClass,
+          status: 'running',
+          lastUpdated: new Date().toISOString(),
+          usageMetrics: {
+            storageClass,
+            location,
+            timeCreated: metadata.timeCreated
+          },
+          connectedAssets: []
+        });
+      }
+    } catch (error) {
+      console.error('Failed to fetch GCP Storage Buckets:', error);
     }
+    
+    return this.addBucketActivity(buckets);
+  }
+
+  // Date of each bucket's last API request within the activity window, from the
+  // Cloud Monitoring request count. Without readable metrics buckets are left without
+  // activity data rather than reported idle.
+  private async addBucketActivity(buckets: CloudAsset[]): Promise<CloudAsset[]> {
+    if (buckets.length === 0) return buckets;
+    const windowDays = Math.min(BUCKET_ACTIVITY_WINDOW_DAYS, MONITORING_RETENTION_DAYS);
+    const end = Math.floor(Date.now() / 1000);
+    const start = end - windowDays * 24 * 60 * 60;
 
-    // Query cost data for current month
-    const now = new Date();
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split('T')[0];
-    const endOfMonth = now.toISOString().split('T')[0];
+    try {
+      const series = await collectPages(
+        'monitoring:listTimeSeries',
+        this.pageCounter,
+        async pageToken => {
+          const [, , response] = await this.monitoring.listTimeSeries(
+            {
+              name: `projects/${this.projectId}`,
+              filter: 'metric.type = "storage.googleapis.com/api/request_count" AND resource.type = "gcs_bucket"',
+              interval: { startTime: { seconds: start }, endTime: { seconds: end } },
+              aggregation: {
+                alignmentPeriod: { seconds: 86400 },
+                perSeriesAligner: 'ALIGN_SUM',
+                crossSeriesReducer: 'REDUCE_SUM',
+                groupByFields: ['resource.labels.bucket_name'],
+              },
+              pageToken,
+            },
+            { autoPaginate: false }
+          );
+          return response;
+        },
+        page => page?.timeSeries,
+        page => page?.nextPageToken
+      );
 
-    const costQuery = {
-      name: billingInfo.billingAccountName,
-      filter: `start_date >= "${startOfMonth}" AND end_date <= "${endOfMonth}"`,
-      aggregation: {
-        groupByFields: [
-          { key: "service.description" },
-          { key: "resource.location" }
-        ]
+      // Request counts are only written for days with requests
+      const lastRequests = new Map<string, string>();
+      for (const item of series) {
+        const bucketName = item.resource?.labels?.bucket_name;
+        if (!bucketName) continue;
+        for (const point of item.points || []) {
+          const seconds = Number(point.interval?.endTime?.seconds);
+          if (!(Number(point.value?.int64Value) > 0) || !seconds) continue;
+          const time = new Date(seconds * 1000).toISOString();
+          if (time > (lastRequests.get(bucketName) || '')) lastRequests.set(bucketName, time);
+        }
       }
-    };
 
-    const [costResponse] = await (billing as any).queryCostStream(costQuery);
+      return buckets.map(bucket => ({
+        ...bucket,
+        usageMetrics: {
+          ...bucket.usageMetrics,
+          requestWindowDays: windowDays,
+          lastRequestTime: lastRequests.get(bucket.assetName),
+        },
+      }));
+    } catch (error) {
+      console.error('Failed to fetch GCP Cloud Storage request counts:', error);
+      return buckets;
+    }
+  }
+
+  // Asset Inventory listing below a project, folder or organization. Each asset is
+  // attributed to the project named first in its ancestors, when that project is known.
+  private async fetchInventoryAssets(parent: string, assetTypes: string[], projects: GCPProject[]): Promise<CloudAsset[]> {
+    const resources: CloudAsset[] = [];
+    const projectsByNumber = new Map(projects.map(project => [`projects/${project.projectNumber}`, project]));
+
+    try {
+      // Page manually (autoPaginate off) so pages can be counted
+      const inventory = await collectPages(
+        'asset:listAssets',
+        this.pageCounter,
+        async pageToken => {
+          const [, , response] = await this.assetClient.listAssets(
+            { parent, assetTypes, contentType: 'RESOURCE', pageSize: 1000, pageToken },
+            { autoPaginate: false }
+          );
+          return response;
+        },
+        page => page?.assets,
+        page => page?.nextPageToken
+      );
+
+      for (const asset of inventory) {
+        if (!asset.name || !asset.assetType || DETAILED_ASSET_TYPES.includes(asset.assetType)) continue;
+
+        // Resource data arrives as a protobuf Struct
+        const data = this.fromProtobufValue({ structValue: asset.resource?.data }) as Record<string, unknown>;
+        const labels: Record<string, string> = {};
+        for (const [key, value] of Object.entries(this.inventoryLabels(data))) {
+          labels[key] = String(value ?? '');
+        }
+        const tags = Object.entries(labels).map(([key, value]) => `${key}:${value}`);
+        const location = asset.resource?.location || String(data.location || 'global');
+        const details = this.describeInventoryResource(asset.assetType, asset.name, data);
+
+        const resource: CloudAsset = {
+          id: asset.name,
+          provider: 'GCP',
+          assetName: asset.name.split('/').pop() || asset.name,
+          service: details?.service || asset.assetType.split('/')[0].replace('.googleapis.com', ''),
+          // Zonal resources are reported by region, like Compute Engine instances
+          region: details ? this.mapGCPRegion(location) : this.mapGCPLocation(location),
+          criticality: this.determineCriticality(tags),
+          tags,
+          owner: this.extractOwnerFromLabels(labels),
+          notes: details?.notes,
+          resourceId: asset.name,
+          assetType: details?.assetType || asset.assetType.split('/').pop(),
+          status: details?.status || 'unknown',
+          lastUpdated: new Date().toISOString(),
+          usageMetrics: {
+            assetType: asset.assetType,
+            location,
+            ...details?.usageMetrics
+          },
+          connectedAssets: details?.connectedAssets || []
+        };
+
+        const project = projectsByNumber.get(asset.ancestors?.[0] || '');
+        resources.push(project ? this.attributeToProject(resource, project) : resource);
+      }
+    } catch (error) {
+      console.error('Failed to fetch GCP Asset Inventory resources:', error);
+    }
+
+    return resources;
+  }
+
+  private describeInventoryResource(assetType: string, name: string, data: Record<string, unknown>): InventoryResourceDetails | null {
+    const property = (path: string) => this.inventoryProperty(data, path);
+
+    switch (assetType) {
+      case 'sqladmin.googleapis.com/Instance': {
+        const state = String(property('state') || 'unknown');
+        const tier = String(property('settings.tier') || 'unknown');
+        // Stopped instances stay RUNNABLE with an activation policy of NEVER
+        const stopped = property('settings.activationPolicy') === 'NEVER';
+        return {
+          service: 'Cloud SQL',
+          assetType: tier,
+          status: stopped ? 'stopped' : this.mapGCPStatus(state),
+          notes: `Tier: ${tier}, Version: ${property('databaseVersion')}, State: ${state}`,
+          usageMetrics: {
+            tier,
+            state,
+            databaseVersion: property('databaseVersion'),
+            edition: property('settings.edition'),
+            availabilityType: property('settings.availabilityType'),
+            activationPolicy: property('settings.activationPolicy'),
+            dataDiskSizeGb: property('settings.dataDiskSizeGb'),
+            dataDiskType: property('settings.dataDiskType'),
+            zone: property('gceZone')
+          }
+        };
+      }
+
+      case 'container.googleapis.com/Cluster': {
+        const status = String(property('status') || 'unknown');
+        const mode = property('autopilot.enabled') ? 'Autopilot' : 'Standard';
+        const nodePools = this.inventoryArray(property('nodePools'));
+        return {
+          service: 'Kubernetes Engine',
+          assetType: mode,
+          status: this.mapGCPStatus(status),
+          notes: `Mode: ${mode}, Version: ${property('currentMasterVersion')}, Nodes: ${property('currentNodeCount') ?? 0}`,
+          usageMetrics: {
+            mode,
+            status,
+            version: property('currentMasterVersion'),
+            nodeCount: property('currentNodeCount'),
+            nodePoolCount: nodePools.length,
+            releaseChannel: property('releaseChannel.channel')
+          }
+        };
+      }
+
+      case 'container.googleapis.com/NodePool': {
+        const status = String(property('status') || 'unknown');
+        const machineType = String(property('config.machineType') || 'unknown');
+        return {
+          service: 'Kubernetes Engine',
+          assetType: machineType,
+          status: this.mapGCPStatus(status),
+          notes: `Machine Type: ${machineType}, Nodes: ${property('initialNodeCount') ?? 0}`,
+          usageMetrics: {
+            machineType,
+            status,
+            nodeCount: property('initialNodeCount'),
+            autoscaling: property('autoscaling.enabled') || false,
+            minNodeCount: property('autoscaling.minNodeCount'),
+            maxNodeCount: property('autoscaling.maxNodeCount'),
+            diskSizeGb: property('config.diskSizeGb'),
+            diskType: property('config.diskType'),
+            spot: property('config.spot') || property('config.preemptible') || false,
+            version: property('version')
+          },
+          connectedAssets: [name.split('/nodePools/')[0]]
+        };
+      }
+
+      case 'compute.googleapis.com/Disk': {
+        const status = String(property('status') || 'unknown');
+        const diskType = String(property('type') || 'unknown').split('/').pop() as string;
+        const users = this.inventoryArray(property('users')).map(user => this.computeAssetName(String(user)));
+        return {
+          service: 'Compute Engine',
+          assetType: diskType,
+          // Unattached disks are still billed, like stopped instances
+          status: status === 'READY' && users.length === 0 ? 'stopped' : this.mapGCPStatus(status),
+          notes: `Size: ${property('sizeGb')} GB, Type: ${diskType}, ${users.length > 0 ? 'Attached' : 'Unattached'}`,
+          usageMetrics: {
+            diskType,
+            status,
+            sizeGb: property('sizeGb'),
+            provisionedIops: property('provisionedIops'),
+            provisionedThroughput: property('provisionedThroughput'),
+            attachedTo: users[0],
+            lastAttachTimestamp: property('lastAttachTimestamp'),
+            lastDetachTimestamp: property('lastDetachTimestamp'),
+            creationTimestamp: property('creationTimestamp')
+          },
+          connectedAssets: users
+        };
+      }
+
+      case 'compute.googleapis.com/Snapshot': {
+        const status = String(property('status') || 'unknown');
+        const sourceDisk = property('sourceDisk') ? this.computeAssetName(String(property('sourceDisk'))) : undefined;
+        return {
+          service: 'Compute Engine',
+          assetType: `Snapshot (${property('snapshotType') || 'STANDARD'})`,
+          status: this.mapGCPStatus(status),
+          notes: `Disk Size: ${property('diskSizeGb')} GB, Source: ${sourceDisk?.split('/').pop() || 'deleted'}`,
+          usageMetrics: {
+            status,
+            diskSizeGb: property('diskSizeGb'),
+            storageBytes: property('storageBytes'),
+            storageLocations: property('storageLocations'),
+            sourceDisk,
+            creationTimestamp: property('creationTimestamp')
+          },
+          connectedAssets: sourceDisk ? [sourceDisk] : []
+        };
+      }
+
+      case 'compute.googleapis.com/Address':
+      case 'compute.googleapis.com/GlobalAddress': {
+        // Internal addresses are free and only external ones are tracked as static IPs
+        if (property('addressType') === 'INTERNAL') return null;
+
+        const status = String(property('status') || 'unknown');
+        const users = this.inventoryArray(property('users')).map(user => this.computeAssetName(String(user)));
+        const tier = String(property('networkTier') || 'PREMIUM');
+        return {
+          service: 'Compute Engine',
+          assetType: `Static IP (${tier})`,
+          // Reserved but unused addresses are billed at a higher rate
+          status: status === 'RESERVED' ? 'stopped' : this.mapGCPStatus(status),
+          notes: `Address: ${property('address')}, Status: ${status}`,
+          usageMetrics: {
+            address: property('address'),
+            status,
+            networkTier: tier,
+            ipVersion: property('ipVersion'),
+            attachedTo: users[0]
+          },
+          connectedAssets: users
+        };
+      }
+
+      case 'cloudfunctions.googleapis.com/CloudFunction': {
+        const status = String(property('status') || 'unknown');
+        const runtime = String(property('runtime') || 'unknown');
+        const memory = `${property('availableMemoryMb') ?? 256}M`;
+        return {
+          service: 'Cloud Functions',
+          assetType: `${runtime} ${memory}`,
+          status: this.mapGCPStatus(status),
+          notes: `Runtime: ${runtime}, Memory: ${memory}, Generation: 1`,
+          usageMetrics: {
+            generation: 1,
+            runtime,
+            memory,
+            status,
+            maxInstances: property('maxInstances'),
+            entryPoint: property('entryPoint')
+          }
+        };
+      }
+
+      case 'cloudfunctions.googleapis.com/Function': {
+        const state = String(property('state') || 'unknown');
+        const runtime = String(property('buildConfig.runtime') || 'unknown');
+        const memory = String(property('serviceConfig.availableMemory') || '256M');
+        return {
+          service: 'Cloud Functions',
+          assetType: `${runtime} ${memory}`,
+          status: this.mapGCPStatus(state),
+          notes: `Runtime: ${runtime}, Memory: ${memory}, Generation: 2`,
+          usageMetrics: {
+            generation: 2,
+            runtime,
+            memory,
+            state,
+            cpu: property('serviceConfig.availableCpu'),
+            maxInstances: property('serviceConfig.maxInstanceCount'),
+            minInstances: property('serviceConfig.minInstanceCount'),
+            entryPoint: property('buildConfig.entryPoint')
+          }
+        };
+      }
+
+      case 'run.googleapis.com/Service': {
+        // Cloud Run services are exported in their Knative (v1) form
+        const [container] = this.inventoryArray(property('spec.template.spec.containers'));
+        const limits = this.inventoryProperty(container || {}, 'resources.limits') as Record<string, unknown> | undefined;
+        const cpu = String(limits?.cpu || '1');
+        const memory = String(limits?.memory || '512Mi');
+        const ready = this.inventoryArray(property('status.conditions')).find(condition => condition.type === 'Ready');
+        const annotations = (property('spec.template.metadata.annotations') || {}) as Record<string, unknown>;
+        return {
+          service: 'Cloud Run',
+          assetType: `${cpu} vCPU ${memory}`,
+          status: ready?.status === 'True' ? 'running' : 'unknown',
+          notes: `CPU: ${cpu}, Memory: ${memory}, URL: ${property('status.url') || 'none'}`,
+          usageMetrics: {
+            cpu,
+            memory,
+            ready: ready?.status,
+            url: property('status.url'),
+            minScale: annotations['autoscaling.knative.dev/minScale'],
+            maxScale: annotations['autoscaling.knative.dev/maxScale'],
+            latestRevision: property('status.latestReadyRevisionName')
+          }
+        };
+      }
+
+      case 'bigquery.googleapis.com/Dataset': {
+        const billingModel = String(property('storageBillingModel') || 'LOGICAL');
+        return {
+          service: 'BigQuery',
+          assetType: `Dataset (${billingModel})`,
+          status: 'running',
+          notes: `Location: ${property('location')}, Storage Billing: ${billingModel}`,
+          usageMetrics: {
+            storageBillingModel: billingModel,
+            defaultTableExpirationMs: property('defaultTableExpirationMs'),
+            defaultPartitionExpirationMs: property('defaultPartitionExpirationMs'),
+            creationTime: property('creationTime')
+          }
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  // Convert a protobuf Value (as used by Struct resource data) to plain JSON
+  private fromProtobufValue(value: protos.google.protobuf.IValue | null | undefined): unknown {
+    if (!value) return undefined;
+    if (value.structValue) {
+      return Object.fromEntries(
+        Object.entries(value.structValue.fields || {}).map(([key, field]) => [key, this.fromProtobufValue(field)])
+      );
+    }
+    if (value.listValue) return (value.listValue.values || []).map(item => this.fromProtobufValue(item));
+    if (value.stringValue !== undefined && value.stringValue !== null) return value.stringValue;
+    if (value.numberValue !== undefined && value.numberValue !== null) return value.numberValue;
+    if (value.boolValue !== undefined && value.boolValue !== null) return value.boolValue;
+    return undefined;
+  }
+
+  private inventoryProperty(data: Record<string, unknown>, path: string): unknown {
+    let value: unknown = data;
+    for (const part of path.split('.')) {
+      if (value === null || typeof value !== 'object') return undefined;
+      value = (value as Record<string, unknown>)[part];
+    }
+    return value;
+  }
+
+  private inventoryArray(value: unknown): Record<string, unknown>[] {
+    return Array.isArray(value) ? value as Record<string, unknown>[] : [];
+  }
+
+  // Labels live in a different field depending on the resource's API
+  private inventoryLabels(data: Record<string, unknown>): Record<string, unknown> {
+    for (const path of ['labels', 'settings.userLabels', 'resourceLabels', 'metadata.labels']) {
+      const labels = this.inventoryProperty(data, path);
+      if (labels && typeof labels === 'object') return labels as Record<string, unknown>;
+    }
+    return {};
+  }
 
-    // Process cost data
-    let totalCost = 0;
-    const costByService: Record<string, number> = {};
-    const costByRegion: Record<string, number> = {};
-    const assetCountByService: Record<string, number> = {};
+  // Compute API self links to Asset Inventory resource names, e.g.
+  // https://www.googleapis.com/compute/v1/projects/p/zones/z/disks/d -> //compute.googleapis.com/projects/p/zones/z/disks/d
+  private computeAssetName(selfLink: string): string {
+    return selfLink.replace(/^https:\/\/(www|compute)\.googleapis\.com\/compute\/(v1|beta|alpha)\//, '//compute.googleapis.com/');
+  }
 
-    const results = costResponse.results || [];
-    for (const result of results) {
-      const service = result.service?.description || "unknown";
-      const region = result.resource?.location || "unknown";
-      const cost = parseFloat(result.cost?.amount || "0") || 0;
+  private addConnections(assets: CloudAsset[]): void {
+    // Simple connection logic: connect compute instances to storage buckets
+    // Disks and static IPs keep the instances they are attached to
+    const instances = assets.filter(isComputeInstance);
+    const buckets = assets.filter(a => a.service === 'Cloud Storage');
+    
+    instances.forEach(instance => {
+      // Connect to buckets in the same region
+      const instanceRegion = instance.region;
+      const compatibleBuckets = buckets.filter(bucket => 
+        bucket.region === instanceRegion
+      );
       
-      totalCost += cost;
-      costByService[service] = (costByService[service] || 0) + cost;
-      costByRegion[region] = (costByRegion[region] || 0) + cost;
+      instance.connectedAssets = compatibleBuckets.map(bucket => bucket.id);
+    });
+  }
+
+  private toCostRecords(rows: BillingExportCostRow[], projects: GCPProject[]): FocusCostRecord[] {
+    const projectsById = new Map(projects.map(project => [project.projectId, project]));
+    const records: FocusCostRecord[] = [];
+    for (const row of rows) {
+      const project = row.project_id ? projectsById.get(row.project_id) : undefined;
+      const serviceName = row.service || 'unknown';
+      const tax = row.cost_type === 'tax';
+      const usage = liveCostRecord('GCP', serviceName, row.region || 'global', Number(row.cost) || 0, undefined, {
+        billingCurrency: row.currency || 'USD',
+        chargeCategory: tax ? 'Tax' : row.cost_type === 'adjustment' ? 'Adjustment' : 'Usage',
+        costCategory: tax ? 'Tax' : row.marketplace ? 'Marketplace' : serviceName === 'Support' ? 'Support' : 'Usage',
+        subAccountId: row.project_id || undefined,
+        subAccountName: project?.displayName,
+        ancestry: project && project.ancestry.length > 0 ? project.ancestry : undefined,
+        ...dayChargePeriod(row.usage_date),
+      });
+      records.push(usage);
+
+      // Credits (promotions, free tier, discounts) are negative amounts reported
+      // alongside the cost; keep them as their own line item rather than netting them
+      const credits = Number(row.credits) || 0;
+      if (credits) {
+        records.push({ ...usage, billedCost: credits, effectiveCost: credits, chargeCategory: 'Credit', costCategory: 'Credit' });
+      }
+    }
+
+    return records;
+  }
+
+  // Projects to scan: the configured project, or every active project below the
+  // organization or folder scope. Resolved once per connector since asset discovery
+  // and cost queries run side by side.
+  private resolveProjects(): Promise<GCPProject[]> {
+    if (!this.projects) {
+      this.projects = this.scope ? this.listScopeProjects(this.scope) : this.describeProject(this.projectId);
+      this.projects.catch(() => { this.projects = undefined; });
+    }
+    return this.projects;
+  }
+
+  private async describeProject(projectId: string): Promise<GCPProject[]> {
+    return [{
+      projectId,
+      displayName: projectId,
+      ancestry: [],
+      folderPath: '',
+      billingAccountId: await this.getBillingAccountId(projectId),
+    }];
+  }
+
+  // Projects, folders and the organization in scope come from one Asset Inventory
+  // search; folder paths are rebuilt from each container's parent
+  private async listScopeProjects(scope: string): Promise<GCPProject[]> {
+    const containers = await this.searchResources(scope, [PROJECT_ASSET_TYPE, FOLDER_ASSET_TYPE, ORGANIZATION_ASSET_TYPE]);
+
+    const parents = new Map<string, { displayName: string; parent?: string; isFolder: boolean }>();
+    for (const container of containers) {
+      if (!container.name) continue;
+      parents.set(container.name.replace(RESOURCE_MANAGER_PREFIX, ''), {
+        displayName: container.displayName || container.name,
+        parent: container.parentFullResourceName?.replace(RESOURCE_MANAGER_PREFIX, '') || undefined,
+        isFolder: container.assetType === FOLDER_ASSET_TYPE,
+      });
     }
 
-    // Count assets per service for cost distribution
-    assetList.forEach(asset => {
-      assetCountByService[asset.service] = (assetCountByService[asset.service] || 0) + 1;
+    const projectResults = containers.filter(container =>
+      container.assetType === PROJECT_ASSET_TYPE && (!container.state || container.state === 'ACTIVE')
+    );
+
+    return mapWithConcurrency(projectResults, PROJECT_CONCURRENCY, async result => {
+      const projectNumber = result.project?.replace('projects/', '') || undefined;
+      const projectId = result.additionalAttributes?.fields?.projectId?.stringValue
+        || await this.lookupProjectId(result.project || '');
+
+      // Walk up the hierarchy; the chain ends at the organization or, for a folder
+      // scope, at the first container outside the scope
+      const ancestry: string[] = [];
+      const folders: string[] = [];
+      let parent = result.parentFullResourceName?.replace(RESOURCE_MANAGER_PREFIX, '');
+      while (parent && !ancestry.includes(parent)) {
+        ancestry.unshift(parent);
+        const container = parents.get(parent);
+        if (container?.isFolder) folders.unshift(container.displayName);
+        parent = container?.parent;
+      }
+
+      return {
+        projectId,
+        projectNumber,
+        displayName: result.displayName || projectId,
+        ancestry,
+        folderPath: folders.join('/'),
+        billingAccountId: await this.getBillingAccountId(projectId),
+      };
     });
+  }
 
-    // Assign cost per asset based on service cost divided by asset count
-    const assetsWithCost = assetList.map(asset => ({
-      ...asset,
-      costThisMonth: costByService[asset.service] ? costByService[asset.service] / assetCountByService[asset.service] : 0,
-    }));
+  // Project search results are keyed by project number
+  private async lookupProjectId(projectName: string): Promise<string> {
+    try {
+      const [project] = await this.resourceManager.getProject({ name: projectName });
+      return project.projectId || projectName;
+    } catch (error) {
+      console.error(`Failed to look up GCP project ${projectName}:`, error);
+      return projectName;
+    }
+  }
+
+  // Billing account ID (without the billingAccounts/ prefix), if billing is enabled
+  private async getBillingAccountId(projectId: string): Promise<string | undefined> {
+    try {
+      const [billingInfo] = await this.billing.getProjectBillingInfo({ name: `projects/${projectId}` });
+      if (!billingInfo.billingEnabled || !billingInfo.billingAccountName) return undefined;
+      return billingInfo.billingAccountName.replace('billingAccounts/', '');
+    } catch (error) {
+      console.error(`Failed to get billing info for GCP project ${projectId}:`, error);
+      return undefined;
+    }
+  }
+
+  // Hourly means of a Compute Engine instance metric
+  private async listTimeSeries(project: string, metricType: string, start: number, end: number, extraFilter?: string) {
+    const filter = [`metric.type = "${metricType}"`, 'resource.type = "gce_instance"', extraFilter].filter(Boolean).join(' AND ');
+    return collectPages(
+      'monitoring:listTimeSeries',
+      this.pageCounter,
+      async pageToken => {
+        const [, , response] = await this.monitoring.listTimeSeries(
+          {
+            name: `projects/${project}`,
+            filter,
+            interval: { startTime: { seconds: start }, endTime: { seconds: end } },
+            aggregation: { alignmentPeriod: { seconds: 3600 }, perSeriesAligner: 'ALIGN_MEAN' },
+            pageToken,
+          },
+          { autoPaginate: false }
+        );
+        return response;
+      },
+      page => page?.timeSeries,
+      page => page?.nextPageToken
+    );
+  }
+
+  // Point values per '{zone}/{instance_id}', scaled to percentages
+  private seriesSamples(series: monitoringProtos.google.monitoring.v3.ITimeSeries[], scale: number): Map<string, number[]> {
+    const samples = new Map<string, number[]>();
+    for (const item of series) {
+      const key = `${item.resource?.labels?.zone}/${item.resource?.labels?.instance_id}`;
+      const values = samples.get(key) || [];
+      for (const point of item.points || []) {
+        const value = point.value?.doubleValue;
+        if (typeof value === 'number' && Number.isFinite(value)) values.push(value * scale);
+      }
+      samples.set(key, values);
+    }
+    return samples;
+  }
+
+  private async searchResources(scope: string, assetTypes: string[] = []) {
+    // Page manually (autoPaginate off) so pages can be counted
+    return collectPages(
+      'asset:searchAllResources',
+      this.pageCounter,
+      async pageToken => {
+        const [, , response] = await this.assetClient.searchAllResources(
+          { scope, assetTypes, pageSize: 500, pageToken },
+          { autoPaginate: false }
+        );
+        return response;
+      },
+      page => page?.results,
+      page => page?.nextPageToken
+    );
+  }
+
+  // Every resource below the scope, attributed to its project
+  private async searchScopeResources(projects: GCPProject[]): Promise<CloudAsset[]> {
+    const resources: CloudAsset[] = [];
+    const projectsByNumber = new Map(projects.map(project => [`projects/${project.projectNumber}`, project]));
+
+    try {
+      const results = await this.searchResources(this.scope as string);
+
+      for (const result of results) {
+        if (!result.name || !result.assetType || result.assetType.startsWith('cloudresourcemanager.googleapis.com/')) continue;
+        // Listed with their resource data instead
+        if (DESCRIBED_ASSET_TYPES.includes(result.assetType)) continue;
+
+        const labels: Record<string, string> = { ...(result.labels || {}) };
+        const tags = Object.entries(labels).map(([key, value]) => `${key}:${value}`);
+        const location = result.location || 'global';
+        const state = result.state || 'unknown';
+        const resourceName = result.name.replace(/^\/\/[^/]+\//, '');
+        const asset: CloudAsset = {
+          id: result.name,
+          provider: 'GCP',
+          assetName: result.displayName || result.name.split('/').pop() || result.name,
+          service: SEARCH_SERVICE_NAMES[result.assetType] || result.assetType.split('/')[0].replace('.googleapis.com', ''),
+          region: result.assetType === 'compute.googleapis.com/Instance' ? this.mapGCPRegion(location) : this.mapGCPLocation(location),
+          criticality: this.determineCriticality(tags),
+          tags,
+          owner: this.extractOwnerFromLabels(labels),
+          resourceId: resourceName,
+          assetType: result.assetType.split('/').pop(),
+          status: this.mapGCPStatus(state),
+          lastUpdated: new Date().toISOString(),
+          usageMetrics: {
+            assetType: result.assetType,
+            location,
+            state
+          },
+          connectedAssets: []
+        };
+
+        const project = projectsByNumber.get(result.project || '');
+        resources.push(project ? this.attributeToProject(asset, project) : asset);
+      }
+    } catch (error) {
+      console.error(`Failed to search GCP resources in ${this.scope}:`, error);
+    }
 
-    // Save scan results to database
-    await saveScanResults("GCP", assetsWithCost, "manual");
+    return resources;
+  }
 
+  private attributeToProject(asset: CloudAsset, project: GCPProject): CloudAsset {
     return {
-      provider: "GCP",
-      assets: assetsWithCost,
-      totalCost,
-      costByService,
-      costByRegion,
-      lastScan: new Date().toISOString()
+      ...asset,
+      accountId: project.projectId,
+      accountAlias: project.displayName,
+      ancestry: project.ancestry.length > 0 ? project.ancestry : undefined,
+      billingAccountId: project.billingAccountId,
+      usageMetrics: {
+        ...asset.usageMetrics,
+        folderPath: project.folderPath || undefined,
+      },
     };
+  }
+
+
+  private mapGCPRegion(zone: string): string {
+    // Extract region from zone name (e.g., 'us-central1-a' -> 'us-central1')
+    const parts = zone.split('-');
+    if (parts.length >= 3) {
+      return parts.slice(0, -1).join('-');
+    }
+    return zone;
+  }
+
+  private mapGCPLocation(location: string): string {
+    const locationMap: Record<string, string> = {
+      'US': 'United States',
+      'US-CENTRAL1': 'Central US',
+      'US-EAST1': 'East US',
+      'US-WEST1': 'West US',
+      'US-WEST2': 'West US 2',
+      'EUROPE': 'Europe',
+      'EUROPE-WEST1': 'West Europe',
+      'EUROPE-WEST2': 'West Europe 2',
+      'ASIA': 'Asia',
+      'ASIA-EAST1': 'East Asia',
+      'ASIA-SOUTHEAST1': 'Southeast Asia'
+    };
+    return locationMap[location.toUpperCase()] || location;
+  }
+
+  private mapGCPStatus(status: string): AssetStatus {
+    switch (status.toUpperCase()) {
+      case 'RUNNING':
+      case 'RUNNABLE':
+      case 'READY':
+      case 'ACTIVE':
+      case 'IN_USE':
+        return 'running';
+      case 'STOPPED':
+      case 'TERMINATED':
+      case 'OFFLINE':
+        return 'stopped';
+      case 'SUSPENDED':
+      case 'DELETING':
+      case 'PENDING_DELETE':
+        return 'terminated';
+      default:
+        return 'unknown';
+    }
+  }
+
+  private determineCriticality(tags: string[]): 'Low' | 'Medium' | 'High' {
+    const tagString = tags.join(' ').toLowerCase();
+    if (tagString.includes('production') || tagString.includes('critical')) return 'High';
+    if (tagString.includes('staging') || tagString.includes('testing')) return 'Medium';
+    return 'Low';
+  }
 
-  } catch (error) {
-    console.error("GCP fetch error:", error);
-    throw new Error(`GCP fetch failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+  private extractOwnerFromLabels(labels: { [key: string]: string }): string {
+    // Look for common owner label patterns
+    for (const [key, value] of Object.entries(labels)) {
+      if (key.toLowerCase().includes('owner') || key.toLowerCase().includes('team')) {
+        return value;
+      }
+    }
+    
+    return '';
   }
 }
+
+export const gcpConnector: ConnectorDefinition = {
+  id: 'gcp',
+  provider: 'GCP',
+  displayName: 'Google Cloud Platform',
+  credentialFields: [
+    { key: 'projectId', label: 'Project ID (blank when scanning a scope)', placeholder: 'Enter GCP Project ID' },
+    { key: 'scope', label: 'Organization or folder scope', placeholder: 'organizations/123456789 or folders/123456789' },
+    { key: 'credentials', label: 'Service Account Key (JSON)', type: 'textarea', placeholder: '{"type": "service_account", "project_id": "..."}' },
+    { key: 'keyFilename', label: 'Or key file path', placeholder: './gcp-key.json' },
+    { key: 'billingExportTable', label: 'Billing export table (for cost data)', placeholder: 'my-project.billing.gcp_billing_export_v1_XXXXXX' },
+  ],
+  capabilities: {
+    assetDiscovery: true,
+    costData: true,
+    resourceLevelCosts: false,
+    billingExports: true,
+    commitments: false,
+    utilizationMetrics: true,
+  },
+
+  create: credentials => new GCPConnector({
+    projectId: credentials.projectId || undefined,
+    scope: credentials.scope || undefined,
+    keyFilename: credentials.keyFilename || undefined,
+    credentials: credentials.credentials ? JSON.parse(credentials.credentials) : undefined,
+    billingExportTable: credentials.billingExportTable || undefined,
+  }),
+
+  fromEnvironment: () => {
+    const projectId = process.env.GCP_PROJECT_ID;
+    const scope = process.env.GCP_SCAN_SCOPE;
+    if (!projectId && !scope) return null;
+
+    return new GCPConnector({
+      projectId,
+      scope,
+      keyFilename: process.env.GOOGLE_APPLICATION_CREDENTIALS,
+      billingExportTable: process.env.GCP_BILLING_EXPORT_TABLE,
+      billingExportPath: process.env.GCP_BILLING_EXPORT_PATH,
+    });
+  },
+};
@@ -0,0 +1,6 @@
+// Helpers for reading connector options from credentials and the environment
+
+// Split a comma-separated setting into trimmed, non-empty items
+export function parseList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
@@ -0,0 +1,25 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getConnector } from "./registry";
+
+describe("connectors built from request credentials", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("ignore the server's billing export and resource-level cost settings", () => {
+    vi.stubEnv("AWS_ACCESS_KEY_ID", "AKIASERVER");
+    vi.stubEnv("AWS_SECRET_ACCESS_KEY", "server-secret");
+    vi.stubEnv("AWS_CUR_PATH", "./billing/aws-cur");
+    vi.stubEnv("AWS_RESOURCE_LEVEL_COSTS", "true");
+    vi.stubEnv("GCP_PROJECT_ID", "server-project");
+    vi.stubEnv("GCP_BILLING_EXPORT_PATH", "./billing/gcp-export");
+
+    const aws = getConnector("aws");
+    const gcp = getConnector("gcp");
+    expect(aws?.fromEnvironment()?.capabilities.resourceLevelCosts).toBe(true);
+    expect(gcp?.fromEnvironment()?.capabilities.resourceLevelCosts).toBe(true);
+
+    expect(aws?.create({ accessKeyId: "AKIAOTHER", secretAccessKey: "other-secret" }).capabilities.resourceLevelCosts).toBe(false);
+    expect(gcp?.create({ projectId: "other-project" }).capabilities.resourceLevelCosts).toBe(false);
+  });
+});
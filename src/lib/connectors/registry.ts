@@ -0,0 +1,46 @@
+// Registry of cloud connectors
+// To add a provider, implement CloudConnector in its own module and list its
+// definition here.
+
+import { ConnectorInfo } from '@/types';
+import { CloudConnector, ConnectorDefinition } from './types';
+import { awsConnector } from './aws';
+import { azureConnector } from './azure';
+import { gcpConnector } from './gcp';
+
+const connectors: ConnectorDefinition[] = [awsConnector, azureConnector, gcpConnector];
+
+export function listConnectors(): ConnectorDefinition[] {
+  return connectors;
+}
+
+// Look up a connector by id ('aws') or provider name ('AWS')
+export function getConnector(idOrProvider: string): ConnectorDefinition | undefined {
+  const key = idOrProvider.toLowerCase();
+  return connectors.find(c => c.id === key || c.provider.toLowerCase() === key);
+}
+
+// Connectors with server-side credentials configured, as used by scheduled scans
+export function configuredConnectors(): CloudConnector[] {
+  return connectors
+    .map(definition => definition.fromEnvironment())
+    .filter((connector): connector is CloudConnector => connector !== null);
+}
+
+export function describeConnector(definition: ConnectorDefinition): ConnectorInfo {
+  return {
+    id: definition.id,
+    provider: definition.provider,
+    displayName: definition.displayName,
+    credentialFields: definition.credentialFields,
+    capabilities: definition.capabilities,
+    configured: definition.fromEnvironment() !== null,
+  };
+}
+
+// Required credential fields missing from a request body
+export function missingCredentials(definition: ConnectorDefinition, credentials: Record<string, string>): string[] {
+  return definition.credentialFields
+    .filter(field => field.required && !credentials[field.key])
+    .map(field => field.key);
+}
@@ -0,0 +1,210 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { CloudAsset, FocusCostRecord } from "@/types";
+import { dayChargePeriod, liveCostRecord, resourceKey } from "@/lib/focus";
+import { LIVE_COST_SOURCE, saveCostLineItems, saveScanResults } from "./save";
+
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+
+const { rows, scans, inserts } = vi.hoisted(() => ({
+  rows: [] as Record<string, unknown>[],
+  scans: [] as Record<string, unknown>[],
+  inserts: [] as number[],
+}));
+
+// Evaluates the subset of Prisma filters saveCostLineItems uses
+function matches(row: Row, where: Where): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    const value = row[field];
+    if (condition && typeof condition === "object" && !(condition instanceof Date)) {
+      return matchesCondition(value, condition as Record<string, unknown>);
+    }
+    return value === condition;
+  });
+}
+
+function matchesCondition(value: unknown, condition: Record<string, unknown>): boolean {
+  const { gt, gte, lt, in: values, endsWith, not } = condition as {
+    gt?: Date; gte?: Date; lt?: Date; in?: unknown[]; endsWith?: string; not?: Record<string, unknown>;
+  };
+  if (gt && !(value instanceof Date && value > gt)) return false;
+  if (gte && !(value instanceof Date && value >= gte)) return false;
+  if (lt && !(value instanceof Date && value < lt)) return false;
+  if (values && !values.includes(value)) return false;
+  if (endsWith && !(typeof value === "string" && value.endsWith(endsWith))) return false;
+  if (not && matchesCondition(value, not)) return false;
+  return true;
+}
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    cloudScan: {
+      createMany: async ({ data }: { data: Row[] }) => {
+        scans.push(...data);
+        return { count: data.length };
+      },
+    },
+    costLineItem: {
+      groupBy: async ({ by, where }: { by: string[]; where: Where }) => {
+        const groups = new Map<string, Row>();
+        for (const row of rows.filter(row => matches(row, where))) {
+          const group = Object.fromEntries(by.map(field => [field, row[field] ?? null]));
+          groups.set(JSON.stringify(group), group);
+        }
+        return Array.from(groups.values());
+      },
+      deleteMany: async ({ where }: { where: Where }) => {
+        const kept = rows.filter(row => !matches(row, where));
+        const count = rows.length - kept.length;
+        rows.splice(0, rows.length, ...kept);
+        return { count };
+      },
+      createMany: async ({ data }: { data: Row[] }) => {
+        inserts.push(data.length);
+        rows.push(...data.map(row => ({ ...row, subAccountId: row.subAccountId ?? null })));
+        return { count: data.length };
+      },
+    },
+    $transaction: async (operations: Promise<unknown>[]) => {
+      const results = [];
+      for (const operation of operations) results.push(await operation);
+      return results;
+    },
+  },
+}));
+
+const dailyRecord = (date: string, cost: number, accountId = "111111111111"): FocusCostRecord =>
+  liveCostRecord("AWS", "Amazon Elastic Compute Cloud", "us-east-1", cost, cost, {
+    subAccountId: accountId,
+    ...dayChargePeriod(date),
+  });
+
+const monthToDateRecord = (accountId: string, cost: number): FocusCostRecord =>
+  liveCostRecord("GCP", "Compute Engine", "us-central1", cost, cost, {
+    subAccountId: accountId,
+    chargePeriodStart: "2026-10-01T00:00:00.000Z",
+    chargePeriodEnd: "2026-10-19T08:00:00.000Z",
+  });
+
+const costBySource = () =>
+  rows.reduce<Record<string, number>>((totals, row) => {
+    const source = row.source as string;
+    totals[source] = (totals[source] || 0) + (row.billedCost as number);
+    return totals;
+  }, {});
+
+const costByDay = () =>
+  rows.reduce<Record<string, number>>((totals, row) => {
+    const day = (row.chargePeriodStart as Date).toISOString().slice(0, 10);
+    totals[day] = (totals[day] || 0) + (row.billedCost as number);
+    return totals;
+  }, {});
+
+describe("saveCostLineItems", () => {
+  beforeEach(() => {
+    rows.length = 0;
+    inserts.length = 0;
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("keeps one copy of a live scan's costs whatever the scan type", async () => {
+    const days = [dailyRecord("2026-10-01", 10), dailyRecord("2026-10-02", 12)];
+    await saveCostLineItems("AWS", days, LIVE_COST_SOURCE);
+    await saveCostLineItems("AWS", days, LIVE_COST_SOURCE);
+
+    expect(costByDay()).toEqual({ "2026-10-01": 10, "2026-10-02": 12 });
+  });
+
+  it("replaces live line items saved under the former per-scan-type sources", async () => {
+    rows.push({ providerName: "AWS", source: "daily-scan", subAccountId: "111111111111", billedCost: 10, chargePeriodStart: new Date("2026-10-01T00:00:00.000Z"), chargePeriodEnd: new Date("2026-10-02T00:00:00.000Z") });
+    rows.push({ providerName: "AWS", source: "manual-scan", subAccountId: "111111111111", billedCost: 10, chargePeriodStart: new Date("2026-10-01T00:00:00.000Z"), chargePeriodEnd: new Date("2026-10-02T00:00:00.000Z") });
+
+    await saveCostLineItems("AWS", [dailyRecord("2026-10-01", 11)], LIVE_COST_SOURCE);
+
+    expect(costBySource()).toEqual({ [LIVE_COST_SOURCE]: 11 });
+  });
+
+  it("leaves out live days an import already covers", async () => {
+    await saveCostLineItems("AWS", [dailyRecord("2026-10-01", 10), dailyRecord("2026-10-02", 12)], "cur-import");
+    await saveCostLineItems("AWS", [dailyRecord("2026-10-01", 11), dailyRecord("2026-10-02", 13), dailyRecord("2026-10-03", 9)], LIVE_COST_SOURCE);
+
+    expect(costByDay()).toEqual({ "2026-10-01": 10, "2026-10-02": 12, "2026-10-03": 9 });
+    expect(costBySource()).toEqual({ "cur-import": 22, [LIVE_COST_SOURCE]: 9 });
+  });
+
+  it("replaces live line items when an import covers the same days", async () => {
+    await saveCostLineItems("AWS", [dailyRecord("2026-10-01", 11), dailyRecord("2026-10-02", 13), dailyRecord("2026-10-03", 9)], LIVE_COST_SOURCE);
+    await saveCostLineItems("AWS", [dailyRecord("2026-10-01", 10), dailyRecord("2026-10-02", 12)], "cur-import");
+
+    expect(costByDay()).toEqual({ "2026-10-01": 10, "2026-10-02": 12, "2026-10-03": 9 });
+  });
+
+  it("replaces an earlier import of the same days from another export", async () => {
+    const azureRecord = (cost: number): FocusCostRecord => ({ ...dailyRecord("2026-10-01", cost), providerName: "Azure" });
+    await saveCostLineItems("Azure", [azureRecord(10)], "azure-export-actual");
+    await saveCostLineItems("Azure", [azureRecord(8)], "azure-export-amortized");
+
+    expect(costBySource()).toEqual({ "azure-export-amortized": 8 });
+  });
+
+  it("leaves out a month-to-date total that overlaps imported days of its account", async () => {
+    await saveCostLineItems("GCP", [{ ...monthToDateRecord("my-project", 5), ...dayChargePeriod("2026-10-01") }], "gcp-billing-export");
+    await saveCostLineItems("GCP", [monthToDateRecord("my-project", 90), monthToDateRecord("other-project", 40)], LIVE_COST_SOURCE);
+
+    expect(rows.map(row => [row.source, row.subAccountId, row.billedCost])).toEqual([
+      ["gcp-billing-export", "my-project", 5],
+      [LIVE_COST_SOURCE, "other-project", 40],
+    ]);
+  });
+
+  it("inserts large imports in batches", async () => {
+    const records = Array.from({ length: 2500 }, (_, i) => ({ ...dailyRecord("2026-10-01", 1), resourceId: `i-${i}` }));
+    await saveCostLineItems("AWS", records, "cur-import");
+
+    expect(inserts).toEqual([1000, 1000, 500]);
+    expect(costByDay()).toEqual({ "2026-10-01": 2500 });
+  });
+
+  it("keeps other accounts' line items", async () => {
+    await saveCostLineItems("AWS", [dailyRecord("2026-10-01", 40), dailyRecord("2026-10-01", 25, "222222222222")], LIVE_COST_SOURCE);
+    await saveCostLineItems("AWS", [dailyRecord("2026-10-01", 50)], LIVE_COST_SOURCE);
+
+    expect(rows.map(row => [row.subAccountId, row.billedCost])).toEqual([
+      ["222222222222", 25],
+      ["111111111111", 50],
+    ]);
+  });
+});
+
+describe("saveScanResults", () => {
+  beforeEach(() => {
+    scans.length = 0;
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("stores assets under the resource key their line items are joined on", async () => {
+    const asset = (provider: CloudAsset["provider"], id: string, resourceId: string): CloudAsset => ({
+      id,
+      provider,
+      assetName: id,
+      service: "Compute",
+      region: "westeurope",
+      criticality: "Low",
+      tags: ["team:payments"],
+      lastUpdated: "2026-10-19T08:00:00.000Z",
+      resourceId,
+    });
+    const azureVmId = "/subscriptions/0000-AAAA/resourceGroups/Web-Prod/providers/Microsoft.Compute/virtualMachines/Web-01";
+
+    await saveScanResults("Azure", [asset("Azure", azureVmId, azureVmId)]);
+    await saveScanResults("AWS", [asset("AWS", "snap-0abc", "arn:aws:ec2:us-east-1:123456789012:snapshot/snap-0abc")]);
+
+    expect(scans.map(scan => scan.resourceId)).toEqual([
+      "/subscriptions/0000-aaaa/resourcegroups/web-prod/providers/microsoft.compute/virtualmachines/web-01",
+      "arn:aws:ec2:us-east-1:123456789012:snapshot/snap-0abc",
+    ]);
+    // Azure cost exports and the live cost query report the ID in their own casing
+    expect(resourceKey(azureVmId.toLowerCase())).toBe(scans[0].resourceId);
+    expect(resourceKey("/SUBSCRIPTIONS/0000-aaaa/RESOURCEGROUPS/WEB-PROD/providers/Microsoft.Compute/virtualMachines/web-01")).toBe(scans[0].resourceId);
+  });
+});
@@ -1,16 +1,21 @@
 import { prisma } from "@/lib/db";
+import { CloudAsset, FocusCostRecord } from "@/types";
+import { chargePeriodRange, costCategory, resourceKey } from "@/lib/focus";
 
-export async function saveScanResults(provider: string, assets: any[], scanType = "manual") {
+// Assets are stored under the resource key of their billing resource ID, so that cost
+// line items can be joined to their latest scan
+export async function saveScanResults(provider: string, assets: CloudAsset[], scanType = "manual") {
   try {
     await prisma.cloudScan.createMany({
       data: assets.map(a => ({
         provider,
         region: a.region || "unknown",
         service: a.service,
-        resourceId: a.id || a.resourceId,
+        resourceId: resourceKey(a.resourceId || a.id),
+        accountId: a.accountId,
         costThisMonth: a.costThisMonth || 0,
         tags: a.tags || [],
-        connections: a.connections || [],
+        connections: a.connectedAssets || [],
         scanType,
         scannedAt: new Date(),
       })),
@@ -22,3 +27,105 @@ export async function saveScanResults(provider: string, assets: any[], scanType
     throw error;
   }
 }
+
+// Source of the line items saved by live scans, whatever the scan type. Rows saved
+// before live scans shared one source were stored as '<scanType>-scan'.
+export const LIVE_COST_SOURCE = "live-scan";
+const LIVE_SOURCES = { endsWith: "-scan" };
+
+// Line items are inserted in batches, keeping each statement well under the database's
+// bind parameter limit; the batches share the transaction that deletes replaced items
+const SAVE_BATCH_SIZE = 1000;
+
+interface ImportedPeriod {
+  subAccountId: string | null;
+  chargePeriodStart: Date;
+  chargePeriodEnd: Date;
+}
+
+// Persist FOCUS cost records, keeping one copy of each provider's costs. Imported
+// exports take precedence over live scans: an import replaces every line item of the
+// provider in its charge period window, and a live scan replaces only live line items,
+// leaving out records for accounts and days an import already covers. Re-running a scan
+// or re-importing an export never double counts, and other accounts keep their items.
+export async function saveCostLineItems(provider: string, records: FocusCostRecord[], source: string) {
+  const range = chargePeriodRange(records);
+  if (!range) return;
+
+  try {
+    const live = source === LIVE_COST_SOURCE;
+    const saved = live ? await withoutImportedPeriods(provider, records, range) : records;
+    const batches = [];
+    for (let i = 0; i < saved.length; i += SAVE_BATCH_SIZE) {
+      batches.push(saved.slice(i, i + SAVE_BATCH_SIZE));
+    }
+    await prisma.$transaction([
+      prisma.costLineItem.deleteMany({ where: replacedLineItems(provider, records, live, range) }),
+      ...batches.map(batch => prisma.costLineItem.createMany({
+        data: batch.map(r => ({
+          providerName: r.providerName,
+          billedCost: r.billedCost,
+          effectiveCost: r.effectiveCost,
+          blendedCost: r.blendedCost,
+          netCost: r.netCost,
+          billingCurrency: r.billingCurrency,
+          chargeCategory: r.chargeCategory,
+          costCategory: costCategory(r),
+          chargePeriodStart: new Date(r.chargePeriodStart),
+          chargePeriodEnd: new Date(r.chargePeriodEnd),
+          serviceName: r.serviceName,
+          regionId: r.regionId,
+          resourceId: r.resourceId,
+          subAccountId: r.subAccountId,
+          subAccountName: r.subAccountName,
+          tags: r.tags,
+          ancestry: r.ancestry,
+          source,
+        })),
+      })),
+    ]);
+    const skipped = records.length - saved.length;
+    console.log(`[${source}] Saved ${saved.length} ${provider} cost line items to database${skipped ? `, ${skipped} already covered by an import` : ""}`);
+  } catch (error) {
+    console.error(`Error saving ${provider} cost line items:`, error);
+    throw error;
+  }
+}
+
+// Line items a save replaces: the provider's in the charge period window (only live
+// ones for a live scan), narrowed to the records' sub-accounts when every record has one
+function replacedLineItems(provider: string, records: FocusCostRecord[], live: boolean, range: { start: string; end: string }) {
+  const accountIds = records.every(r => r.subAccountId)
+    ? Array.from(new Set(records.map(r => r.subAccountId as string)))
+    : undefined;
+
+  return {
+    providerName: provider,
+    ...(live ? { source: LIVE_SOURCES } : {}),
+    chargePeriodStart: { gte: new Date(range.start), lt: new Date(range.end) },
+    ...(accountIds ? { subAccountId: { in: accountIds } } : {}),
+  };
+}
+
+// Live records whose charge period does not overlap an imported line item of the same
+// account; imported items without an account cover every account
+async function withoutImportedPeriods(provider: string, records: FocusCostRecord[], range: { start: string; end: string }) {
+  const imported: ImportedPeriod[] = await prisma.costLineItem.groupBy({
+    by: ["subAccountId", "chargePeriodStart", "chargePeriodEnd"],
+    where: {
+      providerName: provider,
+      source: { not: LIVE_SOURCES },
+      chargePeriodStart: { lt: new Date(range.end) },
+      chargePeriodEnd: { gt: new Date(range.start) },
+    },
+  });
+
+  return records.filter(record => {
+    const start = new Date(record.chargePeriodStart);
+    const end = new Date(record.chargePeriodEnd);
+    return !imported.some(period =>
+      (period.subAccountId === null || period.subAccountId === record.subAccountId) &&
+      period.chargePeriodStart < end && period.chargePeriodEnd > start
+    );
+  });
+}
@@ -0,0 +1,138 @@
+// Scan pipeline shared by every connector
+import { CloudAsset, CloudProvider, CostCategory, CostMetric, FocusCostRecord, WasteFinding } from '@/types';
+import { costByResource, defaultCostMetric, resourceKey, summarizeFocusRecords } from '@/lib/focus';
+import { CurrencyConverter } from '@/lib/currency';
+import { loadCurrencyConverter } from '@/lib/exchange-rates';
+import { detectWaste } from '@/lib/waste';
+import { saveWasteFindings } from '@/lib/waste-findings';
+import { CloudConnector } from './types';
+import { getConnector } from './registry';
+import { LIVE_COST_SOURCE, saveCostLineItems, saveScanResults } from './save';
+
+export interface ScanResult {
+  provider: CloudProvider;
+  assets: CloudAsset[];
+  costRecords: FocusCostRecord[];
+  costMetric: CostMetric;  // Metric used for the totals and asset costs
+  currency: string;  // Reporting currency of the totals and asset costs
+  totalCost: number;
+  costByService: Record<string, number>;
+  costByRegion: Record<string, number>;
+  costByAccount: Record<string, number>;
+  costByCategory: Record<string, number>;  // Every category, including any left out of the totals
+  unattributedCost: number;  // Cost not billed to any discovered asset
+  unconvertedCost?: Record<string, number>;  // Billing-currency amounts with no exchange rate
+  findings: WasteFinding[];  // Idle and orphaned assets flagged by the waste rules
+  pageCounts: Record<string, number>;  // Pages fetched per provider API call
+  lastScan: string;
+}
+
+interface ScanOptions {
+  scanType?: string;
+  persist?: boolean;  // Save assets, cost line items and waste findings to the database
+  costMetric?: CostMetric;  // Defaults to COST_METRIC, or amortized
+  currency?: string;  // Reporting currency; defaults to REPORTING_CURRENCY, or USD
+  categories?: CostCategory[];  // Cost categories counted in the totals; defaults to all
+}
+
+// Discover assets and fetch costs concurrently, attribute costs to the assets, run the
+// waste rules over them and optionally persist the results
+export async function scanConnector(connector: CloudConnector, options: ScanOptions = {}): Promise<ScanResult> {
+  const { scanType = 'manual', persist = true, costMetric = defaultCostMetric() } = options;
+
+  const [assets, costRecords, converter] = await Promise.all([
+    connector.discoverAssets(),
+    connector.fetchCosts(),
+    loadCurrencyConverter(options.currency),
+  ]);
+
+  const { totalCost, costByService, costByRegion, costByAccount, costByCategory, unconvertedCost } =
+    summarizeFocusRecords(costRecords, costMetric, converter, options.categories);
+  const assetsWithCost = attributeCosts(assets, await resourceCostRecords(connector, costRecords), costMetric, converter);
+  const findings = detectWaste(assetsWithCost, converter);
+
+  if (persist) {
+    await saveScanResults(connector.provider, assetsWithCost, scanType);
+    await saveCostLineItems(connector.provider, costRecords, LIVE_COST_SOURCE);
+    await saveWasteFindings(connector.provider, findings);
+  }
+
+  return {
+    provider: connector.provider,
+    assets: assetsWithCost,
+    costRecords,
+    costMetric,
+    currency: converter.currency,
+    totalCost,
+    costByService,
+    costByRegion,
+    costByAccount,
+    costByCategory,
+    unattributedCost: unattributedCost(totalCost, assetsWithCost),
+    unconvertedCost,
+    findings,
+    pageCounts: connector.getPageCounts(),
+    lastScan: new Date().toISOString(),
+  };
+}
+
+// Records to attribute from: the cost records themselves when they carry resource IDs
+// (billing exports), otherwise the connector's resource-level query. A failed
+// resource-level query leaves every asset's cost unattributed rather than failing the scan.
+async function resourceCostRecords(connector: CloudConnector, records: FocusCostRecord[]): Promise<FocusCostRecord[]> {
+  if (records.some(record => record.resourceId) || !connector.fetchResourceCosts) return records;
+
+  try {
+    return await connector.fetchResourceCosts();
+  } catch (error) {
+    console.warn(`${connector.provider} resource-level cost query failed, costs left unattributed: ${error instanceof Error ? error.message : error}`);
+    return [];
+  }
+}
+
+// Give each asset the cost billed to its resource ID. Without resource-level data
+// asset costs stay unknown: cost is never split evenly across a service's assets,
+// since that makes a small instance look as expensive as a large one.
+function attributeCosts(
+  assets: CloudAsset[],
+  records: FocusCostRecord[],
+  metric: CostMetric,
+  converter: CurrencyConverter
+): CloudAsset[] {
+  const resourceCosts: Record<string, number> = {};
+  for (const [resourceId, cost] of Object.entries(costByResource(records, metric, converter))) {
+    const key = resourceKey(resourceId);
+    resourceCosts[key] = (resourceCosts[key] || 0) + cost;
+  }
+
+  if (Object.keys(resourceCosts).length === 0) {
+    return assets.map(asset => ({ ...asset, costThisMonth: undefined }));
+  }
+
+  return assets.map(asset => ({
+    ...asset,
+    costCurrency: converter.currency,
+    costThisMonth: resourceCosts[resourceKey(asset.resourceId || asset.id)] ?? resourceCosts[resourceKey(asset.id)] ?? 0,
+  }));
+}
+
+// Cost left over once every asset's resource cost is taken out
+export function unattributedCost(totalCost: number, assets: CloudAsset[]): number {
+  const attributed = assets.reduce((sum, asset) => sum + (asset.costThisMonth || 0), 0);
+  return Math.max(0, totalCost - attributed);
+}
+
+// Scan a registered provider using its server-side credentials
+export async function scanProvider(idOrProvider: string, options: ScanOptions = {}): Promise<ScanResult> {
+  const definition = getConnector(idOrProvider);
+  if (!definition) {
+    throw new Error(`Unknown provider: ${idOrProvider}`);
+  }
+
+  const connector = definition.fromEnvironment();
+  if (!connector) {
+    throw new Error(`${definition.provider} credentials not configured`);
+  }
+
+  return scanConnector(connector, options);
+}
@@ -0,0 +1,49 @@
+// Pluggable cloud connector contract
+// Every provider module implements CloudConnector and exports a ConnectorDefinition,
+// which is listed in the registry. Routes, the scheduler and the UI only go through
+// the registry, so adding a provider means registering one module.
+
+import {
+  CloudAsset,
+  CloudProvider,
+  CommitmentData,
+  ConnectionTestResult,
+  ConnectorCapabilities,
+  CredentialField,
+  FocusCostRecord,
+  InstanceUtilization,
+} from '@/types';
+
+export interface CloudConnector {
+  readonly provider: CloudProvider;
+  readonly capabilities: ConnectorCapabilities;
+
+  discoverAssets(): Promise<CloudAsset[]>;
+  fetchCosts(): Promise<FocusCostRecord[]>;  // Current month to date
+  // Month to date costs per resource, for providers whose fetchCosts records are
+  // service level. Only used to attribute costs to assets, never summed into totals.
+  fetchResourceCosts?(): Promise<FocusCostRecord[]>;
+  // Reservation and savings plan inventory with utilization and coverage over the
+  // last windowDays days
+  fetchCommitments?(windowDays: number): Promise<CommitmentData>;
+  // CPU and memory utilization over the last windowDays days for the given compute
+  // instances, as discovered by discoverAssets. Instances without data are left out.
+  fetchUtilization?(instances: CloudAsset[], windowDays: number): Promise<InstanceUtilization[]>;
+  testConnection(): Promise<ConnectionTestResult>;
+  // Pages fetched per paginated API call so far, e.g. { 'ec2:DescribeInstances': 3 }
+  getPageCounts(): Record<string, number>;
+}
+
+export interface ConnectorDefinition {
+  id: string;  // Lowercase id used in routes and query strings, e.g. 'aws'
+  provider: CloudProvider;
+  displayName: string;
+  credentialFields: CredentialField[];
+  capabilities: ConnectorCapabilities;
+
+  // Connector for credentials supplied with a request. Server-side billing export
+  // settings describe the server's own accounts and are left out.
+  create(credentials: Record<string, string>): CloudConnector;
+  // Connector for server-side credentials, or null when they are not configured
+  fromEnvironment(): CloudConnector | null;
+}
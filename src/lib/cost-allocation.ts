@@ -0,0 +1,146 @@
+// Allocation rule persistence and chargeback reports from the stored cost line items
+import { prisma } from '@/lib/db';
+import { AllocationRule, ChargebackReport, CloudProvider, CostCategory, CostMetric } from '@/types';
+import { COST_CATEGORIES, resourceKeyColumn } from '@/lib/focus';
+import { CurrencyConverter } from '@/lib/currency';
+import { AllocatableCost, AllocationRuleInput, buildChargebackReport, monthRange, parseAssetTags } from './allocation';
+import { COST_CATEGORY_COLUMN, COST_METRIC_COLUMNS } from './daily-costs';
+
+interface AllocationRuleRow {
+  id: string;
+  name: string;
+  tagKey: string;
+  tagValues: string[];
+  team: string | null;
+  product: string | null;
+  costCenter: string | null;
+  enabled: boolean;
+}
+
+interface AllocatableCostRow {
+  provider: string;
+  day: Date;
+  service: string;
+  tags: Record<string, string> | null;
+  asset_tags: string[] | null;
+  currency: string;
+  total_cost: number;
+}
+
+export interface ChargebackQuery {
+  metric: CostMetric;
+  categories?: CostCategory[];  // Defaults to all
+  providers?: CloudProvider[];
+}
+
+// Rules in evaluation order
+export async function loadAllocationRules(): Promise<AllocationRule[]> {
+  const rows: AllocationRuleRow[] = await prisma.allocationRule.findMany({ orderBy: { position: 'asc' } });
+  return rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    tagKey: row.tagKey,
+    tagValues: row.tagValues,
+    team: row.team ?? undefined,
+    product: row.product ?? undefined,
+    costCenter: row.costCenter ?? undefined,
+    enabled: row.enabled,
+  }));
+}
+
+// Replace every rule, keeping the order given
+export async function saveAllocationRules(rules: AllocationRuleInput[]): Promise<AllocationRule[]> {
+  await prisma.$transaction([
+    prisma.allocationRule.deleteMany({}),
+    prisma.allocationRule.createMany({
+      data: rules.map((rule, position) => ({
+        position,
+        name: rule.name,
+        tagKey: rule.tagKey,
+        tagValues: rule.tagValues,
+        team: rule.team ?? null,
+        product: rule.product ?? null,
+        costCenter: rule.costCenter ?? null,
+        enabled: rule.enabled,
+      })),
+    }),
+  ]);
+  return loadAllocationRules();
+}
+
+// The month's line item costs per provider, service and tags. Line items take the tags
+// of the latest scan of their resource, overridden by their own billing tags. Both sides
+// are matched on the resource key, which also covers scans stored before it was used.
+export async function loadAllocatableCosts(
+  month: string,
+  query: ChargebackQuery,
+  converter: CurrencyConverter
+): Promise<{ costs: AllocatableCost[]; unconvertedCost: Record<string, number> }> {
+  const { start, end } = monthRange(month);
+  const params: unknown[] = [start, end];
+  const filters: string[] = [];
+  const categories = query.categories || COST_CATEGORIES;
+  if (query.providers?.length) {
+    params.push(query.providers);
+    filters.push(`AND item.provider_name = ANY($${params.length})`);
+  }
+  if (categories.length < COST_CATEGORIES.length) {
+    params.push(categories);
+    filters.push(`AND ${COST_CATEGORY_COLUMN} = ANY($${params.length})`);
+  }
+
+  const rows: AllocatableCostRow[] = await prisma.$queryRawUnsafe(`
+    SELECT item.provider_name AS provider,
+           DATE_TRUNC('day', item.charge_period_start) AS day,
+           item.service_name AS service,
+           item.tags AS tags,
+           asset.asset_tags,
+           item.billing_currency AS currency,
+           SUM(${COST_METRIC_COLUMNS[query.metric]})::float AS total_cost
+    FROM cost_line_item item
+    LEFT JOIN (
+      SELECT DISTINCT ON (resource_key) ${resourceKeyColumn('"resourceId"')} AS resource_key, tags AS asset_tags
+      FROM "CloudScan"
+      WHERE "resourceId" IS NOT NULL
+      ORDER BY resource_key, "scannedAt" DESC
+    ) asset ON asset.resource_key = ${resourceKeyColumn('item.resource_id')}
+    WHERE item.charge_period_start >= $1::date AND item.charge_period_start < $2::date
+      ${filters.join('\n      ')}
+    GROUP BY item.provider_name, day, item.service_name, item.tags, asset.asset_tags, item.billing_currency;
+  `, ...params);
+
+  const costs = new Map<string, AllocatableCost>();
+  const unconvertedCost: Record<string, number> = {};
+  for (const row of rows) {
+    const day = new Date(row.day).toISOString().slice(0, 10);
+    const cost = converter.convert(row.total_cost, row.currency, day);
+    if (cost === undefined) {
+      unconvertedCost[row.currency] = (unconvertedCost[row.currency] || 0) + row.total_cost;
+      continue;
+    }
+    const tags = { ...parseAssetTags(row.asset_tags), ...(row.tags || {}) };
+    // Days and billing currencies merge once converted
+    const key = [row.provider, row.service, JSON.stringify(Object.entries(tags).sort())].join('|');
+    const entry = costs.get(key) || { provider: row.provider as CloudProvider, service: row.service, tags, cost: 0 };
+    entry.cost += cost;
+    costs.set(key, entry);
+  }
+
+  return { costs: Array.from(costs.values()), unconvertedCost };
+}
+
+// The month's chargeback report under the stored rules
+export async function loadChargebackReport(
+  month: string,
+  query: ChargebackQuery,
+  converter: CurrencyConverter
+): Promise<ChargebackReport> {
+  const [rules, { costs, unconvertedCost }] = await Promise.all([
+    loadAllocationRules(),
+    loadAllocatableCosts(month, query, converter),
+  ]);
+  return {
+    ...buildChargebackReport(costs, rules, { month, currency: converter.currency, costMetric: query.metric }),
+    unconvertedCost: Object.keys(unconvertedCost).length > 0 ? unconvertedCost : undefined,
+  };
+}
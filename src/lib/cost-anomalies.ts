@@ -0,0 +1,108 @@
+// Cost anomaly detection runs and persistence
+import { prisma } from '@/lib/db';
+import { AnomalyDimension, AnomalyRootCause, AnomalySeverity, CloudProvider, CostAnomaly, CostCategory, CostMetric } from '@/types';
+import { defaultCostMetric } from '@/lib/focus';
+import { loadCurrencyConverter } from '@/lib/exchange-rates';
+import { AnomalyOptions, defaultAnomalyOptions, detectAnomalies } from './anomalies';
+import { DailyCost, loadDailyCosts } from './daily-costs';
+
+// Credits, refunds, tax and support fees are booked in lumps and would stand out every month
+const ANOMALY_CATEGORIES: CostCategory[] = ['Usage', 'Marketplace'];
+
+interface CostAnomalyRow {
+  anomalyId: string;
+  date: Date;
+  provider: string;
+  dimension: string;
+  tagKey: string | null;
+  value: string;
+  expectedCost: number;
+  actualCost: number;
+  score: number;
+  severity: string;
+  rootCauses: AnomalyRootCause[];
+  currency: string;
+  costMetric: string;
+  detectedAt: Date;
+}
+
+// Detect anomalies in the stored cost line items and replace those of the evaluated days.
+// Days are evaluated again on later runs, so anomalies not stored before are returned as new.
+export async function runAnomalyDetection(
+  options: AnomalyOptions = defaultAnomalyOptions(),
+  costMetric: CostMetric = defaultCostMetric()
+): Promise<{ anomalies: CostAnomaly[]; newAnomalies: CostAnomaly[] }> {
+  const converter = await loadCurrencyConverter();
+  const query = { days: options.baselineDays + options.evaluationDays + 1, metric: costMetric, categories: ANOMALY_CATEGORIES };
+
+  const { costs } = await loadDailyCosts(query, converter);
+  const tagCosts = new Map<string, DailyCost[]>();
+  for (const tagKey of options.tagKeys) {
+    tagCosts.set(tagKey, (await loadDailyCosts({ ...query, tagKey }, converter)).costs);
+  }
+
+  const now = new Date();
+  const anomalies = detectAnomalies(costs, tagCosts, { currency: converter.currency, costMetric }, options, now);
+  const today = Date.parse(now.toISOString().slice(0, 10));
+  const from = new Date(today - options.evaluationDays * 24 * 60 * 60 * 1000);
+  const to = new Date(today);
+
+  const stored: Array<{ anomalyId: string }> = await prisma.costAnomaly.findMany({
+    where: { date: { gte: from, lt: to } },
+    select: { anomalyId: true },
+  });
+  const storedIds = new Set(stored.map(row => row.anomalyId));
+  await saveCostAnomalies(anomalies, from, to);
+  return { anomalies, newAnomalies: anomalies.filter(anomaly => !storedIds.has(anomaly.id)) };
+}
+
+// Anomalies of the last `days` days, newest first
+export async function loadCostAnomalies(days: number, provider?: CloudProvider): Promise<CostAnomaly[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const rows: CostAnomalyRow[] = await prisma.costAnomaly.findMany({
+    where: { date: { gte: since }, ...(provider ? { provider } : {}) },
+    orderBy: [{ date: 'desc' }, { score: 'desc' }],
+  });
+
+  return rows.map(row => ({
+    id: row.anomalyId,
+    date: row.date.toISOString().slice(0, 10),
+    provider: row.provider as CloudProvider,
+    dimension: row.dimension as AnomalyDimension,
+    tagKey: row.tagKey ?? undefined,
+    value: row.value,
+    expectedCost: row.expectedCost,
+    actualCost: row.actualCost,
+    score: row.score,
+    severity: row.severity as AnomalySeverity,
+    rootCauses: row.rootCauses,
+    currency: row.currency,
+    costMetric: row.costMetric as CostMetric,
+    detectedAt: row.detectedAt.toISOString(),
+  }));
+}
+
+// Billing data for recent days is revised, so anomalies that no longer hold disappear
+async function saveCostAnomalies(anomalies: CostAnomaly[], from: Date, to: Date): Promise<void> {
+  await prisma.$transaction([
+    prisma.costAnomaly.deleteMany({ where: { date: { gte: from, lt: to } } }),
+    prisma.costAnomaly.createMany({
+      data: anomalies.map(anomaly => ({
+        anomalyId: anomaly.id,
+        date: new Date(anomaly.date),
+        provider: anomaly.provider,
+        dimension: anomaly.dimension,
+        tagKey: anomaly.tagKey ?? null,
+        value: anomaly.value,
+        expectedCost: anomaly.expectedCost,
+        actualCost: anomaly.actualCost,
+        score: anomaly.score,
+        severity: anomaly.severity,
+        rootCauses: anomaly.rootCauses,
+        currency: anomaly.currency,
+        costMetric: anomaly.costMetric,
+        detectedAt: new Date(anomaly.detectedAt),
+      })),
+    }),
+  ]);
+}
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createCurrencyConverter } from "@/lib/currency";
+import { loadCostForecast } from "./cost-forecast";
+
+const { queryRawUnsafe } = vi.hoisted(() => ({ queryRawUnsafe: vi.fn() }));
+
+vi.mock("@/lib/db", () => ({ prisma: { $queryRawUnsafe: queryRawUnsafe } }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("loadCostForecast", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    queryRawUnsafe.mockReset();
+  });
+
+  it("fits daily costs only and reports month-to-date line items apart", async () => {
+    vi.useFakeTimers({ now: new Date("2026-10-19T08:00:00.000Z") });
+    const dailyRows = Array.from({ length: 60 }, (_, i) => ({
+      provider: "AWS",
+      day: new Date(Date.UTC(2026, 9, 18) - i * DAY_MS),
+      service: "Amazon Elastic Compute Cloud - Compute",
+      account_id: "123456789012",
+      currency: "USD",
+      total_cost: 10,
+    }));
+    const monthToDateRow = {
+      provider: "GCP",
+      period_start: new Date("2026-10-01T00:00:00.000Z"),
+      period_end: new Date("2026-10-19T07:00:00.000Z"),
+      service: "Compute Engine",
+      account_id: "my-project",
+      currency: "USD",
+      total_cost: 540,
+    };
+    queryRawUnsafe.mockImplementation(async (sql: string) =>
+      sql.includes("charge_period_end > charge_period_start") ? [monthToDateRow] : dailyRows
+    );
+
+    const report = await loadCostForecast({ metric: "amortized" }, createCurrencyConverter("USD", []), { historyDays: 90, confidence: 80 });
+
+    expect(report.byProvider.map(forecast => forecast.provider)).toEqual(["AWS"]);
+    expect(report.total.month.actualCost).toBeCloseTo(180);
+    expect(report.total.month.forecastCost).toBeCloseTo(310);
+    expect(report.periodCost).toEqual({ GCP: 540 });
+  });
+});
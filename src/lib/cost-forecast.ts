@@ -0,0 +1,50 @@
+// Spend forecasts from the stored cost line items
+import { ForecastReport, MonthlyProjection } from '@/types';
+import { CurrencyConverter } from '@/lib/currency';
+import { DailyCostQuery, loadDailyCosts, loadPeriodCosts } from './daily-costs';
+import { ForecastOptions, defaultForecastOptions, forecastSpend, forecastStart, projectMonthlySpend } from './forecast';
+
+type ForecastQuery = Omit<DailyCostQuery, 'days' | 'tagKey' | 'tagValue'>;
+
+// Month-end and quarter-end forecast overall, per provider and per service. Line items
+// charged for more than a day cannot be fitted as daily costs; their cost is reported
+// per provider instead.
+export async function loadCostForecast(
+  query: ForecastQuery,
+  converter: CurrencyConverter,
+  options: ForecastOptions = defaultForecastOptions()
+): Promise<ForecastReport> {
+  const now = new Date();
+  const costQuery = { ...query, days: forecastDays(options, now) };
+  const [daily, period] = await Promise.all([loadDailyCosts(costQuery, converter), loadPeriodCosts(costQuery, converter)]);
+
+  const periodCost: Record<string, number> = {};
+  for (const cost of period.costs) {
+    periodCost[cost.provider] = (periodCost[cost.provider] || 0) + cost.cost;
+  }
+  const unconvertedCost = { ...daily.unconvertedCost };
+  for (const [currency, amount] of Object.entries(period.unconvertedCost)) {
+    unconvertedCost[currency] = (unconvertedCost[currency] || 0) + amount;
+  }
+
+  return {
+    ...forecastSpend(daily.costs, { currency: converter.currency, costMetric: query.metric }, options, now),
+    periodCost: Object.keys(periodCost).length > 0 ? periodCost : undefined,
+    unconvertedCost: Object.keys(unconvertedCost).length > 0 ? unconvertedCost : undefined,
+  };
+}
+
+// Projected month totals per provider for the rest of the quarter
+export async function loadMonthlyProjections(
+  query: ForecastQuery,
+  converter: CurrencyConverter,
+  options: ForecastOptions = defaultForecastOptions()
+): Promise<MonthlyProjection[]> {
+  const now = new Date();
+  const { costs } = await loadDailyCosts({ ...query, days: forecastDays(options, now) }, converter);
+  return projectMonthlySpend(costs, options, now);
+}
+
+function forecastDays(options: ForecastOptions, now: Date): number {
+  return Math.ceil((now.getTime() - forecastStart(options, now).getTime()) / (24 * 60 * 60 * 1000));
+}
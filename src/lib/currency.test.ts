@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { createCurrencyConverter, ExchangeRate, parseCurrency } from "./currency";
+
+const rate = (baseCurrency: string, quoteCurrency: string, value: number, effectiveDate: string): ExchangeRate => ({
+  baseCurrency,
+  quoteCurrency,
+  rate: value,
+  effectiveDate,
+});
+
+describe("createCurrencyConverter", () => {
+  const rates = [
+    rate("EUR", "USD", 1.1, "2026-09-01"),
+    rate("EUR", "USD", 1.2, "2026-10-01"),
+    rate("gbp", "usd", 1.25, "2026-09-01"),
+  ];
+
+  it("uses the rate in effect on the date until the next one", () => {
+    const converter = createCurrencyConverter("USD", rates);
+
+    expect(converter.convert(100, "EUR", "2026-09-30T23:00:00.000Z")).toBeCloseTo(110);
+    expect(converter.convert(100, "EUR", "2026-10-01")).toBeCloseTo(120);
+    expect(converter.convert(100, "EUR", "2027-01-15")).toBeCloseTo(120);
+  });
+
+  it("has no amount before the first rate of a pair", () => {
+    expect(createCurrencyConverter("USD", rates).convert(100, "EUR", "2026-08-31")).toBeUndefined();
+  });
+
+  it("inverts rates quoted the other way round", () => {
+    expect(createCurrencyConverter("EUR", rates).convert(120, "USD", "2026-10-05")).toBeCloseTo(100);
+  });
+
+  it("crosses through a currency both sides have a rate with", () => {
+    const converter = createCurrencyConverter("gbp", rates);
+
+    // EUR -> USD at 1.2, USD -> GBP at 1 / 1.25
+    expect(converter.convert(100, "EUR", "2026-10-05")).toBeCloseTo(96);
+    expect(converter.convert(100, "JPY", "2026-10-05")).toBeUndefined();
+  });
+
+  it("keeps amounts already in the reporting currency", () => {
+    const converter = createCurrencyConverter("USD", []);
+
+    expect(converter.convert(42, "usd", "2026-10-05")).toBe(42);
+    expect(converter.convert(42, "", "2026-10-05")).toBe(42);
+  });
+});
+
+describe("parseCurrency", () => {
+  it("accepts three-letter codes only", () => {
+    expect(parseCurrency(" eur ")).toBe("EUR");
+    expect(parseCurrency("EURO")).toBeUndefined();
+    expect(parseCurrency(978)).toBeUndefined();
+  });
+});
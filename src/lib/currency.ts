@@ -0,0 +1,89 @@
+// Currency conversion for cost reporting
+// Costs are stored in their billing currency and converted into the reporting currency
+// when summarized, using a locally maintained table of dated exchange rates. A rate
+// applies from its effective date until the next rate for the same currency pair.
+
+export interface ExchangeRate {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;  // Units of quote currency per unit of base currency
+  effectiveDate: string;  // YYYY-MM-DD
+}
+
+export interface CurrencyConverter {
+  currency: string;  // Reporting currency
+  // Amount in the reporting currency, or undefined when no rate covers the date
+  convert(amount: number, fromCurrency: string, date: string): number | undefined;
+}
+
+export function reportingCurrency(): string {
+  return normalizeCurrency(process.env.REPORTING_CURRENCY || 'USD');
+}
+
+export function normalizeCurrency(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// A three-letter ISO 4217 code, normalized, or undefined when the value is not one
+export function parseCurrency(value: unknown): string | undefined {
+  return typeof value === 'string' && /^[A-Za-z]{3}$/.test(value.trim()) ? normalizeCurrency(value) : undefined;
+}
+
+// Converter backed by a rate table. Pairs are looked up directly, inverted, or crossed
+// through a currency both sides have a rate with (EUR -> USD -> GBP).
+export function createCurrencyConverter(currency: string, rates: ExchangeRate[]): CurrencyConverter {
+  const target = normalizeCurrency(currency);
+  const byPair = new Map<string, ExchangeRate[]>();
+
+  const addRate = (base: string, quote: string, rate: number, effectiveDate: string) => {
+    const key = `${base}|${quote}`;
+    const list = byPair.get(key) || [];
+    list.push({ baseCurrency: base, quoteCurrency: quote, rate, effectiveDate: effectiveDate.slice(0, 10) });
+    byPair.set(key, list);
+  };
+
+  for (const rate of rates) {
+    if (!(rate.rate > 0)) continue;
+    const base = normalizeCurrency(rate.baseCurrency);
+    const quote = normalizeCurrency(rate.quoteCurrency);
+    addRate(base, quote, rate.rate, rate.effectiveDate);
+    addRate(quote, base, 1 / rate.rate, rate.effectiveDate);
+  }
+  // Newest first, so the first rate on or before a date is the one in effect
+  for (const list of byPair.values()) {
+    list.sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate));
+  }
+
+  const rateOn = (from: string, to: string, day: string): number | undefined =>
+    byPair.get(`${from}|${to}`)?.find(rate => rate.effectiveDate <= day)?.rate;
+
+  const currencies = new Set(Array.from(byPair.keys()).map(key => key.split('|')[0]));
+
+  return {
+    currency: target,
+    convert(amount, fromCurrency, date) {
+      const from = normalizeCurrency(fromCurrency || target);
+      if (from === target || amount === 0) return amount;
+
+      const day = date.slice(0, 10);
+      const direct = rateOn(from, target, day);
+      if (direct !== undefined) return amount * direct;
+
+      for (const pivot of currencies) {
+        const first = rateOn(from, pivot, day);
+        const second = first !== undefined ? rateOn(pivot, target, day) : undefined;
+        if (first !== undefined && second !== undefined) return amount * first * second;
+      }
+      return undefined;
+    },
+  };
+}
+
+export function formatCurrency(amount: number, currency = 'USD'): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown ISO code
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
@@ -0,0 +1,210 @@
+// Daily cost history from the stored cost line items
+// Costs are summed per day and billing currency in the database, then converted into
+// the reporting currency at each day's rate. Line items charged for more than a day,
+// such as month-to-date totals, cannot be placed on a day; they are loaded apart as
+// period costs.
+
+import { prisma } from '@/lib/db';
+import { CloudProvider, CostCategory, CostMetric } from '@/types';
+import { COST_CATEGORIES } from '@/lib/focus';
+import { CurrencyConverter } from '@/lib/currency';
+
+// Line item cost column per metric; blended and net fall back like recordCost does
+export const COST_METRIC_COLUMNS: Record<CostMetric, string> = {
+  unblended: 'billed_cost',
+  blended: 'COALESCE(blended_cost, billed_cost)',
+  amortized: 'effective_cost',
+  net: 'COALESCE(net_cost, effective_cost)',
+};
+
+// Line item cost category; rows saved before categories were stored derive it like costCategory does
+export const COST_CATEGORY_COLUMN = "COALESCE(cost_category, CASE charge_category WHEN 'Tax' THEN 'Tax' WHEN 'Credit' THEN 'Credit' ELSE 'Usage' END)";
+
+export interface DailyCost {
+  day: string;  // YYYY-MM-DD
+  provider: CloudProvider;
+  service: string;
+  accountId?: string;
+  tagValue?: string;  // Value of the queried tag key
+  cost: number;  // In the converter's currency
+}
+
+// Cost of line items charged for more than a day, such as a month-to-date total
+export interface PeriodCost {
+  periodStart: string;  // ISO timestamps; the end is exclusive
+  periodEnd: string;
+  provider: CloudProvider;
+  service: string;
+  accountId?: string;
+  tagValue?: string;
+  cost: number;  // In the converter's currency
+}
+
+export interface DailyCostQuery {
+  days: number;  // Days before today to include; today's partial day is included too
+  metric: CostMetric;
+  categories?: CostCategory[];  // Defaults to all
+  providers?: CloudProvider[];
+  region?: string;
+  service?: string;
+  accounts?: string[];  // Sub-account IDs
+  tagKey?: string;  // Only line items carrying this tag, grouped by its value
+  tagValue?: string;  // With a tag key, only line items with this value
+}
+
+interface DailyCostRow {
+  provider: string;
+  day: Date;
+  service: string;
+  account_id: string | null;
+  tag_value?: string | null;
+  currency: string;
+  total_cost: number;
+}
+
+interface PeriodCostRow extends Omit<DailyCostRow, 'day'> {
+  period_start: Date;
+  period_end: Date;
+}
+
+// Daily costs per provider, service and account (and tag value, with a tag key).
+// Amounts without an exchange rate are left out and totalled per billing currency.
+// Tag values only come from line items with billing tags, i.e. imported exports.
+export async function loadDailyCosts(
+  query: DailyCostQuery,
+  converter: CurrencyConverter
+): Promise<{ costs: DailyCost[]; unconvertedCost: Record<string, number> }> {
+  const params: unknown[] = [query.days];
+  const { filters, tagColumn } = costFilters(query, params);
+
+  const rows: DailyCostRow[] = await prisma.$queryRawUnsafe(`
+    SELECT provider_name AS provider,
+           DATE_TRUNC('day', charge_period_start) AS day,
+           service_name AS service,
+           sub_account_id AS account_id,
+           ${tagColumn ? `${tagColumn} AS tag_value,` : ''}
+           billing_currency AS currency,
+           SUM(${COST_METRIC_COLUMNS[query.metric]})::float AS total_cost
+    FROM cost_line_item
+    WHERE charge_period_start >= DATE_TRUNC('day', NOW()) - make_interval(days => $1::int)
+      AND charge_period_end <= charge_period_start + INTERVAL '1 day'
+      ${filters.join('\n      ')}
+    GROUP BY provider_name, day, service_name, sub_account_id${tagColumn ? ', tag_value' : ''}, billing_currency
+    ORDER BY day;
+  `, ...params);
+
+  const costs = new Map<string, DailyCost>();
+  const unconvertedCost: Record<string, number> = {};
+  for (const row of rows) {
+    const day = new Date(row.day).toISOString().slice(0, 10);
+    const cost = converter.convert(row.total_cost, row.currency, day);
+    if (cost === undefined) {
+      unconvertedCost[row.currency] = (unconvertedCost[row.currency] || 0) + row.total_cost;
+      continue;
+    }
+    // Rows in different billing currencies merge once converted
+    const key = [day, row.provider, row.service, row.account_id, row.tag_value].join('|');
+    const entry = costs.get(key) || {
+      day,
+      provider: row.provider as CloudProvider,
+      service: row.service,
+      accountId: row.account_id ?? undefined,
+      tagValue: row.tag_value ?? undefined,
+      cost: 0,
+    };
+    entry.cost += cost;
+    costs.set(key, entry);
+  }
+
+  return { costs: Array.from(costs.values()), unconvertedCost };
+}
+
+// Line items charged for more than a day in the same window, per provider, service,
+// account and charge period, converted at the rate of the period's first day
+export async function loadPeriodCosts(
+  query: DailyCostQuery,
+  converter: CurrencyConverter
+): Promise<{ costs: PeriodCost[]; unconvertedCost: Record<string, number> }> {
+  const params: unknown[] = [query.days];
+  const { filters, tagColumn } = costFilters(query, params);
+
+  const rows: PeriodCostRow[] = await prisma.$queryRawUnsafe(`
+    SELECT provider_name AS provider,
+           charge_period_start AS period_start,
+           charge_period_end AS period_end,
+           service_name AS service,
+           sub_account_id AS account_id,
+           ${tagColumn ? `${tagColumn} AS tag_value,` : ''}
+           billing_currency AS currency,
+           SUM(${COST_METRIC_COLUMNS[query.metric]})::float AS total_cost
+    FROM cost_line_item
+    WHERE charge_period_start >= DATE_TRUNC('day', NOW()) - make_interval(days => $1::int)
+      AND charge_period_end > charge_period_start + INTERVAL '1 day'
+      ${filters.join('\n      ')}
+    GROUP BY provider_name, period_start, period_end, service_name, sub_account_id${tagColumn ? ', tag_value' : ''}, billing_currency
+    ORDER BY period_start;
+  `, ...params);
+
+  const costs = new Map<string, PeriodCost>();
+  const unconvertedCost: Record<string, number> = {};
+  for (const row of rows) {
+    const periodStart = new Date(row.period_start).toISOString();
+    const periodEnd = new Date(row.period_end).toISOString();
+    const cost = converter.convert(row.total_cost, row.currency, periodStart.slice(0, 10));
+    if (cost === undefined) {
+      unconvertedCost[row.currency] = (unconvertedCost[row.currency] || 0) + row.total_cost;
+      continue;
+    }
+    const key = [periodStart, periodEnd, row.provider, row.service, row.account_id, row.tag_value].join('|');
+    const entry = costs.get(key) || {
+      periodStart,
+      periodEnd,
+      provider: row.provider as CloudProvider,
+      service: row.service,
+      accountId: row.account_id ?? undefined,
+      tagValue: row.tag_value ?? undefined,
+      cost: 0,
+    };
+    entry.cost += cost;
+    costs.set(key, entry);
+  }
+
+  return { costs: Array.from(costs.values()), unconvertedCost };
+}
+
+// Filters of a cost query, adding their values to the parameters
+function costFilters(query: DailyCostQuery, params: unknown[]): { filters: string[]; tagColumn: string } {
+  const filters: string[] = [];
+  const categories = query.categories || COST_CATEGORIES;
+  if (query.providers?.length) {
+    params.push(query.providers);
+    filters.push(`AND provider_name = ANY($${params.length})`);
+  }
+  if (query.region) {
+    params.push(query.region);
+    filters.push(`AND region_id = $${params.length}`);
+  }
+  if (query.service) {
+    params.push(query.service);
+    filters.push(`AND service_name = $${params.length}`);
+  }
+  if (query.accounts?.length) {
+    params.push(query.accounts);
+    filters.push(`AND sub_account_id = ANY($${params.length})`);
+  }
+  if (categories.length < COST_CATEGORIES.length) {
+    params.push(categories);
+    filters.push(`AND ${COST_CATEGORY_COLUMN} = ANY($${params.length})`);
+  }
+  let tagColumn = '';
+  if (query.tagKey) {
+    params.push(query.tagKey);
+    tagColumn = `tags ->> $${params.length}`;
+    filters.push(`AND ${tagColumn} IS NOT NULL`);
+    if (query.tagValue !== undefined) {
+      params.push(query.tagValue);
+      filters.push(`AND ${tagColumn} = $${params.length}`);
+    }
+  }
+  return { filters, tagColumn };
+}
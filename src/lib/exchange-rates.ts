@@ -0,0 +1,52 @@
+// Exchange rate table persistence
+import { prisma } from '@/lib/db';
+import { createCurrencyConverter, CurrencyConverter, ExchangeRate, normalizeCurrency, reportingCurrency } from './currency';
+
+interface ExchangeRateRow {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  effectiveDate: Date;
+}
+
+export async function loadExchangeRates(): Promise<ExchangeRate[]> {
+  const rows: ExchangeRateRow[] = await prisma.exchangeRate.findMany({
+    orderBy: { effectiveDate: 'asc' },
+  });
+
+  return rows.map(row => ({
+    baseCurrency: row.baseCurrency,
+    quoteCurrency: row.quoteCurrency,
+    rate: row.rate,
+    effectiveDate: row.effectiveDate.toISOString().slice(0, 10),
+  }));
+}
+
+// Converter into the given reporting currency. Without a reachable rate table only
+// amounts already in that currency are counted.
+export async function loadCurrencyConverter(currency: string = reportingCurrency()): Promise<CurrencyConverter> {
+  try {
+    return createCurrencyConverter(currency, await loadExchangeRates());
+  } catch (error) {
+    console.warn(`Exchange rates unavailable, only ${currency} amounts will be counted: ${error instanceof Error ? error.message : error}`);
+    return createCurrencyConverter(currency, []);
+  }
+}
+
+// Insert or replace rates, keyed by currency pair and effective date
+export async function saveExchangeRates(rates: ExchangeRate[], source?: string): Promise<void> {
+  await prisma.$transaction(
+    rates.map(rate => {
+      const key = {
+        baseCurrency: normalizeCurrency(rate.baseCurrency),
+        quoteCurrency: normalizeCurrency(rate.quoteCurrency),
+        effectiveDate: new Date(`${rate.effectiveDate.slice(0, 10)}T00:00:00.000Z`),
+      };
+      return prisma.exchangeRate.upsert({
+        where: { baseCurrency_quoteCurrency_effectiveDate: key },
+        create: { ...key, rate: rate.rate, source },
+        update: { rate: rate.rate, source },
+      });
+    })
+  );
+}
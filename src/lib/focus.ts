@@ -0,0 +1,261 @@
+// FOCUS cost record helpers
+// Builds, aggregates and summarizes normalized FOCUS billing line items.
+// Cost summaries use one cost metric for every provider so that a dollar means the
+// same thing whatever the provider; amortized cost unless COST_METRIC says otherwise.
+// Amounts are converted into the reporting currency; those without an exchange rate
+// are kept out of the totals and reported per currency instead. Cost categories
+// (credits, refunds, tax, support, marketplace) can be left out of the totals but
+// are always reported in the category breakdown.
+
+import { CostCategory, CostMetric, CostSummary, FocusCostRecord } from '@/types';
+import { createCurrencyConverter, CurrencyConverter, reportingCurrency } from './currency';
+
+type Provider = FocusCostRecord['providerName'];
+
+export const COST_METRICS: CostMetric[] = ['unblended', 'blended', 'amortized', 'net'];
+
+export function parseCostMetric(value: unknown): CostMetric | undefined {
+  return COST_METRICS.find(metric => metric === value);
+}
+
+export function defaultCostMetric(): CostMetric {
+  return parseCostMetric(process.env.COST_METRIC) || 'amortized';
+}
+
+export const COST_CATEGORIES: CostCategory[] = ['Usage', 'Credit', 'Refund', 'Tax', 'Support', 'Marketplace'];
+
+// Categories to include; no values means all of them, any unknown value makes the list invalid
+export function parseCostCategories(values: unknown[]): CostCategory[] | undefined {
+  if (values.length === 0) return COST_CATEGORIES;
+  const categories = values.map(value => COST_CATEGORIES.find(category => category === value));
+  return categories.every(category => category !== undefined) ? categories as CostCategory[] : undefined;
+}
+
+// A record's reporting category; sources that do not set one are classified by FOCUS
+// charge category, with purchases and adjustments counted as usage
+export function costCategory(record: FocusCostRecord): CostCategory {
+  if (record.costCategory) return record.costCategory;
+  switch (record.chargeCategory) {
+    case 'Tax':
+      return 'Tax';
+    case 'Credit':
+      return 'Credit';
+    default:
+      return 'Usage';
+  }
+}
+
+// A record's cost under the given metric. Providers without blended or net pricing
+// report the unblended or amortized amount instead.
+export function recordCost(record: FocusCostRecord, metric: CostMetric): number {
+  switch (metric) {
+    case 'unblended':
+      return record.billedCost;
+    case 'blended':
+      return record.blendedCost ?? record.billedCost;
+    case 'net':
+      return record.netCost ?? record.effectiveCost;
+    default:
+      return record.effectiveCost;
+  }
+}
+
+// Start and end (exclusive) of a single usage day
+export function dayChargePeriod(date: string): { chargePeriodStart: string; chargePeriodEnd: string } {
+  const start = new Date(`${date}T00:00:00.000Z`);
+  const end = new Date(start);
+  end.setUTCDate(end.getUTCDate() + 1);
+  return { chargePeriodStart: start.toISOString(), chargePeriodEnd: end.toISOString() };
+}
+
+// Current month to date, as covered by the live provider cost APIs
+export function monthToDateChargePeriod(now: Date = new Date()): { chargePeriodStart: string; chargePeriodEnd: string } {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  return { chargePeriodStart: start.toISOString(), chargePeriodEnd: now.toISOString() };
+}
+
+// Build a record for a grouped amount returned by a live cost API
+export function liveCostRecord(
+  providerName: Provider,
+  serviceName: string,
+  regionId: string,
+  billedCost: number,
+  effectiveCost: number = billedCost,
+  overrides: Partial<FocusCostRecord> = {}
+): FocusCostRecord {
+  return {
+    providerName,
+    billedCost,
+    effectiveCost,
+    billingCurrency: 'USD',
+    chargeCategory: 'Usage',
+    ...monthToDateChargePeriod(),
+    serviceName: serviceName || 'unknown',
+    regionId: regionId || 'unknown',
+    tags: {},
+    ...overrides,
+  };
+}
+
+// Collapse records sharing every dimension into one, summing their costs
+export function aggregateFocusRecords(records: FocusCostRecord[]): FocusCostRecord[] {
+  const aggregator = createFocusAggregator();
+  records.forEach(record => aggregator.add(record));
+  return aggregator.records();
+}
+
+// Incremental form of aggregateFocusRecords for importers streaming line items, so
+// only the aggregated records are held in memory
+export interface FocusAggregator {
+  add(record: FocusCostRecord): void;
+  records(): FocusCostRecord[];  // Aggregated records, oldest charge period first
+}
+
+export function createFocusAggregator(): FocusAggregator {
+  const grouped = new Map<string, FocusCostRecord>();
+
+  return {
+    add(record: FocusCostRecord): void {
+      const key = [
+        record.providerName,
+        record.chargePeriodStart,
+        record.chargeCategory,
+        costCategory(record),
+        record.subAccountId || '',
+        record.resourceId || '',
+        record.serviceName,
+        record.regionId,
+        record.billingCurrency,
+      ].join('|');
+      const existing = grouped.get(key);
+
+      if (existing) {
+        // Optional metrics first, while their fallbacks still hold the existing amounts
+        if (existing.blendedCost !== undefined || record.blendedCost !== undefined) {
+          existing.blendedCost = recordCost(existing, 'blended') + recordCost(record, 'blended');
+        }
+        if (existing.netCost !== undefined || record.netCost !== undefined) {
+          existing.netCost = recordCost(existing, 'net') + recordCost(record, 'net');
+        }
+        existing.billedCost += record.billedCost;
+        existing.effectiveCost += record.effectiveCost;
+        existing.tags = { ...existing.tags, ...record.tags };
+      } else {
+        grouped.set(key, { ...record, tags: { ...record.tags } });
+      }
+    },
+
+    records(): FocusCostRecord[] {
+      return Array.from(grouped.values()).sort((a, b) => a.chargePeriodStart.localeCompare(b.chargePeriodStart));
+    },
+  };
+}
+
+// Keep only records whose charge period starts in the given month (YYYY-MM)
+export function filterByMonth(records: FocusCostRecord[], month: string): FocusCostRecord[] {
+  return records.filter(record => record.chargePeriodStart.startsWith(month));
+}
+
+// Keep only records billed to the given sub-accounts; an empty list keeps everything
+export function filterByAccount(records: FocusCostRecord[], accountIds: string[]): FocusCostRecord[] {
+  if (accountIds.length === 0) return records;
+  return records.filter(record => record.subAccountId !== undefined && accountIds.includes(record.subAccountId));
+}
+
+// Converter for amounts already in the reporting currency only
+function identityConverter(): CurrencyConverter {
+  return createCurrencyConverter(reportingCurrency(), []);
+}
+
+export function summarizeFocusRecords(
+  records: FocusCostRecord[],
+  metric: CostMetric = defaultCostMetric(),
+  converter: CurrencyConverter = identityConverter(),
+  categories: CostCategory[] = COST_CATEGORIES
+): CostSummary {
+  let totalCost = 0;
+  const costByProvider: Record<string, number> = {};
+  const costByService: Record<string, number> = {};
+  const costByRegion: Record<string, number> = {};
+  const costByAccount: Record<string, number> = {};
+  const costByMonth: Record<string, number> = {};
+  const costByCategory: Record<string, number> = {};
+  const unconvertedCost: Record<string, number> = {};
+
+  for (const record of records) {
+    const cost = converter.convert(recordCost(record, metric), record.billingCurrency, record.chargePeriodStart);
+    if (cost === undefined) {
+      unconvertedCost[record.billingCurrency] = (unconvertedCost[record.billingCurrency] || 0) + recordCost(record, metric);
+      continue;
+    }
+    const category = costCategory(record);
+    costByCategory[category] = (costByCategory[category] || 0) + cost;
+    if (!categories.includes(category)) continue;
+    const month = record.chargePeriodStart.slice(0, 7);
+
+    totalCost += cost;
+    costByProvider[record.providerName] = (costByProvider[record.providerName] || 0) + cost;
+    costByService[record.serviceName] = (costByService[record.serviceName] || 0) + cost;
+    costByRegion[record.regionId] = (costByRegion[record.regionId] || 0) + cost;
+    if (record.subAccountId) {
+      costByAccount[record.subAccountId] = (costByAccount[record.subAccountId] || 0) + cost;
+    }
+    costByMonth[month] = (costByMonth[month] || 0) + cost;
+  }
+
+  return {
+    costMetric: metric,
+    currency: converter.currency,
+    totalCost,
+    costByProvider,
+    costByService,
+    costByRegion,
+    costByAccount,
+    costByCategory,
+    includedCategories: categories,
+    monthlyTrend: Object.keys(costByMonth)
+      .sort()
+      .map(month => ({ month, cost: costByMonth[month] })),
+    unconvertedCost: Object.keys(unconvertedCost).length > 0 ? unconvertedCost : undefined,
+  };
+}
+
+// Cost per resource ID, for assigning costs to discovered assets
+export function costByResource(
+  records: FocusCostRecord[],
+  metric: CostMetric = defaultCostMetric(),
+  converter: CurrencyConverter = identityConverter()
+): Record<string, number> {
+  const costs: Record<string, number> = {};
+  for (const record of records) {
+    if (!record.resourceId) continue;
+    const cost = converter.convert(recordCost(record, metric), record.billingCurrency, record.chargePeriodStart);
+    if (cost === undefined) continue;
+    costs[record.resourceId] = (costs[record.resourceId] || 0) + cost;
+  }
+  return costs;
+}
+
+// Resource IDs differ in casing between billing data and inventory APIs, and GCP
+// billing exports use full resource names ('//compute.googleapis.com/projects/...')
+export function resourceKey(resourceId: string): string {
+  return resourceId.toLowerCase().replace(/^\/\/[^/]+\//, '');
+}
+
+// The same key computed in SQL, for joining stored line items on a resource ID column
+export function resourceKeyColumn(column: string): string {
+  return `REGEXP_REPLACE(LOWER(${column}), '^//[^/]+/', '')`;
+}
+
+// Earliest start and latest end covered by a set of records
+export function chargePeriodRange(records: FocusCostRecord[]): { start: string; end: string } | null {
+  if (records.length === 0) return null;
+
+  let start = records[0].chargePeriodStart;
+  let end = records[0].chargePeriodEnd;
+  for (const record of records) {
+    if (record.chargePeriodStart < start) start = record.chargePeriodStart;
+    if (record.chargePeriodEnd > end) end = record.chargePeriodEnd;
+  }
+  return { start, end };
+}
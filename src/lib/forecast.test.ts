@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { DailyCost } from "./daily-costs";
+import { forecastSpend, projectMonthlySpend, projectPeriodSpend } from "./forecast";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Complete days run to 2026-10-18; the rest of October is 13 days including today
+const NOW = new Date("2026-10-19T08:00:00.000Z");
+const CONTEXT = { currency: "USD", costMetric: "amortized" as const };
+const OPTIONS = { historyDays: 90, confidence: 80 };
+
+// `days` complete days before today, oldest first, costing costOf(index)
+function series(days: number, costOf: (index: number) => number, service = "Amazon EC2", provider: DailyCost["provider"] = "AWS"): DailyCost[] {
+  const first = Date.UTC(2026, 9, 18) - (days - 1) * DAY_MS;
+  return Array.from({ length: days }, (_, index) => ({
+    day: new Date(first + index * DAY_MS).toISOString().slice(0, 10),
+    provider,
+    service,
+    cost: costOf(index),
+  }));
+}
+
+describe("forecastSpend", () => {
+  it("adds the projected rest of the month and quarter to the actual cost so far", () => {
+    const report = forecastSpend(series(60, () => 10), CONTEXT, OPTIONS, NOW);
+
+    expect(report.asOf).toBe("2026-10-18");
+    expect(report.total.month).toEqual({
+      periodStart: "2026-10-01",
+      periodEnd: "2026-10-31",
+      actualCost: 180,
+      forecastCost: 310,
+      lowerBound: 310,
+      upperBound: 310,
+    });
+    // October to December
+    expect(report.total.quarter.forecastCost).toBeCloseTo(180 + (13 + 30 + 31) * 10);
+    expect(report.total.lastMonthCost).toBe(300);
+  });
+
+  it("follows the trend of a long enough history", () => {
+    // One more each day: 60 days ending at 60 on 2026-10-18
+    const report = forecastSpend(series(60, index => index + 1), CONTEXT, OPTIONS, NOW);
+
+    const projected = Array.from({ length: 13 }, (_, day) => 61 + day).reduce((sum, cost) => sum + cost, 0);
+    expect(report.total.month.forecastCost - report.total.month.actualCost).toBeCloseTo(projected);
+  });
+
+  it("projects a flat level from a short history", () => {
+    // Ten days rising from 1 to 10 average 5.5
+    const report = forecastSpend(series(10, index => index + 1), CONTEXT, OPTIONS, NOW);
+
+    expect(report.total.month.forecastCost - report.total.month.actualCost).toBeCloseTo(13 * 5.5);
+  });
+
+  it("keeps the weekly pattern and widens the interval with its noise", () => {
+    // Eight whole weeks, so the weekly cycle does not tilt the trend
+    const first = Date.UTC(2026, 9, 18) - 55 * DAY_MS;
+    const weekly = (index: number) => {
+      const weekend = [0, 6].includes(new Date(first + index * DAY_MS).getUTCDay());
+      return (weekend ? 20 : 100) + (index % 3 - 1) * 5;
+    };
+    const report = forecastSpend([...series(56, weekly), ...series(56, () => 5, "Cloud Storage", "GCP")], CONTEXT, OPTIONS, NOW);
+
+    const month = report.total.month;
+    expect(month.lowerBound).toBeLessThan(month.forecastCost);
+    expect(month.upperBound).toBeGreaterThan(month.forecastCost);
+    // Provider and service breakdowns add up to the total
+    expect(report.byProvider.map(forecast => forecast.provider)).toEqual(["AWS", "GCP"]);
+    expect(report.byProvider.reduce((sum, forecast) => sum + forecast.month.forecastCost, 0)).toBeCloseTo(month.forecastCost);
+    expect(report.byService.map(forecast => forecast.service)).toEqual(["Amazon EC2", "Cloud Storage"]);
+
+    // A projected Saturday costs what Saturdays did, not the weekly average
+    const day = (date: string) => projectPeriodSpend(series(56, weekly), date, date, OPTIONS, NOW).forecastCost;
+    expect(day("2026-10-24")).toBeLessThan(40);
+    expect(day("2026-10-26")).toBeGreaterThan(80);
+  });
+});
+
+describe("projectMonthlySpend", () => {
+  it("projects each remaining month of the quarter per provider", () => {
+    const projections = projectMonthlySpend(series(60, () => 10), OPTIONS, NOW);
+
+    expect(projections.map(projection => [projection.provider, projection.month.slice(0, 10), projection.forecastCost])).toEqual([
+      ["AWS", "2026-10-01", 310],
+      ["AWS", "2026-11-01", 300],
+      ["AWS", "2026-12-01", 310],
+    ]);
+  });
+});
+
+describe("projectPeriodSpend", () => {
+  it("projects any period, such as a budget year", () => {
+    const projection = projectPeriodSpend(series(60, () => 10), "2026-01-01", "2026-12-31", OPTIONS, NOW);
+
+    // The sixty days so far, then 19 October to 31 December
+    expect(projection.actualCost).toBe(600);
+    expect(projection.forecastCost).toBeCloseTo(600 + 74 * 10);
+  });
+});
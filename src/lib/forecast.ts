@@ -0,0 +1,284 @@
+// Spend forecasting
+// Every provider and service's daily cost is fitted with a linear trend and additive
+// day-of-week offsets over its recent complete days. The rest of the month and quarter is
+// projected from that fit, and the spread of the residuals gives the confidence interval:
+// the error of a sum of r projected days grows with sqrt(r), plus r / sqrt(n) for the
+// level itself being estimated from n days. Provider and overall forecasts add them up.
+
+import { CloudProvider, CostMetric, ForecastReport, MonthlyProjection, SpendForecast, SpendProjection } from '@/types';
+import { DailyCost } from './daily-costs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Two-sided normal quantiles for the supported confidence levels
+const Z_SCORES: Record<number, number> = { 80: 1.2816, 90: 1.6449, 95: 1.96 };
+// Shorter histories project a flat level, since a trend over a few weeks is mostly noise
+const TREND_MIN_DAYS = 28;
+const WEEKDAY_MIN_DAYS = 14;
+
+export const FORECAST_CONFIDENCE_LEVELS = Object.keys(Z_SCORES).map(Number);
+
+export interface ForecastOptions {
+  historyDays: number;  // Complete days the fit uses
+  confidence: number;  // 80, 90 or 95 percent
+}
+
+export function defaultForecastOptions(): ForecastOptions {
+  const confidence = Number(process.env.FORECAST_CONFIDENCE);
+  return {
+    historyDays: Number(process.env.FORECAST_HISTORY_DAYS) || 90,
+    confidence: Z_SCORES[confidence] ? confidence : 80,
+  };
+}
+
+// First day of the last month and the quarter, the earliest days a forecast needs besides its history
+export function forecastStart(options: ForecastOptions, now: Date = new Date()): Date {
+  const today = Date.parse(isoDay(now.getTime()));
+  const lastMonth = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1);
+  const quarter = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - now.getUTCMonth() % 3, 1);
+  return new Date(Math.min(lastMonth, quarter, today - options.historyDays * DAY_MS));
+}
+
+interface Fit {
+  origin: number;  // Time of the first fitted day
+  intercept: number;
+  slope: number;  // Per day
+  offsets: number[];  // By UTC weekday
+  sigma: number;  // Standard deviation of a day's residual
+  days: number;
+}
+
+// A period's cost before the interval is applied, so forecasts of parts can be added up
+interface PeriodForecast {
+  start: number;
+  end: number;
+  actualCost: number;
+  projectedCost: number;
+  error: number;  // Standard error of the projected cost
+}
+
+interface ServiceForecast {
+  provider: CloudProvider;
+  service: string;
+  month: PeriodForecast;
+  quarter: PeriodForecast;
+  lastMonthCost: number;
+}
+
+// Month-end and quarter-end spend per provider and service, and their sums per provider
+// and overall, so the breakdowns add up. Service errors are treated as independent.
+// Today is projected rather than counted, since its costs are still arriving.
+export function forecastSpend(
+  costs: DailyCost[],
+  context: { currency: string; costMetric: CostMetric },
+  options: ForecastOptions = defaultForecastOptions(),
+  now: Date = new Date()
+): Omit<ForecastReport, 'periodCost' | 'unconvertedCost'> {
+  const today = Date.parse(isoDay(now.getTime()));
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const quarter = month - month % 3;
+  const z = Z_SCORES[options.confidence];
+
+  const services: ServiceForecast[] = [];
+  for (const [key, series] of groupCosts(costs, cost => `${cost.provider}|${cost.service}`)) {
+    const fit = fitSeries(series, today - DAY_MS, options.historyDays);
+    const [provider, service] = key.split('|');
+    services.push({
+      provider: provider as CloudProvider,
+      service,
+      month: forecastPeriod(series, fit, Date.UTC(year, month, 1), Date.UTC(year, month + 1, 0), today),
+      quarter: forecastPeriod(series, fit, Date.UTC(year, quarter, 1), Date.UTC(year, quarter + 3, 0), today),
+      lastMonthCost: sumCosts(series, Date.UTC(year, month - 1, 1), Date.UTC(year, month, 0)),
+    });
+  }
+
+  const combine = (parts: ServiceForecast[], scope: { provider?: CloudProvider; service?: string }): SpendForecast => ({
+    ...scope,
+    month: toProjection(sumPeriods(parts.map(part => part.month), Date.UTC(year, month, 1), Date.UTC(year, month + 1, 0)), z),
+    quarter: toProjection(sumPeriods(parts.map(part => part.quarter), Date.UTC(year, quarter, 1), Date.UTC(year, quarter + 3, 0)), z),
+    lastMonthCost: parts.reduce((sum, part) => sum + part.lastMonthCost, 0),
+  });
+  const providers = Array.from(new Set(services.map(service => service.provider)));
+
+  return {
+    costMetric: context.costMetric,
+    currency: context.currency,
+    confidence: options.confidence,
+    asOf: isoDay(today - DAY_MS),
+    historyDays: options.historyDays,
+    total: combine(services, {}),
+    byProvider: providers.map(provider => combine(services.filter(service => service.provider === provider), { provider })),
+    byService: services
+      .map(service => combine([service], { provider: service.provider, service: service.service }))
+      .sort((a, b) => b.month.forecastCost - a.month.forecastCost),
+  };
+}
+
+// Each provider's total for the current month and the remaining months of the quarter,
+// summed from its services like forecastSpend does
+export function projectMonthlySpend(
+  costs: DailyCost[],
+  options: ForecastOptions = defaultForecastOptions(),
+  now: Date = new Date()
+): MonthlyProjection[] {
+  const today = Date.parse(isoDay(now.getTime()));
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const months: number[] = [];
+  for (let index = month; index < month - month % 3 + 3; index++) months.push(index);
+
+  const periods = new Map<string, PeriodForecast[]>();
+  for (const [key, series] of groupCosts(costs, cost => `${cost.provider}|${cost.service}`)) {
+    const fit = fitSeries(series, today - DAY_MS, options.historyDays);
+    const provider = key.split('|')[0];
+    for (const index of months) {
+      const periodKey = `${provider}|${index}`;
+      const period = forecastPeriod(series, fit, Date.UTC(year, index, 1), Date.UTC(year, index + 1, 0), today);
+      periods.set(periodKey, [...(periods.get(periodKey) || []), period]);
+    }
+  }
+
+  return Array.from(periods.entries()).map(([key, parts]) => {
+    const [provider, index] = key.split('|');
+    const start = Date.UTC(year, Number(index), 1);
+    const projection = toProjection(sumPeriods(parts, start, Date.UTC(year, Number(index) + 1, 0)), Z_SCORES[options.confidence]);
+    return {
+      provider: provider as CloudProvider,
+      month: new Date(start).toISOString(),
+      actualCost: projection.actualCost,
+      forecastCost: projection.forecastCost,
+      lowerBound: projection.lowerBound,
+      upperBound: projection.upperBound,
+    };
+  });
+}
+
+// Spend between two days (YYYY-MM-DD, inclusive), summed from per-service fits like
+// forecastSpend; for periods other than the calendar month and quarter, such as a budget's year
+export function projectPeriodSpend(
+  costs: DailyCost[],
+  start: string,
+  end: string,
+  options: ForecastOptions = defaultForecastOptions(),
+  now: Date = new Date()
+): SpendProjection {
+  const today = Date.parse(isoDay(now.getTime()));
+  const startTime = Date.parse(start);
+  const endTime = Date.parse(end);
+  const parts = Array.from(groupCosts(costs, cost => `${cost.provider}|${cost.service}`).values())
+    .map(series => forecastPeriod(series, fitSeries(series, today - DAY_MS, options.historyDays), startTime, endTime, today));
+  return toProjection(sumPeriods(parts, startTime, endTime), Z_SCORES[options.confidence]);
+}
+
+// Actual cost of the period's complete days plus the fit's projection of the rest
+function forecastPeriod(costs: Map<string, number>, fit: Fit, start: number, end: number, today: number): PeriodForecast {
+  let projectedCost = 0;
+  let remaining = 0;
+  for (let time = Math.max(start, today); time <= end; time += DAY_MS) {
+    projectedCost += predict(fit, time);
+    remaining++;
+  }
+  return {
+    start,
+    end,
+    actualCost: sumCosts(costs, start, Math.min(end, today - DAY_MS)),
+    projectedCost,
+    error: fit.sigma * Math.sqrt(remaining + remaining * remaining / Math.max(fit.days, 1)),
+  };
+}
+
+function sumPeriods(parts: PeriodForecast[], start: number, end: number): PeriodForecast {
+  return {
+    start,
+    end,
+    actualCost: parts.reduce((sum, part) => sum + part.actualCost, 0),
+    projectedCost: parts.reduce((sum, part) => sum + part.projectedCost, 0),
+    error: Math.sqrt(parts.reduce((sum, part) => sum + part.error ** 2, 0)),
+  };
+}
+
+function toProjection(period: PeriodForecast, z: number): SpendProjection {
+  return {
+    periodStart: isoDay(period.start),
+    periodEnd: isoDay(period.end),
+    actualCost: period.actualCost,
+    forecastCost: period.actualCost + period.projectedCost,
+    lowerBound: period.actualCost + Math.max(0, period.projectedCost - z * period.error),
+    upperBound: period.actualCost + period.projectedCost + z * period.error,
+  };
+}
+
+// Least squares trend and weekday offsets over the days from the series' first cost (or
+// the start of the history window) to the last complete day; days without cost count as zero
+function fitSeries(costs: Map<string, number>, lastDay: number, historyDays: number): Fit {
+  const firstDay = Array.from(costs.keys()).sort()[0];
+  const origin = Math.max(lastDay - (historyDays - 1) * DAY_MS, firstDay ? Date.parse(firstDay) : Infinity);
+  const points: Array<{ t: number; weekday: number; cost: number }> = [];
+  for (let time = origin; time <= lastDay; time += DAY_MS) {
+    points.push({ t: (time - origin) / DAY_MS, weekday: new Date(time).getUTCDay(), cost: costs.get(isoDay(time)) || 0 });
+  }
+
+  const offsets = new Array(7).fill(0);
+  const n = points.length;
+  if (n === 0) return { origin: lastDay, intercept: 0, slope: 0, offsets, sigma: 0, days: 0 };
+
+  const meanT = points.reduce((sum, point) => sum + point.t, 0) / n;
+  const meanCost = points.reduce((sum, point) => sum + point.cost, 0) / n;
+  let slope = 0;
+  if (n >= TREND_MIN_DAYS) {
+    const covariance = points.reduce((sum, point) => sum + (point.t - meanT) * (point.cost - meanCost), 0);
+    const variance = points.reduce((sum, point) => sum + (point.t - meanT) ** 2, 0);
+    slope = covariance / variance;
+  }
+  const intercept = meanCost - slope * meanT;
+
+  if (n >= WEEKDAY_MIN_DAYS) {
+    const sums = new Array(7).fill(0);
+    const counts = new Array(7).fill(0);
+    for (const point of points) {
+      sums[point.weekday] += point.cost - (intercept + slope * point.t);
+      counts[point.weekday]++;
+    }
+    for (let weekday = 0; weekday < 7; weekday++) offsets[weekday] = counts[weekday] ? sums[weekday] / counts[weekday] : 0;
+    // Centered, so the offsets only move cost between weekdays
+    const meanOffset = offsets.reduce((sum, offset) => sum + offset, 0) / 7;
+    for (let weekday = 0; weekday < 7; weekday++) offsets[weekday] -= meanOffset;
+  }
+
+  const parameters = 1 + (n >= TREND_MIN_DAYS ? 1 : 0) + (n >= WEEKDAY_MIN_DAYS ? 6 : 0);
+  const squaredError = points.reduce((sum, point) =>
+    sum + (point.cost - (intercept + slope * point.t + offsets[point.weekday])) ** 2, 0);
+  // A single day says nothing about the spread, so it gets an interval as wide as its cost
+  const sigma = n > parameters ? Math.sqrt(squaredError / (n - parameters)) : Math.abs(meanCost);
+
+  return { origin, intercept, slope, offsets, sigma, days: n };
+}
+
+function predict(fit: Fit, time: number): number {
+  const t = (time - fit.origin) / DAY_MS;
+  return Math.max(0, fit.intercept + fit.slope * t + fit.offsets[new Date(time).getUTCDay()]);
+}
+
+// Daily cost per group key
+function groupCosts(costs: DailyCost[], keyOf: (cost: DailyCost) => string): Map<string, Map<string, number>> {
+  const groups = new Map<string, Map<string, number>>();
+  for (const cost of costs) {
+    const series = groups.get(keyOf(cost)) || new Map<string, number>();
+    series.set(cost.day, (series.get(cost.day) || 0) + cost.cost);
+    groups.set(keyOf(cost), series);
+  }
+  return groups;
+}
+
+function sumCosts(costs: Map<string, number>, start: number, end: number): number {
+  let total = 0;
+  for (const [day, cost] of costs) {
+    const time = Date.parse(day);
+    if (time >= start && time <= end) total += cost;
+  }
+  return total;
+}
+
+function isoDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
@@ -0,0 +1,76 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { gzipSync } from "zlib";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { importAWSCurDirectory, importAWSCurFiles } from "./aws-cur";
+
+const HEADER = [
+  "lineItem/UsageStartDate",
+  "lineItem/UsageAccountId",
+  "lineItem/LineItemType",
+  "lineItem/ProductCode",
+  "lineItem/ResourceId",
+  "lineItem/UnblendedCost",
+  "lineItem/BlendedCost",
+  "savingsPlan/SavingsPlanEffectiveCost",
+  "product/region",
+  "resourceTags/user:team",
+].join(",");
+
+const csv = (...lines: string[]) => [HEADER, ...lines].join("\r\n") + "\r\n";
+
+describe("importAWSCurDirectory", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "cur-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("streams gzipped reports and aggregates line items per resource and day", async () => {
+    await fs.mkdir(path.join(directory, "2026-10"));
+    await fs.writeFile(path.join(directory, "2026-10", "report-1.csv.gz"), gzipSync(csv(
+      "2026-10-01T00:00:00Z,111111111111,Usage,AmazonEC2,i-0abc,1.50,1.40,,us-east-1,payments",
+      "2026-10-01T13:00:00Z,111111111111,Usage,AmazonEC2,i-0abc,2.50,2.60,,us-east-1,payments",
+      "2026-10-01T00:00:00Z,111111111111,SavingsPlanCoveredUsage,AmazonEC2,i-0def,3.00,3.00,1.20,us-east-1,\"search\nplatform\"",
+      "2026-10-01T00:00:00Z,111111111111,Tax,AmazonEC2,,0.80,0.80,,,"
+    )));
+    await fs.writeFile(path.join(directory, "notes.txt"), "not a report");
+
+    const records = await importAWSCurDirectory(directory);
+
+    expect(records.map(r => [r.chargeCategory, r.resourceId, r.billedCost, r.effectiveCost, r.tags])).toEqual([
+      ["Usage", "i-0abc", 4, 4, { team: "payments" }],
+      ["Usage", "i-0def", 3, 1.2, { team: "search\nplatform" }],
+      ["Tax", undefined, 0.8, 0.8, {}],
+    ]);
+    expect(records[0]).toMatchObject({
+      providerName: "AWS",
+      subAccountId: "111111111111",
+      regionId: "us-east-1",
+      blendedCost: 4,
+      chargePeriodStart: "2026-10-01T00:00:00.000Z",
+      chargePeriodEnd: "2026-10-02T00:00:00.000Z",
+    });
+  });
+
+  it("rejects directories without reports", async () => {
+    await expect(importAWSCurDirectory(directory)).rejects.toThrow(`No CUR files found in ${directory}`);
+  });
+});
+
+describe("importAWSCurFiles", () => {
+  it("reads uploaded reports from memory", async () => {
+    const records = await importAWSCurFiles([{
+      name: "upload.csv",
+      data: Buffer.from(csv("2026-10-02T00:00:00Z,222222222222,Usage,AmazonS3,bucket-a,0.25,0.25,,us-west-2,")),
+    }]);
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ subAccountId: "222222222222", serviceName: "AmazonS3", billedCost: 0.25 });
+  });
+});
@@ -0,0 +1,211 @@
+// AWS Cost and Usage Report (CUR) importer
+// Reads CUR exports (CSV, CSV.gz or Parquet, legacy and CUR 2.0 column layouts)
+// and maps line items into per-resource, per-day FOCUS cost records
+
+import { asyncBufferFromFile, parquetMetadataAsync, parquetReadObjects } from "hyparquet";
+import { compressors } from "hyparquet-compressors";
+import { ChargeCategory, CostCategory, FocusCostRecord } from "@/types";
+import { createFocusAggregator, dayChargePeriod } from "@/lib/focus";
+import { parseCsvLines } from "./csv";
+import { ExportFile, listExportFiles, parseAmount, readExportLines, toUsageDate } from "./common";
+
+export const CUR_FILE_EXTENSIONS = [".csv", ".csv.gz", ".parquet"];
+
+export async function importAWSCurDirectory(directory: string): Promise<FocusCostRecord[]> {
+  const files = await listExportFiles(directory, CUR_FILE_EXTENSIONS);
+  if (files.length === 0) {
+    throw new Error(`No CUR files found in ${directory}`);
+  }
+  return importAWSCurFiles(files);
+}
+
+export async function importAWSCurFiles(files: ExportFile[]): Promise<FocusCostRecord[]> {
+  const aggregator = createFocusAggregator();
+
+  for (const file of files) {
+    const records = file.name.toLowerCase().endsWith(".parquet")
+      ? readParquetRecords(file)
+      : parseCsvLines(readExportLines(file));
+
+    for await (const record of records) {
+      const row = mapCurLineItem(record);
+      if (row) aggregator.add(row);
+    }
+  }
+
+  return aggregator.records();
+}
+
+// Parquet files are read one row group at a time rather than decoded whole
+async function* readParquetRecords(file: ExportFile): AsyncGenerator<Record<string, unknown>> {
+  const data = file.data ?? Buffer.alloc(0);
+  const buffer = file.path
+    ? await asyncBufferFromFile(file.path)
+    : data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+  const metadata = await parquetMetadataAsync(buffer);
+
+  let rowStart = 0;
+  for (const rowGroup of metadata.row_groups) {
+    const rowEnd = rowStart + Number(rowGroup.num_rows);
+    yield* await parquetReadObjects({ file: buffer, metadata, rowStart, rowEnd, compressors });
+    rowStart = rowEnd;
+  }
+}
+
+// Map a raw CUR record to a daily FOCUS record. Column names are normalised so that
+// legacy CSV headers (lineItem/UsageStartDate) and Athena/CUR 2.0 Parquet columns
+// (line_item_usage_start_date) resolve to the same keys.
+function mapCurLineItem(record: Record<string, unknown>): FocusCostRecord | null {
+  const columns: Record<string, unknown> = {};
+  const tags: Record<string, string> = {};
+
+  for (const [rawKey, value] of Object.entries(record)) {
+    const key = normalizeCurColumn(rawKey);
+    columns[key] = value;
+
+    const tagKey = extractTagKey(rawKey, key);
+    if (tagKey && value !== null && value !== undefined && value !== "") {
+      tags[tagKey] = String(value);
+    }
+  }
+
+  // CUR 2.0 exposes tags as a single map column
+  const tagMap = columns["resource_tags"];
+  if (tagMap && typeof tagMap === "object") {
+    for (const [key, value] of Object.entries(tagMap as Record<string, unknown>)) {
+      if (value !== null && value !== undefined && value !== "") {
+        tags[key.replace(/^(user|aws):/, "")] = String(value);
+      }
+    }
+  }
+
+  const date = toUsageDate(columns["line_item_usage_start_date"]);
+  if (!date) return null;
+
+  const availabilityZone = String(columns["line_item_availability_zone"] || "");
+  const region = String(
+    columns["product_region_code"] ||
+    columns["product_region"] ||
+    (availabilityZone ? availabilityZone.replace(/[a-z]$/, "") : "") ||
+    "global"
+  );
+
+  const lineItemType = String(columns["line_item_line_item_type"] || "Usage");
+  const accountId = String(columns["line_item_usage_account_id"] || "");
+  const accountName = String(columns["line_item_usage_account_name"] || "");
+  const effectiveCost = amortizedCost(lineItemType, columns);
+  const serviceName = String(columns["product_product_name"] || columns["line_item_product_code"] || "unknown");
+
+  return {
+    providerName: "AWS",
+    billedCost: parseAmount(columns["line_item_unblended_cost"]),
+    effectiveCost,
+    blendedCost: parseAmount(columns["line_item_blended_cost"]),
+    netCost: netAmortizedCost(lineItemType, columns, effectiveCost),
+    billingCurrency: String(columns["line_item_currency_code"] || "USD"),
+    chargeCategory: chargeCategoryFor(lineItemType),
+    costCategory: costCategoryFor(lineItemType, serviceName, String(columns["bill_billing_entity"] || "")),
+    ...dayChargePeriod(date),
+    serviceName,
+    regionId: region,
+    resourceId: String(columns["line_item_resource_id"] || "") || undefined,
+    subAccountId: accountId || undefined,
+    subAccountName: accountName || undefined,
+    tags,
+  };
+}
+
+function chargeCategoryFor(lineItemType: string): ChargeCategory {
+  switch (lineItemType) {
+    case "Tax":
+      return "Tax";
+    case "Credit":
+    case "Refund":
+    case "Discount":
+    case "BundledDiscount":
+    case "PrivateRateDiscount":
+    case "EdpDiscount":
+      return "Credit";
+    case "Fee":
+    case "RIFee":
+    case "SavingsPlanUpfrontFee":
+    case "SavingsPlanRecurringFee":
+      return "Purchase";
+    default:
+      return "Usage";
+  }
+}
+
+// Refunds and credits are told apart from discounts, which are counted as credits;
+// marketplace charges are billed by the "AWS Marketplace" billing entity
+function costCategoryFor(lineItemType: string, serviceName: string, billingEntity: string): CostCategory {
+  if (lineItemType === "Refund") return "Refund";
+  if (chargeCategoryFor(lineItemType) === "Credit") return "Credit";
+  if (lineItemType === "Tax") return "Tax";
+  if (billingEntity === "AWS Marketplace") return "Marketplace";
+  if (/^AWS Support/.test(serviceName)) return "Support";
+  return "Usage";
+}
+
+// Amortized cost per line item type, following AWS's documented CUR amortization:
+// commitment-covered usage carries its effective cost, recurring fees only the unused
+// commitment, and upfront fees and negations are spread over usage instead
+function amortizedCost(lineItemType: string, columns: Record<string, unknown>): number {
+  const unblended = parseAmount(columns["line_item_unblended_cost"]);
+
+  switch (lineItemType) {
+    case "SavingsPlanCoveredUsage":
+      return parseAmount(columns["savings_plan_savings_plan_effective_cost"]);
+    case "SavingsPlanRecurringFee":
+      return parseAmount(columns["savings_plan_total_commitment_to_date"]) - parseAmount(columns["savings_plan_used_commitment"]);
+    case "SavingsPlanNegation":
+    case "SavingsPlanUpfrontFee":
+      return 0;
+    case "DiscountedUsage":
+      return parseAmount(columns["reservation_effective_cost"]);
+    case "RIFee":
+      return parseAmount(columns["reservation_unused_amortized_upfront_fee_for_billing_period"]) +
+        parseAmount(columns["reservation_unused_recurring_fee"]);
+    case "Fee":
+      // Upfront reservation purchases are amortized into DiscountedUsage
+      return columns["reservation_reservation_arn"] || columns["reservation_reservation_a_r_n"] ? 0 : unblended;
+    default:
+      return unblended;
+  }
+}
+
+// Amortized cost after negotiated discounts (EDP, private pricing). The net columns
+// only exist in reports for accounts with such discounts; without them the amortized
+// cost is used as is.
+function netAmortizedCost(lineItemType: string, columns: Record<string, unknown>, amortized: number): number | undefined {
+  const netUnblended = columns["line_item_net_unblended_cost"];
+  if (netUnblended === undefined || netUnblended === null || netUnblended === "") return undefined;
+  if (amortized === 0) return 0;
+
+  switch (lineItemType) {
+    case "SavingsPlanCoveredUsage":
+      return parseAmount(columns["savings_plan_net_savings_plan_effective_cost"]);
+    case "DiscountedUsage":
+      return parseAmount(columns["reservation_net_effective_cost"]);
+    default:
+      // Everything else carries the same discount as its unblended cost
+      return amortized - (parseAmount(columns["line_item_unblended_cost"]) - parseAmount(netUnblended));
+  }
+}
+
+// lineItem/UsageStartDate -> line_item_usage_start_date
+function normalizeCurColumn(name: string): string {
+  return name
+    .split(/[/:]/)
+    .map(part => part.replace(/([a-z0-9])([A-Z])/g, "$1_$2"))
+    .join("_")
+    .toLowerCase();
+}
+
+function extractTagKey(rawKey: string, normalizedKey: string): string | null {
+  const csvMatch = rawKey.match(/^resourceTags\/(?:user:|aws:)?(.+)$/);
+  if (csvMatch) return csvMatch[1];
+
+  const parquetMatch = normalizedKey.match(/^resource_tags_(?:user_|aws_)(.+)$/);
+  return parquetMatch ? parquetMatch[1] : null;
+}
@@ -0,0 +1,55 @@
+import { gzipSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { importAzureCostExportFiles } from "./azure-export";
+
+const HEADER = "Date,SubscriptionId,ResourceId,ResourceLocation,MeterCategory,CostInBillingCurrency,BillingCurrencyCode,ChargeType,PricingModel,PublisherType,Tags";
+
+const csv = (...lines: string[]) => Buffer.from([HEADER, ...lines].join("\n"));
+
+const VM = "/subscriptions/sub-1/resourceGroups/Web/providers/Microsoft.Compute/virtualMachines/Web-01";
+
+const LINES = [
+  `10/01/2026,sub-1,${VM},West Europe,Virtual Machines,4.00,EUR,Usage,OnDemand,Azure,"""env"": ""prod"",""team"": ""web"""`,
+  `10/01/2026,sub-1,${VM},West Europe,Virtual Machines,6.00,EUR,Usage,Reservation,Azure,"{""team"": ""web""}"`,
+  "10/01/2026,sub-1,,global,Azure Support,30.00,EUR,Purchase,OnDemand,Azure,",
+  "10/02/2026,sub-1,,global,Virtual Machines,-5.00,EUR,Refund,OnDemand,Azure,",
+  "10/02/2026,sub-1,,global,Tax,2.00,EUR,Tax,OnDemand,Azure,",
+  "10/02/2026,sub-1,,West Europe,SaaS,12.00,EUR,Usage,OnDemand,Marketplace,",
+];
+
+describe("importAzureCostExportFiles", () => {
+  it("maps charge and publisher types and sums line items per resource and day", async () => {
+    const records = await importAzureCostExportFiles([{ name: "export.csv.gz", data: gzipSync(csv(...LINES)) }]);
+
+    expect(records.map(r => [r.chargePeriodStart.slice(0, 10), r.chargeCategory, r.costCategory, r.serviceName, r.billedCost])).toEqual([
+      ["2026-10-01", "Usage", "Usage", "Virtual Machines", 10],
+      ["2026-10-01", "Purchase", "Support", "Azure Support", 30],
+      ["2026-10-02", "Credit", "Refund", "Virtual Machines", -5],
+      ["2026-10-02", "Tax", "Tax", "Tax", 2],
+      ["2026-10-02", "Usage", "Marketplace", "SaaS", 12],
+    ]);
+    expect(records[0]).toMatchObject({
+      providerName: "Azure",
+      billingCurrency: "EUR",
+      regionId: "westeurope",
+      resourceId: VM.toLowerCase(),
+      subAccountId: "sub-1",
+      tags: { env: "prod", team: "web" },
+    });
+  });
+
+  it("bills reservation-covered usage at zero in amortized exports", async () => {
+    const [vm] = await importAzureCostExportFiles([{ name: "export.csv", data: csv(...LINES.slice(0, 2)) }], "amortized");
+
+    expect([vm.billedCost, vm.effectiveCost]).toEqual([4, 10]);
+  });
+
+  it("skips files of the other export type", async () => {
+    const records = await importAzureCostExportFiles([
+      { name: "ActualCost_202610.csv", data: csv(LINES[0]) },
+      { name: "AmortizedCost_202610.csv", data: csv(LINES[1]) },
+    ], "actual");
+
+    expect(records.map(r => r.billedCost)).toEqual([4]);
+  });
+});
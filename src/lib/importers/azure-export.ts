@@ -0,0 +1,119 @@
+// Azure Cost Management export importer
+// Reads scheduled-export CSV files (actual or amortized cost, EA/MCA and legacy
+// pay-as-you-go column layouts) into per-resource, per-day FOCUS cost records
+
+import { ChargeCategory, CostCategory, FocusCostRecord } from "@/types";
+import { createFocusAggregator, dayChargePeriod } from "@/lib/focus";
+import { parseCsvLines } from "./csv";
+import { ExportFile, listExportFiles, parseAmount, pickColumn, readExportLines, toUsageDate } from "./common";
+
+export type AzureExportType = "actual" | "amortized";
+
+export const AZURE_EXPORT_FILE_EXTENSIONS = [".csv", ".csv.gz"];
+
+export async function importAzureCostExportDirectory(directory: string, type: AzureExportType = "actual"): Promise<FocusCostRecord[]> {
+  const files = await listExportFiles(directory, AZURE_EXPORT_FILE_EXTENSIONS);
+  if (files.length === 0) {
+    throw new Error(`No Azure cost export files found in ${directory}`);
+  }
+  return importAzureCostExportFiles(files, type);
+}
+
+// Actual and amortized exports share a schema, so a share holding both would double
+// count. Files whose name identifies the other export type are skipped.
+export async function importAzureCostExportFiles(files: ExportFile[], type: AzureExportType = "actual"): Promise<FocusCostRecord[]> {
+  const aggregator = createFocusAggregator();
+
+  for (const file of files) {
+    const fileType = detectExportType(file.name);
+    if (fileType && fileType !== type) continue;
+
+    for await (const record of parseCsvLines(readExportLines(file))) {
+      const row = mapExportRow(record, type);
+      if (row) aggregator.add(row);
+    }
+  }
+
+  return aggregator.records();
+}
+
+function detectExportType(fileName: string): AzureExportType | null {
+  const name = fileName.toLowerCase();
+  if (name.includes("amortized")) return "amortized";
+  if (name.includes("actual")) return "actual";
+  return null;
+}
+
+function mapExportRow(record: Record<string, string>, type: AzureExportType): FocusCostRecord | null {
+  const date = toUsageDate(pickColumn(record, ["Date", "UsageDateTime", "UsageDate"]));
+  if (!date) return null;
+
+  const resourceId = pickColumn(record, ["ResourceId", "InstanceId", "InstanceName"]) as string | undefined;
+  const subscriptionId = pickColumn(record, ["SubscriptionId", "SubscriptionGuid"]) as string | undefined;
+  const cost = parseAmount(pickColumn(record, ["CostInBillingCurrency", "Cost", "PreTaxCost"]));
+  const pricingModel = String(pickColumn(record, ["PricingModel"]) || "");
+  const chargeType = String(pickColumn(record, ["ChargeType"]) || "Usage");
+  const serviceName = String(pickColumn(record, ["MeterCategory", "ServiceName", "ConsumedService"]) || "unknown");
+
+  // Amortized exports spread reservation and savings plan purchases over the usage
+  // they cover; that usage is not billed again, so its billed cost is zero
+  const commitmentUsage = pricingModel === "Reservation" || pricingModel === "SavingsPlan";
+  const billedCost = type === "amortized" && commitmentUsage ? 0 : cost;
+
+  return {
+    providerName: "Azure",
+    billedCost,
+    effectiveCost: cost,
+    billingCurrency: String(pickColumn(record, ["BillingCurrencyCode", "BillingCurrency", "Currency"]) || "USD"),
+    chargeCategory: azureChargeCategory(chargeType),
+    costCategory: azureCostCategory(chargeType, serviceName, String(pickColumn(record, ["PublisherType"]) || "")),
+    ...dayChargePeriod(date),
+    serviceName,
+    regionId: String(pickColumn(record, ["ResourceLocation", "Location"]) || "unknown").toLowerCase().replace(/\s+/g, ""),
+    // Resource IDs differ in casing between exports and Resource Graph
+    resourceId: resourceId ? resourceId.toLowerCase() : undefined,
+    subAccountId: subscriptionId || undefined,
+    tags: parseExportTags(pickColumn(record, ["Tags"]) as string | undefined),
+  };
+}
+
+// Shared with the live Cost Management query, which reports the same ChargeType and
+// PublisherType values
+export function azureChargeCategory(chargeType: string): ChargeCategory {
+  switch (chargeType) {
+    case "Purchase":
+      return "Purchase";
+    case "Refund":
+      return "Credit";
+    case "Tax":
+      return "Tax";
+    case "RoundingAdjustment":
+      return "Adjustment";
+    default:
+      return "Usage";
+  }
+}
+
+// Marketplace charges carry the Marketplace publisher type; support plans are billed
+// under an "Azure Support" style meter category
+export function azureCostCategory(chargeType: string, serviceName: string, publisherType: string): CostCategory {
+  if (chargeType === "Refund") return "Refund";
+  if (chargeType === "Tax") return "Tax";
+  if (publisherType.toLowerCase() === "marketplace") return "Marketplace";
+  if (/support/i.test(serviceName)) return "Support";
+  return "Usage";
+}
+
+// Tags are exported as JSON, sometimes without the surrounding braces
+// ("env": "prod","team": "web")
+function parseExportTags(raw: string | undefined): Record<string, string> {
+  if (!raw || raw.trim() === "") return {};
+
+  const text = raw.trim().startsWith("{") ? raw.trim() : `{${raw.trim()}}`;
+  try {
+    const tags = JSON.parse(text) as Record<string, unknown>;
+    return Object.fromEntries(Object.entries(tags).map(([key, value]) => [key, String(value)]));
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,30 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { resolveExportDirectory } from "./common";
+
+const ROOT = path.resolve("/data/exports/cur");
+
+describe("resolveExportDirectory", () => {
+  it("reads the configured directory by default", () => {
+    expect(resolveExportDirectory("/data/exports/cur", undefined, "AWS_CUR_PATH")).toEqual({ directory: ROOT });
+  });
+
+  it("accepts directories inside the configured one", () => {
+    expect(resolveExportDirectory("/data/exports/cur", "2026/10", "AWS_CUR_PATH")).toEqual({ directory: path.join(ROOT, "2026/10") });
+    expect(resolveExportDirectory("/data/exports/cur", path.join(ROOT, "2026"), "AWS_CUR_PATH")).toEqual({ directory: path.join(ROOT, "2026") });
+  });
+
+  it("rejects paths outside the configured directory", () => {
+    for (const requested of ["/etc", "../azure", "2026/../../..", "/data/exports/cur-other"]) {
+      expect(resolveExportDirectory("/data/exports/cur", requested, "AWS_CUR_PATH")).toEqual({
+        error: '"directory" must be AWS_CUR_PATH or a directory inside it',
+      });
+    }
+  });
+
+  it("rejects every directory when none is configured", () => {
+    expect(resolveExportDirectory(undefined, "/data/exports/cur", "AWS_CUR_PATH")).toEqual({
+      error: "No export directory configured (set AWS_CUR_PATH)",
+    });
+  });
+});
@@ -0,0 +1,117 @@
+// Shared helpers for offline billing export importers
+// Exports can be several gigabytes, so files on disk are streamed (and gunzipped) line
+// by line rather than read whole.
+import { createReadStream, promises as fs } from "fs";
+import path from "path";
+import { createInterface } from "readline";
+import { Readable } from "stream";
+import { createGunzip } from "zlib";
+
+// An export file on disk (path) or uploaded into memory (data)
+export interface ExportFile {
+  name: string;
+  path?: string;
+  data?: Buffer;
+}
+
+// Recursively list export files below a directory, keeping only matching extensions
+export async function listExportFiles(directory: string, extensions: string[]): Promise<ExportFile[]> {
+  const files: ExportFile[] = [];
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const fullPath = path.join(directory, entry.name);
+
+    if (entry.isDirectory()) {
+      files.push(...await listExportFiles(fullPath, extensions));
+    } else if (extensions.some(ext => entry.name.toLowerCase().endsWith(ext))) {
+      files.push({ name: fullPath, path: fullPath });
+    }
+  }
+
+  return files;
+}
+
+// The directory an import request reads: the configured export directory, or a
+// directory inside it (relative paths are taken from it). Requests never reach paths
+// outside it, so a caller cannot make the server read arbitrary directories.
+export function resolveExportDirectory(
+  configured: string | undefined,
+  requested: unknown,
+  setting: string
+): { directory: string } | { error: string } {
+  if (!configured) return { error: `No export directory configured (set ${setting})` };
+  const root = path.resolve(configured);
+  if (requested === undefined || requested === null || requested === "") return { directory: root };
+  if (typeof requested !== "string") return { error: '"directory" must be a string' };
+
+  const directory = path.resolve(root, requested);
+  const relative = path.relative(root, directory);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    return { error: `"directory" must be ${setting} or a directory inside it` };
+  }
+  return { directory };
+}
+
+// Convert uploaded multipart files into export files
+export async function loadUploadedFiles(uploads: File[]): Promise<ExportFile[]> {
+  return Promise.all(
+    uploads.map(async upload => ({
+      name: upload.name,
+      data: Buffer.from(await upload.arrayBuffer()),
+    }))
+  );
+}
+
+// Lines of a text export, transparently gunzipping .gz files
+export function readExportLines(file: ExportFile): AsyncIterable<string> {
+  const gzip = file.name.toLowerCase().endsWith(".gz") || (file.data?.[0] === 0x1f && file.data?.[1] === 0x8b);
+  const source = file.path ? createReadStream(file.path) : Readable.from([file.data ?? Buffer.alloc(0)]);
+  const input = gzip ? source.pipe(createGunzip()) : source;
+  // Stream errors (a missing file, a corrupt archive) surface through the line iterator
+  if (gzip) source.on("error", (error: Error) => input.destroy(error));
+  return createInterface({ input, crlfDelay: Infinity });
+}
+
+export function parseAmount(value: unknown): number {
+  if (typeof value === "number") return Number.isFinite(value) ? value : 0;
+  if (typeof value === "bigint") return Number(value);
+  if (typeof value !== "string" || value.trim() === "") return 0;
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+// Normalise a timestamp or date value to a YYYY-MM-DD usage day (UTC)
+export function toUsageDate(value: unknown): string | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  if (typeof value !== "string" || value.trim() === "") return null;
+
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(trimmed) && !trimmed.includes("T") && !trimmed.includes(" ")) {
+    return trimmed.slice(0, 10);
+  }
+
+  // US-style dates (MM/DD/YYYY) as used by Azure Cost Management exports
+  const usDate = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (usDate) {
+    return `${usDate[3]}-${usDate[1].padStart(2, "0")}-${usDate[2].padStart(2, "0")}`;
+  }
+
+  const parsed = new Date(trimmed);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10);
+}
+
+// Case-insensitive column lookup across the alternative names used by different export schemas
+export function pickColumn(record: Record<string, unknown>, names: string[]): unknown {
+  for (const name of names) {
+    if (record[name] !== undefined && record[name] !== "") return record[name];
+  }
+
+  const lowered = new Map(Object.keys(record).map(key => [key.toLowerCase(), key]));
+  for (const name of names) {
+    const key = lowered.get(name.toLowerCase());
+    if (key !== undefined && record[key] !== "") return record[key];
+  }
+
+  return undefined;
+}
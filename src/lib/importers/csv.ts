@@ -0,0 +1,78 @@
+// Minimal RFC 4180 CSV parser for billing export files
+// Handles quoted fields, escaped quotes, embedded newlines, CRLF and a leading BOM
+
+// Records of a CSV file read line by line; quoted fields spanning lines are joined
+// before parsing, so only one record is held at a time
+export async function* parseCsvLines(lines: AsyncIterable<string>): AsyncGenerator<Record<string, string>> {
+  let header: string[] | undefined;
+  let pending: string | undefined;
+
+  for await (const line of lines) {
+    pending = pending === undefined ? line : `${pending}\n${line}`;
+    // An odd number of quotes leaves a quoted field open; escaped quotes come in pairs
+    if ((pending.match(/"/g)?.length ?? 0) % 2 === 1) continue;
+
+    const [row = [""]] = parseCsvRows(pending);
+    pending = undefined;
+    if (!header) {
+      header = row.map(h => h.trim());
+      continue;
+    }
+    // Skip blank lines (a single empty field)
+    if (row.length === 1 && row[0] === "") continue;
+
+    const record: Record<string, string> = {};
+    header.forEach((column, index) => {
+      record[column] = row[index] ?? "";
+    });
+    yield record;
+  }
+}
+
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
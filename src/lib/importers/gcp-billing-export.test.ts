@@ -0,0 +1,68 @@
+import { gzipSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { importGCPBillingExportFiles } from "./gcp-billing-export";
+
+const row = (fields: Record<string, unknown>) => JSON.stringify({
+  usage_start_time: "2026-10-01T07:00:00Z",
+  service: { description: "Compute Engine" },
+  project: {
+    id: "my-project",
+    ancestors: [
+      { resource_name: "projects/123", display_name: "my-project" },
+      { resource_name: "folders/456", display_name: "web" },
+      { resource_name: "organizations/789", display_name: "example.com" },
+    ],
+  },
+  location: { region: "us-central1" },
+  resource: { name: "instance-1", global_name: "//compute.googleapis.com/projects/my-project/zones/us-central1-a/instances/instance-1" },
+  currency: "USD",
+  cost_type: "regular",
+  labels: [{ key: "team", value: "web" }],
+  credits: [],
+  ...fields,
+});
+
+describe("importGCPBillingExportFiles", () => {
+  it("reads newline-delimited JSON and books credits as separate records", async () => {
+    const lines = [
+      row({ cost: 3 }),
+      row({ cost: 2, usage_start_time: "2026-10-01T19:00:00Z", credits: [{ name: "Sustained use discount", amount: -0.5 }] }),
+      "",
+      row({ cost: 1.5, cost_type: "tax", resource: null, labels: [] }),
+      row({ cost: 4, seller_name: "Example SaaS Inc", service: { description: "Example SaaS" }, resource: null, labels: [] }),
+    ];
+
+    const records = await importGCPBillingExportFiles([{ name: "billing.jsonl.gz", data: gzipSync(lines.join("\n")) }]);
+
+    expect(records.map(r => [r.serviceName, r.chargeCategory, r.costCategory, r.billedCost])).toEqual([
+      ["Compute Engine", "Usage", "Usage", 5],
+      ["Compute Engine", "Credit", "Credit", -0.5],
+      ["Compute Engine", "Tax", "Tax", 1.5],
+      ["Example SaaS", "Usage", "Marketplace", 4],
+    ]);
+    expect(records[0]).toMatchObject({
+      providerName: "GCP",
+      chargePeriodStart: "2026-10-01T00:00:00.000Z",
+      chargePeriodEnd: "2026-10-02T00:00:00.000Z",
+      regionId: "us-central1",
+      resourceId: "//compute.googleapis.com/projects/my-project/zones/us-central1-a/instances/instance-1",
+      subAccountId: "my-project",
+      tags: { team: "web" },
+      ancestry: ["organizations/789", "folders/456"],
+    });
+  });
+
+  it("reads CSV dumps with flattened columns and JSON repeated fields", async () => {
+    const csv = [
+      "usage_start_time,service.description,project.id,location.region,cost,currency,credits,labels",
+      '2026-10-02 00:00:00 UTC,Cloud Storage,my-project,us,1.25,USD,"[{""amount"": -0.25}]","[{""key"": ""team"", ""value"": ""data""}]"',
+    ].join("\n");
+
+    const records = await importGCPBillingExportFiles([{ name: "billing.csv", data: Buffer.from(csv) }]);
+
+    expect(records.map(r => [r.chargePeriodStart.slice(0, 10), r.serviceName, r.chargeCategory, r.billedCost, r.tags])).toEqual([
+      ["2026-10-02", "Cloud Storage", "Usage", 1.25, { team: "data" }],
+      ["2026-10-02", "Cloud Storage", "Credit", -0.25, { team: "data" }],
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+// GCP Cloud Billing export importer
+// Reads standard and detailed (resource-level) billing export rows in the BigQuery
+// export schema, dumped as newline-delimited JSON or CSV, into per-resource,
+// per-day FOCUS cost records. Credits become separate Credit records.
+
+import { FocusCostRecord } from "@/types";
+import { createFocusAggregator, dayChargePeriod } from "@/lib/focus";
+import { parseCsvLines } from "./csv";
+import { ExportFile, listExportFiles, parseAmount, readExportLines, toUsageDate } from "./common";
+
+export const GCP_EXPORT_FILE_EXTENSIONS = [".json", ".jsonl", ".ndjson", ".json.gz", ".jsonl.gz", ".ndjson.gz", ".csv", ".csv.gz"];
+
+export async function importGCPBillingExportDirectory(directory: string): Promise<FocusCostRecord[]> {
+  const files = await listExportFiles(directory, GCP_EXPORT_FILE_EXTENSIONS);
+  if (files.length === 0) {
+    throw new Error(`No GCP billing export files found in ${directory}`);
+  }
+  return importGCPBillingExportFiles(files);
+}
+
+export async function importGCPBillingExportFiles(files: ExportFile[]): Promise<FocusCostRecord[]> {
+  const aggregator = createFocusAggregator();
+
+  for (const file of files) {
+    const lines = readExportLines(file);
+    const records = file.name.toLowerCase().replace(/\.gz$/, "").endsWith(".csv")
+      ? parseCsvLines(lines)
+      : parseJsonLines(lines);
+
+    for await (const record of records) {
+      mapBillingRow(record).forEach(row => aggregator.add(row));
+    }
+  }
+
+  return aggregator.records();
+}
+
+async function* parseJsonLines(lines: AsyncIterable<string>): AsyncGenerator<Record<string, unknown>> {
+  for await (const line of lines) {
+    if (line.trim() !== "") yield JSON.parse(line) as Record<string, unknown>;
+  }
+}
+
+function mapBillingRow(record: Record<string, unknown>): FocusCostRecord[] {
+  const date = toUsageDate(field(record, "usage_start_time"));
+  if (!date) return [];
+
+  const cost = parseAmount(field(record, "cost"));
+  const credits = parseRepeated(field(record, "credits"))
+    .reduce((sum, credit) => sum + parseAmount(credit.amount), 0);
+
+  const tags = Object.fromEntries(
+    parseRepeated(field(record, "labels")).map(label => [String(label.key), String(label.value ?? "")])
+  );
+
+  const resourceName = field(record, "resource.global_name") || field(record, "resource.name");
+  const projectId = field(record, "project.id");
+  const costType = String(field(record, "cost_type") || "regular");
+  const serviceName = String(field(record, "service.description") || "unknown");
+  const sellerName = String(field(record, "seller_name") || "");
+
+  const usage: FocusCostRecord = {
+    providerName: "GCP",
+    billedCost: cost,
+    effectiveCost: cost,
+    billingCurrency: String(field(record, "currency") || "USD"),
+    chargeCategory: costType === "tax" ? "Tax" : costType === "adjustment" ? "Adjustment" : "Usage",
+    // Marketplace SKUs are sold by their publisher rather than Google
+    costCategory: costType === "tax" ? "Tax"
+      : sellerName && !/^Google/i.test(sellerName) ? "Marketplace"
+      : serviceName === "Support" ? "Support"
+      : "Usage",
+    ...dayChargePeriod(date),
+    serviceName,
+    regionId: String(field(record, "location.region") || field(record, "location.location") || "global"),
+    resourceId: resourceName ? String(resourceName) : undefined,
+    subAccountId: projectId ? String(projectId) : undefined,
+    tags,
+    ancestry: parseAncestry(record),
+  };
+
+  if (!credits) return [usage];
+  return [usage, { ...usage, billedCost: credits, effectiveCost: credits, chargeCategory: "Credit", costCategory: "Credit" }];
+}
+
+// Resolve a dotted BigQuery column against nested JSON rows or flattened CSV
+// headers ("service.description" or "service_description")
+function field(record: Record<string, unknown>, path: string): unknown {
+  let value: unknown = record;
+  for (const part of path.split(".")) {
+    if (value === null || typeof value !== "object") {
+      value = undefined;
+      break;
+    }
+    value = (value as Record<string, unknown>)[part];
+  }
+
+  if (value === undefined) value = record[path];
+  if (value === undefined) value = record[path.replace(/\./g, "_")];
+  return value === "" ? undefined : value;
+}
+
+// Repeated fields arrive as arrays in JSON and as JSON strings in CSV dumps
+function parseRepeated(value: unknown): Record<string, unknown>[] {
+  if (Array.isArray(value)) return value as Record<string, unknown>[];
+  if (typeof value !== "string" || value.trim() === "") return [];
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Project ancestry from project.ancestors (organization and folder names, outermost
+// first) or, for older exports, the "/org/folder/project/" ancestry_numbers path
+function parseAncestry(record: Record<string, unknown>): string[] | undefined {
+  const ancestors = parseRepeated(field(record, "project.ancestors"));
+  if (ancestors.length > 0) {
+    // Exported innermost first (the project itself); drop the project and reverse
+    return ancestors
+      .slice(1)
+      .map(a => String(a.resource_name || a.display_name || ""))
+      .filter(Boolean)
+      .reverse();
+  }
+
+  const numbers = field(record, "project.ancestry_numbers");
+  if (typeof numbers === "string" && numbers.trim() !== "") {
+    const parts = numbers.split("/").filter(Boolean);
+    return parts.length > 1 ? parts.slice(0, -1) : undefined;
+  }
+
+  return undefined;
+}
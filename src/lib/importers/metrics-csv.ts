@@ -0,0 +1,75 @@
+// Instance utilization CSV importer
+// Reads utilization samples exported from a monitoring system for offline use, one row
+// per instance and timestamp:
+//   provider,resource_id,timestamp,cpu_percent,memory_percent
+// Memory may be left blank. Samples within the window before the newest timestamp in
+// the files are summarized per instance.
+
+import { CloudProvider, InstanceUtilization } from "@/types";
+import { summarizeUtilization } from "@/lib/utilization";
+import { parseCsvLines } from "./csv";
+import { ExportFile, listExportFiles, pickColumn, readExportLines } from "./common";
+
+export const METRICS_FILE_EXTENSIONS = [".csv", ".csv.gz"];
+
+const PROVIDERS: CloudProvider[] = ["AWS", "Azure", "GCP"];
+
+interface UtilizationSample {
+  provider: CloudProvider;
+  resourceId: string;
+  time: number;
+  cpu: number;
+  memory?: number;
+}
+
+export async function importMetricsDirectory(directory: string, windowDays: number): Promise<InstanceUtilization[]> {
+  const files = await listExportFiles(directory, METRICS_FILE_EXTENSIONS);
+  if (files.length === 0) {
+    throw new Error(`No metrics CSV files found in ${directory}`);
+  }
+  return importMetricsFiles(files, windowDays);
+}
+
+export async function importMetricsFiles(files: ExportFile[], windowDays: number): Promise<InstanceUtilization[]> {
+  const samples: UtilizationSample[] = [];
+  for (const file of files) {
+    for await (const record of parseCsvLines(readExportLines(file))) {
+      const sample = mapMetricsRow(record);
+      if (sample) samples.push(sample);
+    }
+  }
+  if (samples.length === 0) return [];
+
+  const windowEnd = samples.reduce((latest, sample) => Math.max(latest, sample.time), 0);
+  const windowStart = windowEnd - windowDays * 24 * 60 * 60 * 1000;
+
+  const byInstance = new Map<string, UtilizationSample[]>();
+  for (const sample of samples) {
+    if (sample.time <= windowStart) continue;
+    const key = `${sample.provider}|${sample.resourceId}`;
+    const list = byInstance.get(key) || [];
+    list.push(sample);
+    byInstance.set(key, list);
+  }
+
+  return Array.from(byInstance.values()).map(instanceSamples => summarizeUtilization(
+    instanceSamples[0].provider,
+    instanceSamples[0].resourceId,
+    "csv",
+    windowDays,
+    instanceSamples.map(sample => sample.cpu),
+    instanceSamples.flatMap(sample => sample.memory !== undefined ? [sample.memory] : [])
+  ));
+}
+
+function mapMetricsRow(record: Record<string, string>): UtilizationSample | null {
+  const providerValue = String(pickColumn(record, ["provider", "cloud"]) || "").toLowerCase();
+  const provider = PROVIDERS.find(name => name.toLowerCase() === providerValue);
+  const resourceId = String(pickColumn(record, ["resource_id", "resourceId", "instance_id", "instanceId"]) || "").trim();
+  const time = new Date(String(pickColumn(record, ["timestamp", "time", "date"]) || "")).getTime();
+  const cpu = parseFloat(String(pickColumn(record, ["cpu_percent", "cpu", "cpu_utilization", "CPUUtilization"])));
+  const memory = parseFloat(String(pickColumn(record, ["memory_percent", "memory", "mem_used_percent"])));
+
+  if (!provider || !resourceId || Number.isNaN(time) || !Number.isFinite(cpu)) return null;
+  return { provider, resourceId, time, cpu, memory: Number.isFinite(memory) ? memory : undefined };
+}
@@ -0,0 +1,173 @@
+// Local instance type catalog for rightsizing
+// Sizes and on-demand Linux prices (USD per hour, us-east-1 / East US / us-central1)
+// for the common general purpose, compute and memory optimized families. Prices vary
+// by region and change over time, so INSTANCE_CATALOG_PATH can point at a JSON array
+// of instance types that replace or extend these entries.
+
+import { promises as fs } from 'fs';
+import { CloudProvider, InstanceType } from '@/types';
+
+// [name, vCPUs, memory GiB, hourly cost]
+type SizeRow = [string, number, number, number];
+
+function family(provider: CloudProvider, familyName: string, sizes: SizeRow[]): InstanceType[] {
+  return sizes.map(([name, vcpus, memoryGiB, hourlyCost]) => ({ provider, name, family: familyName, vcpus, memoryGiB, hourlyCost }));
+}
+
+const BUILT_IN_CATALOG: InstanceType[] = [
+  ...family('AWS', 't3', [
+    ['t3.nano', 2, 0.5, 0.0052],
+    ['t3.micro', 2, 1, 0.0104],
+    ['t3.small', 2, 2, 0.0208],
+    ['t3.medium', 2, 4, 0.0416],
+    ['t3.large', 2, 8, 0.0832],
+    ['t3.xlarge', 4, 16, 0.1664],
+    ['t3.2xlarge', 8, 32, 0.3328],
+  ]),
+  ...family('AWS', 'm5', [
+    ['m5.large', 2, 8, 0.096],
+    ['m5.xlarge', 4, 16, 0.192],
+    ['m5.2xlarge', 8, 32, 0.384],
+    ['m5.4xlarge', 16, 64, 0.768],
+    ['m5.8xlarge', 32, 128, 1.536],
+    ['m5.12xlarge', 48, 192, 2.304],
+    ['m5.16xlarge', 64, 256, 3.072],
+    ['m5.24xlarge', 96, 384, 4.608],
+  ]),
+  ...family('AWS', 'm6i', [
+    ['m6i.large', 2, 8, 0.096],
+    ['m6i.xlarge', 4, 16, 0.192],
+    ['m6i.2xlarge', 8, 32, 0.384],
+    ['m6i.4xlarge', 16, 64, 0.768],
+    ['m6i.8xlarge', 32, 128, 1.536],
+    ['m6i.12xlarge', 48, 192, 2.304],
+    ['m6i.16xlarge', 64, 256, 3.072],
+    ['m6i.24xlarge', 96, 384, 4.608],
+    ['m6i.32xlarge', 128, 512, 6.144],
+  ]),
+  ...family('AWS', 'c5', [
+    ['c5.large', 2, 4, 0.085],
+    ['c5.xlarge', 4, 8, 0.17],
+    ['c5.2xlarge', 8, 16, 0.34],
+    ['c5.4xlarge', 16, 32, 0.68],
+    ['c5.9xlarge', 36, 72, 1.53],
+    ['c5.12xlarge', 48, 96, 2.04],
+    ['c5.18xlarge', 72, 144, 3.06],
+    ['c5.24xlarge', 96, 192, 4.08],
+  ]),
+  ...family('AWS', 'r5', [
+    ['r5.large', 2, 16, 0.126],
+    ['r5.xlarge', 4, 32, 0.252],
+    ['r5.2xlarge', 8, 64, 0.504],
+    ['r5.4xlarge', 16, 128, 1.008],
+    ['r5.8xlarge', 32, 256, 2.016],
+    ['r5.12xlarge', 48, 384, 3.024],
+    ['r5.16xlarge', 64, 512, 4.032],
+    ['r5.24xlarge', 96, 768, 6.048],
+  ]),
+  ...family('Azure', 'B', [
+    ['Standard_B1s', 1, 1, 0.0104],
+    ['Standard_B1ms', 1, 2, 0.0207],
+    ['Standard_B2s', 2, 4, 0.0416],
+    ['Standard_B2ms', 2, 8, 0.0832],
+    ['Standard_B4ms', 4, 16, 0.166],
+    ['Standard_B8ms', 8, 32, 0.333],
+  ]),
+  ...family('Azure', 'Dsv3', [
+    ['Standard_D2s_v3', 2, 8, 0.096],
+    ['Standard_D4s_v3', 4, 16, 0.192],
+    ['Standard_D8s_v3', 8, 32, 0.384],
+    ['Standard_D16s_v3', 16, 64, 0.768],
+    ['Standard_D32s_v3', 32, 128, 1.536],
+    ['Standard_D48s_v3', 48, 192, 2.304],
+    ['Standard_D64s_v3', 64, 256, 3.072],
+  ]),
+  ...family('Azure', 'Dsv5', [
+    ['Standard_D2s_v5', 2, 8, 0.096],
+    ['Standard_D4s_v5', 4, 16, 0.192],
+    ['Standard_D8s_v5', 8, 32, 0.384],
+    ['Standard_D16s_v5', 16, 64, 0.768],
+    ['Standard_D32s_v5', 32, 128, 1.536],
+    ['Standard_D48s_v5', 48, 192, 2.304],
+    ['Standard_D64s_v5', 64, 256, 3.072],
+  ]),
+  ...family('Azure', 'Esv5', [
+    ['Standard_E2s_v5', 2, 16, 0.126],
+    ['Standard_E4s_v5', 4, 32, 0.252],
+    ['Standard_E8s_v5', 8, 64, 0.504],
+    ['Standard_E16s_v5', 16, 128, 1.008],
+    ['Standard_E32s_v5', 32, 256, 2.016],
+  ]),
+  ...family('Azure', 'Fsv2', [
+    ['Standard_F2s_v2', 2, 4, 0.0846],
+    ['Standard_F4s_v2', 4, 8, 0.169],
+    ['Standard_F8s_v2', 8, 16, 0.338],
+    ['Standard_F16s_v2', 16, 32, 0.677],
+    ['Standard_F32s_v2', 32, 64, 1.353],
+  ]),
+  ...family('GCP', 'e2-standard', [
+    ['e2-standard-2', 2, 8, 0.067],
+    ['e2-standard-4', 4, 16, 0.134],
+    ['e2-standard-8', 8, 32, 0.268],
+    ['e2-standard-16', 16, 64, 0.536],
+    ['e2-standard-32', 32, 128, 1.072],
+  ]),
+  ...family('GCP', 'n1-standard', [
+    ['n1-standard-1', 1, 3.75, 0.0475],
+    ['n1-standard-2', 2, 7.5, 0.095],
+    ['n1-standard-4', 4, 15, 0.19],
+    ['n1-standard-8', 8, 30, 0.38],
+    ['n1-standard-16', 16, 60, 0.76],
+    ['n1-standard-32', 32, 120, 1.52],
+  ]),
+  ...family('GCP', 'n2-standard', [
+    ['n2-standard-2', 2, 8, 0.0971],
+    ['n2-standard-4', 4, 16, 0.1942],
+    ['n2-standard-8', 8, 32, 0.3885],
+    ['n2-standard-16', 16, 64, 0.7769],
+    ['n2-standard-32', 32, 128, 1.5539],
+    ['n2-standard-48', 48, 192, 2.3308],
+    ['n2-standard-64', 64, 256, 3.1078],
+  ]),
+  ...family('GCP', 'n2-highmem', [
+    ['n2-highmem-2', 2, 16, 0.131],
+    ['n2-highmem-4', 4, 32, 0.262],
+    ['n2-highmem-8', 8, 64, 0.524],
+    ['n2-highmem-16', 16, 128, 1.048],
+    ['n2-highmem-32', 32, 256, 2.096],
+  ]),
+  ...family('GCP', 'n2-highcpu', [
+    ['n2-highcpu-2', 2, 2, 0.0717],
+    ['n2-highcpu-4', 4, 4, 0.1434],
+    ['n2-highcpu-8', 8, 8, 0.2868],
+    ['n2-highcpu-16', 16, 16, 0.5736],
+    ['n2-highcpu-32', 32, 32, 1.1471],
+  ]),
+];
+
+// The built-in catalog with any INSTANCE_CATALOG_PATH entries replacing those of the
+// same provider and name
+export async function loadInstanceCatalog(catalogPath: string | undefined = process.env.INSTANCE_CATALOG_PATH): Promise<InstanceType[]> {
+  if (!catalogPath) return BUILT_IN_CATALOG;
+
+  const overrides: InstanceType[] = JSON.parse(await fs.readFile(catalogPath, 'utf8'));
+  if (!Array.isArray(overrides)) {
+    throw new Error(`${catalogPath} must contain a JSON array of instance types`);
+  }
+
+  const catalog = new Map(BUILT_IN_CATALOG.map(type => [catalogKey(type.provider, type.name), type]));
+  for (const type of overrides) {
+    catalog.set(catalogKey(type.provider, type.name), type);
+  }
+  return Array.from(catalog.values());
+}
+
+export function findInstanceType(catalog: InstanceType[], provider: CloudProvider, name: string): InstanceType | undefined {
+  const key = catalogKey(provider, name);
+  return catalog.find(type => catalogKey(type.provider, type.name) === key);
+}
+
+// Azure reports VM sizes in varying case ('Standard_D4s_v5', 'standard_d4s_v5')
+function catalogKey(provider: string, name: string): string {
+  return `${provider}|${name.toLowerCase()}`;
+}
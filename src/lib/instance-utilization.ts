@@ -0,0 +1,65 @@
+// Instance utilization persistence
+import { prisma } from '@/lib/db';
+import { CloudProvider, InstanceUtilization, UtilizationSource } from '@/types';
+
+interface InstanceUtilizationRow {
+  provider: string;
+  resourceId: string;
+  windowDays: number;
+  sampleCount: number;
+  cpuP50: number | null;
+  cpuP95: number | null;
+  cpuMax: number | null;
+  memoryP50: number | null;
+  memoryP95: number | null;
+  memoryMax: number | null;
+  source: string;
+  collectedAt: Date;
+}
+
+export async function loadInstanceUtilization(): Promise<InstanceUtilization[]> {
+  const rows: InstanceUtilizationRow[] = await prisma.instanceUtilization.findMany({
+    orderBy: { collectedAt: 'asc' },
+  });
+
+  return rows.map(row => ({
+    provider: row.provider as CloudProvider,
+    resourceId: row.resourceId,
+    windowDays: row.windowDays,
+    sampleCount: row.sampleCount,
+    cpuP50: row.cpuP50 ?? undefined,
+    cpuP95: row.cpuP95 ?? undefined,
+    cpuMax: row.cpuMax ?? undefined,
+    memoryP50: row.memoryP50 ?? undefined,
+    memoryP95: row.memoryP95 ?? undefined,
+    memoryMax: row.memoryMax ?? undefined,
+    source: row.source as UtilizationSource,
+    collectedAt: row.collectedAt.toISOString(),
+  }));
+}
+
+// Insert or replace each instance's utilization, keyed by provider and resource ID
+export async function saveInstanceUtilization(utilization: InstanceUtilization[]): Promise<void> {
+  await prisma.$transaction(
+    utilization.map(item => {
+      const key = { provider: item.provider, resourceId: item.resourceId };
+      const values = {
+        windowDays: item.windowDays,
+        sampleCount: item.sampleCount,
+        cpuP50: item.cpuP50 ?? null,
+        cpuP95: item.cpuP95 ?? null,
+        cpuMax: item.cpuMax ?? null,
+        memoryP50: item.memoryP50 ?? null,
+        memoryP95: item.memoryP95 ?? null,
+        memoryMax: item.memoryMax ?? null,
+        source: item.source,
+        collectedAt: new Date(item.collectedAt),
+      };
+      return prisma.instanceUtilization.upsert({
+        where: { provider_resourceId: key },
+        create: { ...key, ...values },
+        update: values,
+      });
+    })
+  );
+}
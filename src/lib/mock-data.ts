@@ -2,6 +2,7 @@
 // This would be used for testing without real AWS credentials
 
 import { CloudAsset, CostSummary } from '@/types';
+import { COST_CATEGORIES } from '@/lib/focus';
 
 export const mockAWSAssets: CloudAsset[] = [
   {
@@ -61,6 +62,8 @@ export const mockAWSAssets: CloudAsset[] = [
 ];
 
 export const mockCostSummary = {
+  costMetric: 'amortized' as const,
+  currency: 'USD',
   totalCost: 183.90,
   costByProvider: { AWS: 183.90 },
   costByService: {
@@ -72,6 +75,13 @@ export const mockCostSummary = {
     'us-east-1': 171.56,
     'us-west-2': 12.34,
   },
+  costByAccount: {
+    '123456789012': 183.90,
+  },
+  costByCategory: {
+    'Usage': 183.90,
+  },
+  includedCategories: COST_CATEGORIES,
   monthlyTrend: [
     { month: '2024-10', cost: 165.23 },
     { month: '2024-11', cost: 183.90 },
@@ -0,0 +1,64 @@
+// Chat incoming webhook channels
+// Slack's { text } payload is also accepted by Mattermost and Rocket.Chat; Teams
+// workflows and connectors take an Adaptive Card attachment.
+
+import { NotificationSeverity } from '@/types';
+import { ChannelDefinition } from './types';
+import { postJson } from './http';
+
+const SEVERITY_EMOJI: Record<NotificationSeverity, string> = {
+  info: ':information_source:',
+  warning: ':warning:',
+  critical: ':rotating_light:',
+};
+
+const SEVERITY_COLORS: Record<NotificationSeverity, string> = {
+  info: 'Default',
+  warning: 'Warning',
+  critical: 'Attention',
+};
+
+export const slackChannel: ChannelDefinition = {
+  type: 'slack',
+  displayName: 'Slack-compatible incoming webhook',
+  configFields: [
+    { key: 'url', label: 'Webhook URL', type: 'password', placeholder: 'https://hooks.slack.com/services/...', required: true },
+  ],
+  defaultTemplate: {
+    subject: '{{title}}',
+    body: '*{{title}}*\n{{summary}}',
+  },
+
+  async send(config, message, event) {
+    await postJson(config.url, JSON.stringify({ text: `${SEVERITY_EMOJI[event.severity]} ${message.body}` }));
+  },
+};
+
+export const teamsChannel: ChannelDefinition = {
+  type: 'teams',
+  displayName: 'Microsoft Teams incoming webhook',
+  configFields: [
+    { key: 'url', label: 'Webhook URL', type: 'password', placeholder: 'https://...webhook.office.com/... or workflow URL', required: true },
+  ],
+  defaultTemplate: {
+    subject: '{{title}}',
+    body: '{{summary}}',
+  },
+
+  async send(config, message, event) {
+    const card = {
+      $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+      type: 'AdaptiveCard',
+      version: '1.4',
+      body: [
+        { type: 'TextBlock', text: message.subject, weight: 'Bolder', size: 'Medium', color: SEVERITY_COLORS[event.severity], wrap: true },
+        // Adaptive Card text blocks take Markdown, where a line break needs a blank line
+        { type: 'TextBlock', text: message.body.split('\n').join('\n\n'), wrap: true },
+      ],
+    };
+    await postJson(config.url, JSON.stringify({
+      type: 'message',
+      attachments: [{ contentType: 'application/vnd.microsoft.card.adaptive', content: card }],
+    }));
+  },
+};
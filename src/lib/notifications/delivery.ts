@@ -0,0 +1,51 @@
+// Notification delivery with retries
+import { NotificationChannel, NotificationDelivery, NotificationEvent } from '@/types';
+import { getChannelType } from './registry';
+import { renderMessage } from './templates';
+
+export interface DeliveryOptions {
+  maxAttempts: number;
+  retryDelayMs: number;  // Before the second attempt, doubling after each further failure
+}
+
+export function defaultDeliveryOptions(): DeliveryOptions {
+  return {
+    maxAttempts: Number(process.env.NOTIFICATION_MAX_ATTEMPTS) || 3,
+    retryDelayMs: Number(process.env.NOTIFICATION_RETRY_DELAY_MS) || 1000,
+  };
+}
+
+// Send an event to one channel, retrying failures with exponential backoff. Never
+// throws: the outcome, including the last error, is returned for the delivery log.
+export async function deliver(
+  channel: NotificationChannel,
+  event: NotificationEvent,
+  options: DeliveryOptions = defaultDeliveryOptions()
+): Promise<NotificationDelivery> {
+  const result = {
+    channelId: channel.id,
+    channelName: channel.name,
+    eventType: event.type,
+    severity: event.severity,
+    title: event.title,
+  };
+  const definition = getChannelType(channel.type);
+  if (!definition) {
+    return { ...result, status: 'failed', attempts: 0, error: `Unknown channel type: ${channel.type}`, createdAt: new Date().toISOString() };
+  }
+
+  const message = renderMessage(event, channel.template, definition.defaultTemplate);
+  let error = '';
+  for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+    try {
+      await definition.send(channel.config, message, event);
+      return { ...result, status: 'delivered', attempts: attempt, createdAt: new Date().toISOString() };
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      if (attempt < options.maxAttempts) {
+        await new Promise(resolve => setTimeout(resolve, options.retryDelayMs * 2 ** (attempt - 1)));
+      }
+    }
+  }
+  return { ...result, status: 'failed', attempts: options.maxAttempts, error, createdAt: new Date().toISOString() };
+}
@@ -0,0 +1,38 @@
+// SMTP email channel
+import nodemailer from 'nodemailer';
+import { parseList } from '../connectors/options';
+import { ChannelDefinition } from './types';
+
+export const emailChannel: ChannelDefinition = {
+  type: 'email',
+  displayName: 'SMTP email',
+  configFields: [
+    { key: 'host', label: 'SMTP host', placeholder: 'smtp.example.com', required: true },
+    { key: 'port', label: 'Port (587 by default, 465 for implicit TLS)', placeholder: '587' },
+    { key: 'secure', label: 'Implicit TLS (true/false, default true on port 465)', placeholder: 'false' },
+    { key: 'user', label: 'Username (optional)', placeholder: 'alerts@example.com' },
+    { key: 'password', label: 'Password (optional)', type: 'password', placeholder: 'SMTP password' },
+    { key: 'from', label: 'From address', placeholder: 'Cloud costs <alerts@example.com>', required: true },
+    { key: 'to', label: 'Recipients (comma-separated)', placeholder: 'finops@example.com', required: true },
+  ],
+  defaultTemplate: {
+    subject: '[{{severity}}] {{title}}',
+    body: '{{summary}}\n\n{{type}} notification, {{occurredAt}}',
+  },
+
+  async send(config, message) {
+    const port = Number(config.port) || 587;
+    const transport = nodemailer.createTransport({
+      host: config.host,
+      port,
+      secure: config.secure ? config.secure === 'true' : port === 465,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+    await transport.sendMail({
+      from: config.from,
+      to: parseList(config.to),
+      subject: message.subject,
+      text: message.body,
+    });
+  },
+};
@@ -0,0 +1,65 @@
+// Notification events for budget alerts, cost anomalies and scan failures
+import { AnomalySeverity, BudgetAlert, CostAnomaly, NotificationEvent, NotificationSeverity } from '@/types';
+import { formatCurrency } from '../currency';
+
+const ANOMALY_SEVERITIES: Record<AnomalySeverity, NotificationSeverity> = {
+  low: 'info',
+  medium: 'warning',
+  high: 'critical',
+};
+const ANOMALY_SEVERITY_ORDER: AnomalySeverity[] = ['low', 'medium', 'high'];
+
+// Critical once actual spend reaches the budget, a warning before that
+export function budgetAlertEvent(alert: BudgetAlert): NotificationEvent {
+  const { percent, basis } = alert.threshold;
+  return {
+    type: 'budget',
+    severity: basis === 'actual' && percent >= 100 ? 'critical' : 'warning',
+    title: `Budget "${alert.budgetName}" ${basis === 'actual' ? 'reached' : 'is forecast to reach'} ${percent}%`,
+    summary: `${basis === 'actual' ? 'Spend so far' : 'Forecast spend'} is ${formatCurrency(alert.cost, alert.currency)} ` +
+      `of ${formatCurrency(alert.amount, alert.currency)} for the period starting ${alert.periodStart}`,
+    data: alert,
+    occurredAt: alert.crossedAt,
+  };
+}
+
+// One event for the anomalies of a detection run, as severe as the worst of them
+export function anomaliesEvent(anomalies: CostAnomaly[]): NotificationEvent {
+  const worst = anomalies.reduce<AnomalySeverity>((severity, anomaly) =>
+    ANOMALY_SEVERITY_ORDER.indexOf(anomaly.severity) > ANOMALY_SEVERITY_ORDER.indexOf(severity) ? anomaly.severity : severity, 'low');
+  return {
+    type: 'anomaly',
+    severity: ANOMALY_SEVERITIES[worst],
+    title: `${anomalies.length} new cost ${anomalies.length === 1 ? 'anomaly' : 'anomalies'}`,
+    summary: anomalies.map(anomaly => {
+      const scope = anomaly.dimension === 'tag' ? `${anomaly.tagKey}=${anomaly.value}` : `${anomaly.dimension} ${anomaly.value}`;
+      const causes = anomaly.rootCauses.map(cause => cause.service).join(', ');
+      return `${anomaly.date} ${anomaly.severity}: ${anomaly.provider} ${scope} cost ` +
+        `${formatCurrency(anomaly.actualCost, anomaly.currency)}, expected ${formatCurrency(anomaly.expectedCost, anomaly.currency)}` +
+        (causes ? ` (${causes})` : '');
+    }).join('\n'),
+    data: anomalies,
+    occurredAt: new Date().toISOString(),
+  };
+}
+
+export function scanFailureEvent(label: string, errors: string[]): NotificationEvent {
+  return {
+    type: 'scan-failure',
+    severity: 'critical',
+    title: `${label} scan failed for ${errors.length} ${errors.length === 1 ? 'provider' : 'providers'}`,
+    summary: errors.join('\n'),
+    data: { label, errors },
+    occurredAt: new Date().toISOString(),
+  };
+}
+
+export function testEvent(): NotificationEvent {
+  return {
+    type: 'test',
+    severity: 'info',
+    title: 'Test notification',
+    summary: 'This channel is set up to receive cloud cost notifications.',
+    occurredAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,86 @@
+// Registry of notification channel types
+import {
+  NotificationChannel,
+  NotificationChannelTypeInfo,
+  NotificationEventType,
+  NotificationSeverity,
+  NotificationTemplate,
+} from '@/types';
+import { ChannelDefinition } from './types';
+import { webhookChannel } from './webhook';
+import { emailChannel } from './email';
+import { slackChannel, teamsChannel } from './chat';
+
+const channelTypes: ChannelDefinition[] = [webhookChannel, emailChannel, slackChannel, teamsChannel];
+
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = ['budget', 'anomaly', 'scan-failure', 'test'];
+export const NOTIFICATION_SEVERITIES: NotificationSeverity[] = ['info', 'warning', 'critical'];
+
+// Shown instead of secret config values when channels are listed
+export const MASKED_SECRET = '********';
+
+export function listChannelTypes(): ChannelDefinition[] {
+  return channelTypes;
+}
+
+export function getChannelType(type: string): ChannelDefinition | undefined {
+  return channelTypes.find(definition => definition.type === type);
+}
+
+export function describeChannelType(definition: ChannelDefinition): NotificationChannelTypeInfo {
+  return {
+    type: definition.type,
+    displayName: definition.displayName,
+    configFields: definition.configFields,
+  };
+}
+
+// Whether an event reaches a channel, by its event types and minimum severity
+export function channelAccepts(channel: NotificationChannel, type: NotificationEventType, severity: NotificationSeverity): boolean {
+  return channel.enabled &&
+    (channel.events.length === 0 || channel.events.includes(type)) &&
+    NOTIFICATION_SEVERITIES.indexOf(severity) >= NOTIFICATION_SEVERITIES.indexOf(channel.minSeverity);
+}
+
+export type NotificationChannelInput = Omit<NotificationChannel, 'id' | 'createdAt' | 'updatedAt'>;
+
+export const INVALID_CHANNEL_MESSAGE =
+  `Expected a name, type (${channelTypes.map(definition => definition.type).join(', ')}), a config with the type's ` +
+  `required fields, optional events (${NOTIFICATION_EVENT_TYPES.join(', ')}), minSeverity ` +
+  `(${NOTIFICATION_SEVERITIES.join(', ')}), template ({ subject?, body? }) and enabled`;
+
+// A channel from a request body, or undefined when a field is missing or invalid.
+// Masked secrets are kept as they are, for the caller to replace with the stored values.
+export function parseChannelInput(body: unknown): NotificationChannelInput | undefined {
+  if (!body || typeof body !== 'object') return undefined;
+  const value = body as Record<string, unknown>;
+
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  const definition = typeof value.type === 'string' ? getChannelType(value.type) : undefined;
+  const events = value.events === undefined ? [] : value.events;
+  const minSeverity = value.minSeverity === undefined ? 'info' : NOTIFICATION_SEVERITIES.find(item => item === value.minSeverity);
+  const template = value.template as NotificationTemplate | undefined;
+  if (!name || !definition || !minSeverity) return undefined;
+  if (!Array.isArray(events) || !events.every(event => NOTIFICATION_EVENT_TYPES.includes(event))) return undefined;
+  if (template !== undefined && (typeof template !== 'object' || template === null ||
+    (template.subject !== undefined && typeof template.subject !== 'string') ||
+    (template.body !== undefined && typeof template.body !== 'string'))) return undefined;
+
+  const rawConfig = value.config && typeof value.config === 'object' ? value.config as Record<string, unknown> : {};
+  const config: Record<string, string> = {};
+  for (const field of definition.configFields) {
+    const fieldValue = rawConfig[field.key];
+    if (fieldValue !== undefined && fieldValue !== null && String(fieldValue).trim()) config[field.key] = String(fieldValue).trim();
+    else if (field.required) return undefined;
+  }
+
+  return {
+    name,
+    type: definition.type,
+    config,
+    events,
+    minSeverity,
+    template: template ? { subject: template.subject || undefined, body: template.body || undefined } : undefined,
+    enabled: value.enabled !== false,
+  };
+}
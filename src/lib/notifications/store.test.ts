@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NotificationEvent } from "@/types";
+import { sendNotification } from "./store";
+
+const { deliveries, createMany } = vi.hoisted(() => ({
+  deliveries: [] as Record<string, unknown>[],
+  createMany: vi.fn(),
+}));
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    notificationChannel: {
+      findMany: async () => [{
+        id: "channel-1",
+        name: "Ops webhook",
+        type: "webhook",
+        config: { url: "https://hooks.example.com/costs" },
+        events: [],
+        minSeverity: "info",
+        template: {},
+        enabled: true,
+        createdAt: new Date("2026-10-01T00:00:00.000Z"),
+        updatedAt: new Date("2026-10-01T00:00:00.000Z"),
+      }],
+    },
+    notificationDelivery: { createMany },
+  },
+}));
+
+const event = (title: string): NotificationEvent => ({
+  type: "budget",
+  severity: "warning",
+  title,
+  summary: "Spend so far is $80.00 of $100.00",
+  data: {},
+  occurredAt: "2026-10-19T08:00:00.000Z",
+});
+
+describe("sendNotification", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubGlobal("fetch", vi.fn().mockImplementation(async () => new Response(null, { status: 204 })));
+    createMany.mockImplementation(async ({ data }: { data: Record<string, unknown>[] }) => {
+      deliveries.push(...data);
+      return { count: data.length };
+    });
+  });
+
+  afterEach(() => {
+    deliveries.length = 0;
+    createMany.mockReset();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("logs a failed event instead of throwing, so later events are still sent", async () => {
+    createMany.mockRejectedValueOnce(new Error("connection reset"));
+
+    for (const title of ["Budget \"Prod\" reached 80%", "Budget \"Dev\" reached 80%"]) {
+      await sendNotification(event(title));
+    }
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(deliveries.map(delivery => [delivery.title, delivery.status])).toEqual([["Budget \"Dev\" reached 80%", "delivered"]]);
+    expect(console.error).toHaveBeenCalledWith("❌ Notification \"Budget \"Prod\" reached 80%\" could not be sent:", expect.any(Error));
+  });
+});
@@ -0,0 +1,171 @@
+// Notification channel persistence, the delivery log and routing events to channels
+import { prisma } from '@/lib/db';
+import {
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationDelivery,
+  NotificationEvent,
+  NotificationEventType,
+  NotificationSeverity,
+  NotificationTemplate,
+} from '@/types';
+import { DeliveryOptions, defaultDeliveryOptions, deliver } from './delivery';
+import { MASKED_SECRET, NotificationChannelInput, channelAccepts, getChannelType } from './registry';
+
+interface NotificationChannelRow {
+  id: string;
+  name: string;
+  type: string;
+  config: Record<string, string>;
+  events: NotificationEventType[];
+  minSeverity: string;
+  template: NotificationTemplate;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface NotificationDeliveryRow {
+  channelId: string;
+  channelName: string;
+  eventType: string;
+  severity: string;
+  title: string;
+  status: string;
+  attempts: number;
+  error: string | null;
+  createdAt: Date;
+}
+
+export async function loadChannels(): Promise<NotificationChannel[]> {
+  const rows: NotificationChannelRow[] = await prisma.notificationChannel.findMany({ orderBy: { name: 'asc' } });
+  return rows.map(toChannel);
+}
+
+export async function loadChannel(id: string): Promise<NotificationChannel | undefined> {
+  const row: NotificationChannelRow | null = await prisma.notificationChannel.findUnique({ where: { id } });
+  return row ? toChannel(row) : undefined;
+}
+
+export async function createChannel(input: NotificationChannelInput): Promise<NotificationChannel> {
+  return toChannel(await prisma.notificationChannel.create({ data: toData(input) }));
+}
+
+// The updated channel, or undefined when there is none with that ID. Secrets sent back
+// masked, as listed, keep their stored values.
+export async function updateChannel(id: string, input: NotificationChannelInput): Promise<NotificationChannel | undefined> {
+  const existing = await loadChannel(id);
+  if (!existing) return undefined;
+
+  const config = { ...input.config };
+  for (const [key, value] of Object.entries(config)) {
+    if (value === MASKED_SECRET && existing.type === input.type) config[key] = existing.config[key];
+  }
+  return toChannel(await prisma.notificationChannel.update({ where: { id }, data: toData({ ...input, config }) }));
+}
+
+// Whether a channel was deleted; its delivery log goes with it
+export async function deleteChannel(id: string): Promise<boolean> {
+  const { count } = await prisma.notificationChannel.deleteMany({ where: { id } });
+  return count > 0;
+}
+
+// A channel with its secret config values masked, for API responses
+export function maskChannel(channel: NotificationChannel): NotificationChannel {
+  const secrets = (getChannelType(channel.type)?.configFields || [])
+    .filter(field => field.type === 'password')
+    .map(field => field.key);
+  const config = Object.fromEntries(Object.entries(channel.config).map(([key, value]) =>
+    [key, secrets.includes(key) ? MASKED_SECRET : value]
+  ));
+  return { ...channel, config };
+}
+
+// Most recent deliveries first
+export async function loadDeliveries(limit: number, channelId?: string): Promise<NotificationDelivery[]> {
+  const rows: NotificationDeliveryRow[] = await prisma.notificationDelivery.findMany({
+    where: channelId ? { channelId } : {},
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+
+  return rows.map(row => ({
+    channelId: row.channelId,
+    channelName: row.channelName,
+    eventType: row.eventType as NotificationEventType,
+    severity: row.severity as NotificationSeverity,
+    title: row.title,
+    status: row.status as NotificationDelivery['status'],
+    attempts: row.attempts,
+    error: row.error ?? undefined,
+    createdAt: row.createdAt.toISOString(),
+  }));
+}
+
+// Send an event to every enabled channel subscribed to its type and severity, or to
+// the given channels regardless of their subscriptions, and log each delivery
+export async function notify(
+  event: NotificationEvent,
+  channels?: NotificationChannel[],
+  options: DeliveryOptions = defaultDeliveryOptions()
+): Promise<NotificationDelivery[]> {
+  const targets = channels || (await loadChannels()).filter(channel => channelAccepts(channel, event.type, event.severity));
+  const deliveries = await Promise.all(targets.map(channel => deliver(channel, event, options)));
+
+  if (deliveries.length > 0) {
+    await prisma.notificationDelivery.createMany({
+      data: deliveries.map(delivery => ({
+        channelId: delivery.channelId,
+        channelName: delivery.channelName,
+        eventType: delivery.eventType,
+        severity: delivery.severity,
+        title: delivery.title,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        error: delivery.error ?? null,
+        createdAt: new Date(delivery.createdAt),
+      })),
+    });
+  }
+  return deliveries;
+}
+
+// Route an event to the subscribed notification channels; failures are logged, never
+// thrown, so one failed event does not keep later events from being sent
+export async function sendNotification(event: NotificationEvent): Promise<void> {
+  try {
+    const deliveries = await notify(event);
+    const failed = deliveries.filter(delivery => delivery.status === 'failed');
+    failed.forEach(delivery => console.error(`❌ Notification to ${delivery.channelName} failed after ${delivery.attempts} attempts: ${delivery.error}`));
+    console.log(`📨 "${event.title}" sent to ${deliveries.length - failed.length} of ${deliveries.length} channels`);
+  } catch (error) {
+    console.error(`❌ Notification "${event.title}" could not be sent:`, error);
+  }
+}
+
+function toData(input: NotificationChannelInput) {
+  return {
+    name: input.name,
+    type: input.type,
+    config: input.config,
+    events: input.events,
+    minSeverity: input.minSeverity,
+    template: input.template || {},
+    enabled: input.enabled,
+  };
+}
+
+function toChannel(row: NotificationChannelRow): NotificationChannel {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type as NotificationChannelType,
+    config: row.config,
+    events: row.events,
+    minSeverity: row.minSeverity as NotificationSeverity,
+    template: row.template.subject || row.template.body ? row.template : undefined,
+    enabled: row.enabled,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
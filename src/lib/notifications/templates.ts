@@ -0,0 +1,27 @@
+// Notification message templates
+import { NotificationEvent, NotificationTemplate } from '@/types';
+import { RenderedMessage } from './types';
+
+// Replace {{placeholder}} with the event's field; unknown placeholders are left as they are
+export function renderTemplate(template: string, event: NotificationEvent): string {
+  const values: Record<string, string> = {
+    title: event.title,
+    summary: event.summary,
+    severity: event.severity,
+    type: event.type,
+    occurredAt: event.occurredAt,
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+// The channel's own template where set, otherwise its type's default
+export function renderMessage(
+  event: NotificationEvent,
+  template: NotificationTemplate | undefined,
+  defaults: Required<NotificationTemplate>
+): RenderedMessage {
+  return {
+    subject: renderTemplate(template?.subject || defaults.subject, event),
+    body: renderTemplate(template?.body || defaults.body, event),
+  };
+}
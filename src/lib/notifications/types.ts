@@ -0,0 +1,22 @@
+// Pluggable notification channel contract
+// Every channel type exports a ChannelDefinition, which is listed in the registry.
+// Budgets, anomalies and scan failures only go through notify(), so adding a
+// channel type means registering one module.
+
+import { CredentialField, NotificationChannelType, NotificationEvent, NotificationTemplate } from '@/types';
+
+// A template rendered for one event
+export interface RenderedMessage {
+  subject: string;
+  body: string;
+}
+
+export interface ChannelDefinition {
+  type: NotificationChannelType;
+  displayName: string;
+  configFields: CredentialField[];  // Fields of type 'password' are masked when channels are listed
+  defaultTemplate: Required<NotificationTemplate>;
+
+  // Send one message; throws when the receiving end does not accept it
+  send(config: Record<string, string>, message: RenderedMessage, event: NotificationEvent): Promise<void>;
+}
@@ -0,0 +1,60 @@
+import { createHmac } from "crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { NotificationEvent } from "@/types";
+import { signPayload, webhookChannel } from "./webhook";
+
+const event: NotificationEvent = {
+  type: "anomaly",
+  severity: "critical",
+  title: "1 new cost anomaly",
+  summary: "2026-10-18 high: AWS service Amazon EC2 cost $100.00, expected $20.00",
+  data: { count: 1 },
+  occurredAt: "2026-10-19T08:00:00.000Z",
+};
+const MESSAGE = { subject: "[critical] 1 new cost anomaly", body: event.summary };
+
+describe("signPayload", () => {
+  it("is the hex HMAC-SHA256 of the timestamp and body", () => {
+    const expected = createHmac("sha256", "shh").update('1792396800.{"a":1}').digest("hex");
+
+    expect(signPayload("shh", "1792396800", '{"a":1}')).toBe(`sha256=${expected}`);
+    expect(signPayload("shh", "1792396801", '{"a":1}')).not.toBe(`sha256=${expected}`);
+  });
+});
+
+describe("webhookChannel", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("signs the posted body with the channel secret", async () => {
+    vi.useFakeTimers({ now: new Date("2026-10-19T08:00:00.000Z") });
+    const post = vi.fn().mockImplementation(async () => new Response(null, { status: 204 }));
+    vi.stubGlobal("fetch", post);
+
+    await webhookChannel.send({ url: "https://hooks.example.com/costs", secret: "shh" }, MESSAGE, event);
+
+    const [url, init] = post.mock.calls[0];
+    const timestamp = String(Date.parse("2026-10-19T08:00:00.000Z") / 1000);
+    expect(url).toBe("https://hooks.example.com/costs");
+    expect(init.headers["X-Asset-Tracker-Timestamp"]).toBe(timestamp);
+    expect(init.headers["X-Asset-Tracker-Signature"]).toBe(signPayload("shh", timestamp, init.body));
+    expect(JSON.parse(init.body)).toMatchObject({ type: "anomaly", title: event.title, message: MESSAGE, data: { count: 1 } });
+  });
+
+  it("sends no signature without a secret", async () => {
+    const post = vi.fn().mockImplementation(async () => new Response(null, { status: 204 }));
+    vi.stubGlobal("fetch", post);
+
+    await webhookChannel.send({ url: "https://hooks.example.com/costs" }, MESSAGE, event);
+
+    expect(Object.keys(post.mock.calls[0][1].headers)).toEqual(["Content-Type"]);
+  });
+
+  it("fails on error responses so delivery retries", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockImplementation(async () => new Response("unavailable", { status: 503 })));
+
+    await expect(webhookChannel.send({ url: "https://hooks.example.com/costs" }, MESSAGE, event)).rejects.toThrow("HTTP 503: unavailable");
+  });
+});
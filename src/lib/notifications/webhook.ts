@@ -0,0 +1,45 @@
+// Generic HTTP webhook channel
+// Posts the event as JSON. With a secret, the request is signed like GitHub and Stripe
+// webhooks: X-Asset-Tracker-Signature is 'sha256=' plus the hex HMAC-SHA256 of
+// '{timestamp}.{body}', where the timestamp is sent as X-Asset-Tracker-Timestamp
+// (Unix seconds), so receivers can reject altered and replayed requests.
+
+import { createHmac } from 'crypto';
+import { ChannelDefinition } from './types';
+import { postJson } from './http';
+
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export const webhookChannel: ChannelDefinition = {
+  type: 'webhook',
+  displayName: 'HTTP webhook',
+  configFields: [
+    { key: 'url', label: 'URL', placeholder: 'https://example.com/hooks/cloud-costs', required: true },
+    { key: 'secret', label: 'Signing secret (optional)', type: 'password', placeholder: 'Shared HMAC secret' },
+  ],
+  defaultTemplate: {
+    subject: '[{{severity}}] {{title}}',
+    body: '{{summary}}',
+  },
+
+  async send(config, message, event) {
+    const body = JSON.stringify({
+      type: event.type,
+      severity: event.severity,
+      title: event.title,
+      summary: event.summary,
+      message,
+      data: event.data,
+      occurredAt: event.occurredAt,
+    });
+    const headers: Record<string, string> = {};
+    if (config.secret) {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      headers['X-Asset-Tracker-Timestamp'] = timestamp;
+      headers['X-Asset-Tracker-Signature'] = signPayload(config.secret, timestamp, body);
+    }
+    await postJson(config.url, body, headers);
+  },
+};
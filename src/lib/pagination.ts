@@ -0,0 +1,36 @@
+// Pagination helpers for provider list APIs
+
+// Pages fetched per API call during a scan, e.g. { 'ec2:DescribeInstances': 3 }
+export class PageCounter {
+  private counts: Record<string, number> = {};
+
+  record(call: string): void {
+    this.counts[call] = (this.counts[call] || 0) + 1;
+  }
+
+  snapshot(): Record<string, number> {
+    return { ...this.counts };
+  }
+}
+
+// Follow continuation tokens until the API reports no more pages, collecting the
+// items of every page and counting pages against `call`
+export async function collectPages<TPage, TItem>(
+  call: string,
+  counter: PageCounter,
+  fetchPage: (token: string | undefined) => Promise<TPage>,
+  getItems: (page: TPage) => TItem[] | null | undefined,
+  getNextToken: (page: TPage) => string | null | undefined
+): Promise<TItem[]> {
+  const items: TItem[] = [];
+  let token: string | undefined;
+
+  do {
+    const page = await fetchPage(token);
+    counter.record(call);
+    items.push(...(getItems(page) || []));
+    token = getNextToken(page) || undefined;
+  } while (token);
+
+  return items;
+}
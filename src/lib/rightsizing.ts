@@ -0,0 +1,140 @@
+// Rightsizing recommendations
+// Suggests the cheapest size in an instance's own family that still fits its 95th
+// percentile CPU and memory utilization below the target levels, priced from the local
+// instance catalog. Staying within the family keeps the processor and architecture, so
+// the change is a resize rather than a migration.
+
+import { CloudAsset, InstanceType, InstanceUtilization, RightsizingRecommendation, RightsizingReport } from '@/types';
+import { findInstanceType } from './instance-catalog';
+import { defaultUtilizationWindowDays, isComputeInstance, utilizationKey } from './utilization';
+
+const HOURS_PER_MONTH = 730;
+
+export interface RightsizingOptions {
+  windowDays: number;
+  cpuTarget: number;  // Percent of the recommended size's CPU the current p95 may use
+  memoryTarget: number;  // Percent of the recommended size's memory the current p95 may use
+  minSamples: number;  // Hourly samples needed before an instance is analyzed
+}
+
+export function defaultRightsizingOptions(): RightsizingOptions {
+  const windowDays = defaultUtilizationWindowDays();
+  return {
+    windowDays,
+    cpuTarget: Number(process.env.RIGHTSIZING_CPU_TARGET) || 70,
+    memoryTarget: Number(process.env.RIGHTSIZING_MEMORY_TARGET) || 80,
+    // Half the window, so a week of a 14 day window is enough
+    minSamples: Number(process.env.RIGHTSIZING_MIN_SAMPLES) || windowDays * 12,
+  };
+}
+
+// Give each compute instance its utilization; a later entry for the same instance
+// replaces an earlier one, so pass imported data before freshly collected data
+export function attachUtilization(assets: CloudAsset[], utilization: InstanceUtilization[]): CloudAsset[] {
+  const byResource = new Map(utilization.map(item => [utilizationKey(item.provider, item.resourceId), item]));
+  return assets.map(asset => {
+    if (!isComputeInstance(asset)) return asset;
+    const match = byResource.get(utilizationKey(asset.provider, asset.resourceId as string));
+    return match ? { ...asset, utilization: match } : asset;
+  });
+}
+
+export function recommendRightsizing(
+  assets: CloudAsset[],
+  catalog: InstanceType[],
+  options: RightsizingOptions = defaultRightsizingOptions()
+): RightsizingReport {
+  const recommendations: RightsizingRecommendation[] = [];
+  const withoutMetrics: string[] = [];
+  const unknownTypes = new Set<string>();
+  let analyzedInstances = 0;
+
+  for (const asset of assets) {
+    if (!isComputeInstance(asset) || asset.status !== 'running' || asset.provider === 'Manual') continue;
+
+    const current = findInstanceType(catalog, asset.provider, asset.assetType || '');
+    if (!current) {
+      unknownTypes.add(`${asset.provider} ${asset.assetType || 'unknown'}`);
+      continue;
+    }
+
+    const utilization = asset.utilization;
+    if (!utilization || utilization.cpuP95 === undefined || utilization.sampleCount < options.minSamples) {
+      withoutMetrics.push(asset.id);
+      continue;
+    }
+    analyzedInstances++;
+
+    const recommended = smallerFit(current, utilization, catalog, options);
+    if (!recommended) continue;
+
+    const currentMonthlyCost = current.hourlyCost * HOURS_PER_MONTH;
+    const recommendedMonthlyCost = recommended.hourlyCost * HOURS_PER_MONTH;
+    recommendations.push({
+      assetId: asset.id,
+      provider: asset.provider,
+      assetName: asset.assetName,
+      region: asset.region,
+      accountId: asset.accountId,
+      currentType: current.name,
+      recommendedType: recommended.name,
+      cpuP95: utilization.cpuP95,
+      memoryP95: utilization.memoryP95,
+      currentMonthlyCost,
+      recommendedMonthlyCost,
+      estimatedMonthlySavings: currentMonthlyCost - recommendedMonthlyCost,
+      reason: describeFit(current, recommended, utilization, options),
+    });
+  }
+
+  recommendations.sort((a, b) => b.estimatedMonthlySavings - a.estimatedMonthlySavings);
+
+  return {
+    recommendations,
+    totalMonthlySavings: recommendations.reduce((sum, item) => sum + item.estimatedMonthlySavings, 0),
+    currency: 'USD',
+    windowDays: options.windowDays,
+    analyzedInstances,
+    withoutMetrics,
+    unknownTypes: Array.from(unknownTypes).sort(),
+  };
+}
+
+// Cheapest cheaper size in the same family with room for the observed p95 load.
+// Without memory metrics memory is assumed busy enough that it may at most be halved.
+function smallerFit(
+  current: InstanceType,
+  utilization: InstanceUtilization,
+  catalog: InstanceType[],
+  options: RightsizingOptions
+): InstanceType | undefined {
+  const requiredVcpus = current.vcpus * (utilization.cpuP95 as number) / options.cpuTarget;
+  const requiredMemory = utilization.memoryP95 !== undefined
+    ? current.memoryGiB * utilization.memoryP95 / options.memoryTarget
+    : current.memoryGiB / 2;
+
+  return catalog
+    .filter(type =>
+      type.provider === current.provider &&
+      type.family === current.family &&
+      type.hourlyCost < current.hourlyCost &&
+      type.vcpus >= requiredVcpus &&
+      type.memoryGiB >= requiredMemory
+    )
+    .sort((a, b) => a.hourlyCost - b.hourlyCost)[0];
+}
+
+function describeFit(
+  current: InstanceType,
+  recommended: InstanceType,
+  utilization: InstanceUtilization,
+  options: RightsizingOptions
+): string {
+  const cpu = `CPU p95 ${(utilization.cpuP95 as number).toFixed(1)}% of ${current.vcpus} vCPU`;
+  const memory = utilization.memoryP95 !== undefined
+    ? `memory p95 ${utilization.memoryP95.toFixed(1)}% of ${current.memoryGiB} GiB`
+    : `memory not measured (at least half of ${current.memoryGiB} GiB kept)`;
+  return `${cpu}, ${memory} over ${utilization.windowDays} days; ` +
+    `${recommended.name} (${recommended.vcpus} vCPU / ${recommended.memoryGiB} GiB) stays under ` +
+    `${options.cpuTarget}% CPU and ${options.memoryTarget}% memory`;
+}
@@ -1,35 +1,27 @@
 // Cloud scanning scheduler using node-cron
 import cron from "node-cron";
-import { fetchAWSAssetsAndCosts } from "./connectors/aws";
-import { fetchAzureAssetsAndCosts } from "./connectors/azure";
-import { fetchGCPAssetsAndCosts } from "./connectors/gcp";
-
-// Interface for scan results
-interface ScanResult {
-  provider: string;
-  assets: any[];
-  totalCost: number;
-  costByService: Record<string, number>;
-  costByRegion: Record<string, number>;
-  lastScan: string;
-}
+import { configuredConnectors } from "./connectors/registry";
+import { ScanResult, scanConnector, scanProvider } from "./connectors/scan";
+import { runAnomalyDetection } from "./cost-anomalies";
+import { evaluateBudgets } from "./budget-tracking";
+import { sendNotification } from "./notifications/store";
+import { anomaliesEvent, budgetAlertEvent, scanFailureEvent } from "./notifications/events";
 
 // Comprehensive scan function
 async function scanAllClouds(label: string): Promise<ScanResult[]> {
   console.log(`[${label}] Multi-cloud scan started at ${new Date().toISOString()}`);
   
   try {
-    const results = await Promise.allSettled([
-      fetchAWSAssetsAndCosts(),
-      fetchAzureAssetsAndCosts(),
-      fetchGCPAssetsAndCosts(),
-    ]);
+    const connectors = configuredConnectors();
+    const providers = connectors.map(connector => connector.provider);
+    const results = await Promise.allSettled(
+      connectors.map(connector => scanConnector(connector, { scanType: label }))
+    );
 
     const successfulScans: ScanResult[] = [];
     const errors: string[] = [];
 
     results.forEach((result, index) => {
-      const providers = ['AWS', 'Azure', 'GCP'];
       if (result.status === 'fulfilled') {
         successfulScans.push(result.value);
         console.log(`[${label}] ${providers[index]} scan completed: ${result.value.assets.length} assets, $${result.value.totalCost.toFixed(2)}`);
@@ -48,55 +40,59 @@ async function scanAllClouds(label: string): Promise<ScanResult[]> {
     
     if (errors.length > 0) {
       console.error(`[${label}] Errors encountered:`, errors);
+      await sendNotification(scanFailureEvent(label, errors));
     }
 
-    // Here you could store results in a database, send notifications, etc.
-    // For example:
-    // await storeScanResults(successfulScans, label);
-    // await sendCostAlerts(totalCost, previousCost);
-
     return successfulScans;
 
   } catch (error) {
     console.error(`[${label}] Critical error in scanAllClouds:`, error);
+    await sendNotification(scanFailureEvent(label, [error instanceof Error ? error.message : "Unknown error"]));
     throw error;
   }
 }
 
-// Individual provider scan functions
-async function scanAWS(label: string = "manual") {
-  console.log(`[${label}] AWS scan started`);
+// Individual provider scan, by registry id ("aws") or provider name ("AWS")
+async function scanCloud(provider: string, label: string = "manual") {
+  console.log(`[${label}] ${provider} scan started`);
   try {
-    const result = await fetchAWSAssetsAndCosts();
-    console.log(`[${label}] AWS scan completed: ${result.assets.length} assets, $${result.totalCost.toFixed(2)}`);
+    const result = await scanProvider(provider, { scanType: label });
+    console.log(`[${label}] ${result.provider} scan completed: ${result.assets.length} assets, $${result.totalCost.toFixed(2)}`);
     return result;
   } catch (error) {
-    console.error(`[${label}] AWS scan failed:`, error);
+    console.error(`[${label}] ${provider} scan failed:`, error);
     throw error;
   }
 }
 
-async function scanAzure(label: string = "manual") {
-  console.log(`[${label}] Azure scan started`);
+// Compare the stored daily costs with their baselines once the scan has saved new data
+async function detectCostAnomalies(label: string) {
   try {
-    const result = await fetchAzureAssetsAndCosts();
-    console.log(`[${label}] Azure scan completed: ${result.assets.length} assets, $${result.totalCost.toFixed(2)}`);
-    return result;
+    const { anomalies, newAnomalies } = await runAnomalyDetection();
+    for (const anomaly of newAnomalies) {
+      const scope = anomaly.dimension === "tag" ? `${anomaly.tagKey}=${anomaly.value}` : `${anomaly.dimension} ${anomaly.value}`;
+      console.log(`🚨 [${label}] ${anomaly.severity} cost anomaly on ${anomaly.date}: ${anomaly.provider} ${scope} ` +
+        `cost ${anomaly.actualCost.toFixed(2)} ${anomaly.currency}, expected ${anomaly.expectedCost.toFixed(2)}`);
+    }
+    console.log(`[${label}] Anomaly detection complete - ${anomalies.length} anomalies, ${newAnomalies.length} new`);
+    if (newAnomalies.length > 0) await sendNotification(anomaliesEvent(newAnomalies));
   } catch (error) {
-    console.error(`[${label}] Azure scan failed:`, error);
-    throw error;
+    console.error(`❌ [${label}] Anomaly detection failed:`, error);
   }
 }
 
-async function scanGCP(label: string = "manual") {
-  console.log(`[${label}] GCP scan started`);
+// Compare each budget's spend with its thresholds; crossed thresholds are raised once per period
+async function checkBudgets(label: string) {
   try {
-    const result = await fetchGCPAssetsAndCosts();
-    console.log(`[${label}] GCP scan completed: ${result.assets.length} assets, $${result.totalCost.toFixed(2)}`);
-    return result;
+    const { statuses, alerts } = await evaluateBudgets();
+    for (const alert of alerts) {
+      console.log(`💰 [${label}] Budget "${alert.budgetName}" reached ${alert.threshold.percent}% of ` +
+        `${alert.amount.toFixed(2)} ${alert.currency} (${alert.threshold.basis}: ${alert.cost.toFixed(2)})`);
+      await sendNotification(budgetAlertEvent(alert));
+    }
+    console.log(`[${label}] Budget evaluation complete - ${statuses.length} budgets, ${alerts.length} new alerts`);
   } catch (error) {
-    console.error(`[${label}] GCP scan failed:`, error);
-    throw error;
+    console.error(`❌ [${label}] Budget evaluation failed:`, error);
   }
 }
 
@@ -111,6 +107,8 @@ cron.schedule("0 2 * * *", async () => {
   } catch (error) {
     console.error("❌ [daily] Scheduled scan failed:", error);
   }
+  await detectCostAnomalies("daily");
+  await checkBudgets("daily");
 }, {
   scheduled: true,
   timezone: "UTC"
@@ -124,6 +122,7 @@ cron.schedule("0 3 * * 0", async () => {
   } catch (error) {
     console.error("❌ [weekly] Scheduled scan failed:", error);
   }
+  await checkBudgets("weekly");
 }, {
   scheduled: true,
   timezone: "UTC"
@@ -147,9 +146,7 @@ cron.schedule("0 * * * *", async () => {
 // Export functions for manual triggering
 export {
   scanAllClouds,
-  scanAWS,
-  scanAzure,
-  scanGCP
+  scanCloud
 };
 
 // Utility functions for cost monitoring
@@ -164,21 +161,6 @@ export async function getCostTrend(days: number = 30) {
   };
 }
 
-export async function sendCostAlerts(currentCost: number, previousCost: number) {
-  const changePercent = ((currentCost - previousCost) / previousCost) * 100;
-  
-  if (Math.abs(changePercent) > 20) {
-    console.log(`🚨 Cost alert: ${changePercent > 0 ? 'Increase' : 'Decrease'} of ${Math.abs(changePercent).toFixed(1)}% detected`);
-    
-    // Here you would send notifications via email, Slack, etc.
-    // await sendNotification({
-    //   type: 'cost_alert',
-    //   message: `Cloud costs changed by ${changePercent.toFixed(1)}%`,
-    //   severity: changePercent > 20 ? 'high' : 'medium'
-    // });
-  }
-}
-
 console.log("✅ Cloud scan scheduler initialized successfully");
 console.log("📅 Scheduled scans:");
 console.log("   - Daily: 2:00 AM UTC");
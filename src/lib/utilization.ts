@@ -0,0 +1,101 @@
+// Instance utilization collection
+// Compute instances' CPU and memory utilization comes from each provider's monitoring
+// service (CloudWatch, Azure Monitor, Cloud Monitoring) or from an imported metrics
+// CSV when the tracker runs offline. Samples are hourly averages, summarized into
+// percentiles over the collection window.
+
+import { CloudAsset, CloudProvider, InstanceUtilization, UtilizationSource } from '@/types';
+import { CloudConnector } from '@/lib/connectors/types';
+
+// Services whose assets are compute instances with a size that can be changed, and the
+// resource ID shape that tells instances apart from other resources listed under the
+// same service (Elastic IPs under EC2; disks, snapshots and static IPs under Compute Engine)
+const INSTANCE_SERVICES: Record<CloudProvider, { service: string; resourceId: RegExp }> = {
+  AWS: { service: 'EC2', resourceId: /^i-[0-9a-f]+$/i },
+  Azure: { service: 'Virtual Machine', resourceId: /\/virtualmachines\/[^/]+$/i },
+  GCP: { service: 'Compute Engine', resourceId: /\/instances\/[^/]+$/ },
+};
+
+export function defaultUtilizationWindowDays(): number {
+  return Number(process.env.RIGHTSIZING_WINDOW_DAYS) || 14;
+}
+
+export function isComputeInstance(asset: CloudAsset): boolean {
+  if (asset.provider === 'Manual' || !asset.resourceId) return false;
+  const instance = INSTANCE_SERVICES[asset.provider];
+  return asset.service === instance.service && instance.resourceId.test(asset.resourceId);
+}
+
+// Nearest-rank percentile of a set of samples, or undefined when there are none
+export function percentile(samples: number[], p: number): number | undefined {
+  if (samples.length === 0) return undefined;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const rank = Math.ceil(p / 100 * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+// Summarize hourly CPU and memory samples (percentages) for one instance
+export function summarizeUtilization(
+  provider: CloudProvider,
+  resourceId: string,
+  source: UtilizationSource,
+  windowDays: number,
+  cpuSamples: number[],
+  memorySamples: number[] = []
+): InstanceUtilization {
+  return {
+    provider,
+    resourceId,
+    windowDays,
+    sampleCount: cpuSamples.length,
+    cpuP50: percentile(cpuSamples, 50),
+    cpuP95: percentile(cpuSamples, 95),
+    cpuMax: percentile(cpuSamples, 100),
+    memoryP50: percentile(memorySamples, 50),
+    memoryP95: percentile(memorySamples, 95),
+    memoryMax: percentile(memorySamples, 100),
+    source,
+    collectedAt: new Date().toISOString(),
+  };
+}
+
+// Resource IDs differ in casing between monitoring data, CSV exports and inventory
+// APIs, and GCP uses full resource names ('//compute.googleapis.com/projects/...')
+export function utilizationKey(provider: string, resourceId: string): string {
+  return `${provider}|${resourceId.toLowerCase().replace(/^\/\/[^/]+\//, '')}`;
+}
+
+// Collect utilization for the running instances among the assets from every connector
+// that supports it; a failing provider is reported in errors rather than failing the rest
+export async function collectUtilization(
+  connectors: CloudConnector[],
+  assets: CloudAsset[],
+  windowDays: number = defaultUtilizationWindowDays()
+): Promise<{ utilization: InstanceUtilization[]; errors: string[] }> {
+  const instances = assets.filter(asset => isComputeInstance(asset) && asset.status === 'running');
+  const supported = connectors.filter(connector =>
+    connector.capabilities.utilizationMetrics &&
+    connector.fetchUtilization &&
+    instances.some(instance => instance.provider === connector.provider)
+  );
+
+  const results = await Promise.allSettled(
+    supported.map(connector => connector.fetchUtilization!(
+      instances.filter(instance => instance.provider === connector.provider),
+      windowDays
+    ))
+  );
+
+  const utilization: InstanceUtilization[] = [];
+  const errors: string[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      utilization.push(...result.value);
+    } else {
+      const error = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+      errors.push(`${supported[index].provider}: ${error}`);
+    }
+  });
+
+  return { utilization, errors };
+}
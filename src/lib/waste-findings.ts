@@ -0,0 +1,70 @@
+// Waste finding persistence
+import { prisma } from '@/lib/db';
+import { CloudProvider, WasteFinding, WasteRuleId } from '@/types';
+
+interface WasteFindingRow {
+  findingId: string;
+  ruleId: string;
+  assetId: string;
+  provider: string;
+  assetName: string;
+  service: string;
+  region: string;
+  accountId: string | null;
+  title: string;
+  detail: string;
+  estimatedMonthlyWaste: number;
+  currency: string;
+  estimateBasis: string;
+  detectedAt: Date;
+}
+
+export async function loadWasteFindings(provider?: CloudProvider): Promise<WasteFinding[]> {
+  const rows: WasteFindingRow[] = await prisma.wasteFinding.findMany({
+    where: provider ? { provider } : undefined,
+    orderBy: { estimatedMonthlyWaste: 'desc' },
+  });
+
+  return rows.map(row => ({
+    id: row.findingId,
+    ruleId: row.ruleId as WasteRuleId,
+    assetId: row.assetId,
+    provider: row.provider as CloudProvider,
+    assetName: row.assetName,
+    service: row.service,
+    region: row.region,
+    accountId: row.accountId ?? undefined,
+    title: row.title,
+    detail: row.detail,
+    estimatedMonthlyWaste: row.estimatedMonthlyWaste,
+    currency: row.currency,
+    estimateBasis: row.estimateBasis as WasteFinding['estimateBasis'],
+    detectedAt: row.detectedAt.toISOString(),
+  }));
+}
+
+// Replace a provider's findings with those of its latest scan, so resolved waste
+// disappears
+export async function saveWasteFindings(provider: CloudProvider, findings: WasteFinding[]): Promise<void> {
+  await prisma.$transaction([
+    prisma.wasteFinding.deleteMany({ where: { provider } }),
+    prisma.wasteFinding.createMany({
+      data: findings.map(finding => ({
+        findingId: finding.id,
+        ruleId: finding.ruleId,
+        assetId: finding.assetId,
+        provider: finding.provider,
+        assetName: finding.assetName,
+        service: finding.service,
+        region: finding.region,
+        accountId: finding.accountId ?? null,
+        title: finding.title,
+        detail: finding.detail,
+        estimatedMonthlyWaste: finding.estimatedMonthlyWaste,
+        currency: finding.currency,
+        estimateBasis: finding.estimateBasis,
+        detectedAt: new Date(finding.detectedAt),
+      })),
+    }),
+  ]);
+}
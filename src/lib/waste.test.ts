@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { CloudAsset } from "@/types";
+import { createCurrencyConverter } from "./currency";
+import { detectWaste } from "./waste";
+
+const NOW = new Date("2026-10-10T08:00:00.000Z");
+const OPTIONS = { snapshotAgeDays: 90, bucketIdleDays: 90 };
+const USD = createCurrencyConverter("USD", []);
+
+const asset = (id: string, fields: Partial<CloudAsset>): CloudAsset => ({
+  id,
+  provider: "AWS",
+  assetName: id,
+  service: "EC2",
+  region: "us-east-1",
+  criticality: "Low",
+  tags: [],
+  lastUpdated: NOW.toISOString(),
+  ...fields,
+});
+
+describe("detectWaste", () => {
+  it("prices the disks of stopped instances and unattached disks from list prices", () => {
+    const findings = detectWaste([
+      asset("i-0abc", { resourceId: "i-0abc", status: "stopped" }),
+      asset("vol-attached", { service: "EBS", assetType: "gp3", status: "running", connectedAssets: ["I-0ABC"], usageMetrics: { sizeGiB: 100 } }),
+      asset("vol-free", { service: "EBS", assetType: "gp2", status: "stopped", usageMetrics: { sizeGiB: 50 } }),
+      asset("i-0def", { resourceId: "i-0def", status: "running" }),
+    ], USD, OPTIONS, NOW);
+
+    expect(findings.map(finding => [finding.ruleId, finding.assetId, finding.estimatedMonthlyWaste, finding.estimateBasis])).toEqual([
+      ["stopped-instance-volumes", "i-0abc", 8, "list-price"],
+      ["unattached-disk", "vol-free", 5, "list-price"],
+    ]);
+    expect(findings[0].detail).toBe("Stopped with 1 attached disk (100 GiB) still billed");
+  });
+
+  it("projects the asset's own month-to-date cost to the full month", () => {
+    const [finding] = detectWaste([
+      asset("eipalloc-0abc", { assetType: "Elastic IP", costThisMonth: 1.2 }),
+    ], USD, OPTIONS, NOW);
+
+    // Ten days into a 31-day month
+    expect(finding.ruleId).toBe("unassociated-ip");
+    expect(finding.estimatedMonthlyWaste).toBeCloseTo(3.72);
+    expect(finding.estimateBasis).toBe("cost-data");
+  });
+
+  it("converts list prices into the reporting currency, or leaves them unknown without a rate", () => {
+    const rates = [{ baseCurrency: "EUR", quoteCurrency: "USD", rate: 1.25, effectiveDate: "2026-01-01" }];
+    const ip = asset("eipalloc-0abc", { assetType: "Elastic IP" });
+
+    const [euros] = detectWaste([ip], createCurrencyConverter("EUR", rates), OPTIONS, NOW);
+    const [pounds] = detectWaste([ip], createCurrencyConverter("GBP", rates), OPTIONS, NOW);
+
+    expect([euros.estimatedMonthlyWaste, euros.currency, euros.estimateBasis]).toEqual([2.92, "EUR", "list-price"]);
+    expect([pounds.estimatedMonthlyWaste, pounds.estimateBasis]).toEqual([0, "unknown"]);
+  });
+
+  it("flags snapshots and buckets by age and idle time", () => {
+    const findings = detectWaste([
+      asset("snap-old", { service: "EBS", assetType: "Snapshot (standard)", usageMetrics: { startTime: "2026-06-01T00:00:00.000Z", volumeSizeGiB: 200 } }),
+      asset("snap-new", { service: "EBS", assetType: "Snapshot (standard)", usageMetrics: { startTime: "2026-09-01T00:00:00.000Z", volumeSizeGiB: 200 } }),
+      asset("idle-bucket", { service: "S3", usageMetrics: { requestWindowDays: 90, creationDate: "2025-01-01", lastRequestTime: "2026-06-01T00:00:00.000Z" } }),
+      asset("busy-bucket", { service: "S3", usageMetrics: { requestWindowDays: 90, creationDate: "2025-01-01", lastRequestTime: "2026-10-09T00:00:00.000Z" } }),
+      asset("manual", { provider: "Manual", service: "EBS", status: "stopped" }),
+    ], USD, OPTIONS, NOW);
+
+    expect(findings.map(finding => [finding.ruleId, finding.assetId, finding.estimatedMonthlyWaste])).toEqual([
+      ["old-snapshot", "snap-old", 10],
+      ["idle-bucket", "idle-bucket", 0],
+    ]);
+    expect(findings[0].detail).toBe("Created 131 days ago (2026-06-01), 200 GiB");
+    expect(findings[1].detail).toBe("Last request 2026-06-01, none in the last 90 days");
+  });
+});
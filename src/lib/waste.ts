@@ -0,0 +1,326 @@
+// Idle and orphaned resource detection
+// Rules run over each scan's assets and flag resources that are billed without doing
+// any work: stopped instances whose disks are still billed, unattached disks,
+// unassociated static IPs, load balancers with nothing behind them, old snapshots and
+// buckets nobody has requested anything from. A finding's monthly waste comes from the
+// resource's own month-to-date cost when the scan attributed one, projected to the
+// full month, or otherwise from approximate on-demand list prices (USD, us-east-1 /
+// East US / us-central1) converted into the reporting currency.
+
+import { CloudAsset, CloudProvider, WasteFinding, WasteRuleId } from '@/types';
+import { CurrencyConverter } from '@/lib/currency';
+import { isComputeInstance } from './utilization';
+
+// Days of request history connectors collect for storage buckets
+export const BUCKET_ACTIVITY_WINDOW_DAYS = 90;
+
+const HOURS_PER_MONTH = 730;
+const GIB = 1024 ** 3;
+
+// Disk storage per GB-month by volume type, disk SKU or disk type
+const DISK_PRICES: Record<CloudProvider, Record<string, number>> = {
+  AWS: { gp3: 0.08, gp2: 0.10, io1: 0.125, io2: 0.125, st1: 0.045, sc1: 0.015, standard: 0.05 },
+  Azure: {
+    standard_lrs: 0.04,
+    standardssd_lrs: 0.075,
+    standardssd_zrs: 0.094,
+    premium_lrs: 0.15,
+    premium_zrs: 0.23,
+    premiumv2_lrs: 0.082,
+    ultrassd_lrs: 0.12,
+  },
+  GCP: { 'pd-standard': 0.04, 'pd-balanced': 0.10, 'pd-ssd': 0.17, 'pd-extreme': 0.125 },
+};
+
+// Snapshot storage per GB-month
+const SNAPSHOT_PRICES: Record<CloudProvider, Record<string, number>> = {
+  AWS: { standard: 0.05, archive: 0.0125 },
+  Azure: { standard: 0.05 },
+  GCP: { standard: 0.026 },
+};
+
+// Idle static IPs per month
+const IP_PRICES: Record<CloudProvider, number> = {
+  AWS: 0.005 * HOURS_PER_MONTH,
+  Azure: 0.005 * HOURS_PER_MONTH,
+  GCP: 0.01 * HOURS_PER_MONTH,
+};
+
+// Load balancer hours per month, by AWS type or Azure SKU
+const LOAD_BALANCER_PRICES: Record<CloudProvider, Record<string, number>> = {
+  AWS: {
+    classic: 0.025 * HOURS_PER_MONTH,
+    application: 0.0225 * HOURS_PER_MONTH,
+    network: 0.0225 * HOURS_PER_MONTH,
+    gateway: 0.0125 * HOURS_PER_MONTH,
+  },
+  Azure: { standard: 0.025 * HOURS_PER_MONTH, basic: 0 },
+  GCP: {},
+};
+
+export interface WasteRuleOptions {
+  snapshotAgeDays: number;  // Snapshots older than this are flagged
+  bucketIdleDays: number;  // Buckets without a request for this long are flagged
+}
+
+export function defaultWasteRuleOptions(): WasteRuleOptions {
+  return {
+    snapshotAgeDays: Number(process.env.WASTE_SNAPSHOT_AGE_DAYS) || 90,
+    bucketIdleDays: Number(process.env.WASTE_BUCKET_IDLE_DAYS) || 90,
+  };
+}
+
+interface WasteEstimate {
+  amount: number;  // Per month, in the reporting currency
+  basis: WasteFinding['estimateBasis'];
+}
+
+interface RuleContext {
+  options: WasteRuleOptions;
+  now: Date;
+  converter: CurrencyConverter;
+  disksByInstance: Map<string, CloudAsset[]>;
+}
+
+interface WasteRule {
+  id: WasteRuleId;
+  title: string;
+  // Why the asset is waste and what it costs, or null when the rule does not apply
+  evaluate(asset: CloudAsset, context: RuleContext): { detail: string; estimate: WasteEstimate } | null;
+}
+
+const RULES: WasteRule[] = [
+  {
+    id: 'stopped-instance-volumes',
+    title: 'Stopped instance with attached disks',
+    evaluate(asset, context) {
+      if (!isComputeInstance(asset) || asset.status !== 'stopped') return null;
+      const disks = [asset.id, asset.resourceId]
+        .flatMap(id => id ? context.disksByInstance.get(resourceKey(id)) || [] : [])
+        .filter((disk, index, all) => all.indexOf(disk) === index);
+      if (disks.length === 0) return null;
+
+      const sizeGiB = disks.reduce((sum, disk) => sum + (diskSizeGiB(disk) || 0), 0);
+      return {
+        detail: `Stopped with ${disks.length} attached disk${disks.length === 1 ? '' : 's'} (${sizeGiB} GiB) still billed`,
+        estimate: combineEstimates(disks.map(disk => estimate(disk, diskListPrice(disk), context))),
+      };
+    },
+  },
+  {
+    id: 'unattached-disk',
+    title: 'Unattached disk',
+    evaluate(asset, context) {
+      if (!isDisk(asset) || asset.status !== 'stopped' || (asset.connectedAssets || []).length > 0) return null;
+      const sizeGiB = diskSizeGiB(asset);
+      return {
+        detail: `${sizeGiB !== undefined ? `${sizeGiB} GiB ` : ''}${asset.assetType} disk not attached to any instance`,
+        estimate: estimate(asset, diskListPrice(asset), context),
+      };
+    },
+  },
+  {
+    id: 'unassociated-ip',
+    title: 'Unassociated static IP',
+    evaluate(asset, context) {
+      if (!isIdleAddress(asset)) return null;
+      const address = asset.usageMetrics?.publicIp || asset.usageMetrics?.ipAddress || asset.usageMetrics?.address;
+      return {
+        detail: `${address || 'Address'} is reserved but not associated with any resource`,
+        estimate: estimate(asset, asset.provider === 'Manual' ? undefined : IP_PRICES[asset.provider], context),
+      };
+    },
+  },
+  {
+    id: 'empty-load-balancer',
+    title: 'Load balancer without backends',
+    evaluate(asset, context) {
+      const metrics = asset.usageMetrics || {};
+      const empty = asset.provider === 'AWS' && asset.service === 'ELB'
+        ? (asset.assetType === 'classic' ? metrics.instanceCount : metrics.targetCount) === 0
+        : asset.provider === 'Azure' && asset.service === 'Load Balancer' && metrics.backendAddressCount === 0;
+      if (!empty || asset.status === 'terminated') return null;
+      return {
+        detail: asset.provider === 'AWS' ? 'No instances or targets registered' : 'Backend pools have no members',
+        estimate: estimate(asset, listPrice(LOAD_BALANCER_PRICES, asset, asset.assetType), context),
+      };
+    },
+  },
+  {
+    id: 'old-snapshot',
+    title: 'Old snapshot',
+    evaluate(asset, context) {
+      if (!isSnapshot(asset)) return null;
+      const created = asset.usageMetrics?.startTime || asset.usageMetrics?.creationTimestamp || asset.usageMetrics?.timeCreated;
+      const ageDays = created ? daysBetween(new Date(created), context.now) : undefined;
+      if (ageDays === undefined || Number.isNaN(ageDays) || ageDays < context.options.snapshotAgeDays) return null;
+
+      const sizeGiB = snapshotSizeGiB(asset);
+      const tier = asset.assetType?.toLowerCase().includes('archive') ? 'archive' : 'standard';
+      const pricePerGiB = listPrice(SNAPSHOT_PRICES, asset, tier);
+      return {
+        detail: `Created ${ageDays} days ago (${String(created).slice(0, 10)})${sizeGiB !== undefined ? `, ${Math.round(sizeGiB)} GiB` : ''}`,
+        estimate: estimate(asset, sizeGiB !== undefined && pricePerGiB !== undefined ? sizeGiB * pricePerGiB : undefined, context),
+      };
+    },
+  },
+  {
+    id: 'idle-bucket',
+    title: 'Bucket with no recent access',
+    evaluate(asset, context) {
+      const metrics = asset.usageMetrics || {};
+      if (!['S3', 'Storage Account', 'Cloud Storage'].includes(asset.service) || typeof metrics.requestWindowDays !== 'number') {
+        return null;
+      }
+      // Activity older than the provider keeps metrics for is unknown
+      const idleDays = Math.min(context.options.bucketIdleDays, metrics.requestWindowDays);
+      const created = metrics.creationDate || metrics.timeCreated;
+      if (created && daysBetween(new Date(created), context.now) < idleDays) return null;
+      if (metrics.lastRequestTime && daysBetween(new Date(metrics.lastRequestTime), context.now) < idleDays) return null;
+
+      return {
+        detail: metrics.lastRequestTime
+          ? `Last request ${String(metrics.lastRequestTime).slice(0, 10)}, none in the last ${idleDays} days`
+          : `No requests in the last ${idleDays} days`,
+        estimate: estimate(asset, undefined, context),
+      };
+    },
+  },
+];
+
+// Run every rule over a scan's assets. Costs attributed to the assets must be in the
+// converter's currency, as they are after a scan.
+export function detectWaste(
+  assets: CloudAsset[],
+  converter: CurrencyConverter,
+  options: WasteRuleOptions = defaultWasteRuleOptions(),
+  now: Date = new Date()
+): WasteFinding[] {
+  const disksByInstance = new Map<string, CloudAsset[]>();
+  for (const disk of assets.filter(isDisk)) {
+    for (const instanceId of disk.connectedAssets || []) {
+      const key = resourceKey(instanceId);
+      disksByInstance.set(key, [...disksByInstance.get(key) || [], disk]);
+    }
+  }
+
+  const context: RuleContext = { options, now, converter, disksByInstance };
+  const findings: WasteFinding[] = [];
+
+  for (const asset of assets) {
+    if (asset.provider === 'Manual') continue;
+    for (const rule of RULES) {
+      const result = rule.evaluate(asset, context);
+      if (!result) continue;
+      findings.push({
+        id: `${rule.id}:${asset.id}`,
+        ruleId: rule.id,
+        assetId: asset.id,
+        provider: asset.provider,
+        assetName: asset.assetName,
+        service: asset.service,
+        region: asset.region,
+        accountId: asset.accountId,
+        title: rule.title,
+        detail: result.detail,
+        estimatedMonthlyWaste: result.estimate.amount,
+        currency: converter.currency,
+        estimateBasis: result.estimate.basis,
+        detectedAt: now.toISOString(),
+      });
+    }
+  }
+
+  return findings.sort((a, b) => b.estimatedMonthlyWaste - a.estimatedMonthlyWaste);
+}
+
+// The asset's own cost projected from month-to-date to the full month, or the USD
+// list price converted at today's rate
+function estimate(asset: CloudAsset, listPriceUSD: number | undefined, context: RuleContext): WasteEstimate {
+  if (asset.costThisMonth && asset.costThisMonth > 0) {
+    const { now } = context;
+    const daysInMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)).getUTCDate();
+    return { amount: asset.costThisMonth / now.getUTCDate() * daysInMonth, basis: 'cost-data' };
+  }
+  if (listPriceUSD === undefined) return { amount: 0, basis: 'unknown' };
+
+  const amount = context.converter.convert(listPriceUSD, 'USD', context.now.toISOString());
+  return amount !== undefined ? { amount, basis: 'list-price' } : { amount: 0, basis: 'unknown' };
+}
+
+// Sum of several resources' estimates; any list-priced part makes the whole a list price
+function combineEstimates(estimates: WasteEstimate[]): WasteEstimate {
+  const amount = estimates.reduce((sum, item) => sum + item.amount, 0);
+  const bases = new Set(estimates.map(item => item.basis));
+  const basis = bases.size === 1 ? estimates[0].basis : amount > 0 ? 'list-price' : 'unknown';
+  return { amount, basis };
+}
+
+function listPrice(prices: Record<CloudProvider, Record<string, number>>, asset: CloudAsset, key: string | undefined): number | undefined {
+  if (asset.provider === 'Manual' || !key) return undefined;
+  return prices[asset.provider][key.toLowerCase()];
+}
+
+function isSnapshot(asset: CloudAsset): boolean {
+  return Boolean(asset.assetType?.startsWith('Snapshot'));
+}
+
+function isDisk(asset: CloudAsset): boolean {
+  if (isSnapshot(asset)) return false;
+  switch (asset.provider) {
+    case 'AWS':
+      return asset.service === 'EBS';
+    case 'Azure':
+      return asset.service === 'Managed Disk';
+    case 'GCP':
+      return asset.usageMetrics?.assetType === 'compute.googleapis.com/Disk';
+    default:
+      return false;
+  }
+}
+
+function isIdleAddress(asset: CloudAsset): boolean {
+  const metrics = asset.usageMetrics || {};
+  switch (asset.provider) {
+    case 'AWS':
+      return asset.assetType === 'Elastic IP' && !metrics.associationId;
+    case 'Azure':
+      return asset.service === 'Public IP' && !metrics.attachedTo;
+    case 'GCP':
+      return Boolean(asset.assetType?.startsWith('Static IP')) && metrics.status === 'RESERVED';
+    default:
+      return false;
+  }
+}
+
+function diskSizeGiB(disk: CloudAsset): number | undefined {
+  const metrics = disk.usageMetrics || {};
+  const size = Number(metrics.sizeGiB ?? metrics.diskSizeGB ?? metrics.sizeGb);
+  return Number.isFinite(size) && size > 0 ? size : undefined;
+}
+
+function diskListPrice(disk: CloudAsset): number | undefined {
+  const sizeGiB = diskSizeGiB(disk);
+  const pricePerGiB = listPrice(DISK_PRICES, disk, disk.assetType);
+  return sizeGiB !== undefined && pricePerGiB !== undefined ? sizeGiB * pricePerGiB : undefined;
+}
+
+// Stored size where the provider reports it (GCP, archived AWS snapshots), otherwise
+// the source disk's size, an upper bound for incremental snapshots
+function snapshotSizeGiB(snapshot: CloudAsset): number | undefined {
+  const metrics = snapshot.usageMetrics || {};
+  const bytes = Number(metrics.storageBytes ?? metrics.fullSnapshotSizeBytes);
+  if (Number.isFinite(bytes) && bytes > 0) return bytes / GIB;
+  const size = Number(metrics.volumeSizeGiB ?? metrics.diskSizeGB ?? metrics.diskSizeGb);
+  return Number.isFinite(size) && size > 0 ? size : undefined;
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.floor((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+// Disks refer to instances by resource ID (AWS, Azure, in varying case) or full
+// resource name (GCP, '//compute.googleapis.com/projects/...')
+function resourceKey(resourceId: string): string {
+  return resourceId.toLowerCase().replace(/^\/\/[^/]+\//, '');
+}
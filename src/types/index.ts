@@ -12,12 +12,19 @@ export interface CloudAsset {
   
   // Enhanced fields for auto-detected assets
   costThisMonth?: number;
+  costCurrency?: string;  // Currency of costThisMonth and costLastMonth
   costLastMonth?: number;
   usageMetrics?: Record<string, any>;
   connectedAssets?: string[];  // IDs of other related assets
   resourceId?: string;  // Native cloud provider resource ID
   assetType?: string;  // More specific type (e.g., 't3.micro', 'Standard_B2s')
   status?: 'running' | 'stopped' | 'terminated' | 'unknown';
+  accountId?: string;  // AWS account, Azure subscription or GCP project the asset belongs to
+  accountAlias?: string;  // Account alias or organization account name, subscription or project name
+  resourceGroup?: string;  // Azure resource group
+  ancestry?: string[];  // GCP organization and folders above the project, outermost first
+  billingAccountId?: string;  // GCP billing account the project is billed to
+  utilization?: InstanceUtilization;  // CPU and memory percentiles, for compute instances
 }
 
 export interface NewAsset {
@@ -29,10 +36,444 @@ export interface NewAsset {
   tags: string;
 }
 
+// Cost basis for summaries and trends: unblended (billed) cost, AWS blended cost,
+// amortized cost with commitment purchases spread over the usage they cover, or net
+// amortized cost after negotiated discounts
+export type CostMetric = 'unblended' | 'blended' | 'amortized' | 'net';
+
 export interface CostSummary {
+  costMetric: CostMetric;
+  currency: string;  // Reporting currency every amount is converted into
   totalCost: number;
   costByProvider: Record<string, number>;
   costByService: Record<string, number>;
   costByRegion: Record<string, number>;
-  monthlyTrend: Array<{ month: string; cost: number }>;
+  costByAccount: Record<string, number>;  // Keyed by sub-account ID
+  costByCategory: Record<string, number>;  // Every cost category, including those left out of the totals
+  includedCategories: CostCategory[];  // Categories counted in the totals and breakdowns
+  unattributedCost?: number;  // Scanned cost not billed to any discovered asset
+  monthlyTrend: Array<{ month: string; cost: number }>;  // The current month is partial; see ForecastReport for its projection
+  unconvertedCost?: Record<string, number>;  // Billing-currency amounts left out of the totals for lack of an exchange rate
+}
+
+export type CloudProvider = 'AWS' | 'Azure' | 'GCP';
+
+// What a cloud connector supports, so callers can decide which actions to offer
+export interface ConnectorCapabilities {
+  assetDiscovery: boolean;
+  costData: boolean;
+  resourceLevelCosts: boolean;  // Costs can be attributed to individual resources
+  billingExports: boolean;  // Can read costs from offline billing exports
+  commitments: boolean;  // Reports reservation and savings plan inventory, utilization and coverage
+  utilizationMetrics: boolean;  // Collects instance CPU and memory utilization from the provider's monitoring service
+}
+
+export interface CredentialField {
+  key: string;
+  label: string;
+  type?: 'text' | 'password' | 'textarea';
+  placeholder?: string;
+  required?: boolean;
+}
+
+// Serializable description of a registered connector, as listed by /api/connectors
+export interface ConnectorInfo {
+  id: string;
+  provider: CloudProvider;
+  displayName: string;
+  credentialFields: CredentialField[];
+  capabilities: ConnectorCapabilities;
+  configured: boolean;  // Server-side credentials are present in the environment
+}
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  message: string;
+}
+
+// FinOps FOCUS charge categories
+export type ChargeCategory = 'Usage' | 'Purchase' | 'Tax' | 'Credit' | 'Adjustment';
+
+// Reporting split of charges, so credits, refunds, tax, support and marketplace
+// purchases can be shown apart from or left out of the usage totals
+export type CostCategory = 'Usage' | 'Credit' | 'Refund' | 'Tax' | 'Support' | 'Marketplace';
+
+// Normalized billing line item following the FinOps FOCUS column set.
+// Every provider's cost data (live APIs and offline exports) is mapped into this shape
+// and all cost summaries and trends are computed from it.
+export interface FocusCostRecord {
+  providerName: CloudProvider;
+  billedCost: number;  // Amount invoiced for the charge
+  effectiveCost: number;  // Amortized cost after commitment discounts
+  blendedCost?: number;  // Extension: AWS blended cost; other providers fall back to billedCost
+  netCost?: number;  // Extension: effective cost after negotiated discounts; falls back to effectiveCost
+  billingCurrency: string;
+  chargeCategory: ChargeCategory;
+  costCategory?: CostCategory;  // Extension: derived from chargeCategory when absent
+  chargePeriodStart: string;  // ISO timestamp, inclusive
+  chargePeriodEnd: string;  // ISO timestamp, exclusive
+  serviceName: string;
+  regionId: string;
+  resourceId?: string;
+  subAccountId?: string;  // AWS account, Azure subscription or GCP project
+  subAccountName?: string;  // Display name of the sub-account (account alias, subscription or project name)
+  tags: Record<string, string>;
+  ancestry?: string[];  // Extension: resource hierarchy above the sub-account, outermost first
+}
+
+// Pre-paid or committed-use discounts: AWS Reserved Instances and Savings Plans,
+// Azure reservations and savings plans
+export type CommitmentType = 'ReservedInstance' | 'SavingsPlan' | 'Reservation';
+
+export interface Commitment {
+  id: string;  // Provider identifier (RI subscription ID, Savings Plan ARN, reservation ID)
+  provider: CloudProvider;
+  commitmentType: CommitmentType;
+  name: string;
+  description: string;  // What it covers, e.g. 'm5.large x 4' or 'Compute Savings Plan'
+  accountId?: string;  // Account or subscription that owns it
+  region?: string;
+  startDate?: string;  // ISO timestamp
+  endDate?: string;  // ISO timestamp
+  utilizationPercent?: number;  // Share of the commitment used over the report window
+  unusedCost?: number;  // Commitment paid for but not used over the report window
+  status?: string;
+}
+
+// Share of commitment-eligible spend covered by commitments over the report window
+export interface CommitmentCoverage {
+  provider: CloudProvider;
+  label: string;  // What the coverage is measured over, e.g. 'Savings Plans (eligible compute spend)'
+  coveredCost?: number;
+  onDemandCost?: number;
+  coveragePercent?: number;
+}
+
+export interface CommitmentData {
+  commitments: Commitment[];
+  coverage: CommitmentCoverage[];
+}
+
+export interface CommitmentReport extends CommitmentData {
+  windowDays: number;  // Utilization and coverage are measured over the last windowDays days
+  expiring: Commitment[];  // Ending within expiryDays
+  expiryDays: number;
+  underused: Commitment[];  // Utilization below utilizationThreshold
+  utilizationThreshold: number;  // Percent
+  errors?: string[];
+}
+
+// Where instance utilization was collected: the provider's monitoring service or an
+// imported metrics CSV
+export type UtilizationSource = 'cloudwatch' | 'azure-monitor' | 'cloud-monitoring' | 'csv';
+
+// CPU and memory utilization of one compute instance over the collection window, as
+// percentiles of hourly averages. Memory is only reported where an agent collects it.
+export interface InstanceUtilization {
+  provider: CloudProvider;
+  resourceId: string;  // Matches CloudAsset.resourceId
+  windowDays: number;
+  sampleCount: number;  // Hourly CPU samples behind the percentiles
+  cpuP50?: number;
+  cpuP95?: number;
+  cpuMax?: number;
+  memoryP50?: number;
+  memoryP95?: number;
+  memoryMax?: number;
+  source: UtilizationSource;
+  collectedAt: string;  // ISO timestamp
+}
+
+// Instance type from the local catalog used to size and price recommendations
+export interface InstanceType {
+  provider: CloudProvider;
+  name: string;  // e.g. 'm5.xlarge', 'Standard_D4s_v5', 'n2-standard-4'
+  family: string;  // Sizes within a family share a processor and memory ratio
+  vcpus: number;
+  memoryGiB: number;
+  hourlyCost: number;  // On-demand Linux price in USD
+}
+
+export interface RightsizingRecommendation {
+  assetId: string;
+  provider: CloudProvider;
+  assetName: string;
+  region: string;
+  accountId?: string;
+  currentType: string;
+  recommendedType: string;
+  cpuP95?: number;
+  memoryP95?: number;
+  currentMonthlyCost: number;  // Catalog price, in USD
+  recommendedMonthlyCost: number;
+  estimatedMonthlySavings: number;
+  reason: string;
+}
+
+export interface RightsizingReport {
+  recommendations: RightsizingRecommendation[];  // Largest savings first
+  totalMonthlySavings: number;
+  currency: string;  // Catalog prices are in USD
+  windowDays: number;
+  analyzedInstances: number;  // Running instances with enough utilization samples
+  withoutMetrics: string[];  // Running instance asset IDs with no or too few samples
+  unknownTypes: string[];  // Instance types missing from the catalog
+  errors?: string[];
+}
+
+// Waste rules run over the assets of every scan
+export type WasteRuleId =
+  | 'stopped-instance-volumes'
+  | 'unattached-disk'
+  | 'unassociated-ip'
+  | 'empty-load-balancer'
+  | 'old-snapshot'
+  | 'idle-bucket';
+
+// An idle or orphaned resource that is still billed
+export interface WasteFinding {
+  id: string;  // '{ruleId}:{assetId}'
+  ruleId: WasteRuleId;
+  assetId: string;  // CloudAsset.id of the flagged resource
+  provider: CloudProvider;
+  assetName: string;
+  service: string;
+  region: string;
+  accountId?: string;
+  title: string;  // What the rule looks for, e.g. 'Unattached disk'
+  detail: string;  // Why this asset matched
+  estimatedMonthlyWaste: number;
+  currency: string;
+  // Month-to-date cost projected to a full month, list prices, or neither available
+  estimateBasis: 'cost-data' | 'list-price' | 'unknown';
+  detectedAt: string;  // ISO timestamp
+}
+
+// Cost groupings checked for anomalies every day
+export type AnomalyDimension = 'provider' | 'service' | 'account' | 'tag';
+
+export type AnomalySeverity = 'low' | 'medium' | 'high';
+
+// Service and account combination inside an anomalous grouping, with its own baseline
+export interface AnomalyRootCause {
+  service: string;
+  accountId?: string;
+  expectedCost: number;
+  actualCost: number;
+}
+
+// A day whose cost rose well above its day-of-week adjusted baseline
+export interface CostAnomaly {
+  id: string;  // '{date}|{dimension}|{provider}|{tagKey}|{value}'
+  date: string;  // YYYY-MM-DD
+  provider: CloudProvider;
+  dimension: AnomalyDimension;
+  tagKey?: string;  // For tag anomalies
+  value: string;  // Provider name, service name, account ID or tag value
+  expectedCost: number;
+  actualCost: number;
+  score: number;  // Robust z-score: distance above the baseline in MAD units
+  severity: AnomalySeverity;
+  rootCauses: AnomalyRootCause[];  // Largest increases first
+  currency: string;
+  costMetric: CostMetric;
+  detectedAt: string;  // ISO timestamp
+}
+
+// Spend over a month or quarter: what was billed on complete days so far plus the
+// projection of the remaining days, with a confidence interval
+export interface SpendProjection {
+  periodStart: string;  // YYYY-MM-DD
+  periodEnd: string;  // YYYY-MM-DD, inclusive
+  actualCost: number;
+  forecastCost: number;
+  lowerBound: number;
+  upperBound: number;
+}
+
+export interface SpendForecast {
+  provider?: CloudProvider;  // Absent for the overall forecast
+  service?: string;
+  month: SpendProjection;
+  quarter: SpendProjection;
+  lastMonthCost: number;
+}
+
+export interface ForecastReport {
+  costMetric: CostMetric;
+  currency: string;
+  confidence: number;  // Percent covered by the bounds
+  asOf: string;  // Last complete day, YYYY-MM-DD
+  historyDays: number;
+  total: SpendForecast;
+  byProvider: SpendForecast[];
+  byService: SpendForecast[];  // Largest month-end forecast first
+  periodCost?: Record<string, number>;  // Per provider, cost of line items charged for more than a day, left out of the fit
+  unconvertedCost?: Record<string, number>;
+}
+
+// Projected month total for the trend chart: the current month and the rest of the quarter
+export interface MonthlyProjection {
+  provider: CloudProvider;
+  month: string;  // First day, like the trend months
+  actualCost: number;
+  forecastCost: number;
+  lowerBound: number;
+  upperBound: number;
+}
+
+// What a budget covers: all spend, or one provider, account, service, tag value or team
+export type BudgetScope = 'all' | 'provider' | 'account' | 'service' | 'tag' | 'team';
+
+export type BudgetPeriod = 'monthly' | 'annual';
+
+// Alert level, as a percentage of the budget reached by the actual or forecast spend
+export interface BudgetThreshold {
+  percent: number;
+  basis: 'actual' | 'forecast';
+}
+
+export interface Budget {
+  id: string;
+  name: string;
+  scope: BudgetScope;
+  scopeValue?: string;  // Provider name, account ID, service name, tag value or team; absent for 'all'
+  tagKey?: string;  // For tag budgets
+  period: BudgetPeriod;
+  amount: number;  // Per period
+  currency: string;
+  thresholds: BudgetThreshold[];
+  createdAt: string;  // ISO timestamp
+  updatedAt: string;
+}
+
+// A budget's spend in its current period
+export interface BudgetStatus {
+  budget: Budget;
+  periodStart: string;  // YYYY-MM-DD
+  periodEnd: string;  // YYYY-MM-DD, inclusive
+  actualCost: number;  // Complete days so far
+  forecastCost: number;  // Projected to the end of the period
+  percentUsed: number;
+  percentForecast: number;
+  burnRate: number;  // Average daily spend so far
+  remainingDailyBudget: number;  // Daily spend that uses up exactly the rest of the budget
+  crossedThresholds: BudgetThreshold[];
+  evaluatedAt: string;  // ISO timestamp
+}
+
+// A threshold first crossed in a budget period; each is raised once per period
+export interface BudgetAlert {
+  budgetId: string;
+  budgetName: string;
+  periodStart: string;  // YYYY-MM-DD
+  threshold: BudgetThreshold;
+  cost: number;  // Actual or forecast spend that crossed the threshold
+  amount: number;
+  currency: string;
+  crossedAt: string;  // ISO timestamp
+}
+
+export type NotificationChannelType = 'webhook' | 'email' | 'slack' | 'teams';
+
+export type NotificationEventType = 'budget' | 'anomaly' | 'scan-failure' | 'test';
+
+export type NotificationSeverity = 'info' | 'warning' | 'critical';
+
+// Something worth telling people about, as routed to every subscribed channel
+export interface NotificationEvent {
+  type: NotificationEventType;
+  severity: NotificationSeverity;
+  title: string;
+  summary: string;  // Plain text, one line per item
+  data?: unknown;  // The alerts, anomalies or errors behind the event, sent to generic webhooks
+  occurredAt: string;  // ISO timestamp
+}
+
+// Message text with {{title}}, {{summary}}, {{severity}}, {{type}} and {{occurredAt}} placeholders
+export interface NotificationTemplate {
+  subject?: string;
+  body?: string;
+}
+
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  type: NotificationChannelType;
+  config: Record<string, string>;  // Per the channel type's config fields; secrets are masked when listed
+  events: NotificationEventType[];  // Empty for every event type
+  minSeverity: NotificationSeverity;
+  template?: NotificationTemplate;  // Replaces the channel type's default template
+  enabled: boolean;
+  createdAt: string;  // ISO timestamp
+  updatedAt: string;
+}
+
+// Serializable description of a channel type, as listed by /api/notifications/channels
+export interface NotificationChannelTypeInfo {
+  type: NotificationChannelType;
+  displayName: string;
+  configFields: CredentialField[];
+}
+
+// One event sent to one channel, after any retries
+export interface NotificationDelivery {
+  channelId: string;
+  channelName: string;
+  eventType: NotificationEventType;
+  severity: NotificationSeverity;
+  title: string;
+  status: 'delivered' | 'failed';
+  attempts: number;
+  error?: string;  // Last attempt's error
+  createdAt: string;  // ISO timestamp
+}
+
+// Chargeback dimension a tag rule can assign
+export type AllocationDimension = 'team' | 'product' | 'costCenter';
+
+// Ordered tag rule for showback and chargeback. A line item matches when it carries
+// tagKey with one of tagValues (any value when empty); each dimension comes from the
+// first matching rule that sets it. Assignments may use {{value}} for the tag value.
+export interface AllocationRule {
+  id: string;
+  name: string;
+  tagKey: string;
+  tagValues: string[];
+  team?: string;
+  product?: string;
+  costCenter?: string;
+  enabled: boolean;
+}
+
+// Cost of one team, product, provider and service within a cost center
+export interface ChargebackLine {
+  team: string;
+  product: string;
+  provider: CloudProvider;
+  service: string;
+  cost: number;
+}
+
+export interface CostCenterCharge {
+  costCenter: string;
+  cost: number;
+  share: number;  // Percentage of the month's total
+  lines: ChargebackLine[];  // Most expensive first
+}
+
+// One month's cost allocated to cost centers, teams and products. Cost no rule
+// assigns goes to the 'unallocated' bucket of that dimension.
+export interface ChargebackReport {
+  month: string;  // YYYY-MM
+  currency: string;
+  costMetric: CostMetric;
+  totalCost: number;
+  unallocatedCost: number;  // Cost without a cost center
+  costCenters: CostCenterCharge[];  // Most expensive first, 'unallocated' included
+  costByTeam: Record<string, number>;
+  costByProduct: Record<string, number>;
+  costByRule: Record<string, number>;  // Keyed by rule ID: cost of the line items each rule assigned anything to
+  unconvertedCost?: Record<string, number>;  // Billing-currency amounts left out for lack of an exchange rate
+  generatedAt: string;  // ISO timestamp
 }